@@ -0,0 +1,10 @@
+// wrangler bundles .wasm imports as precompiled modules
+declare module '*.wasm' {
+  const module: WebAssembly.Module;
+  export default module;
+}
+
+// Rapier's wasm-bindgen glue ships without type declarations
+declare module '@dimforge/rapier2d/rapier_wasm2d_bg.js' {
+  export function __wbg_set_wasm(exports: WebAssembly.Exports): void;
+}
@@ -1,6 +1,19 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { auth } from './auth';
+import { migrateLevelData } from '../../frontend/src/game/levels/LevelMigrations';
+import { validateLevelData } from '../../frontend/src/game/levels/LevelValidator';
+import { verifyReplay, type ReplayVerifyOptions } from '../../frontend/src/game/simulation/ReplayVerifier';
+import { decodeReplay } from '../../frontend/src/game/simulation/Replay';
+import { getClearStats, rateClear } from '../../frontend/src/game/levels/StarRating';
+import type { LevelData } from '../../frontend/src/game/levels/LevelSchema';
+import { FIXED_TIMESTEP } from '../../frontend/src/game/physics/PhysicsConfig';
+import {
+  parseSearchParams, decodeCursor, encodeCursor, DEFAULT_PAGE_SIZE,
+  type LevelSearchQuery, type LevelSortMode,
+} from '../../frontend/src/game/levels/LevelSearch';
+import type { RemoteDraft } from '../../frontend/src/game/levels/DraftSync';
+import { initRapier } from './rapier';
 
 
 
@@ -33,6 +46,49 @@ const getUserId = async (c: any): Promise<string | null> => {
   return null;
 };
 
+// Helper to check that the session user owns an existing level.
+// Returns an error response to send, or null when the caller may proceed.
+const checkOwnership = async (c: any, levelId: string): Promise<Response | null> => {
+  const userId = await getUserId(c);
+  if (!userId) return c.json({ error: 'Unauthorized: Missing User ID' }, 401);
+
+  const level = await c.env.DB.prepare('SELECT author_id FROM levels WHERE id = ?').bind(levelId).first();
+  if (!level) return c.json({ error: 'Level not found' }, 404);
+  if (level.author_id !== userId) return c.json({ error: 'Forbidden: Not the level author' }, 403);
+
+  return null;
+};
+
+// Helper to parse a stored level row, upgrading its data to the current schema version
+const parseLevelData = (row: any) => migrateLevelData(JSON.parse(row.data as string));
+
+// Helper to re-simulate a submitted replay as proof that a level can be cleared.
+// Returns an error response to send, or null when the replay wins the level.
+const checkReplay = async (
+  c: any, level: LevelData, replay: unknown, options: ReplayVerifyOptions = {}
+): Promise<Response | null> => {
+  try {
+    await initRapier();
+  } catch (e: any) {
+    console.error('Rapier failed to load', e);
+    return c.json({ error: 'Replay verification is unavailable', reason: 'verification_unavailable' }, 503);
+  }
+
+  // Anything thrown from here on is a bug or bad data, which retrying will not fix
+  let verification;
+  try {
+    verification = await verifyReplay(level, replay, options);
+  } catch (e: any) {
+    console.error(`Replay verification failed on level ${level.id}`, e);
+    return c.json({ error: 'Replay verification failed', reason: 'verification_failed' }, 500);
+  }
+
+  if (!verification.verified) {
+    return c.json({ error: verification.message, reason: verification.reason }, 422);
+  }
+  return null;
+};
+
 
 // ==================== Auth ====================
 
@@ -46,68 +102,164 @@ app.on(['POST', 'GET'], '/api/auth/*', (c) => {
 
 // ==================== Levels ====================
 
-// Get all published levels
-app.get('/levels', async (c) => {
+// Columns and joins adding the session user's best stars and like to level rows
+// (bind the user ID, or null, once for each join)
+const USER_STATE_COLUMNS = 'r.stars AS best_stars, lk.user_id IS NOT NULL AS liked';
+const USER_STATE_JOINS = `LEFT JOIN level_results r ON r.level_id = levels.id AND r.user_id = ?
+  LEFT JOIN likes lk ON lk.level_id = levels.id AND lk.user_id = ?`;
+
+// Level row (with the user state columns) as returned to clients
+const toLevelResponse = (row: any) => ({
+  ...parseLevelData(row),
+  likes: row.likes,
+  attempts: row.attempts,
+  clears: row.clears,
+  authorId: row.author_id, // Ensure consistent authorId
+  createdAt: row.created_at, // Listings are ordered by the column, not the document
+  bestStars: row.best_stars ?? undefined,
+  isLikedByCurrentUser: !!row.liked,
+});
+
+// Columns each listing is ordered by, all descending.
+// The last row's values are the cursor for the next page (see LevelSearch).
+const SORT_COLUMNS: Record<LevelSortMode, string[]> = {
+  latest: ['created_at', 'id'],
+  popular: ['likes', 'created_at', 'id'],
+};
+
+// Escape LIKE wildcards in user input (used with ESCAPE '\\')
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, '\\$&');
+
+// Send one page of the published levels matching a query
+const listLevels = async (c: any, query: LevelSearchQuery): Promise<Response> => {
+  const userId = await getUserId(c);
+  const sort = query.sort ?? 'latest';
+  const columns = SORT_COLUMNS[sort].map(column => `levels.${column}`);
+
+  const conditions = ['is_published = 1'];
+  const params: unknown[] = [userId, userId];
+
+  if (query.text) {
+    const pattern = `%${escapeLike(query.text)}%`;
+    conditions.push(`(json_extract(data, '$.title') LIKE ? ESCAPE '\\'
+      OR json_extract(data, '$.description') LIKE ? ESCAPE '\\'
+      OR author_name LIKE ? ESCAPE '\\')`);
+    params.push(pattern, pattern, pattern);
+  }
+  if (query.tag) {
+    conditions.push(`EXISTS (SELECT 1 FROM json_each(levels.data, '$.tags') WHERE json_each.value = ?)`);
+    params.push(query.tag);
+  }
+  if (query.authorId) {
+    conditions.push('author_id = ?');
+    params.push(query.authorId);
+  }
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor, sort);
+    if (!after) return c.json({ error: 'Invalid cursor' }, 400);
+    conditions.push(`(${columns.join(', ')}) < (${columns.map(() => '?').join(', ')})`);
+    params.push(...after);
+  }
+
+  // One row more than the page tells whether there is a next page
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
   const { results } = await c.env.DB.prepare(
-    `SELECT * FROM levels WHERE is_published = 1 ORDER BY created_at DESC LIMIT 50`
-  ).all();
-
-  const levels = results.map((row: any) => {
-    const data = JSON.parse(row.data);
-    return {
-      ...data,
-      likes: row.likes,
-      attempts: row.attempts,
-      clears: row.clears,
-      authorId: row.author_id, // Ensure consistent authorId
-    };
+    `SELECT levels.*, ${USER_STATE_COLUMNS} FROM levels ${USER_STATE_JOINS}
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY ${columns.map(column => `${column} DESC`).join(', ')} LIMIT ?`
+  ).bind(...params, limit + 1).all();
+
+  const rows: any[] = results.slice(0, limit);
+  const last = rows[rows.length - 1];
+  return c.json({
+    levels: rows.map(toLevelResponse),
+    nextCursor: results.length > limit ? encodeCursor(SORT_COLUMNS[sort].map(column => last[column])) : null,
   });
+};
+
+// Get published levels
+// Query: sort ('latest' | 'popular'), limit, cursor (nextCursor of the previous page)
+app.get('/levels', async (c) => {
+  const { sort, limit, cursor } = parseSearchParams(c.req.query());
+  return listLevels(c, { sort, limit, cursor });
+});
 
-  return c.json(levels);
+// Search published levels
+// Query: q (title, description or author name), tag, author (user ID), plus the paging parameters of GET /levels
+// Registered before /levels/:id so "search" is not taken for an ID
+app.get('/levels/search', async (c) => {
+  return listLevels(c, parseSearchParams(c.req.query()));
 });
 
-// Get specific level
+// Get specific level (unpublished levels only for their author)
 app.get('/levels/:id', async (c) => {
   const id = c.req.param('id');
-  const level = await c.env.DB.prepare('SELECT * FROM levels WHERE id = ?').bind(id).first();
+  const userId = await getUserId(c);
+  const level = await c.env.DB.prepare(
+    `SELECT levels.*, ${USER_STATE_COLUMNS} FROM levels ${USER_STATE_JOINS}
+     WHERE id = ? AND (is_published = 1 OR author_id = ?)`
+  ).bind(userId, userId, id, userId).first();
 
   if (!level) return c.json({ error: 'Level not found' }, 404);
 
-  const data = JSON.parse(level.data as string);
-  return c.json({
-    ...data,
-    likes: level.likes,
-    attempts: level.attempts,
-    clears: level.clears,
-  });
+  return c.json(toLevelResponse(level));
 });
 
 // Publish level
+// Body: { level: LevelData, replay: string } where replay is an encoded solution replay
 app.post('/levels/:id/publish', async (c) => {
   const id = c.req.param('id');
-  const body = await c.req.json();
+  const { level: body, replay } = await c.req.json();
   const userId = await getUserId(c);
 
   if (!userId) {
     return c.json({ error: 'Unauthorized: Missing User ID' }, 401);
   }
 
+  // Republishing must not overwrite another author's level
+  const existing = await c.env.DB.prepare('SELECT author_id FROM levels WHERE id = ?').bind(id).first();
+  if (existing && existing.author_id !== userId) {
+    return c.json({ error: 'Forbidden: Not the level author' }, 403);
+  }
+
+  // Upgrade documents from older clients before storing
+  let migrated;
+  try {
+    migrated = migrateLevelData(body);
+  } catch (e: any) {
+    return c.json({ error: e.message }, 400);
+  }
+
   // Ensure basic fields
-  const levelData = { ...body, id, authorId: userId, isPublished: true };
+  const levelData = { ...migrated, id, authorId: userId, isPublished: true };
+
+  const validation = validateLevelData(levelData);
+  if (!validation.valid) {
+    return c.json({ error: 'Invalid level data', details: validation.errors }, 400);
+  }
+
+  // The author must prove the level can be cleared
+  const rejected = await checkReplay(c, levelData, replay);
+  if (rejected) return rejected;
+  levelData.authorPassed = true;
+
   const json = JSON.stringify(levelData);
 
-  // Upsert level
+  // Upsert level. A synced draft is listed from the time it is published, not from when it was started.
   const query = `
-    INSERT INTO levels (id, author_id, author_name, data, is_published, updated_at)
-    VALUES (?, ?, ?, ?, 1, ?)
+    INSERT INTO levels (id, author_id, author_name, data, is_published, created_at, updated_at)
+    VALUES (?, ?, ?, ?, 1, ?, ?)
     ON CONFLICT(id) DO UPDATE SET
       data = excluded.data,
       is_published = 1,
+      created_at = CASE WHEN levels.is_published = 1 THEN levels.created_at ELSE excluded.created_at END,
       updated_at = excluded.updated_at
+    WHERE levels.author_id = excluded.author_id
   `;
 
+  const now = Date.now();
   await c.env.DB.prepare(query)
-    .bind(id, userId, body.author || 'Anonymous', json, Date.now())
+    .bind(id, userId, body.author || 'Anonymous', json, now, now)
     .run();
 
   return c.json({ success: true });
@@ -116,7 +268,9 @@ app.post('/levels/:id/publish', async (c) => {
 // Unpublish level
 app.post('/levels/:id/unpublish', async (c) => {
   const id = c.req.param('id');
-  // In a real app, verify author ownership here using x-user-id
+  const denied = await checkOwnership(c, id);
+  if (denied) return denied;
+
   await c.env.DB.prepare('UPDATE levels SET is_published = 0, updated_at = ? WHERE id = ?')
     .bind(Date.now(), id)
     .run();
@@ -127,44 +281,41 @@ app.post('/levels/:id/unpublish', async (c) => {
 // Delete level
 app.delete('/levels/:id', async (c) => {
   const id = c.req.param('id');
-  // In a real app, check ownership
+  const denied = await checkOwnership(c, id);
+  if (denied) return denied;
+
   await c.env.DB.prepare('DELETE FROM levels WHERE id = ?').bind(id).run();
   return c.json({ success: true });
 });
 
-// Like level
+// Like or unlike level
+// Body: { liked: boolean }, the state to set; repeating a request changes nothing.
+// Answers { liked, likes } with the level's new like count.
 app.post('/levels/:id/like', async (c) => {
   const levelId = c.req.param('id');
+  const { liked } = await c.req.json().catch(() => ({}));
   const userId = await getUserId(c);
 
   if (!userId) return c.json({ error: 'User ID required' }, 401);
+  if (typeof liked !== 'boolean') return c.json({ error: 'liked must be a boolean' }, 400);
 
-  // Check if already liked
-  const existing = await c.env.DB.prepare('SELECT * FROM likes WHERE user_id = ? AND level_id = ?')
-    .bind(userId, levelId)
-    .first();
-
-  let liked = false;
-  if (existing) {
-    // Unlike
-    await c.env.DB.prepare('DELETE FROM likes WHERE user_id = ? AND level_id = ?')
-      .bind(userId, levelId)
-      .run();
-    await c.env.DB.prepare('UPDATE levels SET likes = likes - 1 WHERE id = ?')
-      .bind(levelId)
-      .run();
-  } else {
-    // Like
-    await c.env.DB.prepare('INSERT INTO likes (user_id, level_id) VALUES (?, ?)')
-      .bind(userId, levelId)
-      .run();
-    await c.env.DB.prepare('UPDATE levels SET likes = likes + 1 WHERE id = ?')
-      .bind(levelId)
-      .run();
-    liked = true;
-  }
+  const level = await c.env.DB.prepare('SELECT id FROM levels WHERE id = ? AND is_published = 1').bind(levelId).first();
+  if (!level) return c.json({ error: 'Level not found' }, 404);
 
-  return c.json({ liked });
+  // One batch (a single transaction): the count is recounted from the likes table,
+  // so it cannot drift from it however requests interleave
+  const change = liked
+    ? c.env.DB.prepare('INSERT INTO likes (user_id, level_id) VALUES (?, ?) ON CONFLICT DO NOTHING').bind(userId, levelId)
+    : c.env.DB.prepare('DELETE FROM likes WHERE user_id = ? AND level_id = ?').bind(userId, levelId);
+  const results = await c.env.DB.batch([
+    change,
+    c.env.DB.prepare('UPDATE levels SET likes = (SELECT COUNT(*) FROM likes WHERE level_id = ?) WHERE id = ?')
+      .bind(levelId, levelId),
+    c.env.DB.prepare('SELECT likes FROM levels WHERE id = ?').bind(levelId),
+  ]);
+
+  const row = results[2].results[0] as { likes: number } | undefined;
+  return c.json({ liked, likes: row?.likes ?? 0 });
 });
 
 // Get likes count
@@ -181,11 +332,59 @@ app.post('/levels/:id/attempt', async (c) => {
   return c.json({ success: true });
 });
 
+// Longest clear the server re-simulates; the simulation runs within the request's CPU time
+const MAX_CLEAR_FRAME = Math.round(2 * 60 / FIXED_TIMESTEP); // 2 minutes
+
 // Record stats (Clear)
+// Body: { replay: string }; only counted if the replay clears the level.
+// Each user's first clear counts once; the replay is rated and kept if it is their best.
 app.post('/levels/:id/clear', async (c) => {
   const id = c.req.param('id');
-  await c.env.DB.prepare('UPDATE levels SET clears = clears + 1 WHERE id = ?').bind(id).run();
-  return c.json({ success: true });
+  const { replay } = await c.req.json().catch(() => ({}));
+  const userId = await getUserId(c);
+
+  if (!userId) return c.json({ error: 'User ID required' }, 401);
+
+  const level = await c.env.DB.prepare('SELECT data FROM levels WHERE id = ? AND is_published = 1').bind(id).first();
+  if (!level) return c.json({ error: 'Level not found' }, 404);
+
+  // Published levels were validated when stored, so this is a data problem on our side
+  const levelData = { ...parseLevelData(level), id };
+  if (!validateLevelData(levelData).valid) {
+    console.error(`Stored level ${id} is invalid`);
+    return c.json({ error: 'Stored level data is invalid', reason: 'invalid_level_data' }, 500);
+  }
+
+  const rejected = await checkReplay(c, levelData, replay, { maxFrame: MAX_CLEAR_FRAME });
+  if (rejected) return rejected;
+
+  // Already verified, so it decodes
+  const { strokes, frame } = decodeReplay(replay);
+  const stats = getClearStats(strokes, frame);
+  const stars = rateClear(levelData.starThresholds, stats);
+
+  // One batch (a single transaction): the clear only counts while the user has no result
+  // for the level yet. Same ordering as isBetterResult: more stars, then a faster time.
+  await c.env.DB.batch([
+    c.env.DB.prepare(`
+      UPDATE levels SET clears = clears + 1
+      WHERE id = ? AND NOT EXISTS (SELECT 1 FROM level_results WHERE user_id = ? AND level_id = ?)
+    `).bind(id, userId, id),
+    c.env.DB.prepare(`
+      INSERT INTO level_results (user_id, level_id, stars, strokes, ink, time, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(user_id, level_id) DO UPDATE SET
+        stars = excluded.stars,
+        strokes = excluded.strokes,
+        ink = excluded.ink,
+        time = excluded.time,
+        updated_at = excluded.updated_at
+      WHERE excluded.stars > level_results.stars
+        OR (excluded.stars = level_results.stars AND excluded.time < level_results.time)
+    `).bind(userId, id, stars, stats.strokes, stats.ink, stats.time, Date.now()),
+  ]);
+
+  return c.json({ success: true, stars });
 });
 
 // ==================== Users ====================
@@ -226,6 +425,85 @@ app.put('/users/me', async (c) => {
   return c.json(body);
 });
 
+// ==================== Drafts ====================
+// Drafts are the author's unpublished level rows; `updated_at` is their version (see DraftSync)
+
+// Draft row as returned to clients
+const toRemoteDraft = (row: any): RemoteDraft => ({
+  level: { ...parseLevelData(row), id: row.id, authorId: row.author_id, isPublished: false },
+  version: row.updated_at ?? 0,
+});
+
+// Get the current user's drafts
+app.get('/users/me/drafts', async (c) => {
+  const userId = await getUserId(c);
+  if (!userId) return c.json({ error: 'User ID required' }, 401);
+
+  const { results } = await c.env.DB.prepare('SELECT * FROM levels WHERE author_id = ? AND is_published = 0')
+    .bind(userId)
+    .all();
+  return c.json({ drafts: results.map(toRemoteDraft) });
+});
+
+// Store a draft
+// Body: { level: LevelData, baseVersion: number | null } where baseVersion is the version the client's
+// copy was last in step with (null for a new draft). Answers { version }, or 409 if the server copy
+// changed since (reason 'draft_conflict', with the server copy as `draft`) or was published (reason 'published').
+app.put('/users/me/drafts/:id', async (c) => {
+  const id = c.req.param('id');
+  const { level: body, baseVersion } = await c.req.json();
+  const userId = await getUserId(c);
+
+  if (!userId) return c.json({ error: 'User ID required' }, 401);
+
+  const existing = await c.env.DB.prepare('SELECT * FROM levels WHERE id = ?').bind(id).first();
+  if (existing && existing.author_id !== userId) {
+    return c.json({ error: 'Forbidden: Not the level author' }, 403);
+  }
+
+  let migrated;
+  try {
+    migrated = migrateLevelData(body);
+  } catch (e: any) {
+    return c.json({ error: e.message }, 400);
+  }
+
+  const levelData = { ...migrated, id, authorId: userId, isPublished: false };
+  const validation = validateLevelData(levelData);
+  if (!validation.valid) {
+    return c.json({ error: 'Invalid level data', details: validation.errors }, 400);
+  }
+
+  // Written only if the row is still the version the client started from, so an upload
+  // racing one from another device cannot overwrite it. A new draft (-1) never matches.
+  const version = Math.max(Date.now(), ((existing?.updated_at as number) ?? 0) + 1);
+  const json = JSON.stringify(levelData);
+  const authorName = body.author || 'Anonymous';
+  const result = existing
+    ? await c.env.DB.prepare(`
+        UPDATE levels SET data = ?, author_name = ?, updated_at = ?
+        WHERE id = ? AND is_published = 0 AND COALESCE(updated_at, 0) = ?
+      `).bind(json, authorName, version, id, typeof baseVersion === 'number' ? baseVersion : -1).run()
+    : await c.env.DB.prepare(`
+        INSERT INTO levels (id, author_id, author_name, data, is_published, updated_at)
+        VALUES (?, ?, ?, ?, 0, ?)
+        ON CONFLICT(id) DO NOTHING
+      `).bind(id, userId, authorName, json, version).run();
+
+  if (result.meta.changes === 0) {
+    const current = await c.env.DB.prepare('SELECT * FROM levels WHERE id = ?').bind(id).first();
+    if (!current || current.author_id !== userId) {
+      return c.json({ error: 'Forbidden: Not the level author' }, 403);
+    }
+    if (current.is_published) {
+      return c.json({ error: 'Level is published', reason: 'published' }, 409);
+    }
+    return c.json({ error: 'Draft was changed on another device', reason: 'draft_conflict', draft: toRemoteDraft(current) }, 409);
+  }
+
+  return c.json({ version });
+});
+
 // Get User by ID
 app.get('/users/:id', async (c) => {
   const id = c.req.param('id');
@@ -243,23 +521,10 @@ app.get('/users/:id', async (c) => {
 });
 
 // Get User Levels
+// Query: the paging parameters of GET /levels
 app.get('/users/:id/levels', async (c) => {
-  const id = c.req.param('id');
-  const { results } = await c.env.DB.prepare(
-    'SELECT * FROM levels WHERE author_id = ? AND is_published = 1 ORDER BY created_at DESC'
-  ).bind(id).all();
-
-  const levels = results.map((row: any) => {
-    const data = JSON.parse(row.data);
-    return {
-      ...data,
-      likes: row.likes,
-      attempts: row.attempts,
-      clears: row.clears,
-    };
-  });
-
-  return c.json(levels);
+  const { sort, limit, cursor } = parseSearchParams(c.req.query());
+  return listLevels(c, { sort, limit, cursor, authorId: c.req.param('id') });
 });
 
 export default app;
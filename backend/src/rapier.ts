@@ -0,0 +1,32 @@
+import * as RAPIER from '@dimforge/rapier2d';
+// The wasm-bindgen glue the WASM module imports, and calls into once it is set
+import * as bindings from '@dimforge/rapier2d/rapier_wasm2d_bg.js';
+// Precompiled by wrangler
+import rapierWasm from '@dimforge/rapier2d/rapier_wasm2d_bg.wasm';
+
+let ready: Promise<void> | null = null;
+
+/**
+ * Load Rapier inside the Worker.
+ *
+ * The game imports @dimforge/rapier2d-compat, which embeds its WASM as base64
+ * and compiles it at runtime. Workers do not allow that, and the embedded copy
+ * would double the bundle. wrangler.toml aliases that package to this module,
+ * which serves the plain @dimforge/rapier2d build instead, instantiated from
+ * the module wrangler already compiled. The game's RAPIER.init() calls (e.g.
+ * from PhysicsWorld) end up here.
+ */
+export const initRapier = (): Promise<void> => {
+  if (!ready) {
+    ready = (async () => {
+      const instance = await WebAssembly.instantiate(rapierWasm, {
+        './rapier_wasm2d_bg.js': bindings as unknown as WebAssembly.ModuleImports,
+      });
+      bindings.__wbg_set_wasm(instance.exports);
+    })();
+    ready.catch(() => { ready = null; });
+  }
+  return ready;
+};
+
+export default { ...RAPIER, init: initRapier };
@@ -66,6 +66,9 @@ CREATE TABLE IF NOT EXISTS levels (
 -- Indices
 CREATE INDEX IF NOT EXISTS idx_levels_author ON levels(author_id);
 CREATE INDEX IF NOT EXISTS idx_levels_published ON levels(is_published);
+-- Listing orders (see SORT_COLUMNS in index.ts)
+CREATE INDEX IF NOT EXISTS idx_levels_latest ON levels(is_published, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_levels_popular ON levels(is_published, likes, created_at, id);
 
 
 -- Likes Table (User <-> Level)
@@ -75,6 +78,20 @@ CREATE TABLE IF NOT EXISTS likes (
   created_at INTEGER DEFAULT (unixepoch() * 1000),
   PRIMARY KEY (user_id, level_id)
 );
+-- Like counts are recounted per level (see POST /levels/:id/like)
+CREATE INDEX IF NOT EXISTS idx_likes_level ON likes(level_id);
+
+-- Best clear per user and level (stars are rated from the verified replay)
+CREATE TABLE IF NOT EXISTS level_results (
+  user_id TEXT,
+  level_id TEXT,
+  stars INTEGER NOT NULL,
+  strokes INTEGER NOT NULL,
+  ink REAL NOT NULL,
+  time REAL NOT NULL, -- Seconds
+  updated_at INTEGER,
+  PRIMARY KEY (user_id, level_id)
+);
 
 -- Sessions Table for Auth
 CREATE TABLE IF NOT EXISTS sessions (
@@ -4,33 +4,77 @@
  */
 
 import * as PIXI from 'pixi.js';
-import RAPIER from '@dimforge/rapier2d-compat';
 import { PhysicsWorld } from './physics/PhysicsWorld';
-import { Ball } from './objects/Ball';
+import { Ball, type BallType } from './objects/Ball';
 import { Obstacle } from './objects/Obstacle';
 import { FallingObject } from './objects/FallingObject';
-import { DrawnLine } from './objects/DrawnLine';
 import { Net } from './objects/Net';
 import { IceBlock } from './objects/IceBlock';
 import { Laser } from './objects/Laser';
 import { Seesaw } from './objects/Seesaw';
 import { ConveyorBelt } from './objects/ConveyorBelt';
 import { Button } from './objects/Button';
+import { Portal } from './objects/Portal';
+import { Spring } from './objects/Spring';
 import { PenSelectionUI } from './ui/PenSelectionUI';
 import { EditorUI } from './ui/EditorUI';
-import { TransformGizmo } from './editor/TransformGizmo';
+import { TransformGizmo, getTransformConstraints } from './editor/TransformGizmo';
+import {
+  EditorAction,
+  getEditorAction,
+  NUDGE_STEP,
+  NUDGE_STEP_LARGE,
+  DEFAULT_ROTATE_STEP,
+  PASTE_OFFSET,
+} from './editor/EditorShortcuts';
+import { SnapSettings, snapAngle } from './editor/Snapping';
+import { EditorHistory, LevelSnapshotCommand, createLevelSnapshot, restoreLevelSnapshot } from './editor/EditorHistory';
+import {
+  type AlignMode,
+  type Bounds,
+  boundsIntersect,
+  getAlignmentOffsets,
+  getObjectBounds,
+  transformObject,
+  translateObject,
+  unionBounds,
+} from './editor/SelectionGeometry';
 import { ConfirmDialog } from './ui/modals/ConfirmDialog';
 import { UIFactory } from './ui/UIFactory';
-import { type Pen, DEFAULT_PEN } from './data/PenData';
+import { type Pen, DEFAULT_PEN, getAllowedPens, isPenAllowed } from './data/PenData';
 import { DrawingManager } from './input/DrawingManager';
+import { CameraController } from './input/CameraController';
+import { Camera, type CameraView } from './camera/Camera';
 import { LevelManager } from './levels/LevelManager';
+import { CURRENT_SCHEMA_VERSION } from './levels/LevelMigrations';
+import { formatValidationErrors, type LevelValidationResult } from './levels/LevelValidator';
 import { LevelService, CURRENT_USER_ID } from './services/LevelService';
+import { getApiErrorKey } from './services/api/ApiError';
+import type { SimulationStroke } from './simulation/LevelSimulator';
+import { REPLAY_VERSION, encodeReplay, decodeReplay, type Replay } from './simulation/Replay';
+import { ReplayPlayer } from './simulation/ReplayPlayer';
+import { LevelRules } from './simulation/LevelRules';
+import { createVisualFactory, updateVisuals, type VisualObjectTypes } from './objects/LevelVisuals';
+import { ReplayControls } from './ui/ReplayControls';
+import { InkMeter } from './ui/InkMeter';
+import { ResultsDialog } from './ui/modals/ResultsDialog';
+import { LevelInfoDialog } from './ui/modals/LevelInfoDialog';
+import { ShortcutsDialog } from './ui/modals/ShortcutsDialog';
+import { getClearStats, rateClear, type ClearResult } from './levels/StarRating';
+import { getDrawingLimits, hasDrawingLimits } from './levels/InkBudget';
+import { getLevelBounds, isScrollingLevel } from './levels/LevelBounds';
+import { downloadTextFile, pickTextFile } from './utils/fileIO';
+import { Router, type Route } from './routing/Router';
+import { encodeLevelFile, encodeShareCode, createShareLink, getShareCodeFromHash, parseSharedLevel } from './levels/LevelShare';
 import type { LevelData } from './levels/LevelSchema';
+import type { DraftConflict } from './levels/DraftSync';
 import type { Point } from './utils/douglasPeucker';
 import {
   BACKGROUND_COLOR,
   GRID_SIZE,
   GRID_COLOR,
+  STAGE_BORDER_COLOR,
+  CAMERA_FOLLOW_SPEED,
   BALL_COLORS,
   BALL_RADIUS,
   COLLISION_GROUP,
@@ -47,6 +91,10 @@ import {
   EDITOR_OUTLINE_WIDTH_NORMAL,
   EDITOR_OUTLINE_WIDTH_FOCUSED,
   CONVEYOR_BELT_HEIGHT,
+  PORTAL_WIDTH,
+  SPRING_WIDTH,
+  SPRING_HEIGHT,
+  SPRING_STRENGTH,
 } from './config';
 import { EffectManager } from './effects/EffectManager';
 import { LanguageManager, type TranslationKey } from './i18n/LanguageManager';
@@ -58,6 +106,7 @@ export const GameState = {
   LOST: 3,
   MENU: 4,
   EDIT: 5,
+  REPLAY: 6,
 } as const;
 export type GameState = typeof GameState[keyof typeof GameState];
 
@@ -65,18 +114,12 @@ export class Game {
   private app: PIXI.Application;
   private physicsWorld: PhysicsWorld;
   private levelManager: LevelManager;
-  private balls: Ball[] = [];
-  private obstacles: Obstacle[] = [];
-  private fallingObjects: FallingObject[] = [];
-  private nets: Net[] = [];
-  private iceBlocks: IceBlock[] = [];
-  private lasers: Laser[] = [];
-  private seesaws: Seesaw[] = [];
-  private conveyors: ConveyorBelt[] = [];
-  private buttons: Button[] = [];
-  private drawnLines: DrawnLine[] = [];
+  private rules: LevelRules<VisualObjectTypes> | null = null;  // Objects and rules of the level being played
   private drawingManager: DrawingManager | null = null;
   private gameContainer: PIXI.Container;
+  private camera: Camera;
+  private cameraController: CameraController | null = null;
+  private editorView: CameraView | null = null; // Editor camera kept across test plays
   private backgroundContainer: PIXI.Container;
   private menuContainer: PIXI.Container;
   private interactionArea: PIXI.Graphics;
@@ -84,8 +127,18 @@ export class Game {
   private effectManager: EffectManager;
   private gameState: GameState = GameState.READY;
   private autoRestartTimeout: ReturnType<typeof setTimeout> | null = null;
+  private resultsTimeout: ReturnType<typeof setTimeout> | null = null;
+  private resultsDialog: ResultsDialog | null = null;
+  private levelInfoDialog: LevelInfoDialog | null = null;
   private accumulator: number = 0;
 
+  // Replay recording (fixed steps since startGame) and playback
+  private playFrame: number = 0;
+  private recordedStrokes: SimulationStroke[] = [];
+  private replayPlayer: ReplayPlayer | null = null;
+  private replayControls: ReplayControls | null = null;
+  private inkMeter: InkMeter | null = null;
+
   private currentPen: Pen = DEFAULT_PEN;
   private penSelectionUI: PenSelectionUI | null = null;
   private levelSelectionUI: any = null; // Type will be LevelSelectionUI, using any to avoid import cycles if any
@@ -95,25 +148,28 @@ export class Game {
   private restartBtnContainer: PIXI.Container | null = null;
   private homeBtnContainer: PIXI.Container | null = null;
   private publishBtnContainer: PIXI.Container | null = null;
+  private replayBtnContainer: PIXI.Container | null = null;
   private editorUI: EditorUI | null = null;
   private editingLevel: LevelData | null = null;
   private editorHasChanged: boolean = false;
   private editorObjects: { container: PIXI.Container, data: any, type: string, lastFocused: number }[] = [];
   private selectedObject: { container: PIXI.Container, data: any, type: string } | null = null;
+  private multiSelection: { container: PIXI.Container, data: any, type: string }[] = []; // Two or more objects; selectedObject is null meanwhile
+  private marquee: PIXI.Graphics | null = null;
   private transformGizmo: TransformGizmo | null = null;
   private initialAuthorPassed: boolean = false;
 
-  // Collision handle mapping for ball detection
-  private ballColliderHandles: Map<number, Ball> = new Map();
-  private iceBlockColliderHandles: Map<number, IceBlock> = new Map();
-  private laserColliderHandles: Map<number, Laser> = new Map();
-  private conveyorHandles: Map<number, ConveyorBelt> = new Map();
-  private drawnLineColliderHandles: Map<number, DrawnLine> = new Map();
-  private fallingObjectColliderHandles: Map<number, FallingObject> = new Map();
-  private seesawColliderHandles: Map<number, Seesaw> = new Map();
-  private buttonColliderHandles: Map<number, Button> = new Map();
-  private activeConveyorContacts: { body: RAPIER.RigidBody, objectColliderHandle: number, conveyor: ConveyorBelt }[] = [];
+  // Undo/redo (kept across edit / test-play toggles)
+  private editorHistory: EditorHistory = new EditorHistory();
+  private router: Router = new Router(route => this.handleRoute(route));
+  private isHandlingRoute: boolean = false;     // Showing a route the address bar already holds
+  private editorSnapshot: string | null = null; // Level as of the last recorded edit
+  private isEditorAdjusting: boolean = false;   // A gizmo or inspector drag is in progress
 
+  // Keyboard shortcuts
+  private editorClipboard: { data: any, type: string }[] = [];
+  private pasteCount: number = 0;
+  private shortcutsDialog: ShortcutsDialog | null = null;
 
   // Laser texture (loaded once, shared by all lasers)
   private laserTexture: PIXI.Texture | null = null;
@@ -129,6 +185,8 @@ export class Game {
     this.uiLayer = new PIXI.Container();
     this.interactionArea = new PIXI.Graphics();
     this.effectManager = new EffectManager(this.gameContainer);
+    // The background grid moves with the level
+    this.camera = new Camera([this.backgroundContainer, this.gameContainer]);
   }
 
   /**
@@ -179,6 +237,10 @@ export class Game {
     // UI buttons use pointertap which still works with passive parent
     this.uiLayer.eventMode = 'passive';
 
+    // Zoom and pan (enabled in the editor)
+    this.cameraController = new CameraController(this.camera, this.app.canvas);
+    this.camera.onChange(() => this.handleCameraChange());
+
     // Create background grid
     this.createBackground();
 
@@ -197,13 +259,19 @@ export class Game {
     // Create UI
     this.setupCanvasUI();
 
-    // Initialize Menu
-    this.initMenu();
-    this.showLevelSelection();
+    // Initialize Menu, then open whatever the URL points at
+    Promise.all([this.initMenu(), this.showLevelSelection()]).then(() => {
+      this.importFromLocation();
+      this.router.start();
+    });
 
     // Setup resize listener
     window.addEventListener('resize', this.handleResize.bind(this));
 
+    // Editor shortcuts
+    window.addEventListener('keydown', this.handleKeyDown);
+    this.editorHistory.onChange = () => this.updateHistoryButtons();
+
     // Start game loop
     this.app.ticker.add(this.update.bind(this));
   }
@@ -218,12 +286,8 @@ export class Game {
     // Resize Pixi renderer
     this.app.renderer.resize(width, height);
 
-    // Update background
-    this.backgroundContainer.removeChildren();
-    this.createBackground();
-
-    // Update interaction area
-    this.updateInteractionArea();
+    // Re-apply the camera for the new scale (redraws the background and interaction area)
+    this.camera.apply();
 
     // Update UI layout
     this.updateUILayout();
@@ -237,17 +301,44 @@ export class Game {
     if (this.editorUI) {
       this.editorUI.updateLayout();
     }
+
+    if (this.replayControls) {
+      this.replayControls.refreshUI();
+    }
+
+    if (this.inkMeter) {
+      this.inkMeter.refreshUI();
+    }
   }
 
   /**
-   * Update interaction area to match current canvas size
+   * Update interaction area to cover the part of the level on screen
    */
   private updateInteractionArea(): void {
+    const view = this.camera.getViewBounds();
+    const scaleFactor = getScaleFactor();
     this.interactionArea.clear();
-    this.interactionArea.rect(0, 0, getCanvasWidth(), getCanvasHeight());
+    this.interactionArea.rect(
+      view.minX * scaleFactor,
+      view.minY * scaleFactor,
+      (view.maxX - view.minX) * scaleFactor,
+      (view.maxY - view.minY) * scaleFactor
+    );
     this.interactionArea.fill({ color: 0xFFFFFF, alpha: 0 });
   }
 
+  /**
+   * Keep everything drawn for the current view in step with the camera
+   */
+  private handleCameraChange(): void {
+    this.backgroundContainer.removeChildren().forEach(child => child.destroy());
+    this.createBackground();
+    this.updateInteractionArea();
+    if (this.transformGizmo) {
+      this.transformGizmo.updateGizmo();
+    }
+  }
+
   /**
    * Update UI layout after resize
    */
@@ -263,6 +354,11 @@ export class Game {
       this.updateButtonSize(this.homeBtnContainer, btnSize, fontSize);
     }
 
+    if (this.replayBtnContainer) {
+      this.replayBtnContainer.position.set(scale(20) + btnSize + btnSpacing, btnY);
+      this.updateButtonSize(this.replayBtnContainer, btnSize, fontSize);
+    }
+
     const restartX = getCanvasWidth() - scale(20) - btnSize;
     if (this.restartBtnContainer) {
       this.restartBtnContainer.position.set(restartX, btnY);
@@ -309,13 +405,14 @@ export class Game {
   /**
    * Load level by data
    */
-  async loadLevel(data: LevelData): Promise<void> {
-    await this.levelManager.loadLevelData(data);
+  async loadLevel(data: LevelData): Promise<LevelValidationResult> {
+    const validation = await this.levelManager.loadLevelData(data);
     const levelData = this.levelManager.getCurrentLevel();
 
     if (!levelData) {
-      console.error('Failed to load level data');
-      return;
+      // Bail out before clearing or spawning anything
+      console.error('Failed to load level data', validation.errors);
+      return validation;
     }
 
     // this.currentLevelIndex is no longer the primary way we identify levels, 
@@ -325,6 +422,11 @@ export class Game {
     // Clear existing dynamic objects
     this.clearLevel();
 
+    // Every attempt runs in a fresh physics world so it can be replayed exactly
+    this.physicsWorld.reset();
+    this.playFrame = 0;
+    this.recordedStrokes = [];
+
     // Show/Hide Publish and Edit Buttons
     if (this.publishBtnContainer) {
       const isMyDraft = levelData.authorId === CURRENT_USER_ID && levelData.isPublished === false;
@@ -335,104 +437,40 @@ export class Game {
         if (this.penBtnContainer) this.penBtnContainer.visible = false;
         if (this.restartBtnContainer) this.restartBtnContainer.visible = false;
         if (this.homeBtnContainer) this.homeBtnContainer.visible = false;
+        if (this.replayBtnContainer) this.replayBtnContainer.visible = false;
       }
     }
 
 
-    // Spawn Balls
-    const { blue, pink } = levelData.balls;
-    const blueBall = new Ball(this.physicsWorld, blue.x, blue.y, 'blue', false);
-    const pinkBall = new Ball(this.physicsWorld, pink.x, pink.y, 'pink', false);
-
-    this.balls.push(blueBall, pinkBall);
-    this.gameContainer.addChild(blueBall.graphics, pinkBall.graphics);
-
-    // Map collider handles for collision detection
-    this.ballColliderHandles.set(blueBall.getColliderHandle(), blueBall);
-    this.ballColliderHandles.set(pinkBall.getColliderHandle(), pinkBall);
-
-    // Spawn Obstacles
-    for (const obs of levelData.obstacles) {
-      const obstacle = new Obstacle(this.physicsWorld, obs);
-      this.obstacles.push(obstacle);
-      this.gameContainer.addChild(obstacle.graphics);
-    }
-
-    // Spawn Falling Objects
-    if (levelData.fallingObjects) {
-      for (const obj of levelData.fallingObjects) {
-        const fallingObj = new FallingObject(this.physicsWorld, obj, false);
-        this.fallingObjects.push(fallingObj);
-        this.gameContainer.addChild(fallingObj.graphics);
-        this.fallingObjectColliderHandles.set(fallingObj.getColliderHandle(), fallingObj);
-      }
-    }
-
-    // Spawn Nets
-    if (levelData.nets) {
-      for (const netConfig of levelData.nets) {
-        const net = new Net(this.physicsWorld, netConfig);
-        this.nets.push(net);
-        this.gameContainer.addChild(net.graphics);
-      }
-    }
-
-    // Spawn Ice Blocks
-    if (levelData.iceBlocks) {
-      for (const config of levelData.iceBlocks) {
-        const iceBlock = new IceBlock(this.physicsWorld, config);
-        this.iceBlocks.push(iceBlock);
-        this.gameContainer.addChild(iceBlock.graphics);
-        this.iceBlockColliderHandles.set(iceBlock.getColliderHandle(), iceBlock);
-      }
-    }
+    // Spawn the level's objects
+    const laserTexture = this.laserTexture ?? PIXI.Texture.EMPTY;
+    this.rules = new LevelRules(this.physicsWorld, levelData, createVisualFactory(this.gameContainer, laserTexture));
+    this.rules.spawn();
 
-    // Spawn Lasers
-    if (levelData.lasers && this.laserTexture) {
-      for (const config of levelData.lasers) {
-        const laser = new Laser(this.physicsWorld, config, this.laserTexture);
-        this.lasers.push(laser);
-        this.gameContainer.addChild(laser.graphics);
-        this.laserColliderHandles.set(laser.getColliderHandle(), laser);
-      }
-    }
+    // Start with the balls in view; scrolling levels can be panned until the first stroke
+    this.applyLevelBounds(levelData);
+    this.followBalls(0);
+    this.cameraController?.setZoomEnabled(false);
+    this.cameraController?.setEnabled(isScrollingLevel(levelData));
 
-    // Spawn Seesaws
-    if (levelData.seesaws) {
-      for (const config of levelData.seesaws) {
-        const seesaw = new Seesaw(this.physicsWorld, config);
-        this.seesaws.push(seesaw);
-        this.gameContainer.addChild(seesaw.graphics);
-        this.seesawColliderHandles.set(seesaw.getColliderHandle(), seesaw);
+    // Fall back to the first allowed pen if the level restricts the current one
+    if (!isPenAllowed(this.currentPen.id, levelData.allowedPens)) {
+      this.currentPen = getAllowedPens(levelData.allowedPens)[0] ?? DEFAULT_PEN;
+      if (this.drawingManager) {
+        this.drawingManager.setPen(this.currentPen);
       }
     }
 
-    // Spawn Conveyor Belts
-    if (levelData.conveyors) {
-      for (const config of levelData.conveyors) {
-        const conveyor = new ConveyorBelt(this.physicsWorld, config);
-        this.conveyors.push(conveyor);
-        this.gameContainer.addChild(conveyor.graphics);
-        this.conveyorHandles.set(conveyor.getColliderHandle(), conveyor);
-      }
+    // Every attempt starts with the level's full ink budget
+    const limits = getDrawingLimits(levelData);
+    if (this.drawingManager) {
+      this.drawingManager.setLimits(limits);
     }
-
-    // Spawn Buttons
-    if (levelData.buttons) {
-      for (const config of levelData.buttons) {
-        const button = new Button(this.physicsWorld, config);
-        this.buttons.push(button);
-        this.gameContainer.addChild(button.graphics);
-        for (const handle of button.getColliderHandles()) {
-          this.buttonColliderHandles.set(handle, button);
-        }
-      }
+    if (this.inkMeter) {
+      this.inkMeter.setLimits(limits);
+      this.inkMeter.visible = hasDrawingLimits(limits);
     }
 
-    // Force update of physics query acceleration structures
-    // This is necessary because the game loop hasn't started stepping the world yet
-    this.physicsWorld.getWorld().updateSceneQueries();
-
     // Update DrawingManager with collision provider
     if (this.drawingManager) {
       this.interactionArea.removeAllListeners();
@@ -469,6 +507,8 @@ export class Game {
         }
       });
     }
+
+    return validation;
   }
 
 
@@ -481,85 +521,42 @@ export class Game {
       this.autoRestartTimeout = null;
     }
 
+    this.closeResults();
+    this.closeLevelInfo();
+
     if (this.penBtnContainer) {
       this.penBtnContainer.visible = true;
     }
 
+    if (this.replayBtnContainer) {
+      this.replayBtnContainer.visible = true;
+    }
+
     if (this.editorUI) {
       this.editorUI.setPenButtonVisible(true);
     }
 
-    if (this.publishBtnContainer) {
-      // Logic managed by loadLevel/startLevel
-    }
+    this.destroyReplay();
 
-    // Clear balls
-    for (const ball of this.balls) {
-      ball.destroy(this.physicsWorld);
+    if (this.inkMeter) {
+      this.inkMeter.visible = false;
     }
-    this.balls = [];
-    this.ballColliderHandles.clear();
 
-    // Clear obstacles
-    for (const obs of this.obstacles) {
-      obs.destroy(this.physicsWorld);
+    if (this.publishBtnContainer) {
+      // Logic managed by loadLevel/startLevel
     }
-    this.obstacles = [];
 
-    // Clear falling objects
-    for (const obj of this.fallingObjects) {
-      obj.destroy(this.physicsWorld);
+    // Clear the level's objects
+    if (this.rules) {
+      this.rules.destroy();
+      this.rules = null;
     }
-    this.fallingObjects = [];
-    this.fallingObjectColliderHandles.clear();
 
     // Reset game state
     this.hasStarted = false;
     this.gameState = GameState.READY;
     this.effectManager.clear();
 
-    // Clear nets
-    for (const net of this.nets) {
-      net.destroy(this.physicsWorld);
-    }
-    this.nets = [];
-
-    // Clear ice blocks
-    for (const iceBlock of this.iceBlocks) {
-      iceBlock.destroy(this.physicsWorld);
-    }
-    this.iceBlocks = [];
-    this.iceBlockColliderHandles.clear();
-
-    // Clear lasers
-    for (const laser of this.lasers) {
-      laser.destroy(this.physicsWorld);
-    }
-    this.lasers = [];
-    this.laserColliderHandles.clear();
-
-    // Clear seesaws
-    for (const seesaw of this.seesaws) {
-      seesaw.destroy(this.physicsWorld);
-    }
-    this.seesaws = [];
-    this.seesawColliderHandles.clear();
-
-    // Clear conveyor belts
-    for (const conveyor of this.conveyors) {
-      conveyor.destroy(this.physicsWorld);
-    }
-    this.conveyors = [];
-    this.conveyorHandles.clear();
-    this.activeConveyorContacts = [];
-
-    // Clear buttons
-    for (const button of this.buttons) {
-      button.destroy(this.physicsWorld);
-    }
-    this.buttons = [];
-    this.buttonColliderHandles.clear();
-
     // Clear Editor Objects
     for (const obj of this.editorObjects) {
       obj.container.destroy();
@@ -574,20 +571,13 @@ export class Game {
         getIntersection: () => null
       });
     }
-
-    // Clear drawn lines
-    for (const line of this.drawnLines) {
-      line.destroy(this.physicsWorld);
-    }
-    this.drawnLines = [];
-    this.drawnLineColliderHandles.clear();
   }
 
   /**
    * Setup drawing functionality
    */
   private setupDrawing(): void {
-    this.drawingManager = new DrawingManager(this.gameContainer);
+    this.drawingManager = new DrawingManager(this.gameContainer, this.camera);
     this.drawingManager.enable(
       this.interactionArea,
       this.onLineDrawn.bind(this),
@@ -615,22 +605,16 @@ export class Game {
    * Start the game simulation
    */
   private startGame(): void {
-    if (!this.hasStarted) {
+    if (!this.hasStarted && this.gameState === GameState.READY) {
       this.hasStarted = true;
       this.gameState = GameState.PLAYING;
+      // From here on the camera follows the balls
+      this.cameraController?.setEnabled(false);
       // Update game objects
-      const scaleFactor = getScaleFactor();
-      this.balls.forEach(ball => ball.update(scaleFactor));
-      this.drawnLines.forEach(line => line.update(scaleFactor));
-      this.fallingObjects.forEach(obj => obj.update(scaleFactor));
-      this.seesaws.forEach(seesaw => seesaw.update(scaleFactor));
-      this.conveyors.forEach(conveyor => conveyor.update(scaleFactor));
-      this.buttons.forEach(btn => btn.update(scaleFactor));
-      this.nets.forEach(net => net.update(scaleFactor));
-      this.iceBlocks.forEach(ice => ice.update(scaleFactor));
-      this.lasers.forEach(laser => laser.update(scaleFactor));
-      this.balls.forEach(ball => ball.activate());
-      this.fallingObjects.forEach(obj => obj.activate());
+      if (this.rules) {
+        updateVisuals(this.rules, getScaleFactor());
+        this.rules.start();
+      }
 
       if (this.penBtnContainer) {
         this.penBtnContainer.visible = false;
@@ -638,6 +622,9 @@ export class Game {
       if (this.publishBtnContainer) {
         this.publishBtnContainer.visible = false;
       }
+      if (this.replayBtnContainer) {
+        this.replayBtnContainer.visible = false;
+      }
       if (this.editorUI) {
         this.editorUI.setPenButtonVisible(false);
       }
@@ -645,23 +632,25 @@ export class Game {
   }
 
   /**
-   * Handle when a line is drawn
+   * Handle when a line is drawn. Returns whether the line was added to the level.
    */
-  private onLineDrawn(points: Point[]): void {
-    if (this.gameState !== GameState.READY && this.gameState !== GameState.PLAYING) return;
+  private onLineDrawn(points: Point[]): boolean {
+    if (this.gameState !== GameState.READY && this.gameState !== GameState.PLAYING) return false;
+    if (!this.rules) return false;
 
-    const line = new DrawnLine(this.physicsWorld, points, this.currentPen);
-    this.drawnLines.push(line);
-    this.gameContainer.addChild(line.graphics);
+    const line = this.rules.addLine(points, this.currentPen);
     line.update(); // Initial position update with scaling
 
-    // Register all colliders for conveyor detection
-    for (const collider of line.colliders) {
-      this.drawnLineColliderHandles.set(collider.handle, line);
-    }
+    // Record the stroke; it is spawned before the next fixed step, both here and on replay
+    this.recordedStrokes.push({
+      penId: this.currentPen.id,
+      points: points.map(p => ({ x: p.x, y: p.y })),
+      frame: this.playFrame,
+    });
 
     // Start game if not started (redundant with onDrawingEnd but safe)
     this.startGame();
+    return true;
   }
 
   /**
@@ -679,6 +668,14 @@ export class Game {
     this.homeBtnContainer.position.set(scale(20), btnY);
     this.uiLayer.addChild(this.homeBtnContainer);
 
+    // Replay Button (Right of Home)
+    this.replayBtnContainer = UIFactory.createTopBarButton('\uF3C3', () => {
+      this.openReplay();
+    });
+    this.replayBtnContainer.position.set(scale(20) + btnSize + btnSpacing, btnY);
+    this.replayBtnContainer.visible = false;
+    this.uiLayer.addChild(this.replayBtnContainer);
+
     // Restart Button (Top Right)
     const restartX = getCanvasWidth() - scale(20) - btnSize;
     this.restartBtnContainer = UIFactory.createTopBarButton('\uF116', () => {
@@ -717,7 +714,17 @@ export class Game {
           this.closeConfirmDialog();
           // Auto-save current design first, especially if they just passed
           await this.saveLevel();
-          await LevelService.getInstance().publishLevel(currentLevel.id);
+          try {
+            await LevelService.getInstance().publishLevel(currentLevel.id);
+          } catch (error) {
+            this.showConfirmDialog(
+              LanguageManager.getInstance().t(getApiErrorKey(error)),
+              () => this.closeConfirmDialog(),
+              () => this.closeConfirmDialog(),
+              { showCancel: false, confirmKey: 'common.ok' }
+            );
+            return;
+          }
           currentLevel.isPublished = true;
 
           this.showConfirmDialog(
@@ -739,6 +746,11 @@ export class Game {
     this.publishBtnContainer.position.set(publishX, btnY);
     this.publishBtnContainer.visible = false; // Default hidden
     this.uiLayer.addChild(this.publishBtnContainer);
+
+    // Ink Meter (Top Center) - only on levels with drawing limits
+    this.inkMeter = new InkMeter();
+    this.inkMeter.visible = false;
+    this.uiLayer.addChild(this.inkMeter);
   }
 
 
@@ -767,7 +779,8 @@ export class Game {
         // Let's assume closing uses current default.
         this.closePenSelection();
       },
-      this.currentPen.id
+      this.currentPen.id,
+      this.levelManager.getCurrentLevel()?.allowedPens
     );
 
     this.penSelectionUI.zIndex = 200; // Above everything
@@ -793,269 +806,140 @@ export class Game {
   }
 
   /**
-   * Process collision events from Rapier
+   * Play the saved replay of the current level, or offer to import one
    */
-  private processCollisions(): void {
-    if (this.gameState !== GameState.PLAYING && this.gameState !== GameState.READY) return;
-
-    const eventQueue = this.physicsWorld.getEventQueue();
-
-    eventQueue.drainCollisionEvents((handle1, handle2, started) => {
-      if (started) {
-        const ball1 = this.ballColliderHandles.get(handle1);
-        const ball2 = this.ballColliderHandles.get(handle2);
-
-        // Check if both colliders are balls (blue and pink)
-        if (ball1 && ball2 && this.gameState === GameState.PLAYING) {
-          // Get positions for effect
-          const pos1 = ball1.body.translation();
-          const pos2 = ball2.body.translation();
-          const midX = (pos1.x + pos2.x) / 2;
-          const midY = (pos1.y + pos2.y) / 2;
-
-          const pixelPos = this.physicsWorld.toPixels(midX, midY);
-          const scaleFactor = getScaleFactor();
-          this.handleWin(pixelPos.x * scaleFactor, pixelPos.y * scaleFactor);
-        }
-
-        // Check for ice block collisions
-        const iceBlock1 = this.iceBlockColliderHandles.get(handle1);
-        const iceBlock2 = this.iceBlockColliderHandles.get(handle2);
+  private openReplay(): void {
+    const level = this.levelManager.getCurrentLevel();
+    if (!level) return;
 
-        // If one of the colliders is an ice block, start melting it
-        if (iceBlock1 && !iceBlock1.getIsMelting() && this.gameState === GameState.PLAYING) {
-          iceBlock1.startMelting();
-        }
-        if (iceBlock2 && !iceBlock2.getIsMelting() && this.gameState === GameState.PLAYING) {
-          iceBlock2.startMelting();
-        }
+    const replay = LevelService.getInstance().getReplay(level.id);
+    if (replay) {
+      this.startReplay(level, replay);
+      return;
+    }
 
-        // Check for laser collisions with balls
-        const laser1 = this.laserColliderHandles.get(handle1);
-        const laser2 = this.laserColliderHandles.get(handle2);
-        const ballHitByLaser = (laser1 && ball2) || (laser2 && ball1);
+    this.showConfirmDialog(
+      LanguageManager.getInstance().t('replay.none'),
+      () => {
+        this.closeConfirmDialog();
+        this.importReplay();
+      },
+      () => this.closeConfirmDialog(),
+      { confirmKey: 'replay.import' }
+    );
+  }
 
-        if (ballHitByLaser && this.gameState === GameState.PLAYING) {
-          const hitBall = ball1 || ball2;
-          if (hitBall) {
-            this.handleLoss(hitBall);
-          }
-        }
+  /**
+   * Load a replay file picked by the user and play it
+   */
+  private async importReplay(): Promise<void> {
+    const text = await pickTextFile();
+    if (text === null) return;
 
-        // Check for button collisions with balls
-        const button1 = this.buttonColliderHandles.get(handle1);
-        const button2 = this.buttonColliderHandles.get(handle2);
-        const ballHitButton = (button1 && ball2) || (button2 && ball1);
+    const level = this.levelManager.getCurrentLevel();
+    if (!level) return;
 
-        if (ballHitButton && this.gameState === GameState.PLAYING) {
-          this.triggerButtonPress();
-        }
-      }
+    let replay: Replay;
+    try {
+      replay = decodeReplay(text);
+    } catch (e) {
+      console.warn('Failed to import replay', e);
+      this.showMessageDialog('replay.invalid');
+      return;
+    }
 
-      // Check for conveyor collisions with balls and drawn lines
-      const conv1 = this.conveyorHandles.get(handle1);
-      const conv2 = this.conveyorHandles.get(handle2);
-      const convBall1 = this.ballColliderHandles.get(handle1);
-      const convBall2 = this.ballColliderHandles.get(handle2);
-      const convLine1 = this.drawnLineColliderHandles.get(handle1);
-      const convLine2 = this.drawnLineColliderHandles.get(handle2);
-      const convFall1 = this.fallingObjectColliderHandles.get(handle1);
-      const convFall2 = this.fallingObjectColliderHandles.get(handle2);
-      const convSeesaw1 = this.seesawColliderHandles.get(handle1);
-      const convSeesaw2 = this.seesawColliderHandles.get(handle2);
-
-      // Identify the pair (conveyor + ball or line or falling object or seesaw)
-      let conveyorContact: { conv: ConveyorBelt, body: RAPIER.RigidBody, objectColliderHandle: number } | null = null;
-
-      if (conv1 && convBall2) {
-        conveyorContact = { conv: conv1, body: convBall2.body, objectColliderHandle: handle2 };
-      } else if (conv2 && convBall1) {
-        conveyorContact = { conv: conv2, body: convBall1.body, objectColliderHandle: handle1 };
-      } else if (conv1 && convLine2) {
-        conveyorContact = { conv: conv1, body: convLine2.body, objectColliderHandle: handle2 };
-      } else if (conv2 && convLine1) {
-        conveyorContact = { conv: conv2, body: convLine1.body, objectColliderHandle: handle1 };
-      } else if (conv1 && convFall2) {
-        conveyorContact = { conv: conv1, body: convFall2.body, objectColliderHandle: handle2 };
-      } else if (conv2 && convFall1) {
-        conveyorContact = { conv: conv2, body: convFall1.body, objectColliderHandle: handle1 };
-      } else if (conv1 && convSeesaw2) {
-        conveyorContact = { conv: conv1, body: convSeesaw2.plankBody, objectColliderHandle: handle2 };
-      } else if (conv2 && convSeesaw1) {
-        conveyorContact = { conv: conv2, body: convSeesaw1.plankBody, objectColliderHandle: handle1 };
-      }
+    if (replay.levelId !== level.id) {
+      this.showMessageDialog('replay.wrong_level');
+      return;
+    }
 
-      if (conveyorContact) {
-        if (started) {
-          // Add contact (avoid duplicates for exactly same pair)
-          const exists = this.activeConveyorContacts.some(
-            c => c.objectColliderHandle === conveyorContact!.objectColliderHandle && c.conveyor === conveyorContact!.conv
-          );
-          if (!exists) {
-            this.activeConveyorContacts.push({
-              body: conveyorContact.body,
-              conveyor: conveyorContact.conv,
-              objectColliderHandle: conveyorContact.objectColliderHandle
-            });
-          }
-        } else {
-          // Remove contact
-          this.activeConveyorContacts = this.activeConveyorContacts.filter(
-            c => c.objectColliderHandle !== conveyorContact!.objectColliderHandle || c.conveyor !== conveyorContact!.conv
-          );
-        }
-      }
-    });
+    await this.startReplay(level, replay);
   }
 
-  private checkBoundaries(): void {
-    const margin = scale(BALL_RADIUS * 2);
-    const bounds = {
-      minX: -margin,
-      maxX: getCanvasWidth() + margin,
-      maxY: getCanvasHeight() + margin
-    };
-
-    const scaleFactor = getScaleFactor();
-    for (const ball of this.balls) {
-      const pos = ball.body.translation();
-      const pixelPos = this.physicsWorld.toPixels(pos.x, pos.y);
-      // Convert to screen coordinates for boundary check
-      const x = pixelPos.x * scaleFactor;
-      const y = pixelPos.y * scaleFactor;
-
-      if (x < bounds.minX || x > bounds.maxX || y > bounds.maxY) {
-        this.handleLoss(ball);
-        return;
-      }
-    }
+  private exportReplay(replay: Replay): void {
+    downloadTextFile(`opendots-replay-${replay.levelId}.json`, encodeReplay(replay));
   }
 
-
   /**
-   * Apply acceleration to a rigid body from a conveyor belt using accurate Contact Manifolds
-   * This ensures forces are applied at the exact contact points, producing correct torque and linear motion.
+   * Switch the game view to replay playback
    */
-  private applyAcceleration(contact: { body: RAPIER.RigidBody, objectColliderHandle: number, conveyor: ConveyorBelt }, dt: number): void {
-    const { body, objectColliderHandle, conveyor } = contact;
-    const world = this.physicsWorld.getWorld();
+  private async startReplay(level: LevelData, replay: Replay): Promise<void> {
+    this.clearLevel();
+    this.gameState = GameState.REPLAY;
+
+    // Playback is read-only
+    if (this.drawingManager) {
+      this.drawingManager.disable(this.interactionArea);
+    }
+    this.cameraController?.setEnabled(false);
+    if (this.penBtnContainer) this.penBtnContainer.visible = false;
+    if (this.replayBtnContainer) this.replayBtnContainer.visible = false;
+    if (this.publishBtnContainer) this.publishBtnContainer.visible = false;
 
-    // Retrieve the specific collider for the object that is touching the conveyor
-    let objectCollider: RAPIER.Collider;
+    const player = new ReplayPlayer(level, replay, this.gameContainer, this.laserTexture ?? undefined);
+    this.replayPlayer = player;
     try {
-      objectCollider = world.getCollider(objectColliderHandle);
+      await player.load();
     } catch (e) {
-      // Collider might have been removed
+      console.error('Failed to start replay', e);
+      this.showMessageDialog('replay.invalid');
+      this.restartLevel();
       return;
     }
+    // The replay was closed while it was loading
+    if (this.replayPlayer !== player) return;
 
-    if (!objectCollider || !objectCollider.isValid()) return;
-
-    const conveyorCollider = conveyor.topCollider;
-
-    // Use Rapier's contactPair to access the manifold
-    world.contactPair(conveyorCollider, objectCollider, (manifold, flipped) => {
-      const numPoints = manifold.numContacts();
-      if (numPoints === 0) return;
-
-      const maxVelocity = conveyor.maxVelocity;
-      // Distribute force: F = m * a. We divide by numPoints to not overpower multiple contacts.
-      const forcePerPoint = (Math.abs(conveyor.acceleration) * body.mass()) / numPoints;
-
-      const dirSign = Math.sign(conveyor.acceleration) || 1;
-
-      // 2. Iterate all contact points
-      for (let i = 0; i < numPoints; i++) {
-        // Get local contact point
-        // If flipped=false: localPoint1 is on conveyor, localPoint2 on object
-        // If flipped=true: localPoint1 is on object, localPoint2 on conveyor
-        let localPt, refBody;
-
-        let normalX = 0;
-        let normalY = 0;
-
-        // Rapier manifold.normal() returns world space normal from Shape 1 to Shape 2
-        // We want the normal POINTING OUT of the Conveyor Surface.
-        const worldNormal = manifold.normal();
-
-        if (flipped) {
-          // Shape 1 = Object, Shape 2 = Conveyor. Normal: Object -> Conveyor (Into Conveyor)
-          // We want normal Out of Conveyor. So we invert it.
-          normalX = -worldNormal.x;
-          normalY = -worldNormal.y;
+    player.onFinish = (result) => {
+      if (!result || result.outcome !== 'win') {
+        this.showMessageDialog('replay.diverged');
+      }
+    };
 
-          localPt = manifold.localContactPoint2(i);
-          refBody = conveyor.body;
+    this.replayControls = new ReplayControls({
+      onPlayPause: () => {
+        if (player.isPlaying()) {
+          player.pause();
         } else {
-          // Shape 1 = Conveyor, Shape 2 = Object. Normal: Conveyor -> Object (Out of Conveyor)
-          // This is correct.
-          normalX = worldNormal.x;
-          normalY = worldNormal.y;
-
-          localPt = manifold.localContactPoint1(i);
-          refBody = conveyor.body;
+          player.play();
         }
+      },
+      onSeek: (frame) => {
+        player.pause();
+        player.seek(frame).catch(e => console.error('Replay seek failed', e));
+      },
+      onExport: () => this.exportReplay(replay),
+      onImport: () => this.importReplay(),
+      onClose: () => this.restartLevel(),
+    });
+    this.uiLayer.addChild(this.replayControls);
 
-        if (!localPt) continue;
-
-        // Calculate Tangent Direction from Normal
-        // Rotate -90 degrees (Clockwise): (x, y) -> (y, -x)
-        let tangentX = normalY;
-        let tangentY = -normalX;
-
-        // Apply direction sign
-        tangentX *= dirSign;
-        tangentY *= dirSign;
-
-        // Transform local point to World Space manually
-        const refPos = refBody.translation();
-        const refRot = refBody.rotation();
-        const sin = Math.sin(refRot);
-        const cos = Math.cos(refRot);
-
-        const worldX = (localPt.x * cos - localPt.y * sin) + refPos.x;
-        const worldY = (localPt.x * sin + localPt.y * cos) + refPos.y;
-
-        // 3. Check Velocity at this Contact Point (Manual Calculation)
-        // v_point = v_com + w x r
-        // r = point - com
-        const bodyLinVel = body.linvel();
-        const bodyAngVel = body.angvel();
-        const bodyPos = body.translation();
-
-        // r vector from COM to contact point
-        const rx = worldX - bodyPos.x;
-        const ry = worldY - bodyPos.y;
-
-        // w x r = (-w * ry, w * rx) in 2D
-        const pointVelX = bodyLinVel.x - bodyAngVel * ry;
-        const pointVelY = bodyLinVel.y + bodyAngVel * rx;
-
-        // Project velocity onto the desired tangent direction
-        const currentTanVel = pointVelX * tangentX + pointVelY * tangentY;
-
-        // 4. Apply Force if below max velocity
-        if (currentTanVel < maxVelocity) {
-          // Apply impulse at center of mass (no torque)
-          const fx = tangentX * forcePerPoint * dt;
-          const fy = tangentY * forcePerPoint * dt;
+    player.play();
+  }
 
-          body.applyImpulse({ x: fx, y: fy }, true);
-        }
-      }
-    });
+  /**
+   * Tear down replay playback (if any)
+   */
+  private destroyReplay(): void {
+    if (this.replayPlayer) {
+      this.replayPlayer.destroy();
+      this.replayPlayer = null;
+    }
+    if (this.replayControls) {
+      this.uiLayer.removeChild(this.replayControls);
+      this.replayControls.destroy({ children: true });
+      this.replayControls = null;
+    }
   }
 
   private handleWin(x: number, y: number): void {
     console.log('Game Won!');
     this.gameState = GameState.WON;
 
-    const clampedX = Math.max(0, Math.min(x, getCanvasWidth()));
-    const clampedY = Math.max(0, Math.min(y, getCanvasHeight()));
+    const clamped = this.clampToView(x, y);
 
     // Trigger effects immediately for visual responsiveness
-    this.effectManager.createRingExplosion(clampedX, clampedY, 0xFFD700, 1);
-    this.effectManager.createParticleExplosion(clampedX, clampedY, 0xFFD700, 'star');
+    this.effectManager.createRingExplosion(clamped.x, clamped.y, 0xFFD700, 1);
+    this.effectManager.createParticleExplosion(clamped.x, clamped.y, 0xFFD700, 'star');
 
     // Update state locally if it's an author test play and they passed for first time
     const currentLevel = this.levelManager.getCurrentLevel();
@@ -1065,43 +949,80 @@ export class Game {
       }
     }
 
-    this.autoRestartTimeout = setTimeout(() => {
-      this.restartLevel();
-    }, 2000);
-  }
+    if (!currentLevel) return;
 
-  private handleLoss(ball: Ball): void {
-    if (!this.balls.includes(ball)) return;
+    // Keep the winning run so it can be watched or exported later
+    const replay: Replay = {
+      version: REPLAY_VERSION,
+      levelId: currentLevel.id,
+      strokes: this.recordedStrokes,
+      frame: this.playFrame,
+      createdAt: Date.now(),
+    };
+    LevelService.getInstance().saveReplay(replay);
 
-    console.log('Game Lost!');
-    this.gameState = GameState.LOST;
+    // The replay doubles as proof of the clear; the server re-simulates it before counting
+    // (and rates it the same way to keep the player's best stars)
+    if (currentLevel.isPublished) {
+      LevelService.getInstance().recordClear(currentLevel.id, replay);
+    }
 
-    const pos = ball.body.translation();
-    const pixelPos = this.physicsWorld.toPixels(pos.x, pos.y);
-    const scaleFactor = getScaleFactor();
-    const color = BALL_COLORS[ball.type];
+    const stats = getClearStats(replay.strokes, replay.frame);
+    const result: ClearResult = { ...stats, stars: rateClear(currentLevel.starThresholds, stats) };
+    const isNewBest = LevelService.getInstance().saveClearResult(currentLevel.id, result);
+
+    // Let the win effects play before showing the results
+    this.resultsTimeout = setTimeout(() => {
+      this.resultsTimeout = null;
+      this.showResults(result, isNewBest);
+    }, 1000);
+  }
 
-    // Scale position to screen coordinates
-    const screenX = pixelPos.x * scaleFactor;
-    const screenY = pixelPos.y * scaleFactor;
+  /**
+   * Show the results of a clear
+   */
+  private showResults(result: ClearResult, isNewBest: boolean): void {
+    this.closeResults();
+
+    this.resultsDialog = new ResultsDialog(result, isNewBest, {
+      onRetry: () => this.restartLevel(),
+      onWatch: () => this.openReplay(),
+      onHome: () => {
+        // Test plays go back through the editor so unsaved changes can be kept
+        if (this.editorUI && this.editorUI.visible) {
+          this.handleEditorClose();
+        } else {
+          this.showLevelSelection();
+        }
+      },
+    });
+    this.uiLayer.addChild(this.resultsDialog);
+  }
 
-    // Remove ball
-    ball.destroy(this.physicsWorld);
-    const index = this.balls.indexOf(ball);
-    if (index > -1) this.balls.splice(index, 1);
-    this.ballColliderHandles.delete(ball.getColliderHandle());
+  private closeResults(): void {
+    if (this.resultsTimeout) {
+      clearTimeout(this.resultsTimeout);
+      this.resultsTimeout = null;
+    }
+    if (this.resultsDialog) {
+      this.uiLayer.removeChild(this.resultsDialog);
+      this.resultsDialog.destroy({ children: true });
+      this.resultsDialog = null;
+    }
+  }
 
-    // Also remove from active conveyor contacts
-    this.activeConveyorContacts = this.activeConveyorContacts.filter(c => c.body !== ball.body);
+  private handleLoss(ball: BallType, x: number, y: number): void {
+    console.log('Game Lost!');
+    this.gameState = GameState.LOST;
 
+    const color = BALL_COLORS[ball];
 
     // Calculate clamped position for effects (so they are visible if ball is out of bounds)
-    const clampedX = Math.max(0, Math.min(screenX, getCanvasWidth()));
-    const clampedY = Math.max(0, Math.min(screenY, getCanvasHeight()));
+    const clamped = this.clampToView(x, y);
 
     // Trigger effects
-    this.effectManager.createRingExplosion(clampedX, clampedY, color, 1);
-    this.effectManager.createParticleExplosion(clampedX, clampedY, color, 'circle');
+    this.effectManager.createRingExplosion(clamped.x, clamped.y, color, 1);
+    this.effectManager.createParticleExplosion(clamped.x, clamped.y, color, 'circle');
 
     if (!this.autoRestartTimeout) {
       this.autoRestartTimeout = setTimeout(() => {
@@ -1111,57 +1032,39 @@ export class Game {
   }
 
   /**
-   * Trigger button press effect - remove all lasers and sink all buttons
+   * Clamp a position in the game container (design × scale factor) to the part on screen
    */
-  private triggerButtonPress(): void {
-    // Immediately destroy all lasers
-    for (const laser of this.lasers) {
-      laser.destroy(this.physicsWorld);
-    }
-    this.lasers = [];
-    this.laserColliderHandles.clear();
-
-    // Trigger sink animation for all buttons
-    for (const button of this.buttons) {
-      button.triggerSink(() => {
-        // Remove button after sink animation completes
-        button.destroy(this.physicsWorld);
-        const index = this.buttons.indexOf(button);
-        if (index > -1) {
-          this.buttons.splice(index, 1);
-        }
-        // Clear collider handles for this button
-        for (const handle of button.getColliderHandles()) {
-          this.buttonColliderHandles.delete(handle);
-        }
-      });
-    }
+  private clampToView(x: number, y: number): Point {
+    const view = this.camera.getViewBounds();
+    const scaleFactor = getScaleFactor();
+    return {
+      x: Math.max(view.minX * scaleFactor, Math.min(x, view.maxX * scaleFactor)),
+      y: Math.max(view.minY * scaleFactor, Math.min(y, view.maxY * scaleFactor))
+    };
   }
 
   /**
    * Fixed update loop for physics
    */
   private fixedUpdate(dt: number): void {
-    if (this.gameState !== GameState.PLAYING && this.gameState !== GameState.READY) return;
+    // Nothing moves before the first stroke; LevelSimulator relies on this too
+    if (this.gameState !== GameState.PLAYING || !this.rules) return;
 
-    // Apply seesaw spring forces BEFORE physics step
-    for (const seesaw of this.seesaws) {
-      seesaw.applyForces();
+    const outcome = this.rules.step(dt);
+    if (!outcome) {
+      this.playFrame++;
+      return;
     }
 
-    // Apply continuous conveyor forces
-    for (const contact of this.activeConveyorContacts) {
-      this.applyAcceleration(contact, dt);
+    // Effects are placed in the game container (design × scale factor)
+    const scaleFactor = getScaleFactor();
+    const x = outcome.position.x * scaleFactor;
+    const y = outcome.position.y * scaleFactor;
+    if (outcome.outcome === 'win') {
+      this.handleWin(x, y);
+    } else {
+      this.handleLoss(outcome.ball!, x, y);
     }
-
-    // Step physics world
-    this.physicsWorld.step(dt);
-
-    // Process collision events
-    this.processCollisions();
-
-    // Check boundaries (using physics positions)
-    this.checkBoundaries();
   }
 
   /**
@@ -1190,77 +1093,65 @@ export class Game {
 
     const scaleFactor = getScaleFactor();
 
-    // Update ALL game objects for responsive rendering and animations
-
-    // Lasers (flip animation)
-    for (const laser of this.lasers) {
-      laser.update(scaleFactor, dt);
-    }
-
-    // Buttons (sink animation)
-    for (const button of this.buttons) {
-      button.update(scaleFactor, dt);
+    // Replay playback runs its own simulation
+    if (this.replayPlayer) {
+      this.replayPlayer.update(dt);
+      this.replayPlayer.render(scaleFactor, dt);
+      if (this.replayControls) {
+        this.replayControls.setState(this.replayPlayer.getFrame(), this.replayPlayer.getTotalFrames(), this.replayPlayer.isPlaying());
+      }
     }
 
-    // Balls from physics
-    for (const ball of this.balls) {
-      ball.update(scaleFactor);
+    // Scrolling levels: keep the balls in view while they move
+    if (this.gameState === GameState.PLAYING || this.gameState === GameState.REPLAY) {
+      this.followBalls(dt);
     }
 
-    // Falling objects from physics
-    for (const obj of this.fallingObjects) {
-      obj.update(scaleFactor);
+    if (this.inkMeter && this.inkMeter.visible && this.drawingManager) {
+      this.inkMeter.setUsage(this.drawingManager.getInkUsed(), this.drawingManager.getStrokesUsed());
     }
 
-    // Drawn lines from physics (update and check out-of-bounds)
-    const drawnLineBoundary = getCanvasHeight() + getCanvasHeight() * 0.5;
-    for (let i = this.drawnLines.length - 1; i >= 0; i--) {
-      const line = this.drawnLines[i];
-      line.update(scaleFactor);
-
-      // Check if line's center of mass is below screen bottom by more than half screen height
-      const pos = line.body.translation();
-      const pixelY = this.physicsWorld.toPixels(pos.x, pos.y).y * scaleFactor;
-      if (pixelY > drawnLineBoundary) {
-        // Remove from collider handles
-        for (const collider of line.colliders) {
-          this.drawnLineColliderHandles.delete(collider.handle);
-        }
-        // Remove from active conveyor contacts
-        this.activeConveyorContacts = this.activeConveyorContacts.filter(c => c.body !== line.body);
-        // Destroy the line
-        line.destroy(this.physicsWorld);
-        this.drawnLines.splice(i, 1);
-      }
+    // Update ALL game objects for responsive rendering and animations
+    if (this.rules) {
+      updateVisuals(this.rules, scaleFactor, dt);
     }
+  }
 
-    // Ice blocks (melting and removal)
-    for (let i = this.iceBlocks.length - 1; i >= 0; i--) {
-      const iceBlock = this.iceBlocks[i];
-      if (iceBlock.update(scaleFactor, dt)) {
-        this.iceBlockColliderHandles.delete(iceBlock.getColliderHandle());
-        iceBlock.destroy(this.physicsWorld);
-        this.iceBlocks.splice(i, 1);
-      }
-    }
+  /**
+   * Move the camera towards the midpoint of the balls still in play
+   */
+  private followBalls(dt: number): void {
+    const positions = this.replayPlayer
+      ? this.replayPlayer.getBallPositions()
+      : (this.rules?.balls ?? []).map(ball => {
+        const pos = ball.body.translation();
+        return this.physicsWorld.toPixels(pos.x, pos.y);
+      });
+    if (positions.length === 0) return;
 
-    // Seesaws from physics
-    for (const seesaw of this.seesaws) {
-      seesaw.update(scaleFactor);
-    }
+    const x = positions.reduce((sum, p) => sum + p.x, 0) / positions.length;
+    const y = positions.reduce((sum, p) => sum + p.y, 0) / positions.length;
+    // Frame rate independent easing; dt 0 (first frame) jumps straight there
+    const amount = dt > 0 ? 1 - Math.exp(-CAMERA_FOLLOW_SPEED * dt) : 1;
+    this.camera.centerOn(x, y, amount);
+  }
 
-    // Conveyor Belts (gear animation)
-    for (const conveyor of this.conveyors) {
-      conveyor.update(scaleFactor, dt);
-    }
+  /**
+   * Let the camera move over the whole level
+   */
+  private applyLevelBounds(level: LevelData): void {
+    const { width, height } = getLevelBounds(level);
+    this.camera.setWorldSize(width, height);
+  }
 
-    // Obstacles and Nets (responsive positioning)
-    for (const obstacle of this.obstacles) {
-      obstacle.update(scaleFactor);
-    }
-    for (const net of this.nets) {
-      net.update(scaleFactor);
+  /**
+   * Level settings can resize the level, so the camera's world follows them
+   */
+  private handleLevelSettingsChange(): void {
+    if (this.editingLevel) {
+      this.applyLevelBounds(this.editingLevel);
     }
+    this.markAsEdited();
   }
 
   /**
@@ -1272,20 +1163,32 @@ export class Game {
     const height = getCanvasHeight();
     const gridSize = scale(GRID_SIZE);
 
-    const startX = (width / 2) % gridSize;
-    const startY = (height / 2) % gridSize;
+    // Cover the view; lines stay aligned to the center of the design area
+    const scaleFactor = getScaleFactor();
+    const view = this.camera.getViewBounds();
+    const left = view.minX * scaleFactor, right = view.maxX * scaleFactor;
+    const top = view.minY * scaleFactor, bottom = view.maxY * scaleFactor;
+
+    const startX = width / 2 + Math.floor((left - width / 2) / gridSize) * gridSize;
+    const startY = height / 2 + Math.floor((top - height / 2) / gridSize) * gridSize;
 
-    for (let x = startX; x <= width; x += gridSize) {
-      gridGraphics.moveTo(x, 0);
-      gridGraphics.lineTo(x, height);
+    for (let x = startX; x <= right; x += gridSize) {
+      gridGraphics.moveTo(x, top);
+      gridGraphics.lineTo(x, bottom);
     }
 
-    for (let y = startY; y <= height; y += gridSize) {
-      gridGraphics.moveTo(0, y);
-      gridGraphics.lineTo(width, y);
+    for (let y = startY; y <= bottom; y += gridSize) {
+      gridGraphics.moveTo(left, y);
+      gridGraphics.lineTo(right, y);
     }
 
-    gridGraphics.stroke({ width: 1, color: GRID_COLOR });
+    gridGraphics.stroke({ width: 1 / this.camera.getZoom(), color: GRID_COLOR });
+
+    if (!this.camera.isDefault()) {
+      const world = this.camera.getWorldSize();
+      gridGraphics.rect(0, 0, world.width * scaleFactor, world.height * scaleFactor);
+      gridGraphics.stroke({ width: 2 / this.camera.getZoom(), color: STAGE_BORDER_COLOR });
+    }
 
     if (this.backgroundContainer) {
       this.backgroundContainer.addChild(gridGraphics);
@@ -1323,15 +1226,23 @@ export class Game {
       if (this.drawingManager) {
         this.drawingManager.setPen(pen);
       }
-    }, this.currentPen.id);
+    }, this.currentPen.id, () => this.showImportDialog());
+    this.levelSelectionUI.onAuthorFilterChange = () => this.updateRoute();
+    levelService.onDraftsChanged = () => this.refreshDrafts();
+    levelService.onDraftConflict = (conflict) => this.showDraftConflictDialog(conflict);
     this.menuContainer.addChild(this.levelSelectionUI);
   }
 
   private async showLevelSelection(): Promise<void> {
     this.gameState = GameState.MENU;
+    this.updateRoute();
+    this.cameraController?.setEnabled(false);
+    this.camera.reset();
     // Clear editing session
     this.editingLevel = null;
     this.editorHasChanged = false;
+    this.resetEditorHistory();
+    this.closeShortcutsDialog();
     if (this.editorUI) {
       this.editorUI.visible = false;
       this.editorUI.destroy(); // Destroy it to reset state? Or keep?
@@ -1356,14 +1267,35 @@ export class Game {
     if (this.restartBtnContainer) this.restartBtnContainer.visible = false;
     if (this.homeBtnContainer) this.homeBtnContainer.visible = false;
     if (this.publishBtnContainer) this.publishBtnContainer.visible = false;
+    if (this.replayBtnContainer) this.replayBtnContainer.visible = false;
   }
 
-  private async startLevel(levelData: LevelData): Promise<void> {
+  private async startLevel(levelData: LevelData): Promise<boolean> {
     this.menuContainer.visible = false;
     this.gameContainer.visible = true;
     this.gameState = GameState.READY; // Will switch to PLAYING on interaction
 
-    await this.loadLevel(levelData);
+    // Levels are played at 1:1 and never show anything outside the level
+    this.cameraController?.setEnabled(false);
+    this.camera.setContained(true);
+    this.camera.reset();
+
+    const validation = await this.loadLevel(levelData);
+    if (!validation.valid) {
+      this.showConfirmDialog(
+        `${LanguageManager.getInstance().t('level.invalid')}\n${formatValidationErrors(validation.errors, 3)}`,
+        () => this.closeConfirmDialog(),
+        () => this.closeConfirmDialog(),
+        { showCancel: false, confirmKey: 'common.ok' }
+      );
+      // Return to wherever the level was opened from
+      if (this.editingLevel === levelData) {
+        this.startEditor(levelData, false);
+      } else {
+        this.showLevelSelection();
+      }
+      return false;
+    }
 
     if (this.editorUI) {
       this.editorUI.visible = false;
@@ -1383,7 +1315,15 @@ export class Game {
           () => this.showPenSelection(),
           (obj) => this.selectObject(obj.container, obj.data, obj.type),
           () => this.editorObjects,
-          (obj) => this.updateEditorObject(obj)
+          (obj) => this.updateEditorObject(obj),
+          () => this.editingLevel,
+          () => this.handleLevelSettingsChange(),
+          () => this.undoEdit(),
+          () => this.redoEdit(),
+          (active) => this.setEditorAdjusting(active),
+          (mode) => this.alignSelection(mode),
+          () => this.showShortcutsDialog(),
+          () => this.showShareDialog()
         );
         this.uiLayer.addChild(this.editorUI);
       }
@@ -1407,41 +1347,159 @@ export class Game {
       if (this.penBtnContainer) this.penBtnContainer.visible = false;
       if (this.restartBtnContainer) this.restartBtnContainer.visible = false;
       if (this.homeBtnContainer) this.homeBtnContainer.visible = false;
+      if (this.replayBtnContainer) this.replayBtnContainer.visible = false;
     } else {
       if (this.penBtnContainer) this.penBtnContainer.visible = true;
       if (this.restartBtnContainer) this.restartBtnContainer.visible = true;
       if (this.homeBtnContainer) this.homeBtnContainer.visible = true;
+      if (this.replayBtnContainer) this.replayBtnContainer.visible = true;
     }
     // publishBtnContainer visibility is controlled in loadLevel based on level data
+
+    // Authors testing their own level already know what it says
+    if (!isEditorPlay && LevelInfoDialog.hasInfo(levelData)) {
+      this.levelInfoDialog = new LevelInfoDialog(levelData, () => this.closeLevelInfo());
+      this.uiLayer.addChild(this.levelInfoDialog);
+    }
+
+    this.updateRoute();
+    return true;
   }
 
-  /**
-   * Show a confirm dialog on canvas
-   */
-  private showConfirmDialog(
-    message: string,
-    onConfirm: () => void,
-    onCancel: () => void,
-    options?: { confirmText?: string; cancelText?: string; confirmKey?: TranslationKey; cancelKey?: TranslationKey; showCancel?: boolean; onDismiss?: () => void }
-  ): void {
-    this.closeConfirmDialog();
-    this.confirmDialog = new ConfirmDialog(message, onConfirm, onCancel, options);
-    this.uiLayer.addChild(this.confirmDialog);
+  private closeLevelInfo(): void {
+    if (this.levelInfoDialog) {
+      this.uiLayer.removeChild(this.levelInfoDialog);
+      this.levelInfoDialog.destroy({ children: true });
+      this.levelInfoDialog = null;
+    }
   }
 
   /**
-   * Close the confirm dialog
+   * Reflect the current screen in the URL
    */
-  private closeConfirmDialog(): void {
-    if (this.confirmDialog) {
-      this.uiLayer.removeChild(this.confirmDialog);
-      this.confirmDialog.destroy();
-      this.confirmDialog = null;
+  private updateRoute(replace: boolean = false): void {
+    let route: Route;
+    const level = this.levelManager.getCurrentLevel();
+    if (this.gameState === GameState.MENU) {
+      const authorId = this.levelSelectionUI?.getFilterAuthorId() ?? null;
+      route = authorId ? { name: 'user', id: authorId } : { name: 'menu' };
+    } else if (this.editingLevel) {
+      route = { name: 'editor', id: this.editingLevel.id };
+    } else if (level) {
+      route = { name: 'level', id: level.id };
+    } else {
+      route = { name: 'menu' };
     }
+
+    // Switching between playing and editing the same level is not a new page
+    const current = this.router.getRoute();
+    const sameLevel = current !== null && current.name !== 'menu' && route.name !== 'menu' &&
+      current.name !== 'user' && route.name !== 'user' && current.id === route.id;
+    this.router.navigate(route, replace || sameLevel || this.isHandlingRoute);
   }
 
   /**
-   * Check intersection for drawing
+   * Show the screen for a URL the user opened or went back / forward to.
+   * Screens opened on the way replace the history entry instead of adding one,
+   * which would drop the forward history.
+   */
+  private async handleRoute(route: Route): Promise<void> {
+    this.isHandlingRoute = true;
+    try {
+      await this.showRoute(route);
+    } finally {
+      this.isHandlingRoute = false;
+    }
+  }
+
+  private async showRoute(route: Route): Promise<void> {
+    // Leaving the editor goes through its save prompt (and back to the menu); the URL follows
+    const targetId = route.name === 'level' || route.name === 'editor' ? route.id : null;
+    if (this.editingLevel && this.gameState !== GameState.MENU && targetId !== this.editingLevel.id) {
+      this.handleEditorClose();
+      this.updateRoute(true);
+      return;
+    }
+
+    switch (route.name) {
+      case 'menu':
+      case 'user':
+        if (this.gameState !== GameState.MENU) {
+          this.closeConfirmDialog();
+          await this.showLevelSelection();
+        }
+        this.levelSelectionUI?.showAuthor(route.name === 'user' ? route.id : null);
+        break;
+      case 'level':
+      case 'editor':
+        await this.openLevelById(route.id, route.name === 'editor');
+        break;
+    }
+  }
+
+  /**
+   * Open a level from a link; only your own drafts open in the editor
+   */
+  private async openLevelById(levelId: string, edit: boolean): Promise<void> {
+    const current = this.editingLevel ?? this.levelManager.getCurrentLevel();
+    if (this.gameState !== GameState.MENU && current?.id === levelId) return;
+
+    const levelData = await LevelService.getInstance().getLevelData(levelId);
+    if (!levelData) {
+      this.showMessageDialog('error.not_found');
+      this.updateRoute(true);
+      return;
+    }
+
+    // Work on a copy, as when a level is picked from the menu
+    const levelClone: LevelData = JSON.parse(JSON.stringify(levelData));
+    this.closeConfirmDialog();
+    if (edit && levelData.authorId === CURRENT_USER_ID && !levelData.isPublished) {
+      this.startEditor(levelClone);
+    } else {
+      this.startLevel(levelClone);
+    }
+  }
+
+  /**
+   * Show a confirm dialog on canvas
+   */
+  private showConfirmDialog(
+    message: string,
+    onConfirm: () => void,
+    onCancel: () => void,
+    options?: { confirmText?: string; cancelText?: string; confirmKey?: TranslationKey; cancelKey?: TranslationKey; showCancel?: boolean; onDismiss?: () => void }
+  ): void {
+    this.closeConfirmDialog();
+    this.confirmDialog = new ConfirmDialog(message, onConfirm, onCancel, options);
+    this.uiLayer.addChild(this.confirmDialog);
+  }
+
+  /**
+   * Show a message with a single OK button
+   */
+  private showMessageDialog(messageKey: TranslationKey): void {
+    this.showConfirmDialog(
+      LanguageManager.getInstance().t(messageKey),
+      () => this.closeConfirmDialog(),
+      () => this.closeConfirmDialog(),
+      { showCancel: false, confirmKey: 'common.ok' }
+    );
+  }
+
+  /**
+   * Close the confirm dialog
+   */
+  private closeConfirmDialog(): void {
+    if (this.confirmDialog) {
+      this.uiLayer.removeChild(this.confirmDialog);
+      this.confirmDialog.destroy();
+      this.confirmDialog = null;
+    }
+  }
+
+  /**
+   * Check intersection for drawing
    * Uses shape cast (ball shape) instead of ray cast to ensure the entire line segment
    * maintains a minimum distance from restricted areas.
    */
@@ -1608,6 +1666,7 @@ export class Game {
   private async createNewLevel(): Promise<void> {
     // Create default level data
     const newLevel: LevelData = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       id: `custom_${Date.now()}`,
       author: 'Me',
       authorId: CURRENT_USER_ID,
@@ -1640,8 +1699,26 @@ export class Game {
     if (isNewSession) {
       this.editorHasChanged = false;
       this.initialAuthorPassed = levelData.authorPassed || false;
+      this.resetEditorHistory();
+      this.editorView = null;
     }
 
+    // Zoom and pan over the whole level; coming back from a test play restores the view
+    this.cameraController?.setEnabled(true);
+    this.cameraController?.setZoomEnabled(true);
+    this.camera.setContained(false);
+    this.applyLevelBounds(levelData);
+    if (this.editorView) {
+      this.camera.setView(this.editorView);
+      this.editorView = null;
+    } else if (isNewSession) {
+      this.camera.reset();
+    }
+    if (this.editorSnapshot === null) {
+      this.editorSnapshot = createLevelSnapshot(levelData);
+    }
+    this.updateRoute();
+
     // Clear everything
     this.clearLevel(); // This clears physics bodies and gameContainer children
     this.gameContainer.visible = true;
@@ -1657,13 +1734,13 @@ export class Game {
 
     // Enable background interaction in editor mode
     // Click: Deselect
-    // Drag: Move currently selected object
+    // Drag: Move currently selected object(s)
+    // Drag with nothing selected, or Shift+Drag: Marquee selection
     this.interactionArea.eventMode = 'static';
     this.interactionArea.removeAllListeners();
     this.interactionArea.on('pointerdown', (e: PIXI.FederatedPointerEvent) => {
-      // If no object selected, just ensure clean state
-      if (!this.selectedObject) {
-        this.deselectObject();
+      if (this.getSelection().length === 0 || e.shiftKey) {
+        this.startMarquee(e);
         return;
       }
 
@@ -1711,6 +1788,7 @@ export class Game {
     if (this.restartBtnContainer) this.restartBtnContainer.visible = false;
     if (this.homeBtnContainer) this.homeBtnContainer.visible = false;
     if (this.publishBtnContainer) this.publishBtnContainer.visible = false;
+    if (this.replayBtnContainer) this.replayBtnContainer.visible = false;
 
 
     // Load Editor Level (Visuals)
@@ -1721,8 +1799,9 @@ export class Game {
       this.gameContainer.removeChild(this.transformGizmo);
       this.transformGizmo.destroy();
     }
-    this.transformGizmo = new TransformGizmo();
+    this.transformGizmo = new TransformGizmo(this.camera);
     this.transformGizmo.zIndex = 1000; // Above all objects
+    this.transformGizmo.setSnapTargetsProvider(() => this.getSnapTargets());
     this.gameContainer.addChild(this.transformGizmo);
 
     // Show Editor UI
@@ -1744,10 +1823,19 @@ export class Game {
         () => this.showPenSelection(), // On Pen
         (obj) => this.selectObject(obj.container, obj.data, obj.type),
         () => this.editorObjects,
-        (obj) => this.updateEditorObject(obj)
+        (obj) => this.updateEditorObject(obj),
+        () => this.editingLevel,     // Level Settings target
+        () => this.handleLevelSettingsChange(), // On Level Settings Change
+        () => this.undoEdit(),       // On Undo
+        () => this.redoEdit(),       // On Redo
+        (active) => this.setEditorAdjusting(active), // Inspector drag state
+        (mode) => this.alignSelection(mode),         // On Align
+        () => this.showShortcutsDialog(),            // On Shortcuts Help
+        () => this.showShareDialog()                 // On Share
       );
       this.uiLayer.addChild(this.editorUI);
     }
+    this.updateHistoryButtons();
 
     // Always ensure EditorUI is in edit state
     if (this.editorUI) {
@@ -1845,6 +1933,22 @@ export class Game {
         this.setupEditorObject(vis, button, 'button');
       });
     }
+
+    // Portals
+    if (data.portals) {
+      data.portals.forEach(portal => {
+        const vis = Portal.createVisual(portal);
+        this.setupEditorObject(vis, portal, 'portal');
+      });
+    }
+
+    // Springs
+    if (data.springs) {
+      data.springs.forEach(spring => {
+        const vis = Spring.createVisual(spring);
+        this.setupEditorObject(vis, spring, 'spring');
+      });
+    }
   }
 
   private markAsEdited() {
@@ -1852,9 +1956,380 @@ export class Game {
     if (this.editingLevel) {
       this.editingLevel.authorPassed = false;
     }
+    this.recordEdit();
+  }
+
+  /**
+   * Push the changes since the last recorded edit onto the undo stack.
+   * Deferred while a drag is in progress so one drag is one step.
+   */
+  private recordEdit(): void {
+    if (!this.editingLevel || this.editorSnapshot === null || this.isEditorAdjusting) return;
+
+    const after = createLevelSnapshot(this.editingLevel);
+    if (after === this.editorSnapshot) return;
+
+    this.editorHistory.push(new LevelSnapshotCommand(this.editorSnapshot, after, (snapshot) => this.applyEditorSnapshot(snapshot)));
+    this.editorSnapshot = after;
+  }
+
+  private setEditorAdjusting(active: boolean): void {
+    this.isEditorAdjusting = active;
+    if (!active) {
+      this.recordEdit();
+    }
+  }
+
+  private resetEditorHistory(): void {
+    this.editorHistory.clear();
+    this.editorSnapshot = null;
+    this.isEditorAdjusting = false;
+  }
+
+  private undoEdit(): void {
+    if (this.gameState !== GameState.EDIT || this.isEditorAdjusting) return;
+    this.editorHistory.undo();
+  }
+
+  private redoEdit(): void {
+    if (this.gameState !== GameState.EDIT || this.isEditorAdjusting) return;
+    this.editorHistory.redo();
+  }
+
+  /**
+   * Restore the level to a recorded state and rebuild the editor scene,
+   * keeping the selection when the same object still exists
+   */
+  private applyEditorSnapshot(snapshot: string): void {
+    if (!this.editingLevel) return;
+
+    const selected = this.getSelection().map(sel => ({
+      index: this.editorObjects.findIndex(obj => obj.container === sel.container),
+      type: sel.type
+    }));
+
+    restoreLevelSnapshot(this.editingLevel, snapshot);
+    this.editorSnapshot = snapshot;
+    this.markAsEdited();
+
+    this.startEditor(this.editingLevel, false);
+    this.editorUI?.refreshLevelSettings();
+
+    const reselect = selected
+      .map(({ index, type }) => this.editorObjects[index]?.type === type ? this.editorObjects[index] : null)
+      .filter(obj => obj !== null);
+    this.setSelection(reselect);
+  }
+
+  private updateHistoryButtons(): void {
+    if (this.editorUI) {
+      this.editorUI.setHistoryState(this.editorHistory.canUndo(), this.editorHistory.canRedo());
+    }
+  }
+
+  /**
+   * Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) in the editor; Cmd on macOS
+   */
+  private handleKeyDown = (e: KeyboardEvent): void => {
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+    // Only while editing a level (including its test play)
+    if (!this.editingLevel || !this.editorUI || !this.editorUI.visible) return;
+
+    const action = getEditorAction(e);
+    if (!action) return;
+
+    if (this.shortcutsDialog) {
+      if (action === EditorAction.HELP || action === EditorAction.DESELECT) {
+        e.preventDefault();
+        this.closeShortcutsDialog();
+      }
+      return;
+    }
+
+    if (action === EditorAction.TOGGLE_PLAY) {
+      if (e.repeat || this.gameState === GameState.MENU || this.gameState === GameState.REPLAY) return;
+      e.preventDefault();
+      this.toggleEditorMode(this.gameState === GameState.EDIT ? 'play' : 'edit');
+      return;
+    }
+
+    if (this.gameState !== GameState.EDIT) return;
+    // Leave the selection alone while it is being dragged
+    if (this.isEditorAdjusting || this.transformGizmo?.isDraggingHandle()) return;
+    e.preventDefault();
+
+    const nudge = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+    switch (action) {
+      case EditorAction.DELETE: this.deleteSelectedObject(); break;
+      case EditorAction.COPY: this.copyToClipboard(); break;
+      case EditorAction.PASTE: this.pasteFromClipboard(); break;
+      case EditorAction.DUPLICATE: this.copySelectedObject(); break;
+      case EditorAction.UNDO: this.undoEdit(); break;
+      case EditorAction.REDO: this.redoEdit(); break;
+      case EditorAction.NUDGE_LEFT: this.nudgeSelection(-nudge, 0); break;
+      case EditorAction.NUDGE_RIGHT: this.nudgeSelection(nudge, 0); break;
+      case EditorAction.NUDGE_UP: this.nudgeSelection(0, -nudge); break;
+      case EditorAction.NUDGE_DOWN: this.nudgeSelection(0, nudge); break;
+      case EditorAction.ROTATE_CW: this.rotateSelection(1); break;
+      case EditorAction.ROTATE_CCW: this.rotateSelection(-1); break;
+      case EditorAction.NEXT_OBJECT: this.cycleSelection(1); break;
+      case EditorAction.PREVIOUS_OBJECT: this.cycleSelection(-1); break;
+      case EditorAction.DESELECT: this.deselectObject(); break;
+      case EditorAction.RESET_VIEW: this.camera.reset(); break;
+      case EditorAction.HELP: if (!e.repeat) this.showShortcutsDialog(); break;
+    }
+  };
+
+  /**
+   * Offer the ways to share the level being edited
+   */
+  private showShareDialog(): void {
+    const level = this.editingLevel;
+    if (!level) return;
+
+    this.showConfirmDialog(
+      LanguageManager.getInstance().t('share.export_prompt'),
+      () => {
+        this.closeConfirmDialog();
+        this.copyShareLink(level);
+      },
+      () => {
+        this.closeConfirmDialog();
+        downloadTextFile(`opendots-level-${level.id}.json`, encodeLevelFile(level));
+      },
+      { confirmKey: 'share.copy_link', cancelKey: 'share.download', onDismiss: () => this.closeConfirmDialog() }
+    );
+  }
+
+  private async copyShareLink(level: LevelData): Promise<void> {
+    const link = createShareLink(await encodeShareCode(level), window.location.href);
+    try {
+      await navigator.clipboard.writeText(link);
+      this.showMessageDialog('share.link_copied');
+    } catch {
+      // Clipboard access can be denied; let the user copy the link by hand
+      window.prompt(LanguageManager.getInstance().t('share.copy_manually'), link);
+    }
+  }
+
+  /**
+   * Offer the ways to bring in a level shared by someone else
+   */
+  private showImportDialog(): void {
+    this.showConfirmDialog(
+      LanguageManager.getInstance().t('share.import_prompt'),
+      () => {
+        this.closeConfirmDialog();
+        this.importFromClipboard();
+      },
+      () => {
+        this.closeConfirmDialog();
+        this.importFromFile();
+      },
+      { confirmKey: 'share.paste', cancelKey: 'share.from_file', onDismiss: () => this.closeConfirmDialog() }
+    );
+  }
+
+  private async importFromFile(): Promise<void> {
+    const text = await pickTextFile();
+    if (text === null) return;
+    await this.importSharedLevel(text);
+  }
+
+  private async importFromClipboard(): Promise<void> {
+    let text: string | null = null;
+    try {
+      text = await navigator.clipboard.readText();
+    } catch {
+      // Reading the clipboard needs permission; fall back to asking for the code
+    }
+    if (!text?.trim()) {
+      text = window.prompt(LanguageManager.getInstance().t('share.paste_prompt'));
+    }
+    if (!text) return;
+    await this.importSharedLevel(text);
+  }
+
+  /**
+   * Import the level from a share link the game was opened with
+   */
+  private importFromLocation(): void {
+    const code = getShareCodeFromHash(window.location.hash);
+    if (code === null) return;
+
+    // Drop the code so reloading does not import the level again
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+    this.importSharedLevel(code);
+  }
+
+  /**
+   * Add a shared level as a new draft and open it in the editor
+   */
+  private async importSharedLevel(text: string): Promise<void> {
+    let level: LevelData;
+    try {
+      level = await parseSharedLevel(text);
+    } catch (e) {
+      console.warn('Failed to import level', e);
+      const reason = e instanceof Error ? e.message : String(e);
+      this.showConfirmDialog(
+        `${LanguageManager.getInstance().t('share.invalid')}\n${reason}`,
+        () => this.closeConfirmDialog(),
+        () => this.closeConfirmDialog(),
+        { showCancel: false, confirmKey: 'common.ok' }
+      );
+      return;
+    }
+
+    const draft = await LevelService.getInstance().importLevel(level);
+    this.startEditor(draft);
+  }
+
+  /**
+   * Show drafts synced from another device in the level selection
+   */
+  private async refreshDrafts(): Promise<void> {
+    if (this.gameState !== GameState.MENU || !this.levelSelectionUI) return;
+    const levels = await LevelService.getInstance().getLevelList();
+    this.levelSelectionUI.updateLevels(levels);
+  }
+
+  /**
+   * Tell the player that a draft edited on two devices kept only the latest
+   * changes, and offer to keep the other version as a separate draft
+   */
+  private showDraftConflictDialog(conflict: DraftConflict): void {
+    // Do not replace a question the player is answering
+    if (this.confirmDialog) return;
+
+    const title = conflict.kept.title ? `\n${conflict.kept.title}` : '';
+    this.showConfirmDialog(
+      LanguageManager.getInstance().t('drafts.conflict') + title,
+      () => {
+        this.closeConfirmDialog();
+        LevelService.getInstance().keepBothDrafts(conflict);
+      },
+      () => this.closeConfirmDialog(),
+      { confirmKey: 'drafts.keep_both', cancelKey: 'common.ok', onDismiss: () => this.closeConfirmDialog() }
+    );
+  }
+
+  private showShortcutsDialog(): void {
+    if (this.shortcutsDialog || this.gameState !== GameState.EDIT) return;
+    this.shortcutsDialog = new ShortcutsDialog(() => this.closeShortcutsDialog());
+    this.uiLayer.addChild(this.shortcutsDialog);
+  }
+
+  private closeShortcutsDialog(): void {
+    if (this.shortcutsDialog) {
+      this.uiLayer.removeChild(this.shortcutsDialog);
+      this.shortcutsDialog.destroy({ children: true });
+      this.shortcutsDialog = null;
+    }
+  }
+
+  /**
+   * Redraw the selection after a keyboard edit and record it
+   */
+  private commitSelectionEdit(): void {
+    if (this.selectedObject) {
+      this.onGizmoTransformChange();
+    } else {
+      this.onGroupTransformChange();
+    }
+    if (this.transformGizmo) {
+      this.transformGizmo.updateGizmo();
+    }
+    this.markAsEdited();
+  }
+
+  private nudgeSelection(dx: number, dy: number): void {
+    const selection = this.getSelection();
+    if (selection.length === 0) return;
+
+    selection.forEach(obj => translateObject(obj.data, obj.type, dx, dy));
+    this.commitSelectionEdit();
+  }
+
+  /**
+   * Rotate the selection by the rotation snap step (clockwise for direction 1).
+   * A group turns around the center of its bounds.
+   */
+  private rotateSelection(direction: number): void {
+    const selection = this.getSelection();
+    if (selection.length === 0) return;
+
+    const snapStep = SnapSettings.getInstance().get().angleStep;
+    const step = snapStep || DEFAULT_ROTATE_STEP;
+
+    if (this.selectedObject) {
+      const { data, type } = this.selectedObject;
+      if (!getTransformConstraints(type, data).canRotate) return;
+      data.angle = snapAngle((data.angle || 0) + direction * step, snapStep);
+    } else {
+      const bounds = unionBounds(selection.map(obj => getObjectBounds(obj.data, obj.type)));
+      const pivot = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+      const angle = (direction * step * Math.PI) / 180;
+      for (const { data, type } of selection) {
+        const initial = JSON.parse(JSON.stringify(data));
+        const canRotate = getTransformConstraints(type, data).canRotate;
+        transformObject(data, initial, type, canRotate, pivot, { x: 0, y: 0 }, angle, 1);
+      }
+    }
+    this.commitSelectionEdit();
+  }
+
+  /**
+   * Select the next (or previous) object in the order they were added
+   */
+  private cycleSelection(direction: number): void {
+    const count = this.editorObjects.length;
+    if (count === 0) return;
+
+    const current = this.getSelection()[0];
+    const index = current ? this.editorObjects.findIndex(obj => obj.container === current.container) : -1;
+    const next = index === -1
+      ? (direction > 0 ? 0 : count - 1)
+      : (index + direction + count) % count;
+
+    const obj = this.editorObjects[next];
+    this.selectObject(obj.container, obj.data, obj.type);
+  }
+
+  private copyToClipboard(): void {
+    const items = this.getSelection()
+      .filter(obj => obj.type !== 'ball_blue' && obj.type !== 'ball_pink')
+      .map(obj => ({ data: JSON.parse(JSON.stringify(obj.data)), type: obj.type }));
+    if (items.length === 0) return;
+
+    this.editorClipboard = items;
+    this.pasteCount = 0;
+  }
+
+  /**
+   * Add the copied objects, offset a little further on each paste so copies do not stack
+   */
+  private pasteFromClipboard(): void {
+    if (this.editorClipboard.length === 0) return;
+
+    this.pasteCount++;
+    const offset = this.pasteCount * PASTE_OFFSET;
+    const copies = this.editorClipboard
+      .map(item => {
+        const data = JSON.parse(JSON.stringify(item.data));
+        translateObject(data, item.type, offset, offset);
+        return this.duplicateObject(data, item.type);
+      })
+      .filter(copy => copy !== null);
+    if (copies.length === 0) return;
+
+    this.markAsEdited();
+    this.setSelection(copies);
   }
 
   private selectObject(container: PIXI.Container, data: any, type: string) {
+    this.clearMultiSelection();
+
     // Deselect previous (re-enable its event mode)
     if (this.selectedObject) {
       this.selectedObject.container.eventMode = 'static';
@@ -1885,8 +2360,8 @@ export class Game {
 
         () => this.onGizmoTransformEnd(),
         () => this.deselectObject(),
-        () => this.editorUI?.setGlassMode(true),
-        () => this.editorUI?.setGlassMode(false)
+        () => this.onGizmoDragStart(),
+        () => this.onGizmoDragEnd()
       );
     }
 
@@ -1903,6 +2378,8 @@ export class Game {
   }
 
   private deselectObject() {
+    this.clearMultiSelection();
+
     if (this.selectedObject) {
       // Re-enable event mode for the previously selected object
       this.selectedObject.container.eventMode = 'static';
@@ -1920,6 +2397,201 @@ export class Game {
     }
   }
 
+  /**
+   * All selected objects (empty, the single selection or the multi-selection)
+   */
+  private getSelection(): { container: PIXI.Container, data: any, type: string }[] {
+    return this.selectedObject ? [this.selectedObject] : this.multiSelection;
+  }
+
+  /**
+   * Bounds of the objects a dragged selection can snap to
+   */
+  private getSnapTargets(): Bounds[] {
+    const selection = this.getSelection().map(o => o.container);
+    return this.editorObjects
+      .filter(o => !selection.includes(o.container))
+      .map(o => getObjectBounds(o.data, o.type));
+  }
+
+  /**
+   * Select a set of objects; two or more are edited as a group
+   */
+  private setSelection(list: { container: PIXI.Container, data: any, type: string }[]): void {
+    if (list.length <= 1) {
+      if (list.length === 1) {
+        this.selectObject(list[0].container, list[0].data, list[0].type);
+      } else {
+        this.deselectObject();
+      }
+      return;
+    }
+
+    this.deselectObject();
+    this.multiSelection = [...list];
+
+    // Objects stay interactive so they can be dragged or Shift+clicked
+    for (const obj of list) {
+      this.updateEditorOutline(obj.container, obj.type, obj.data, EDITOR_OUTLINE_WIDTH_FOCUSED, EDITOR_SELECTION_COLOR);
+    }
+
+    if (this.transformGizmo) {
+      this.transformGizmo.setGroupTarget(
+        list,
+        () => this.onGroupTransformChange(),
+        () => this.markAsEdited(),
+        () => this.onGizmoDragStart(),
+        () => this.onGizmoDragEnd()
+      );
+    }
+
+    if (this.editorUI) {
+      const allBalls = list.every(obj => obj.type === 'ball_blue' || obj.type === 'ball_pink');
+      this.editorUI.setMultiSelection(list.length);
+      this.editorUI.updateTools(true, allBalls);
+    }
+  }
+
+  /**
+   * Add an object to the selection, or remove it if already selected (Shift+Click)
+   */
+  private toggleObjectSelection(obj: { container: PIXI.Container, data: any, type: string }): void {
+    const current = this.getSelection();
+    const next = current.some(o => o.container === obj.container)
+      ? current.filter(o => o.container !== obj.container)
+      : [...current, obj];
+    this.setSelection(next);
+  }
+
+  private clearMultiSelection(): void {
+    if (this.multiSelection.length === 0) return;
+
+    for (const obj of this.multiSelection) {
+      if (!obj.container.destroyed) {
+        this.updateEditorOutline(obj.container, obj.type, obj.data, EDITOR_OUTLINE_WIDTH_NORMAL, EDITOR_SELECTION_COLOR);
+      }
+    }
+    this.multiSelection = [];
+
+    if (this.transformGizmo) {
+      this.transformGizmo.clearTarget();
+    }
+    if (this.editorUI) {
+      this.editorUI.setMultiSelection(0);
+    }
+  }
+
+  /**
+   * Drag a selection rectangle from the background; objects touching it are selected.
+   * With Shift held they are added to the current selection.
+   */
+  private startMarquee(e: PIXI.FederatedPointerEvent): void {
+    const additive = e.shiftKey;
+    const start = this.gameContainer.toLocal(e.global);
+    let end = start;
+    let hasMoved = false;
+
+    const getDesignRect = (): Bounds => {
+      const scaleFactor = getScaleFactor();
+      return {
+        minX: Math.min(start.x, end.x) / scaleFactor,
+        minY: Math.min(start.y, end.y) / scaleFactor,
+        maxX: Math.max(start.x, end.x) / scaleFactor,
+        maxY: Math.max(start.y, end.y) / scaleFactor,
+      };
+    };
+
+    const onMove = (moveEvent: PIXI.FederatedPointerEvent) => {
+      end = this.gameContainer.toLocal(moveEvent.global);
+      if (!hasMoved && Math.hypot(end.x - start.x, end.y - start.y) <= scale(10)) return;
+      hasMoved = true;
+
+      if (!this.marquee) {
+        this.marquee = new PIXI.Graphics();
+        this.marquee.zIndex = 1001; // Above the gizmo
+        this.marquee.eventMode = 'none';
+        this.gameContainer.addChild(this.marquee);
+      }
+      this.marquee.clear();
+      this.marquee.rect(Math.min(start.x, end.x), Math.min(start.y, end.y), Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+      this.marquee.fill({ color: EDITOR_SELECTION_COLOR, alpha: 0.1 });
+      this.marquee.stroke({ color: EDITOR_SELECTION_COLOR, width: 1 });
+    };
+
+    const onUp = () => {
+      cleanup();
+      if (this.marquee) {
+        this.marquee.destroy();
+        this.marquee = null;
+      }
+
+      if (!hasMoved) {
+        if (!additive) this.deselectObject();
+        return;
+      }
+
+      const rect = getDesignRect();
+      const hits = this.editorObjects
+        .filter(obj => boundsIntersect(rect, getObjectBounds(obj.data, obj.type)))
+        .map(({ container, data, type }) => ({ container, data, type }));
+
+      if (additive) {
+        const current = this.getSelection();
+        this.setSelection([...current, ...hits.filter(hit => !current.some(o => o.container === hit.container))]);
+      } else {
+        this.setSelection(hits);
+      }
+    };
+
+    const cleanup = () => {
+      this.interactionArea.off('globalpointermove', onMove);
+      this.interactionArea.off('pointerup', onUp);
+      this.interactionArea.off('pointerupoutside', onUp);
+    };
+
+    this.interactionArea.on('globalpointermove', onMove);
+    this.interactionArea.on('pointerup', onUp);
+    this.interactionArea.on('pointerupoutside', onUp);
+  }
+
+  private onGizmoDragStart(): void {
+    this.setEditorAdjusting(true);
+    this.editorUI?.setGlassMode(true);
+  }
+
+  private onGizmoDragEnd(): void {
+    this.editorUI?.setGlassMode(false);
+    this.setEditorAdjusting(false);
+  }
+
+  /**
+   * Called during a group transform (live updates)
+   */
+  private onGroupTransformChange(): void {
+    for (const { container, data, type } of this.multiSelection) {
+      this.rebuildObjectVisual(container, data, type);
+      this.updateEditorOutline(container, type, data, EDITOR_OUTLINE_WIDTH_FOCUSED, EDITOR_SELECTION_COLOR);
+    }
+  }
+
+  /**
+   * Align or evenly space the selected objects
+   */
+  private alignSelection(mode: AlignMode): void {
+    if (this.multiSelection.length < 2) return;
+
+    const offsets = getAlignmentOffsets(this.multiSelection.map(obj => getObjectBounds(obj.data, obj.type)), mode);
+    this.multiSelection.forEach((obj, i) => {
+      translateObject(obj.data, obj.type, offsets[i].x, offsets[i].y);
+    });
+
+    this.onGroupTransformChange();
+    if (this.transformGizmo) {
+      this.transformGizmo.updateGizmo();
+    }
+    this.markAsEdited();
+  }
+
   /**
    * Called during gizmo transform (live updates)
    */
@@ -2006,6 +2678,12 @@ export class Game {
       case 'button':
         newVisual = Button.createVisual(data);
         break;
+      case 'portal':
+        newVisual = Portal.createVisual(data);
+        break;
+      case 'spring':
+        newVisual = Spring.createVisual(data);
+        break;
       case 'laser':
         if (this.laserTexture) {
           newVisual = Laser.createVisual(data, this.laserTexture, 14);
@@ -2039,6 +2717,9 @@ export class Game {
         const cy = (data.y1 + data.y2) / 2;
         container.position.set(cx * scaleFactor, cy * scaleFactor);
         container.rotation = Math.atan2(data.y2 - data.y1, data.x2 - data.x1);
+      } else if (type === 'portal') {
+        const center = Portal.getCenter(data);
+        container.position.set(center.x * scaleFactor, center.y * scaleFactor);
       } else {
         container.position.set(data.x * scaleFactor, data.y * scaleFactor);
         if (data.angle !== undefined) {
@@ -2165,6 +2846,17 @@ export class Game {
             g.rect(-len / 2, -lh / 2, len, lh);
           }
           break;
+        case 'portal':
+          {
+            // Relative to the midpoint, where the container sits
+            const center = Portal.getCenter(d);
+            g.circle(d.entrance.x - center.x, d.entrance.y - center.y, PORTAL_WIDTH / 2);
+            g.circle(d.exit.x - center.x, d.exit.y - center.y, PORTAL_WIDTH / 2);
+          }
+          break;
+        case 'spring':
+          g.rect(-SPRING_WIDTH / 2, -SPRING_HEIGHT / 2, SPRING_WIDTH, SPRING_HEIGHT);
+          break;
       }
     };
 
@@ -2201,6 +2893,8 @@ export class Game {
     if (type === 'laser') {
       posX = (data.x1 + data.x2) / 2;
       posY = (data.y1 + data.y2) / 2;
+    } else if (type === 'portal') {
+      ({ x: posX, y: posY } = Portal.getCenter(data));
     }
 
     visual.position.set(posX * scaleFactor, posY * scaleFactor);
@@ -2221,8 +2915,14 @@ export class Game {
     visual.cursor = 'move';
     visual.on('pointerdown', (e: PIXI.FederatedPointerEvent) => {
       e.stopPropagation();
-      // Select the object first
-      this.selectObject(visual, data, type);
+      if (e.shiftKey) {
+        this.toggleObjectSelection({ container: visual, data, type });
+        return;
+      }
+      // Select the object first, unless it is part of the group being dragged
+      if (!this.multiSelection.some(obj => obj.container === visual)) {
+        this.selectObject(visual, data, type);
+      }
       // Immediately trigger the gizmo's move handle with the same event
       if (this.transformGizmo) {
         this.transformGizmo.startMoveFromExternal(e);
@@ -2239,11 +2939,25 @@ export class Game {
   }
 
   private copySelectedObject() {
-    if (!this.selectedObject || !this.editingLevel) return;
-    const { data, type } = this.selectedObject;
+    if (!this.editingLevel) return;
+
+    const copies = this.getSelection()
+      .map(obj => this.duplicateObject(obj.data, obj.type))
+      .filter(copy => copy !== null);
+    if (copies.length === 0) return;
+
+    this.markAsEdited();
+    this.setSelection(copies); // Auto-select copied objects
+  }
+
+  /**
+   * Add a copy of an object to the level and the editor scene
+   */
+  private duplicateObject(data: any, type: string): { container: PIXI.Container, data: any, type: string } | null {
+    if (!this.editingLevel) return null;
 
     // Prevent copying balls
-    if (type === 'ball_blue' || type === 'ball_pink') return;
+    if (type === 'ball_blue' || type === 'ball_pink') return null;
 
     // Clone data
     const newData = JSON.parse(JSON.stringify(data));
@@ -2293,27 +3007,45 @@ export class Game {
           list = this.editingLevel.buttons;
           visual = Button.createVisual(newData);
           break;
+        case 'portal':
+          if (!this.editingLevel.portals) this.editingLevel.portals = [];
+          list = this.editingLevel.portals;
+          visual = Portal.createVisual(newData);
+          break;
+        case 'spring':
+          if (!this.editingLevel.springs) this.editingLevel.springs = [];
+          list = this.editingLevel.springs;
+          visual = Spring.createVisual(newData);
+          break;
       }
     }
 
-    if (visual && list) {
-      list.push(newData);
-      this.markAsEdited();
-      this.setupEditorObject(visual, newData, type, true); // Auto-select copied object
-    }
-  }
+    if (!visual || !list) return null;
 
+    list.push(newData);
+    this.setupEditorObject(visual, newData, type);
+    return { container: visual, data: newData, type };
+  }
 
   private deleteSelectedObject() {
-    if (!this.selectedObject || !this.editingLevel) return;
-    const { container, data, type } = this.selectedObject;
+    if (!this.editingLevel) return;
 
-    // Prevent deleting balls
-    if (type === 'ball_blue' || type === 'ball_pink') return;
+    // Balls cannot be deleted
+    const targets = this.getSelection().filter(obj => obj.type !== 'ball_blue' && obj.type !== 'ball_pink');
+    if (targets.length === 0) return;
 
-    // Remove from level data
-    // Remove from level data
+    this.deselectObject();
+    targets.forEach(obj => this.removeObject(obj.container, obj.data, obj.type));
     this.markAsEdited();
+  }
+
+  /**
+   * Remove an object from the level and the editor scene
+   */
+  private removeObject(container: PIXI.Container, data: any, type: string): void {
+    if (!this.editingLevel) return;
+
+    // Remove from level data
     if (type === 'obstacle') {
       const index = this.editingLevel.obstacles.indexOf(data);
       if (index > -1) this.editingLevel.obstacles.splice(index, 1);
@@ -2338,6 +3070,12 @@ export class Game {
     } else if (type === 'button' && this.editingLevel.buttons) {
       const index = this.editingLevel.buttons.indexOf(data);
       if (index > -1) this.editingLevel.buttons.splice(index, 1);
+    } else if (type === 'portal' && this.editingLevel.portals) {
+      const index = this.editingLevel.portals.indexOf(data);
+      if (index > -1) this.editingLevel.portals.splice(index, 1);
+    } else if (type === 'spring' && this.editingLevel.springs) {
+      const index = this.editingLevel.springs.indexOf(data);
+      if (index > -1) this.editingLevel.springs.splice(index, 1);
     }
 
     // Remove Visual
@@ -2348,9 +3086,6 @@ export class Game {
     if (objIndex > -1) {
       this.editorObjects.splice(objIndex, 1);
     }
-
-    // Deselect
-    this.deselectObject();
   }
 
   private async saveLevel() {
@@ -2396,9 +3131,7 @@ export class Game {
   public addObject(type: string, subType: string = 'rectangle', initialEventData?: any): void {
     if (!this.editingLevel) return;
 
-    const scaleFactor = getScaleFactor();
-
-    // Determine Spawn Position
+    // Determine Spawn Position (center of the view unless dragged in)
     let spawnX = getCanvasWidth() / 2;
     let spawnY = getCanvasHeight() / 2;
 
@@ -2407,8 +3140,7 @@ export class Game {
       spawnY = initialEventData.global.y;
     }
 
-    const designX = spawnX / scaleFactor;
-    const designY = spawnY / scaleFactor;
+    const { x: designX, y: designY } = this.camera.screenToWorld(spawnX, spawnY);
 
     let newObj: any = null;
     let visual: PIXI.Container | null = null;
@@ -2522,18 +3254,36 @@ export class Game {
           newObj = { x: designX, y: designY, angle: 0 };
           visual = Button.createVisual(newObj);
           break;
+        case 'portal':
+          if (!this.editingLevel.portals) this.editingLevel.portals = [];
+          list = this.editingLevel.portals;
+          // Entrance on the left, exit on the right, both opening upwards
+          newObj = {
+            entrance: { x: designX - 150, y: designY, angle: 0 },
+            exit: { x: designX + 150, y: designY, angle: 0 }
+          };
+          visual = Portal.createVisual(newObj);
+          break;
+        case 'spring':
+          if (!this.editingLevel.springs) this.editingLevel.springs = [];
+          list = this.editingLevel.springs;
+          newObj = { x: designX, y: designY, angle: 0, strength: SPRING_STRENGTH };
+          visual = Spring.createVisual(newObj);
+          break;
       }
     }
 
     if (visual && newObj && list) {
       list.push(newObj);
-      this.markAsEdited();
       this.setupEditorObject(visual, newObj, objTypeTag, true); // Auto-select new objects
 
       // If created via drag, immediately start dragging
       if (initialEventData && this.transformGizmo) {
         this.transformGizmo.startMoveFromExternal(initialEventData);
       }
+
+      // After the drag has started, so adding and placing the object is a single undo step
+      this.markAsEdited();
     }
 
   }
@@ -2541,6 +3291,10 @@ export class Game {
   private async toggleTestPlay() {
     if (!this.editingLevel) return;
 
+    if (this.gameState === GameState.EDIT) {
+      this.editorView = this.camera.getView();
+    }
+
     // Ensure state is updated even if we were somehow in a weird state
     // We trust the UI event that triggered this.
 
@@ -2549,7 +3303,7 @@ export class Game {
       this.editorUI.setUIState('play');
     }
 
-    await this.startLevel(this.editingLevel);
+    if (!(await this.startLevel(this.editingLevel))) return;
 
     // Ensure EditorUI remains visible and in play mode
     if (this.editorUI) {
@@ -0,0 +1,183 @@
+/**
+ * Camera
+ * Zoom and pan for the level view. The camera transforms the containers that hold
+ * the level (objects and background grid) and converts between screen and design space.
+ *
+ * Screen space is canvas pixels (Pixi global coordinates); the rest of the game
+ * keeps working in design space.
+ */
+
+import * as PIXI from 'pixi.js';
+import { DESIGN_WIDTH, DESIGN_HEIGHT, getScaleFactor } from '../config';
+import type { Point } from '../utils/douglasPeucker';
+import type { Bounds } from '../editor/SelectionGeometry';
+
+export const MIN_ZOOM = 0.5;
+export const MAX_ZOOM = 4;
+
+export interface CameraView {
+  x: number;     // Design space point at the top left of the screen
+  y: number;
+  zoom: number;
+}
+
+export class Camera {
+  private targets: PIXI.Container[];
+  private view: CameraView = { x: 0, y: 0, zoom: 1 };
+  private worldWidth: number = DESIGN_WIDTH;
+  private worldHeight: number = DESIGN_HEIGHT;
+  private contained: boolean = false;
+  private listeners: (() => void)[] = [];
+
+  constructor(targets: PIXI.Container[]) {
+    this.targets = targets;
+  }
+
+  /**
+   * Called after every change to the view (and on resize)
+   */
+  public onChange(listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  public getZoom(): number {
+    return this.view.zoom;
+  }
+
+  public getView(): CameraView {
+    return { ...this.view };
+  }
+
+  public isDefault(): boolean {
+    return this.view.x === 0 && this.view.y === 0 && this.view.zoom === 1;
+  }
+
+  /**
+   * Size of the area the view may move over, in design space
+   */
+  public setWorldSize(width: number, height: number): void {
+    this.worldWidth = width;
+    this.worldHeight = height;
+    this.setView(this.view);
+  }
+
+  public getWorldSize(): { width: number, height: number } {
+    return { width: this.worldWidth, height: this.worldHeight };
+  }
+
+  /**
+   * Keep the whole view inside the world (playing) rather than only its center (editing)
+   */
+  public setContained(contained: boolean): void {
+    this.contained = contained;
+    this.setView(this.view);
+  }
+
+  public reset(): void {
+    this.setView({ x: 0, y: 0, zoom: 1 });
+  }
+
+  /**
+   * Move the view, keeping it over the world
+   */
+  public setView(view: CameraView): void {
+    this.view = this.clampView(view);
+    this.apply();
+  }
+
+  /**
+   * Move the view center towards a design point; `amount` 1 goes all the way
+   */
+  public centerOn(x: number, y: number, amount: number = 1): void {
+    const { zoom } = this.view;
+    const viewWidth = DESIGN_WIDTH / zoom;
+    const viewHeight = DESIGN_HEIGHT / zoom;
+    const target = this.clampView({ x: x - viewWidth / 2, y: y - viewHeight / 2, zoom });
+    const next = this.clampView({
+      x: this.view.x + (target.x - this.view.x) * amount,
+      y: this.view.y + (target.y - this.view.y) * amount,
+      zoom
+    });
+
+    // Called every frame while following; skip redraws when nothing moves
+    if (Math.abs(next.x - this.view.x) < 0.01 && Math.abs(next.y - this.view.y) < 0.01) return;
+    this.view = next;
+    this.apply();
+  }
+
+  /**
+   * Zoom by `factor`, keeping the design point under the screen point in place
+   */
+  public zoomAt(factor: number, screenX: number, screenY: number): void {
+    const anchor = this.screenToWorld(screenX, screenY);
+    const zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, this.view.zoom * factor));
+    const scaleFactor = getScaleFactor();
+    this.setView({
+      x: anchor.x - screenX / (scaleFactor * zoom),
+      y: anchor.y - screenY / (scaleFactor * zoom),
+      zoom
+    });
+  }
+
+  /**
+   * Pan by a distance in screen pixels (the content follows the pointer)
+   */
+  public panBy(screenDx: number, screenDy: number): void {
+    const pixels = getScaleFactor() * this.view.zoom;
+    this.setView({ x: this.view.x - screenDx / pixels, y: this.view.y - screenDy / pixels, zoom: this.view.zoom });
+  }
+
+  private clampView(view: CameraView): CameraView {
+    const zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, view.zoom));
+    const viewWidth = DESIGN_WIDTH / zoom;
+    const viewHeight = DESIGN_HEIGHT / zoom;
+
+    if (this.contained) {
+      return {
+        x: Math.max(0, Math.min(this.worldWidth - viewWidth, view.x)),
+        y: Math.max(0, Math.min(this.worldHeight - viewHeight, view.y)),
+        zoom
+      };
+    }
+    return {
+      x: Math.max(-viewWidth / 2, Math.min(this.worldWidth - viewWidth / 2, view.x)),
+      y: Math.max(-viewHeight / 2, Math.min(this.worldHeight - viewHeight / 2, view.y)),
+      zoom
+    };
+  }
+
+  public screenToWorld(screenX: number, screenY: number): Point {
+    const pixels = getScaleFactor() * this.view.zoom;
+    return { x: this.view.x + screenX / pixels, y: this.view.y + screenY / pixels };
+  }
+
+  public worldToScreen(x: number, y: number): Point {
+    const pixels = getScaleFactor() * this.view.zoom;
+    return { x: (x - this.view.x) * pixels, y: (y - this.view.y) * pixels };
+  }
+
+  /**
+   * The part of design space on screen
+   */
+  public getViewBounds(): Bounds {
+    return {
+      minX: this.view.x,
+      minY: this.view.y,
+      maxX: this.view.x + DESIGN_WIDTH / this.view.zoom,
+      maxY: this.view.y + DESIGN_HEIGHT / this.view.zoom,
+    };
+  }
+
+  /**
+   * Apply the view to the target containers (also needed after a resize)
+   */
+  public apply(): void {
+    const { x, y, zoom } = this.view;
+    const scaleFactor = getScaleFactor();
+    for (const target of this.targets) {
+      target.scale.set(zoom);
+      target.position.set(-x * scaleFactor * zoom, -y * scaleFactor * zoom);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+}
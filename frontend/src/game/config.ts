@@ -3,8 +3,8 @@
  * Contains all game constants and physics parameters
  */
 
-// Physics scale factor (pixels to physics world units)
-export const SCALE = 60; // 60 pixels = 1 meter in physics world
+// Object sizes and physics parameters
+export * from './physics/PhysicsConfig';
 
 // Canvas dimensions - Responsive System
 export const ASPECT_RATIO = 16 / 9;
@@ -87,28 +87,14 @@ export function vh(percent: number): number {
 export const GAME_WIDTH = DESIGN_WIDTH;
 export const GAME_HEIGHT = DESIGN_HEIGHT;
 
-// Physics world settings
-export const GRAVITY = -10; // Gravity pointing downward (in physics coordinates)
-// Note: Rapier uses internal fixed timestep, no velocity/position iterations needed
-export const FIXED_TIMESTEP = 1 / 60;
-
 // Ball settings
-export const BALL_RADIUS = 25; // pixels
 export const BALL_COLORS = {
   blue: 0x3DBEEF,
   pink: 0xED86B4,
 };
 
-// Ball physics
-export const BALL_DENSITY = 1.0;
-export const BALL_FRICTION = 0.1;
-export const BALL_RESTITUTION = 0.0;
-
 // Button settings
 export const BUTTON_COLOR = 0xA0A0A0;
-export const BUTTON_THICKNESS = 5;
-export const BUTTON_VERTICAL_BAR_HEIGHT = 40;
-export const BUTTON_HORIZONTAL_BAR_WIDTH = 32;
 
 // Net settings
 export const NET_BORDER_COLOR = 0x808080;
@@ -117,15 +103,9 @@ export const NET_BORDER_ALPHA = 0.8;
 
 // Obstacle settings (Static)
 export const OBSTACLE_COLOR = 0x959595;
-export const OBSTACLE_DENSITY = 50.0;
-export const OBSTACLE_FRICTION = 0.5;
-export const OBSTACLE_RESTITUTION = 0.0;
 
 // Falling Object settings (Dynamic)
 export const FALLING_OBJECT_COLOR = 0xC8C8C8;
-export const FALLING_OBJECT_DENSITY = 1.0;
-export const FALLING_OBJECT_FRICTION = 0.1;
-export const FALLING_OBJECT_RESTITUTION = 0.0;
 
 // Ice Block settings
 export const ICE_BLOCK_COLOR = 0x83B0C9;
@@ -134,57 +114,31 @@ export const ICE_BLOCK_ALPHA = 0.5;
 // Seesaw settings
 export const SEESAW_COLOR = 0xC8C8C8;
 export const SEESAW_PIVOT_COLOR = 0x959595;
-export const SEESAW_DENSITY = 2;
-export const SEESAW_FRICTION = 0.5;
-export const SEESAW_RESTITUTION = 0.0;
-export const SEESAW_ANGULAR_DAMPING = 0.0;
-export const SEESAW_PIVOT_STIFFNESS = 5e5;  // Spring stiffness for soft pivot (higher = stiffer)
-export const SEESAW_PIVOT_DAMPING = 0.5;       // Spring damping (higher = less oscillation)
 
 // Conveyor Belt settings
 export const CONVEYOR_BELT_COLOR = 0xA9A9A9;
-export const CONVEYOR_BELT_HEIGHT = 60;         // Fixed height in pixels
-export const CONVEYOR_BELT_ACCELERATION = 15;   // Acceleration in physics units (m/s²) - all objects get same acceleration
-export const CONVEYOR_BELT_VELOCITY_FACTOR = 1.0; // Max velocity = |acceleration| * this factor (default)
 export const CONVEYOR_BELT_GEAR_SPEED_FACTOR = 1.0; // Gear rotation speed = |acceleration| × factor
-export const CONVEYOR_BELT_FRICTION = 0.0;      // Friction for conveyor belt
+
+// Portal settings
+export const PORTAL_ENTRANCE_COLOR = 0xFF9A3C;
+export const PORTAL_EXIT_COLOR = 0x3C9AFF;
+export const PORTAL_LINK_ALPHA = 0.25;          // Dashed line between the two ends
+
+// Spring settings
+export const SPRING_COLOR = 0x959595;
+export const SPRING_PAD_COLOR = 0xE5534B;
 
 // Background
 export const BACKGROUND_COLOR = 0xF5F5F5;
 export const GRID_SIZE = 36;
 export const GRID_COLOR = 0xE0EFFF; // Light blue grid color
+export const STAGE_BORDER_COLOR = 0xB0C8E8; // Edge of the level, shown when the camera has moved
+export const CAMERA_FOLLOW_SPEED = 4; // How quickly the camera catches up with the balls in scrolling levels (1/s)
 
 // Common UI/Interaction colors
 export const HIT_AREA_COLOR = 0xFFFFFF;
 export const HIT_AREA_ALPHA = 0.001;
 
-/**
- * Rapier Collision Groups
- * Format: 0xMMMMFFFF
- * MMMM = membership bits (what groups this belongs to)
- * FFFF = filter bits (what groups this can collide with)
- *
- * Converting from old CATEGORY bits:
- * - BLUE_BALL: 0x0002 -> membership: 0x0002, filter: 0xFFFF
- * - PINK_BALL: 0x0004 -> membership: 0x0004, filter: 0xFFFF
- * - etc.
- */
-export const COLLISION_GROUP = {
-  ALL: 0xFFFF_FFFF,             // Collide with everything
-  BLUE_BALL: 0x0002_FFFF,       // Group 1, collides with all
-  PINK_BALL: 0x0004_FFFF,       // Group 2, collides with all
-  USER_LINE: 0x0008_FFFF,       // Group 3, collides with all
-  GROUND: 0x0010_FFFF,          // Group 4, collides with all
-  OBSTACLE: 0x0020_FFFF,        // Group 5, collides with all
-  FALLING_OBJECT: 0x0040_FFFF,  // Group 6, collides with all
-  NET: 0x0080_FFFF,             // Group 7, sensor that detects everything (so queries can find it)
-  ICE_BLOCK: 0x0100_FFFF,       // Group 8, collides with all (for detection)
-  LASER: 0x0200_FFFF,           // Group 9, sensor for laser hazard detection
-  SEESAW: 0x0400_FFFF,          // Group 10, collides with all (rotating plank)
-  CONVEYOR_BELT: 0x0800_FFFF,   // Group 11, sensor for conveyor belt
-  BUTTON: 0x1000_FFFF,          // Group 12, sensor for button press detection
-};
-
 // Editor Selection
 export const EDITOR_SELECTION_COLOR = 0x2196F3;
 export const EDITOR_SELECTION_ALPHA = 0.5;
@@ -209,8 +163,10 @@ export const CATEGORY = {
 export const Z_INDEX = {
   BACKGROUND: 0,
   BUTTON: 10,
+  PORTAL: 15,
   DRAWN_LINE: 20,
   LASER: 30,
+  SPRING: 35,
   SEESAW: 40,
   BALL: 50,
   ICE_BLOCK: 60,
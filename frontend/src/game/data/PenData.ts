@@ -81,3 +81,14 @@ export const PENS: Pen[] = [
 ];
 
 export const DEFAULT_PEN = PENS[0];
+
+export function isPenAllowed(penId: string, allowedPenIds?: string[]): boolean {
+  return !allowedPenIds || allowedPenIds.includes(penId);
+}
+
+/**
+ * Pens a level lets the player use, in PENS order
+ */
+export function getAllowedPens(allowedPenIds?: string[]): Pen[] {
+  return PENS.filter(pen => isPenAllowed(pen.id, allowedPenIds));
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { EditorHistory, LevelSnapshotCommand, createLevelSnapshot, restoreLevelSnapshot } from './EditorHistory';
+import { migrateLevelData } from '../levels/LevelMigrations';
+import type { LevelData } from '../levels/LevelSchema';
+import level1 from '../levels/level1.json';
+
+// Records edits the way Game.recordEdit does: the changes since the last recorded snapshot
+const createEditor = (level: LevelData) => {
+  const history = new EditorHistory();
+  let snapshot = createLevelSnapshot(level);
+  const apply = (next: string) => {
+    restoreLevelSnapshot(level, next);
+    snapshot = next;
+  };
+  const record = () => {
+    const after = createLevelSnapshot(level);
+    if (after === snapshot) return;
+    history.push(new LevelSnapshotCommand(snapshot, after, apply));
+    snapshot = after;
+  };
+  return { history, record };
+};
+
+describe('EditorHistory', () => {
+  it('undoes and redoes recorded edits', () => {
+    const level = migrateLevelData({ ...structuredClone(level1), title: 'First' });
+    const { history, record } = createEditor(level);
+
+    const blueX = level.balls.blue.x;
+    level.title = 'Second';
+    record();
+    level.balls.blue.x = blueX + 100;
+    record();
+
+    expect(history.undo()).toBe(true);
+    expect(level.balls.blue.x).toBe(blueX);
+    expect(level.title).toBe('Second');
+    expect(history.undo()).toBe(true);
+    expect(level.title).toBe('First');
+    expect(history.undo()).toBe(false);
+
+    expect(history.redo()).toBe(true);
+    expect(level.title).toBe('Second');
+  });
+
+  it('does not record a save between two edits, nor undo its timestamp', () => {
+    const level = migrateLevelData({ ...structuredClone(level1), title: 'First', updatedAt: 1000 });
+    const { history, record } = createEditor(level);
+
+    level.title = 'Second';
+    record();
+    level.updatedAt = 2000; // Saved as a draft (LevelService.saveLocalDraft)
+    record();
+    level.title = 'Third';
+    record();
+
+    expect(history.undo()).toBe(true);
+    expect(level.title).toBe('Second');
+    expect(history.undo()).toBe(true);
+    expect(level.title).toBe('First');
+    expect(history.canUndo()).toBe(false);
+    expect(level.updatedAt).toBe(2000);
+  });
+
+  it('keeps fields the editor does not own on undo', () => {
+    const level = migrateLevelData({ ...structuredClone(level1), title: 'First' });
+    const { history, record } = createEditor(level);
+
+    level.title = 'Second';
+    record();
+    level.likes = 5;
+    level.authorPassed = true;
+    history.undo();
+
+    expect(level.title).toBe('First');
+    expect(level.likes).toBe(5);
+    expect(level.authorPassed).toBe(true);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Editor History
+ * Undo/redo stack for the level editor.
+ *
+ * Edits are recorded after they have been applied, so the editor keeps
+ * mutating the level directly and only reports each finished change.
+ */
+
+import type { LevelData } from '../levels/LevelSchema';
+
+export interface EditorCommand {
+  undo(): void;
+  redo(): void;
+}
+
+const MAX_HISTORY = 100;
+
+/**
+ * Fields the editor does not own; they keep their current value on undo/redo
+ */
+const UNTRACKED_FIELDS: (keyof LevelData)[] = [
+  'authorPassed', 'isPublished', 'likes', 'attempts', 'clears', 'isLikedByCurrentUser', 'bestStars',
+  'updatedAt', // Set when the draft is saved; draft sync compares it, so it must never go back
+];
+
+export class EditorHistory {
+  private undoStack: EditorCommand[] = [];
+  private redoStack: EditorCommand[] = [];
+
+  public onChange: (() => void) | null = null;
+
+  /**
+   * Record a command that has already been applied
+   */
+  push(command: EditorCommand): void {
+    this.undoStack.push(command);
+    if (this.undoStack.length > MAX_HISTORY) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.notify();
+  }
+
+  undo(): boolean {
+    const command = this.undoStack.pop();
+    if (!command) return false;
+    command.undo();
+    this.redoStack.push(command);
+    this.notify();
+    return true;
+  }
+
+  redo(): boolean {
+    const command = this.redoStack.pop();
+    if (!command) return false;
+    command.redo();
+    this.undoStack.push(command);
+    this.notify();
+    return true;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notify();
+  }
+
+  private notify(): void {
+    if (this.onChange) this.onChange();
+  }
+}
+
+/**
+ * An edit stored as the level before and after it.
+ * `apply` puts a snapshot back into the level being edited.
+ */
+export class LevelSnapshotCommand implements EditorCommand {
+  private before: string;
+  private after: string;
+  private apply: (snapshot: string) => void;
+
+  constructor(before: string, after: string, apply: (snapshot: string) => void) {
+    this.before = before;
+    this.after = after;
+    this.apply = apply;
+  }
+
+  undo(): void {
+    this.apply(this.before);
+  }
+
+  redo(): void {
+    this.apply(this.after);
+  }
+}
+
+/**
+ * Serialize the parts of a level the editor can change
+ */
+export function createLevelSnapshot(level: LevelData): string {
+  const copy: Partial<LevelData> = { ...level };
+  for (const field of UNTRACKED_FIELDS) {
+    delete copy[field];
+  }
+  return JSON.stringify(copy);
+}
+
+/**
+ * Replace the editable parts of `level` with a snapshot, in place
+ * (the editor and its panels hold on to the level object)
+ */
+export function restoreLevelSnapshot(level: LevelData, snapshot: string): void {
+  const target = level as unknown as Record<string, unknown>;
+  for (const key of Object.keys(target)) {
+    if (!UNTRACKED_FIELDS.includes(key as keyof LevelData)) {
+      delete target[key];
+    }
+  }
+  Object.assign(level, JSON.parse(snapshot));
+}
@@ -0,0 +1,96 @@
+/**
+ * Editor Shortcuts
+ * Maps key presses to editor actions, and lists the shortcuts for the help overlay.
+ */
+
+import type { TranslationKey } from '../i18n/LanguageManager';
+
+export const EditorAction = {
+  DELETE: 'delete',
+  COPY: 'copy',
+  PASTE: 'paste',
+  DUPLICATE: 'duplicate',
+  UNDO: 'undo',
+  REDO: 'redo',
+  NUDGE_LEFT: 'nudge_left',
+  NUDGE_RIGHT: 'nudge_right',
+  NUDGE_UP: 'nudge_up',
+  NUDGE_DOWN: 'nudge_down',
+  ROTATE_CW: 'rotate_cw',
+  ROTATE_CCW: 'rotate_ccw',
+  NEXT_OBJECT: 'next_object',
+  PREVIOUS_OBJECT: 'previous_object',
+  DESELECT: 'deselect',
+  TOGGLE_PLAY: 'toggle_play',
+  RESET_VIEW: 'reset_view',
+  HELP: 'help',
+} as const;
+export type EditorAction = typeof EditorAction[keyof typeof EditorAction];
+
+export const NUDGE_STEP = 1;
+export const NUDGE_STEP_LARGE = 10;
+export const DEFAULT_ROTATE_STEP = 15; // Degrees, when rotation snapping is off
+export const PASTE_OFFSET = 20;        // Each paste lands this much further down and right
+
+const NUDGE_KEYS: Record<string, EditorAction> = {
+  arrowleft: EditorAction.NUDGE_LEFT,
+  arrowright: EditorAction.NUDGE_RIGHT,
+  arrowup: EditorAction.NUDGE_UP,
+  arrowdown: EditorAction.NUDGE_DOWN,
+};
+
+/**
+ * The editor action for a key press, if any.
+ * Shift only changes the size of nudges and the direction of R / Tab.
+ */
+export function getEditorAction(e: KeyboardEvent): EditorAction | null {
+  const key = e.key.toLowerCase();
+  if (e.altKey) return null;
+
+  if (e.ctrlKey || e.metaKey) {
+    switch (key) {
+      case 'c': return EditorAction.COPY;
+      case 'v': return EditorAction.PASTE;
+      case 'd': return EditorAction.DUPLICATE;
+      case 'z': return e.shiftKey ? EditorAction.REDO : EditorAction.UNDO;
+      case 'y': return EditorAction.REDO;
+      default: return null;
+    }
+  }
+
+  if (NUDGE_KEYS[key]) return NUDGE_KEYS[key];
+
+  switch (key) {
+    case 'delete':
+    case 'backspace': return EditorAction.DELETE;
+    case 'r': return e.shiftKey ? EditorAction.ROTATE_CCW : EditorAction.ROTATE_CW;
+    case 'tab': return e.shiftKey ? EditorAction.PREVIOUS_OBJECT : EditorAction.NEXT_OBJECT;
+    case 'escape': return EditorAction.DESELECT;
+    case 'p': return EditorAction.TOGGLE_PLAY;
+    case '0': return EditorAction.RESET_VIEW;
+    case '?':
+    case 'f1': return EditorAction.HELP;
+    default: return null;
+  }
+}
+
+// Shown in the help overlay, in order
+export const SHORTCUT_HELP: { keys: string, label: TranslationKey }[] = [
+  { keys: 'Del', label: 'shortcuts.delete' },
+  { keys: 'Ctrl+C / Ctrl+V', label: 'shortcuts.copy_paste' },
+  { keys: 'Ctrl+D', label: 'shortcuts.duplicate' },
+  { keys: 'Ctrl+Z', label: 'shortcuts.undo' },
+  { keys: 'Ctrl+Shift+Z / Ctrl+Y', label: 'shortcuts.redo' },
+  { keys: '\u2190 \u2191 \u2192 \u2193', label: 'shortcuts.nudge' },
+  { keys: 'Shift+\u2190 \u2191 \u2192 \u2193', label: 'shortcuts.nudge_large' },
+  { keys: 'R / Shift+R', label: 'shortcuts.rotate' },
+  { keys: 'Tab / Shift+Tab', label: 'shortcuts.cycle' },
+  { keys: 'Shift+Click', label: 'shortcuts.multi_select' },
+  { keys: 'Alt+Drag', label: 'shortcuts.free_place' },
+  { keys: 'Wheel / Pinch', label: 'shortcuts.zoom' },
+  { keys: 'Space+Drag / Middle Drag', label: 'shortcuts.pan' },
+  { keys: '0', label: 'shortcuts.reset_view' },
+  { keys: 'Esc', label: 'shortcuts.deselect' },
+  { keys: 'P', label: 'shortcuts.toggle_play' },
+  { keys: '?', label: 'shortcuts.help' },
+];
@@ -0,0 +1,253 @@
+/**
+ * Selection Geometry
+ * World-space bounds and group transforms for editor objects,
+ * used by multi-selection, the group gizmo and the align tools.
+ *
+ * All values are in design space.
+ */
+
+import { CONVEYOR_BELT_HEIGHT, BALL_RADIUS, PORTAL_WIDTH, SPRING_WIDTH, SPRING_HEIGHT } from '../config';
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+export const AlignMode = {
+  LEFT: 'left',
+  CENTER: 'center',
+  RIGHT: 'right',
+  TOP: 'top',
+  MIDDLE: 'middle',
+  BOTTOM: 'bottom',
+  DISTRIBUTE_X: 'distribute_x',
+  DISTRIBUTE_Y: 'distribute_y',
+} as const;
+export type AlignMode = typeof AlignMode[keyof typeof AlignMode];
+
+const LASER_HALF_HEIGHT = 10;
+const BUTTON_WIDTH = 32;
+const BUTTON_HEIGHT = 40;
+const MIN_GROUP_SIZE = 1;
+
+function pointsBounds(points: Point2D[]): Bounds {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+}
+
+/**
+ * Axis-aligned bounds of an object in design space
+ */
+export function getObjectBounds(data: any, type: string): Bounds {
+  if (type === 'laser') {
+    const b = pointsBounds([{ x: data.x1, y: data.y1 }, { x: data.x2, y: data.y2 }]);
+    return {
+      minX: b.minX - LASER_HALF_HEIGHT, minY: b.minY - LASER_HALF_HEIGHT,
+      maxX: b.maxX + LASER_HALF_HEIGHT, maxY: b.maxY + LASER_HALF_HEIGHT
+    };
+  }
+
+  if (type === 'portal') {
+    // Each end turns within a circle as wide as its opening
+    const b = pointsBounds([data.entrance, data.exit]);
+    const r = PORTAL_WIDTH / 2;
+    return { minX: b.minX - r, minY: b.minY - r, maxX: b.maxX + r, maxY: b.maxY + r };
+  }
+
+  let radius = 0;
+  let local: Bounds;
+  if (type === 'ball_blue' || type === 'ball_pink') {
+    radius = BALL_RADIUS;
+  } else if (data.type === 'circle') {
+    radius = data.radius || data.width / 2 || 50;
+  }
+  if (radius > 0) {
+    return { minX: data.x - radius, minY: data.y - radius, maxX: data.x + radius, maxY: data.y + radius };
+  }
+
+  if (type === 'conveyor') {
+    const hw = (data.width || 300) / 2, hh = CONVEYOR_BELT_HEIGHT / 2;
+    local = { minX: -hw - hh, minY: -hh, maxX: hw + hh, maxY: hh };
+  } else if (type === 'button') {
+    local = { minX: -BUTTON_WIDTH / 2, minY: -BUTTON_HEIGHT / 2, maxX: BUTTON_WIDTH / 2, maxY: BUTTON_HEIGHT / 2 };
+  } else if (type === 'spring') {
+    local = { minX: -SPRING_WIDTH / 2, minY: -SPRING_HEIGHT / 2, maxX: SPRING_WIDTH / 2, maxY: SPRING_HEIGHT / 2 };
+  } else if (data.points && data.points.length > 0) {
+    local = pointsBounds(data.points);
+    const pad = data.type === 'triangle' ? 0 : (data.thickness || 0) / 2;
+    local = { minX: local.minX - pad, minY: local.minY - pad, maxX: local.maxX + pad, maxY: local.maxY + pad };
+  } else {
+    const hw = (data.width || 100) / 2, hh = (data.height || 100) / 2;
+    local = { minX: -hw, minY: -hh, maxX: hw, maxY: hh };
+  }
+
+  // Rotate the local box and take the bounds of its corners
+  const rad = ((data.angle || 0) * Math.PI) / 180;
+  const cos = Math.cos(rad), sin = Math.sin(rad);
+  const corners = [
+    { x: local.minX, y: local.minY }, { x: local.maxX, y: local.minY },
+    { x: local.maxX, y: local.maxY }, { x: local.minX, y: local.maxY },
+  ].map(p => ({ x: data.x + p.x * cos - p.y * sin, y: data.y + p.x * sin + p.y * cos }));
+  return pointsBounds(corners);
+}
+
+export function unionBounds(list: Bounds[]): Bounds {
+  return {
+    minX: Math.min(...list.map(b => b.minX)),
+    minY: Math.min(...list.map(b => b.minY)),
+    maxX: Math.max(...list.map(b => b.maxX)),
+    maxY: Math.max(...list.map(b => b.maxY)),
+  };
+}
+
+export function boundsIntersect(a: Bounds, b: Bounds): boolean {
+  return a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+}
+
+/**
+ * Move an object by (dx, dy)
+ */
+export function translateObject(data: any, type: string, dx: number, dy: number): void {
+  if (type === 'laser') {
+    data.x1 += dx;
+    data.y1 += dy;
+    data.x2 += dx;
+    data.y2 += dy;
+  } else if (type === 'portal') {
+    for (const end of [data.entrance, data.exit]) {
+      end.x += dx;
+      end.y += dy;
+    }
+  } else {
+    data.x += dx;
+    data.y += dy;
+  }
+}
+
+/**
+ * Set `data` to `initial` moved by `offset`, then rotated by `angle` (radians)
+ * and scaled by `factor` around `pivot`.
+ * `canRotate` objects turn with the group; shapes defined by points that have
+ * no rotation of their own (C-shape, Bezier) get their points turned instead.
+ */
+export function transformObject(
+  data: any, initial: any, type: string, canRotate: boolean,
+  pivot: Point2D, offset: Point2D, angle: number, factor: number
+): void {
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  const map = (x: number, y: number): Point2D => {
+    const rx = (x - pivot.x) * factor, ry = (y - pivot.y) * factor;
+    return {
+      x: pivot.x + rx * cos - ry * sin + offset.x,
+      y: pivot.y + rx * sin + ry * cos + offset.y
+    };
+  };
+
+  if (type === 'laser') {
+    const start = map(initial.x1, initial.y1);
+    const end = map(initial.x2, initial.y2);
+    data.x1 = start.x;
+    data.y1 = start.y;
+    data.x2 = end.x;
+    data.y2 = end.y;
+    return;
+  }
+
+  if (type === 'portal') {
+    // Both ends have a rotation of their own, so they turn with the group
+    for (const key of ['entrance', 'exit']) {
+      const end = map(initial[key].x, initial[key].y);
+      data[key] = { ...initial[key], x: end.x, y: end.y };
+      if (angle !== 0) {
+        data[key].angle = (initial[key].angle || 0) + (angle * 180) / Math.PI;
+      }
+    }
+    return;
+  }
+
+  const center = map(initial.x, initial.y);
+  data.x = center.x;
+  data.y = center.y;
+
+  if (angle !== 0 && canRotate) {
+    data.angle = (initial.angle || 0) + (angle * 180) / Math.PI;
+  }
+
+  if (initial.points) {
+    const turn = angle !== 0 && !canRotate;
+    data.points = initial.points.map((p: Point2D) => {
+      const x = turn ? p.x * cos - p.y * sin : p.x;
+      const y = turn ? p.x * sin + p.y * cos : p.y;
+      return { x: x * factor, y: y * factor };
+    });
+  }
+
+  if (initial.path) {
+    // Waypoints are offsets along the level axes, so they always turn with the group
+    data.path = {
+      ...initial.path,
+      waypoints: initial.path.waypoints.map((p: Point2D) => ({
+        x: (p.x * cos - p.y * sin) * factor,
+        y: (p.x * sin + p.y * cos) * factor
+      }))
+    };
+  }
+
+  if (factor !== 1) {
+    const resize = (value: number) => Math.max(MIN_GROUP_SIZE, value * factor);
+    if (initial.width !== undefined) data.width = resize(initial.width);
+    if (initial.height !== undefined) data.height = resize(initial.height);
+    if (initial.radius !== undefined) data.radius = resize(initial.radius);
+    if (initial.thickness !== undefined) data.thickness = resize(initial.thickness);
+  }
+}
+
+/**
+ * Offsets that align (or evenly space) a set of bounds.
+ * Distribution spreads the objects over the extent of the selection with equal gaps between neighbours.
+ */
+export function getAlignmentOffsets(list: Bounds[], mode: AlignMode): Point2D[] {
+  const offsets = list.map(() => ({ x: 0, y: 0 }));
+  if (list.length < 2) return offsets;
+
+  const all = unionBounds(list);
+
+  if (mode === AlignMode.DISTRIBUTE_X || mode === AlignMode.DISTRIBUTE_Y) {
+    const horizontal = mode === AlignMode.DISTRIBUTE_X;
+    const min = (b: Bounds) => horizontal ? b.minX : b.minY;
+    const size = (b: Bounds) => horizontal ? b.maxX - b.minX : b.maxY - b.minY;
+
+    const order = list.map((_, i) => i).sort((a, b) => min(list[a]) - min(list[b]));
+    const span = horizontal ? all.maxX - all.minX : all.maxY - all.minY;
+    const totalSize = list.reduce((sum, b) => sum + size(b), 0);
+    const gap = (span - totalSize) / (list.length - 1);
+
+    let cursor = horizontal ? all.minX : all.minY;
+    for (const i of order) {
+      const delta = cursor - min(list[i]);
+      if (horizontal) offsets[i].x = delta; else offsets[i].y = delta;
+      cursor += size(list[i]) + gap;
+    }
+    return offsets;
+  }
+
+  list.forEach((b, i) => {
+    switch (mode) {
+      case AlignMode.LEFT: offsets[i].x = all.minX - b.minX; break;
+      case AlignMode.RIGHT: offsets[i].x = all.maxX - b.maxX; break;
+      case AlignMode.CENTER: offsets[i].x = (all.minX + all.maxX) / 2 - (b.minX + b.maxX) / 2; break;
+      case AlignMode.TOP: offsets[i].y = all.minY - b.minY; break;
+      case AlignMode.BOTTOM: offsets[i].y = all.maxY - b.maxY; break;
+      case AlignMode.MIDDLE: offsets[i].y = (all.minY + all.maxY) / 2 - (b.minY + b.maxY) / 2; break;
+    }
+  });
+  return offsets;
+}
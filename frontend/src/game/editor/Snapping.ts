@@ -0,0 +1,143 @@
+/**
+ * Snapping
+ * Grid, angle and object snapping for the transform gizmo,
+ * plus the user's snap preferences (kept in localStorage).
+ *
+ * All values are in design space.
+ */
+
+import { DESIGN_WIDTH, DESIGN_HEIGHT, GRID_SIZE } from '../config';
+import type { Bounds, Point2D } from './SelectionGeometry';
+
+export interface SnapOptions {
+  grid: boolean;      // Positions to grid points, sizes to grid multiples
+  objects: boolean;   // Edges and centers to nearby objects
+  angleStep: number;  // Degrees, 0 = free rotation
+}
+
+// A line shown while an edge or center lines up with another object
+export interface SnapGuide {
+  axis: 'x' | 'y';  // 'x': vertical line at x = value
+  value: number;
+  from: number;
+  to: number;
+}
+
+export const ANGLE_STEPS = [0, 5, 15, 30, 45, 90];
+export const SNAP_DISTANCE = 8;
+
+const STORAGE_KEY_SNAP = 'opendots_editor_snap';
+const DEFAULT_OPTIONS: SnapOptions = { grid: false, objects: true, angleStep: 15 };
+const GUIDE_EPSILON = 0.5;
+
+// The background grid is drawn outwards from the center of the stage
+const GRID_ORIGIN: Point2D = { x: DESIGN_WIDTH / 2, y: DESIGN_HEIGHT / 2 };
+
+export class SnapSettings {
+  private static instance: SnapSettings;
+  private options: SnapOptions;
+
+  private constructor() {
+    this.options = { ...DEFAULT_OPTIONS };
+    try {
+      const item = localStorage.getItem(STORAGE_KEY_SNAP);
+      if (item) {
+        const stored = JSON.parse(item);
+        if (typeof stored.grid === 'boolean') this.options.grid = stored.grid;
+        if (typeof stored.objects === 'boolean') this.options.objects = stored.objects;
+        if (ANGLE_STEPS.includes(stored.angleStep)) this.options.angleStep = stored.angleStep;
+      }
+    } catch (e) {
+      console.warn('Failed to load snap settings', e);
+    }
+  }
+
+  public static getInstance(): SnapSettings {
+    if (!SnapSettings.instance) {
+      SnapSettings.instance = new SnapSettings();
+    }
+    return SnapSettings.instance;
+  }
+
+  public get(): SnapOptions {
+    return { ...this.options };
+  }
+
+  public update(changes: Partial<SnapOptions>): void {
+    this.options = { ...this.options, ...changes };
+    localStorage.setItem(STORAGE_KEY_SNAP, JSON.stringify(this.options));
+  }
+}
+
+export function snapPointToGrid(point: Point2D): Point2D {
+  return {
+    x: GRID_ORIGIN.x + Math.round((point.x - GRID_ORIGIN.x) / GRID_SIZE) * GRID_SIZE,
+    y: GRID_ORIGIN.y + Math.round((point.y - GRID_ORIGIN.y) / GRID_SIZE) * GRID_SIZE,
+  };
+}
+
+/**
+ * Round a length to a multiple of the grid (at least one cell)
+ */
+export function snapSize(value: number): number {
+  return Math.max(GRID_SIZE, Math.round(value / GRID_SIZE) * GRID_SIZE);
+}
+
+export function snapAngle(degrees: number, step: number): number {
+  return step > 0 ? Math.round(degrees / step) * step : degrees;
+}
+
+export function offsetBounds(b: Bounds, dx: number, dy: number): Bounds {
+  return { minX: b.minX + dx, minY: b.minY + dy, maxX: b.maxX + dx, maxY: b.maxY + dy };
+}
+
+function xLines(b: Bounds): number[] {
+  return [b.minX, (b.minX + b.maxX) / 2, b.maxX];
+}
+
+function yLines(b: Bounds): number[] {
+  return [b.minY, (b.minY + b.maxY) / 2, b.maxY];
+}
+
+/**
+ * Smallest correction (within `distance`) that lines up an edge or the center
+ * of `moving` with an edge or center of one of `targets`; null when nothing is close
+ */
+export function snapToObjects(moving: Bounds, targets: Bounds[], distance: number = SNAP_DISTANCE): { x: number | null, y: number | null } {
+  const closest = (own: number[], lines: (b: Bounds) => number[]): number | null => {
+    let best: number | null = null;
+    for (const target of targets) {
+      for (const to of lines(target)) {
+        for (const from of own) {
+          const delta = to - from;
+          if (Math.abs(delta) <= distance && (best === null || Math.abs(delta) < Math.abs(best))) {
+            best = delta;
+          }
+        }
+      }
+    }
+    return best;
+  };
+
+  return { x: closest(xLines(moving), xLines), y: closest(yLines(moving), yLines) };
+}
+
+/**
+ * Guide lines for every edge or center of `bounds` that lines up with a target
+ */
+export function getSnapGuides(bounds: Bounds, targets: Bounds[]): SnapGuide[] {
+  const guides: SnapGuide[] = [];
+  for (const target of targets) {
+    for (const x of xLines(bounds)) {
+      if (xLines(target).some(t => Math.abs(t - x) < GUIDE_EPSILON)) {
+        guides.push({ axis: 'x', value: x, from: Math.min(bounds.minY, target.minY), to: Math.max(bounds.maxY, target.maxY) });
+      }
+    }
+    for (const y of yLines(bounds)) {
+      if (yLines(target).some(t => Math.abs(t - y) < GUIDE_EPSILON)) {
+        guides.push({ axis: 'y', value: y, from: Math.min(bounds.minX, target.minX), to: Math.max(bounds.maxX, target.maxX) });
+      }
+    }
+  }
+  return guides;
+}
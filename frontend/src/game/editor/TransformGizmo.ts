@@ -5,7 +5,14 @@
  */
 
 import * as PIXI from 'pixi.js';
-import { scale, getScaleFactor, CONVEYOR_BELT_HEIGHT, BALL_RADIUS } from '../config';
+import { scale, getScaleFactor, CONVEYOR_BELT_HEIGHT, BALL_RADIUS, PORTAL_WIDTH, SPRING_WIDTH, SPRING_HEIGHT } from '../config';
+import { getObjectBounds, transformObject, unionBounds, type Bounds, type Point2D } from './SelectionGeometry';
+import {
+  SnapSettings, snapPointToGrid, snapSize, snapAngle, snapToObjects, getSnapGuides, offsetBounds,
+  SNAP_DISTANCE, type SnapOptions, type SnapGuide
+} from './Snapping';
+import type { Camera } from '../camera/Camera';
+import { getPathRoute } from '../levels/ObstaclePath';
 
 // Handle Types
 export type HandleType =
@@ -14,7 +21,9 @@ export type HandleType =
   | 'scale_tl' | 'scale_tr' | 'scale_bl' | 'scale_br'  // Corners
   | 'scale_t' | 'scale_b' | 'scale_l' | 'scale_r'      // Edges
   | 'vertex_0' | 'vertex_1' | 'vertex_2'               // Triangle/C-shape vertices
-  | 'endpoint_start' | 'endpoint_end';                  // Laser endpoints
+  | 'endpoint_start' | 'endpoint_end'                   // Laser endpoints, portal entrance / exit
+  | `waypoint_${number}`                                // Moving obstacle path points
+  | `insert_${number}`;                                 // Adds a path point before waypoint n
 
 // Object constraints based on type
 export interface TransformConstraints {
@@ -24,10 +33,17 @@ export interface TransformConstraints {
   canScaleHeight: boolean;
   canScaleUniform: boolean;
   canEditVertices: boolean;  // For triangles/c-shapes
-  canEditEndpoints: boolean; // For lasers
+  canEditEndpoints: boolean; // For lasers and portals
   vertexCount?: number;      // Number of editable vertices
 }
 
+// An object transformed as part of a group
+export interface GizmoTarget {
+  container: PIXI.Container;
+  data: any;
+  type: string;
+}
+
 // Gizmo configuration based on object type
 const CONSTRAINTS: Record<string, TransformConstraints> = {
   'ball_blue': { canMove: true, canRotate: false, canScaleWidth: false, canScaleHeight: false, canScaleUniform: false, canEditVertices: false, canEditEndpoints: false },
@@ -46,6 +62,8 @@ const CONSTRAINTS: Record<string, TransformConstraints> = {
   'seesaw': { canMove: true, canRotate: true, canScaleWidth: true, canScaleHeight: true, canScaleUniform: false, canEditVertices: false, canEditEndpoints: false },
   'laser': { canMove: true, canRotate: false, canScaleWidth: false, canScaleHeight: false, canScaleUniform: false, canEditVertices: false, canEditEndpoints: true },
   'conveyor': { canMove: true, canRotate: true, canScaleWidth: true, canScaleHeight: false, canScaleUniform: false, canEditVertices: false, canEditEndpoints: false },
+  'portal': { canMove: true, canRotate: false, canScaleWidth: false, canScaleHeight: false, canScaleUniform: false, canEditVertices: false, canEditEndpoints: true },
+  'spring': { canMove: true, canRotate: true, canScaleWidth: false, canScaleHeight: false, canScaleUniform: false, canEditVertices: false, canEditEndpoints: false },
 };
 
 // Visual constants
@@ -55,9 +73,77 @@ const ROTATE_HANDLE_OFFSET = 40;
 const ROTATE_HANDLE_COLOR = 0x4CAF50; // Green
 const BOUNDING_BOX_COLOR = 0x2196F3;
 const BOUNDING_BOX_ALPHA = 0.5;
+const GUIDE_COLOR = 0xFF4081; // Pink
+const PATH_COLOR = 0xFF9800; // Orange
+const PATH_DASH = 10;
+const PATH_GAP = 8;
+const PATH_APPEND_DISTANCE = 60; // How far past the last waypoint the handle adding one sits
 const MIN_SIZE = 20;
+const MIN_GROUP_SCALE = 0.1;
+
+const DEFAULT_CONSTRAINTS: TransformConstraints = {
+  canMove: true,
+  canRotate: true,
+  canScaleWidth: true,
+  canScaleHeight: true,
+  canScaleUniform: false,
+  canEditVertices: false,
+  canEditEndpoints: false
+};
+
+/**
+ * What the gizmo lets the user do with an object
+ */
+export function getTransformConstraints(type: string, data: any): TransformConstraints {
+  // Obstacles and falling objects are constrained by their shape
+  const key = type === 'obstacle' || type === 'falling' ? `${type}_${data.type || 'rectangle'}` : type;
+  return CONSTRAINTS[key] || DEFAULT_CONSTRAINTS;
+}
+
+/**
+ * The two ends of an object edited with endpoint handles
+ * (laser start / end, portal entrance / exit)
+ */
+function getEndpoints(data: any, type: string): [Point2D, Point2D] {
+  return type === 'portal'
+    ? [data.entrance, data.exit]
+    : [{ x: data.x1, y: data.y1 }, { x: data.x2, y: data.y2 }];
+}
+
+function setEndpoint(data: any, type: string, handle: HandleType, point: Point2D): void {
+  const isStart = handle === 'endpoint_start';
+  if (type === 'portal') {
+    const end = isStart ? data.entrance : data.exit;
+    end.x = point.x;
+    end.y = point.y;
+  } else if (isStart) {
+    data.x1 = point.x;
+    data.y1 = point.y;
+  } else {
+    data.x2 = point.x;
+    data.y2 = point.y;
+  }
+}
+
+/**
+ * Path handles alternate between adding and moving waypoints:
+ * insert_0, waypoint_0, insert_1, waypoint_1, ... insert_n
+ */
+function getPathHandleType(i: number): HandleType {
+  const index = Math.floor(i / 2);
+  return i % 2 === 0 ? `insert_${index}` : `waypoint_${index}`;
+}
+
+// Corner directions of the group box
+const GROUP_CORNERS: Partial<Record<HandleType, Point2D>> = {
+  scale_tl: { x: -1, y: -1 },
+  scale_tr: { x: 1, y: -1 },
+  scale_bl: { x: -1, y: 1 },
+  scale_br: { x: 1, y: 1 },
+};
 
 export class TransformGizmo extends PIXI.Container {
+  private camera: Camera;
   private targetContainer: PIXI.Container | null = null;
   private targetData: any = null;
   private targetType: string = '';
@@ -76,6 +162,28 @@ export class TransformGizmo extends PIXI.Container {
   private initialContainerRotation: number = 0;
   private initialMouseAngle: number = 0;
 
+  // Group mode (multi-selection): transforms apply around the center of the selection
+  private groupTargets: GizmoTarget[] = [];
+  private groupInitialData: any[] = [];
+  private groupPivot: Point2D = { x: 0, y: 0 };        // Design space
+  private groupHalfSize: Point2D = { x: 0, y: 0 };
+  private groupPivotGlobal: Point2D = { x: 0, y: 0 };  // Screen space, for rotation
+
+  // Snapping: options are read on every move (null while Alt is held for free placement)
+  private snapOptions: SnapOptions | null = null;
+  private snapTargetsProvider: (() => Bounds[]) | null = null;
+  private snapTargets: Bounds[] = [];
+  private initialBounds: Bounds = { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  private guides: SnapGuide[] = [];
+  // Drawn in the parent's space so the lines are not rotated with the gizmo
+  private guideLayer: PIXI.Graphics;
+
+  // Path of a moving obstacle, also in the parent's space: waypoints do not turn with it
+  private pathLayer: PIXI.Container;
+  private pathLine: PIXI.Graphics;
+  private pathHandles: PIXI.Graphics[] = [];
+  private isNewWaypoint: boolean = false;
+
   // Callbacks
   private onTransformChange: (() => void) | null = null;
   private onTransformEnd: (() => void) | null = null;
@@ -87,23 +195,43 @@ export class TransformGizmo extends PIXI.Container {
   private hasMoved: boolean = false;
   private isExternalStart: boolean = false;
 
-  constructor() {
+  constructor(camera: Camera) {
     super();
+    this.camera = camera;
     this.boundingBox = new PIXI.Graphics();
     this.addChild(this.boundingBox);
     this.eventMode = 'static';
     this.interactiveChildren = true;
+
+    this.guideLayer = new PIXI.Graphics();
+    this.guideLayer.eventMode = 'none';
+    this.pathLayer = new PIXI.Container();
+    this.pathLayer.eventMode = 'passive';
+    this.pathLine = new PIXI.Graphics();
+    this.pathLine.eventMode = 'none';
+    this.pathLayer.addChild(this.pathLine);
+
+    this.on('added', (parent: PIXI.Container) => {
+      this.guideLayer.zIndex = this.zIndex;
+      this.pathLayer.zIndex = this.zIndex;
+      parent.addChild(this.guideLayer);
+      parent.addChild(this.pathLayer);
+    });
+    this.on('removed', () => {
+      this.guideLayer.removeFromParent();
+      this.pathLayer.removeFromParent();
+    });
   }
 
   /**
-   * Get constraints key from type and data
+   * Set where the bounds of the objects to snap to come from (read when a drag starts)
    */
-  private getConstraintKey(type: string, data: any): string {
-    if (type === 'obstacle' || type === 'falling') {
-      const subType = data.type || 'rectangle';
-      return `${type}_${subType}`;
-    }
-    return type;
+  public setSnapTargetsProvider(provider: (() => Bounds[]) | null): void {
+    this.snapTargetsProvider = provider;
+  }
+
+  private hasTarget(): boolean {
+    return this.groupTargets.length > 0 || (!!this.targetContainer && !!this.targetData);
   }
 
   /**
@@ -121,6 +249,7 @@ export class TransformGizmo extends PIXI.Container {
   ): void {
     this.clearHandles();
 
+    this.groupTargets = [];
     this.targetContainer = container;
     this.targetData = data;
     this.targetType = type;
@@ -130,26 +259,52 @@ export class TransformGizmo extends PIXI.Container {
     this.onDragStart = onDragStart || null;
     this.onDragEnd = onDragEnd || null;
 
-    const constraintKey = this.getConstraintKey(type, data);
-    this.constraints = CONSTRAINTS[constraintKey] || {
-      canMove: true,
-      canRotate: true,
-      canScaleWidth: true,
-      canScaleHeight: true,
-      canScaleUniform: false,
-      canEditVertices: false,
-      canEditEndpoints: false
-    };
+    this.constraints = getTransformConstraints(type, data);
 
     this.createHandles();
     this.updateGizmo();
     this.visible = true;
   }
 
+  /**
+   * Attach the gizmo to several objects, which move, rotate and scale together
+   * around the center of their combined bounds
+   */
+  public setGroupTarget(
+    targets: GizmoTarget[],
+    onTransformChange?: () => void,
+    onTransformEnd?: () => void,
+    onDragStart?: () => void,
+    onDragEnd?: () => void
+  ): void {
+    this.clearHandles();
+
+    this.targetContainer = null;
+    this.targetData = null;
+    this.targetType = '';
+    this.constraints = null;
+    this.groupTargets = [...targets];
+    this.onTransformChange = onTransformChange || null;
+    this.onTransformEnd = onTransformEnd || null;
+    this.onContentClick = null;
+    this.onDragStart = onDragStart || null;
+    this.onDragEnd = onDragEnd || null;
+
+    this.rotateHandle = this.createHandle('rotate', ROTATE_HANDLE_COLOR);
+    this.addChild(this.rotateHandle);
+    for (const corner of Object.keys(GROUP_CORNERS) as HandleType[]) {
+      this.createAndAddHandle(corner, HANDLE_COLOR);
+    }
+
+    this.updateGizmo();
+    this.visible = true;
+  }
+
   /**
    * Clear the current target
    */
   public clearTarget(): void {
+    this.groupTargets = [];
     this.targetContainer = null;
     this.targetData = null;
     this.targetType = '';
@@ -170,6 +325,16 @@ export class TransformGizmo extends PIXI.Container {
       this.rotateHandle = null;
     }
     this.boundingBox.clear();
+    this.clearPathHandles();
+    this.pathLine.clear();
+  }
+
+  private clearPathHandles(): void {
+    this.pathHandles.forEach(h => {
+      h.removeAllListeners();
+      h.destroy();
+    });
+    this.pathHandles = [];
   }
 
   /**
@@ -254,14 +419,14 @@ export class TransformGizmo extends PIXI.Container {
       // Use color (Green) for fill
       g.fill({ color });
       g.stroke({ width: strokeWidth, color: 0xFFFFFF });
-    } else if (type.startsWith('vertex') || type.startsWith('endpoint')) {
-      // Vertex/Endpoint: Solid colored circle with white border
+    } else if (type.startsWith('vertex') || type.startsWith('endpoint') || type.startsWith('waypoint')) {
+      // Vertex/Endpoint/Waypoint: Solid colored circle with white border
       g.circle(0, 0, visualRadius);
       // Use color (Blue) for fill
       g.fill({ color });
       g.stroke({ width: strokeWidth, color: 0xFFFFFF });
     } else {
-      // Scale handles: White circle with colored border
+      // Scale and insert handles: White circle with colored border
       g.circle(0, 0, visualRadius);
       g.fill({ color: 0xFFFFFF });
       g.stroke({ width: strokeWidth, color: color });
@@ -290,6 +455,10 @@ export class TransformGizmo extends PIXI.Container {
    * Update gizmo visuals to match target's current state
    */
   public updateGizmo(): void {
+    if (this.groupTargets.length > 0) {
+      this.updateGroupGizmo();
+      return;
+    }
     if (!this.targetContainer || !this.targetData || !this.constraints) return;
 
     const scaleFactor = getScaleFactor();
@@ -302,15 +471,15 @@ export class TransformGizmo extends PIXI.Container {
     // Get object dimensions in design space
     let width = 0, height = 0, radius = 0;
     let points: { x: number, y: number }[] | undefined;
-    let x1 = 0, y1 = 0, x2 = 0, y2 = 0; // For laser
+    let x1 = 0, y1 = 0, x2 = 0, y2 = 0; // For laser and portal
+    const hasEndpoints = this.constraints.canEditEndpoints;
 
-    if (type === 'laser') {
-      x1 = data.x1;
-      y1 = data.y1;
-      x2 = data.x2;
-      y2 = data.y2;
+    if (hasEndpoints) {
+      const [start, end] = getEndpoints(data, type);
+      ({ x: x1, y: y1 } = start);
+      ({ x: x2, y: y2 } = end);
       width = Math.sqrt((x2 - x1) ** 2 + (y2 - y1) ** 2);
-      height = 20; // Standard laser height
+      height = type === 'portal' ? PORTAL_WIDTH : 20; // Standard laser height
     } else if (type === 'ball_blue' || type === 'ball_pink') {
       radius = BALL_RADIUS;
       width = height = radius * 2;
@@ -320,6 +489,9 @@ export class TransformGizmo extends PIXI.Container {
     } else if (type === 'button') {
       width = 32;
       height = 40;
+    } else if (type === 'spring') {
+      width = SPRING_WIDTH;
+      height = SPRING_HEIGHT;
     } else if (data.type === 'circle') {
       radius = data.radius || data.width / 2 || 50;
       width = height = radius * 2;
@@ -339,8 +511,8 @@ export class TransformGizmo extends PIXI.Container {
       height = data.height || 100;
     }
 
-    // Position gizmo at target
-    if (type === 'laser') {
+    // Position gizmo at target (between the ends, along the line joining them)
+    if (hasEndpoints) {
       this.position.set(
         ((x1 + x2) / 2) * scaleFactor,
         ((y1 + y2) / 2) * scaleFactor
@@ -358,7 +530,11 @@ export class TransformGizmo extends PIXI.Container {
     // Draw bounding box
     const hw = width / 2, hh = height / 2;
 
-    if (radius > 0 && !points) {
+    if (type === 'portal') {
+      // One circle around each end
+      this.boundingBox.circle(-hw, 0, hh);
+      this.boundingBox.circle(hw, 0, hh);
+    } else if (radius > 0 && !points) {
       // Circle bounding
       this.boundingBox.circle(0, 0, radius);
     } else if (points && (data.type === 'triangle')) {
@@ -463,7 +639,7 @@ export class TransformGizmo extends PIXI.Container {
 
     // Fill with transparent color to make interior clickable, then stroke outline
     this.boundingBox.fill({ color: 0xFFFFFF, alpha: 0.001 });
-    this.boundingBox.stroke({ color: BOUNDING_BOX_COLOR, width: 2, alpha: BOUNDING_BOX_ALPHA });
+    this.boundingBox.stroke({ color: BOUNDING_BOX_COLOR, width: 2 / this.camera.getZoom(), alpha: BOUNDING_BOX_ALPHA });
 
     // Enable move interaction on bounding box
     this.boundingBox.eventMode = 'static';
@@ -473,6 +649,102 @@ export class TransformGizmo extends PIXI.Container {
 
     // Position handles
     this.positionHandles(width, height, radius, points, x1, y1, x2, y2);
+    this.updatePath();
+  }
+
+  /**
+   * Dashed preview of a moving obstacle's path, with a handle on each waypoint and one
+   * halfway along each leg (and past the end of the path) to add a waypoint there.
+   * Tapping a waypoint removes it.
+   */
+  private updatePath(): void {
+    const data = this.targetData;
+    const waypoints: Point2D[] | undefined = this.targetType === 'obstacle' ? data.path?.waypoints : undefined;
+
+    // Rebuild the handles when waypoints were added or removed
+    const handleCount = waypoints ? waypoints.length * 2 + 1 : 0;
+    if (this.pathHandles.length !== handleCount) {
+      this.clearPathHandles();
+      for (let i = 0; i < handleCount; i++) {
+        const handle = this.createHandle(getPathHandleType(i), PATH_COLOR);
+        this.pathHandles.push(handle);
+        this.pathLayer.addChild(handle);
+      }
+    }
+
+    const g = this.pathLine;
+    g.clear();
+    if (!waypoints) return;
+
+    const scaleFactor = getScaleFactor();
+    const zoom = this.camera.getZoom();
+    const route = getPathRoute(data.path).map(p => ({ x: data.x + p.x, y: data.y + p.y }));
+
+    for (let i = 1; i < route.length; i++) {
+      const from = route[i - 1], to = route[i];
+      const length = Math.hypot(to.x - from.x, to.y - from.y);
+      if (length === 0) continue;
+      const ux = (to.x - from.x) / length, uy = (to.y - from.y) / length;
+      for (let d = 0; d < length; d += PATH_DASH + PATH_GAP) {
+        const end = Math.min(d + PATH_DASH, length);
+        g.moveTo((from.x + ux * d) * scaleFactor, (from.y + uy * d) * scaleFactor);
+        g.lineTo((from.x + ux * end) * scaleFactor, (from.y + uy * end) * scaleFactor);
+      }
+    }
+    g.stroke({ width: 2 / zoom, color: PATH_COLOR });
+
+    this.pathHandles.forEach((handle, i) => {
+      const point = this.getPathHandlePoint(getPathHandleType(i));
+      handle.position.set(point.x * scaleFactor, point.y * scaleFactor);
+      // Same size on screen as the handles on the gizmo
+      handle.scale.set(scaleFactor / zoom);
+    });
+  }
+
+  /**
+   * Where a path handle sits, in design space
+   */
+  private getPathHandlePoint(type: HandleType): Point2D {
+    const data = this.targetData;
+    const route = getPathRoute(data.path).map(p => ({ x: data.x + p.x, y: data.y + p.y }));
+    const index = parseInt(type.split('_')[1]);
+
+    if (type.startsWith('waypoint_')) {
+      return route[index + 1];
+    }
+    if (index + 1 < route.length) {
+      // Halfway along the leg (for loops, the last leg runs back to the start)
+      return { x: (route[index].x + route[index + 1].x) / 2, y: (route[index].y + route[index + 1].y) / 2 };
+    }
+    // Past the end, continuing the last leg
+    const last = route[index], prev = route[index - 1];
+    const length = Math.hypot(last.x - prev.x, last.y - prev.y);
+    const ux = length > 0 ? (last.x - prev.x) / length : 1;
+    const uy = length > 0 ? (last.y - prev.y) / length : 0;
+    return { x: last.x + ux * PATH_APPEND_DISTANCE, y: last.y + uy * PATH_APPEND_DISTANCE };
+  }
+
+  /**
+   * Axis-aligned box around the whole selection. The box itself is not interactive:
+   * dragging a selected object or the background moves the group.
+   */
+  private updateGroupGizmo(): void {
+    const scaleFactor = getScaleFactor();
+    const bounds = unionBounds(this.groupTargets.map(t => getObjectBounds(t.data, t.type)));
+    const width = bounds.maxX - bounds.minX;
+    const height = bounds.maxY - bounds.minY;
+
+    this.position.set(((bounds.minX + bounds.maxX) / 2) * scaleFactor, ((bounds.minY + bounds.maxY) / 2) * scaleFactor);
+    this.rotation = 0;
+    this.scale.set(scaleFactor);
+
+    this.boundingBox.clear();
+    this.boundingBox.rect(-width / 2, -height / 2, width, height);
+    this.boundingBox.stroke({ color: BOUNDING_BOX_COLOR, width: 2 / this.camera.getZoom(), alpha: BOUNDING_BOX_ALPHA });
+    this.boundingBox.eventMode = 'none';
+    this.boundingBox.removeAllListeners();
+
+    this.positionHandles(width, height, 0);
   }
 
   private positionHandles(
@@ -481,12 +753,16 @@ export class TransformGizmo extends PIXI.Container {
     x1?: number, y1?: number, x2?: number, y2?: number
   ): void {
     const hw = width / 2, hh = height / 2;
+    // Handles keep their size on screen at any zoom
+    const zoom = this.camera.getZoom();
 
     // Rotate handle position
     if (this.rotateHandle) {
-      const offset = scale(ROTATE_HANDLE_OFFSET) / getScaleFactor();
+      const offset = scale(ROTATE_HANDLE_OFFSET) / getScaleFactor() / zoom;
       this.rotateHandle.position.set(0, -hh - offset);
+      this.rotateHandle.scale.set(1 / zoom);
     }
+    this.handles.forEach(handle => handle.scale.set(1 / zoom));
 
     // Corner handles
     this.positionHandle('scale_tl', -hw, -hh);
@@ -507,9 +783,9 @@ export class TransformGizmo extends PIXI.Container {
       }
     }
 
-    // Endpoint handles (for laser)
+    // Endpoint handles (laser, portal)
     if (x1 !== undefined && y1 !== undefined && x2 !== undefined && y2 !== undefined) {
-      // In local space (gizmo is at center with rotation matching laser angle)
+      // In local space (gizmo is at center with rotation matching the line between the ends)
       const len = Math.sqrt((x2 - x1) ** 2 + (y2 - y1) ** 2);
       this.positionHandle('endpoint_start', -len / 2, 0);
       this.positionHandle('endpoint_end', len / 2, 0);
@@ -526,9 +802,20 @@ export class TransformGizmo extends PIXI.Container {
   // ---- Interaction Handlers ----
 
   private onHandleDown(handleType: HandleType, e: PIXI.FederatedPointerEvent): void {
-    if (!this.targetContainer || !this.targetData) return;
+    if (!this.hasTarget()) return;
 
     e.stopPropagation();
+
+    // Adding a waypoint: put it where the handle is and drag it from there
+    // (the path handles are rebuilt on the next update, not while this one is being pressed)
+    this.isNewWaypoint = handleType.startsWith('insert_');
+    if (this.isNewWaypoint) {
+      const index = parseInt(handleType.split('_')[1]);
+      const point = this.getPathHandlePoint(handleType);
+      this.targetData.path.waypoints.splice(index, 0, { x: point.x - this.targetData.x, y: point.y - this.targetData.y });
+      handleType = `waypoint_${index}`;
+    }
+
     this.isDragging = true;
     this.activeHandle = handleType;
     // Use nativeEvent coordinates to match onPointerMove which uses native PointerEvent
@@ -536,19 +823,14 @@ export class TransformGizmo extends PIXI.Container {
     this.hasMoved = false;
     this.isExternalStart = false;
 
-    // Deep clone initial data
-    this.initialData = JSON.parse(JSON.stringify(this.targetData));
-    this.initialContainerPos = {
-      x: this.targetContainer.position.x,
-      y: this.targetContainer.position.y
-    };
-    this.initialContainerRotation = this.targetContainer.rotation;
+    this.captureInitialState();
 
     // Limit global listener to window
     const doc = window;
 
     if (handleType === 'rotate') {
-      const globalPos = this.targetContainer.getGlobalPosition();
+      const globalPos = (this.targetContainer ?? this).getGlobalPosition();
+      this.groupPivotGlobal = { x: globalPos.x, y: globalPos.y };
       this.initialMouseAngle = Math.atan2(e.nativeEvent.clientY - globalPos.y, e.nativeEvent.clientX - globalPos.x);
     }
 
@@ -560,7 +842,7 @@ export class TransformGizmo extends PIXI.Container {
   }
 
   private onPointerMove = (e: PointerEvent): void => {
-    if (!this.isDragging || !this.activeHandle || !this.targetData || !this.targetContainer) return;
+    if (!this.isDragging || !this.activeHandle || !this.hasTarget()) return;
 
     // Check for movement threshold
     if (!this.hasMoved) {
@@ -570,9 +852,21 @@ export class TransformGizmo extends PIXI.Container {
       }
     }
 
-    const scaleFactor = getScaleFactor();
-    const dx = (e.clientX - this.dragStartGlobal.x) / scaleFactor;
-    const dy = (e.clientY - this.dragStartGlobal.y) / scaleFactor;
+    // Screen pixels to design space
+    const pixels = getScaleFactor() * this.camera.getZoom();
+    const dx = (e.clientX - this.dragStartGlobal.x) / pixels;
+    const dy = (e.clientY - this.dragStartGlobal.y) / pixels;
+
+    this.snapOptions = e.altKey ? null : SnapSettings.getInstance().get();
+    this.guides = [];
+
+    if (this.groupTargets.length > 0) {
+      this.handleGroupTransform(this.activeHandle, dx, dy, e.clientX, e.clientY);
+      this.updateGizmo();
+      this.drawGuides();
+      this.onTransformChange?.();
+      return;
+    }
 
     switch (this.activeHandle) {
       case 'move':
@@ -594,13 +888,20 @@ export class TransformGizmo extends PIXI.Container {
       default:
         if (this.activeHandle.startsWith('vertex_')) {
           const idx = parseInt(this.activeHandle.split('_')[1]);
-          this.handleVertexMove(idx, dx, dy);
+          const delta = this.snapPointDelta(this.getInitialVertex(idx), dx, dy);
+          this.handleVertexMove(idx, delta.x, delta.y);
         } else if (this.activeHandle.startsWith('endpoint_')) {
-          this.handleEndpointMove(this.activeHandle, dx, dy);
+          const [start, end] = getEndpoints(this.initialData, this.targetType);
+          const origin = this.activeHandle === 'endpoint_start' ? start : end;
+          const delta = this.snapPointDelta(origin, dx, dy);
+          this.handleEndpointMove(this.activeHandle, delta.x, delta.y);
+        } else if (this.activeHandle.startsWith('waypoint_')) {
+          this.handleWaypointMove(parseInt(this.activeHandle.split('_')[1]), dx, dy);
         }
     }
 
     this.updateGizmo();
+    this.drawGuides();
     this.onTransformChange?.();
   };
 
@@ -609,8 +910,13 @@ export class TransformGizmo extends PIXI.Container {
     if (!this.hasMoved && this.activeHandle === 'move' && !this.isExternalStart) {
       this.onContentClick?.();
     }
+    if (this.activeHandle?.startsWith('waypoint_')) {
+      this.finishWaypointEdit(this.activeHandle);
+    }
 
     this.activeHandle = null;
+    this.guides = [];
+    this.drawGuides();
     window.removeEventListener('pointermove', this.onPointerMove);
     window.removeEventListener('pointerup', this.onPointerUp);
     window.removeEventListener('pointercancel', this.onPointerUp);
@@ -619,17 +925,153 @@ export class TransformGizmo extends PIXI.Container {
     this.onDragEnd?.();
   };
 
+  /**
+   * Remember the state transforms are applied relative to
+   */
+  private captureInitialState(): void {
+    this.snapTargets = this.snapTargetsProvider ? this.snapTargetsProvider() : [];
+
+    if (this.groupTargets.length > 0) {
+      this.groupInitialData = this.groupTargets.map(t => JSON.parse(JSON.stringify(t.data)));
+      const bounds = unionBounds(this.groupTargets.map(t => getObjectBounds(t.data, t.type)));
+      this.initialBounds = bounds;
+      this.groupPivot = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+      this.groupHalfSize = { x: (bounds.maxX - bounds.minX) / 2, y: (bounds.maxY - bounds.minY) / 2 };
+      return;
+    }
+
+    this.initialBounds = getObjectBounds(this.targetData, this.targetType);
+
+    // Deep clone initial data
+    this.initialData = JSON.parse(JSON.stringify(this.targetData));
+    this.initialContainerPos = {
+      x: this.targetContainer!.position.x,
+      y: this.targetContainer!.position.y
+    };
+    this.initialContainerRotation = this.targetContainer!.rotation;
+  }
+
+  // ---- Snapping ----
+
+  /**
+   * Adjust a move so `anchor` lands on a grid point, or an edge or the center of the
+   * moved bounds lines up with a nearby object (which wins over the grid on each axis)
+   */
+  private snapMoveDelta(anchor: Point2D, dx: number, dy: number): Point2D {
+    const snap = this.snapOptions;
+    if (!snap) return { x: dx, y: dy };
+
+    const delta = { x: dx, y: dy };
+    if (snap.grid) {
+      const point = snapPointToGrid({ x: anchor.x + dx, y: anchor.y + dy });
+      delta.x = point.x - anchor.x;
+      delta.y = point.y - anchor.y;
+    }
+
+    if (snap.objects && this.snapTargets.length > 0) {
+      // The snap distance is measured on screen
+      const distance = SNAP_DISTANCE / this.camera.getZoom();
+      const match = snapToObjects(offsetBounds(this.initialBounds, dx, dy), this.snapTargets, distance);
+      if (match.x !== null) delta.x = dx + match.x;
+      if (match.y !== null) delta.y = dy + match.y;
+      this.guides = getSnapGuides(offsetBounds(this.initialBounds, delta.x, delta.y), this.snapTargets);
+    }
+    return delta;
+  }
+
+  /**
+   * Adjust the move of a single point (vertex, laser or portal end) so it lands on a grid point
+   */
+  private snapPointDelta(origin: Point2D, dx: number, dy: number): Point2D {
+    if (!this.snapOptions?.grid) return { x: dx, y: dy };
+    const point = snapPointToGrid({ x: origin.x + dx, y: origin.y + dy });
+    return { x: point.x - origin.x, y: point.y - origin.y };
+  }
+
+  private snapLength(value: number): number {
+    return this.snapOptions?.grid ? snapSize(value) : value;
+  }
+
+  private snapRotation(radians: number): number {
+    const step = this.snapOptions?.angleStep || 0;
+    return (snapAngle((radians * 180) / Math.PI, step) * Math.PI) / 180;
+  }
+
+  /**
+   * World position of a vertex before the drag started
+   */
+  private getInitialVertex(index: number): Point2D {
+    const initial = this.initialData;
+    const point = initial.points?.[index] || { x: 0, y: 0 };
+    const cos = Math.cos(this.initialContainerRotation), sin = Math.sin(this.initialContainerRotation);
+    return {
+      x: initial.x + point.x * cos - point.y * sin,
+      y: initial.y + point.x * sin + point.y * cos
+    };
+  }
+
+  private drawGuides(): void {
+    const g = this.guideLayer;
+    g.clear();
+    if (this.guides.length === 0) return;
+
+    const scaleFactor = getScaleFactor();
+    for (const guide of this.guides) {
+      if (guide.axis === 'x') {
+        g.moveTo(guide.value * scaleFactor, guide.from * scaleFactor);
+        g.lineTo(guide.value * scaleFactor, guide.to * scaleFactor);
+      } else {
+        g.moveTo(guide.from * scaleFactor, guide.value * scaleFactor);
+        g.lineTo(guide.to * scaleFactor, guide.value * scaleFactor);
+      }
+    }
+    g.stroke({ width: 1 / this.camera.getZoom(), color: GUIDE_COLOR });
+  }
+
   // ---- Transform Operations ----
 
-  private handleMove(dx: number, dy: number): void {
+  private handleGroupTransform(handle: HandleType, dx: number, dy: number, clientX: number, clientY: number): void {
+    let offset: Point2D = { x: 0, y: 0 };
+    let angle = 0;
+    let factor = 1;
+
+    if (handle === 'move') {
+      offset = this.snapMoveDelta(this.groupPivot, dx, dy);
+    } else if (handle === 'rotate') {
+      angle = this.snapRotation(
+        Math.atan2(clientY - this.groupPivotGlobal.y, clientX - this.groupPivotGlobal.x) - this.initialMouseAngle
+      );
+    } else {
+      const dir = GROUP_CORNERS[handle];
+      if (!dir) return;
+      // Project the pointer onto the pivot-to-corner diagonal for a uniform scale
+      const cornerX = dir.x * this.groupHalfSize.x, cornerY = dir.y * this.groupHalfSize.y;
+      const lengthSq = cornerX * cornerX + cornerY * cornerY;
+      if (lengthSq > 0) {
+        factor = Math.max(MIN_GROUP_SCALE, ((cornerX + dx) * cornerX + (cornerY + dy) * cornerY) / lengthSq);
+      }
+    }
+
+    this.groupTargets.forEach((target, i) => {
+      const canRotate = getTransformConstraints(target.type, target.data).canRotate;
+      transformObject(target.data, this.groupInitialData[i], target.type, canRotate, this.groupPivot, offset, angle, factor);
+    });
+  }
+
+  private handleMove(rawDx: number, rawDy: number): void {
     const data = this.targetData;
     const type = this.targetType;
 
-    if (type === 'laser') {
-      data.x1 = this.initialData.x1 + dx;
-      data.y1 = this.initialData.y1 + dy;
-      data.x2 = this.initialData.x2 + dx;
-      data.y2 = this.initialData.y2 + dy;
+    const hasEndpoints = !!this.constraints?.canEditEndpoints;
+    const [start, end] = hasEndpoints ? getEndpoints(this.initialData, type) : [];
+    const anchor = start && end
+      ? { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 }
+      : { x: this.initialData.x, y: this.initialData.y };
+    const { x: dx, y: dy } = this.snapMoveDelta(anchor, rawDx, rawDy);
+
+    if (start && end) {
+      setEndpoint(data, type, 'endpoint_start', { x: start.x + dx, y: start.y + dy });
+      setEndpoint(data, type, 'endpoint_end', { x: end.x + dx, y: end.y + dy });
     } else {
       data.x = this.initialData.x + dx;
       data.y = this.initialData.y + dy;
@@ -655,11 +1097,12 @@ export class TransformGizmo extends PIXI.Container {
     // Calculate delta from initial mouse angle
     const deltaAngle = currentMouseAngle - this.initialMouseAngle;
 
-    // Apply delta to initial rotation
-    const rotationRad = this.initialContainerRotation + deltaAngle;
+    // Apply delta to initial rotation, snapped in degrees so the stored angle stays round
+    const rawDeg = ((this.initialContainerRotation + deltaAngle) * 180) / Math.PI;
+    const rotationDeg = snapAngle(rawDeg, this.snapOptions?.angleStep || 0);
+    const rotationRad = (rotationDeg * Math.PI) / 180;
 
     // Apply to data (in degrees)
-    const rotationDeg = (rotationRad * 180) / Math.PI;
     this.targetData.angle = rotationDeg;
 
     // Apply to visual
@@ -694,10 +1137,10 @@ export class TransformGizmo extends PIXI.Container {
     const yDir = handle.includes('b') || handle === 'scale_bl' || handle === 'scale_br' ? 1 : -1;
 
     if (scalesWidth && this.constraints?.canScaleWidth) {
-      newWidth = Math.max(MIN_SIZE, (initial.width || 100) + localDx * xDir * 2);
+      newWidth = this.snapLength(Math.max(MIN_SIZE, (initial.width || 100) + localDx * xDir * 2));
     }
     if (scalesHeight && this.constraints?.canScaleHeight) {
-      newHeight = Math.max(MIN_SIZE, (initial.height || 100) + localDy * yDir * 2);
+      newHeight = this.snapLength(Math.max(MIN_SIZE, (initial.height || 100) + localDy * yDir * 2));
     }
 
     // Handle uniform scaling (circles)
@@ -708,7 +1151,8 @@ export class TransformGizmo extends PIXI.Container {
       } else {
         delta = localDy * yDir;
       }
-      const newRadius = Math.max(MIN_SIZE / 2, (initial.radius || 50) + delta);
+      // Grid snapping applies to the diameter
+      const newRadius = this.snapLength(Math.max(MIN_SIZE, ((initial.radius || 50) + delta) * 2)) / 2;
       data.radius = newRadius;
       return;
     }
@@ -787,16 +1231,39 @@ export class TransformGizmo extends PIXI.Container {
   }
 
   private handleEndpointMove(handle: HandleType, dx: number, dy: number): void {
-    const data = this.targetData;
+    const [start, end] = getEndpoints(this.initialData, this.targetType);
+    const origin = handle === 'endpoint_start' ? start : end;
+    setEndpoint(this.targetData, this.targetType, handle, { x: origin.x + dx, y: origin.y + dy });
+  }
+
+  private handleWaypointMove(index: number, dx: number, dy: number): void {
     const initial = this.initialData;
+    const waypoint = initial.path.waypoints[index];
+    const delta = this.snapPointDelta({ x: initial.x + waypoint.x, y: initial.y + waypoint.y }, dx, dy);
+    this.targetData.path.waypoints[index] = { x: waypoint.x + delta.x, y: waypoint.y + delta.y };
+  }
 
-    if (handle === 'endpoint_start') {
-      data.x1 = initial.x1 + dx;
-      data.y1 = initial.y1 + dy;
-    } else {
-      data.x2 = initial.x2 + dx;
-      data.y2 = initial.y2 + dy;
+  /**
+   * A tap on a waypoint removes it (the obstacle stops moving with the last one);
+   * a waypoint just added stays where it was put
+   */
+  private finishWaypointEdit(handle: HandleType): void {
+    if (!this.hasMoved && !this.isNewWaypoint) {
+      const waypoints = this.targetData.path.waypoints;
+      waypoints.splice(parseInt(handle.split('_')[1]), 1);
+      if (waypoints.length === 0) {
+        delete this.targetData.path;
+      }
     }
+    this.isNewWaypoint = false;
+    this.updateGizmo();
+    this.onTransformChange?.();
+  }
+
+  public destroy(options?: PIXI.DestroyOptions): void {
+    this.guideLayer.destroy();
+    this.pathLayer.destroy({ children: true });
+    super.destroy(options);
   }
 
   /**
@@ -811,7 +1278,7 @@ export class TransformGizmo extends PIXI.Container {
    * This allows selecting and immediately dragging an object in one motion
    */
   public startMoveFromExternal(e: PIXI.FederatedPointerEvent): void {
-    if (!this.targetContainer || !this.targetData) return;
+    if (!this.hasTarget()) return;
 
     this.isDragging = true;
     this.activeHandle = 'move';
@@ -820,13 +1287,7 @@ export class TransformGizmo extends PIXI.Container {
     this.hasMoved = false;
     this.isExternalStart = true;
 
-    // Deep clone initial data
-    this.initialData = JSON.parse(JSON.stringify(this.targetData));
-    this.initialContainerPos = {
-      x: this.targetContainer.position.x,
-      y: this.targetContainer.position.y
-    };
-    this.initialContainerRotation = this.targetContainer.rotation;
+    this.captureInitialState();
 
     // Attach global listeners
     window.addEventListener('pointermove', this.onPointerMove);
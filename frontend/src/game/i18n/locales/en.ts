@@ -19,12 +19,25 @@ export const en = {
   'sort.latest': 'Latest',
   'sort.popular': 'Popular',
   'sort.mine': 'Mine',
+  'search.placeholder': 'Search levels',
+  'search.no_results': 'No levels found.',
+  'tag.easy': 'Easy',
+  'tag.hard': 'Hard',
+  'tag.puzzle': 'Puzzle',
+  'tag.timing': 'Timing',
+  'tag.precision': 'Precision',
+  'tag.creative': 'Creative',
+  'info.untitled': 'Untitled Level',
+  'info.author': 'By ',
+  'info.show_hint': 'Show Hint',
+  'info.play': 'Play',
   'level.published': 'Published: ',
   'level.created': 'Created: ',
   'level.attempts': 'Attempts: ',
   'level.clears': 'Clears: ',
   'level.delete': 'Delete',
   'level.delete_confirm': 'Are you sure you want to delete this level?\nThis cannot be undone.',
+  'level.invalid': 'This level contains invalid data:',
   'profile.view_levels': 'View Levels',
   'profile.total_levels': 'Total Levels: ',
   'status.draft': 'Draft',
@@ -33,6 +46,48 @@ export const en = {
   'pen.use': 'Use',
   'editor.edit': 'Edit',
   'editor.play': 'Play',
+  'editor.level_settings': 'Level Settings',
+  'editor.level_title': 'Title',
+  'editor.level_description': 'Description',
+  'editor.level_hint': 'Hint',
+  'editor.tap_to_edit': 'Tap to edit',
+  'editor.level_width': 'Level Width',
+  'editor.level_height': 'Level Height',
+  'editor.max_ink': 'Ink Limit',
+  'editor.max_strokes': 'Stroke Limit',
+  'editor.unlimited': 'Unlimited',
+  'editor.three_star_strokes': '3★ Stroke Limit',
+  'editor.three_star_ink': '3★ Ink Limit',
+  'editor.three_star_time': '3★ Time Limit (s)',
+  'editor.two_star_strokes': '2★ Stroke Limit',
+  'editor.two_star_ink': '2★ Ink Limit',
+  'editor.two_star_time': '2★ Time Limit (s)',
+  'editor.allowed_pens': 'Allowed Pens',
+  'editor.tags': 'Tags (up to 3)',
+  'editor.snapping': 'Snapping',
+  'editor.snap_grid': 'Snap to Grid',
+  'editor.snap_objects': 'Snap to Objects',
+  'editor.snap_angle': 'Rotation Step',
+  'editor.snap_free': 'Free',
+  'editor.snap_hint': 'Hold Alt to place freely',
+  'shortcuts.title': 'Keyboard Shortcuts',
+  'shortcuts.delete': 'Delete selection',
+  'shortcuts.copy_paste': 'Copy / paste',
+  'shortcuts.duplicate': 'Duplicate',
+  'shortcuts.undo': 'Undo',
+  'shortcuts.redo': 'Redo',
+  'shortcuts.nudge': 'Nudge 1 px',
+  'shortcuts.nudge_large': 'Nudge 10 px',
+  'shortcuts.rotate': 'Rotate clockwise / counterclockwise',
+  'shortcuts.cycle': 'Select next / previous object',
+  'shortcuts.multi_select': 'Add to selection',
+  'shortcuts.free_place': 'Move without snapping',
+  'shortcuts.zoom': 'Zoom',
+  'shortcuts.pan': 'Pan the view',
+  'shortcuts.reset_view': 'Reset the view',
+  'shortcuts.deselect': 'Deselect',
+  'shortcuts.toggle_play': 'Toggle test play',
+  'shortcuts.help': 'Show this help',
   'publish.confirm_clear': 'You must clear the level first.',
   'publish.confirm_publish': 'Publish this level?',
   'publish.success': 'Published!',
@@ -47,4 +102,36 @@ export const en = {
   'auth.signin_prompt': 'Sign in with Google to create levels, \nlike levels, and sync your profile.',
   'auth.logout': 'Logout',
   'common.unknown': 'Unknown',
+  'error.unauthorized': 'Please sign in to do this.',
+  'error.forbidden': 'You can only change your own levels.',
+  'error.not_found': 'Level not found.',
+  'error.generic': 'Something went wrong. Please try again.',
+  'error.replay_missing': 'Clear the level first so your solution can be verified.',
+  'error.replay_invalid': 'Your saved solution could not be verified.\nPlease clear the level again.',
+  'error.replay_not_cleared': 'Your saved solution no longer clears this level.\nPlease clear it again after your last edit.',
+  'error.verification_unavailable': 'Solutions cannot be verified right now.\nPlease try again later.',
+  'replay.none': 'No replay saved for this level yet.\nClear it once, or import a replay file.',
+  'replay.invalid': 'This replay file could not be read.',
+  'replay.wrong_level': 'This replay was recorded on a different level.',
+  'replay.diverged': 'This replay no longer solves the level.',
+  'replay.import': 'Import',
+  'share.export_prompt': 'Share this level with a link,\nor save it as a file.',
+  'share.copy_link': 'Copy Link',
+  'share.download': 'Save File',
+  'share.link_copied': 'Share link copied to the clipboard.',
+  'share.copy_manually': 'Copy this link:',
+  'share.import_prompt': 'Import a level from a file,\nor paste a share link or code.',
+  'share.paste': 'Paste',
+  'share.from_file': 'From File',
+  'share.paste_prompt': 'Paste a share link or code:',
+  'share.invalid': 'This level could not be imported:',
+  'drafts.conflict': 'This draft was changed on another device too.\nOnly the latest changes were kept.',
+  'drafts.keep_both': 'Keep Both',
+  'results.new_best': 'New best!',
+  'results.strokes': 'Strokes',
+  'results.ink': 'Ink',
+  'results.time': 'Time',
+  'results.retry': 'Retry',
+  'results.watch': 'Watch',
+  'results.home': 'Home',
 };
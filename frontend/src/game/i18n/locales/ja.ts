@@ -19,12 +19,25 @@ export const ja = {
   'sort.latest': '最新',
   'sort.popular': '人気',
   'sort.mine': '自作',
+  'search.placeholder': 'レベルを検索',
+  'search.no_results': 'レベルが見つかりません。',
+  'tag.easy': 'かんたん',
+  'tag.hard': 'むずかしい',
+  'tag.puzzle': 'パズル',
+  'tag.timing': 'タイミング',
+  'tag.precision': '精密',
+  'tag.creative': 'ひらめき',
+  'info.untitled': '無題のレベル',
+  'info.author': '作者: ',
+  'info.show_hint': 'ヒントを見る',
+  'info.play': 'プレイ',
   'level.published': '公開日: ',
   'level.created': '作成日: ',
   'level.attempts': '挑戦回数: ',
   'level.clears': 'クリア回数: ',
   'level.delete': '削除',
   'level.delete_confirm': 'このレベルを削除しますか？\nこの操作は取り消せません。',
+  'level.invalid': 'このレベルには無効なデータが含まれています：',
   'profile.view_levels': 'レベルを見る',
   'profile.total_levels': 'レベル総数: ',
   'status.draft': '下書き',
@@ -33,6 +46,48 @@ export const ja = {
   'pen.use': '使用',
   'editor.edit': '編集',
   'editor.play': 'プレイ',
+  'editor.level_settings': 'レベル設定',
+  'editor.level_title': 'タイトル',
+  'editor.level_description': '説明',
+  'editor.level_hint': 'ヒント',
+  'editor.tap_to_edit': 'タップして編集',
+  'editor.level_width': 'レベルの幅',
+  'editor.level_height': 'レベルの高さ',
+  'editor.max_ink': 'インク上限',
+  'editor.max_strokes': '線の本数上限',
+  'editor.unlimited': '無制限',
+  'editor.three_star_strokes': '★3 線の本数',
+  'editor.three_star_ink': '★3 インク量',
+  'editor.three_star_time': '★3 制限時間（秒）',
+  'editor.two_star_strokes': '★2 線の本数',
+  'editor.two_star_ink': '★2 インク量',
+  'editor.two_star_time': '★2 制限時間（秒）',
+  'editor.allowed_pens': '使用できるペン',
+  'editor.tags': 'タグ（3つまで）',
+  'editor.snapping': 'スナップ',
+  'editor.snap_grid': 'グリッドにスナップ',
+  'editor.snap_objects': 'オブジェクトにスナップ',
+  'editor.snap_angle': '回転の刻み',
+  'editor.snap_free': '自由',
+  'editor.snap_hint': 'Altキーを押しながらで自由に配置',
+  'shortcuts.title': 'キーボードショートカット',
+  'shortcuts.delete': '選択を削除',
+  'shortcuts.copy_paste': 'コピー / 貼り付け',
+  'shortcuts.duplicate': '複製',
+  'shortcuts.undo': '元に戻す',
+  'shortcuts.redo': 'やり直し',
+  'shortcuts.nudge': '1 px 移動',
+  'shortcuts.nudge_large': '10 px 移動',
+  'shortcuts.rotate': '右回転 / 左回転',
+  'shortcuts.cycle': '次 / 前のオブジェクトを選択',
+  'shortcuts.multi_select': '選択に追加',
+  'shortcuts.free_place': 'スナップせずに移動',
+  'shortcuts.zoom': 'ズーム',
+  'shortcuts.pan': '表示を移動',
+  'shortcuts.reset_view': '表示をリセット',
+  'shortcuts.deselect': '選択解除',
+  'shortcuts.toggle_play': 'テストプレイの切り替え',
+  'shortcuts.help': 'このヘルプを表示',
   'publish.confirm_clear': '公開するにはまずクリアする必要があります。',
   'publish.confirm_publish': 'このレベルを公開しますか？',
   'publish.success': '公開しました！',
@@ -47,4 +102,36 @@ export const ja = {
   'auth.signin_prompt': 'レベルの作成、いいね、\nプロフィールの同期にはGoogleログインが必要です。',
   'auth.logout': 'ログアウト',
   'common.unknown': '不明',
+  'error.unauthorized': 'この操作にはログインが必要です。',
+  'error.forbidden': '自分のレベルのみ変更できます。',
+  'error.not_found': 'レベルが見つかりません。',
+  'error.generic': 'エラーが発生しました。もう一度お試しください。',
+  'error.replay_missing': '解答を検証できるよう、先にレベルをクリアしてください。',
+  'error.replay_invalid': '保存された解答を検証できませんでした。\nもう一度クリアしてください。',
+  'error.replay_not_cleared': '保存された解答ではこのレベルをクリアできなくなりました。\n最後の編集後にもう一度クリアしてください。',
+  'error.verification_unavailable': '現在、解答を検証できません。\nしばらくしてからもう一度お試しください。',
+  'replay.none': 'このレベルのリプレイはまだありません。\n一度クリアするか、リプレイファイルを読み込んでください。',
+  'replay.invalid': 'このリプレイファイルを読み込めませんでした。',
+  'replay.wrong_level': 'このリプレイは別のレベルで記録されました。',
+  'replay.diverged': 'このリプレイではもうレベルをクリアできません。',
+  'replay.import': '読み込む',
+  'share.export_prompt': 'リンクでこのレベルを共有するか、\nファイルとして保存します。',
+  'share.copy_link': 'リンク',
+  'share.download': 'ファイル',
+  'share.link_copied': '共有リンクをクリップボードにコピーしました。',
+  'share.copy_manually': 'このリンクをコピーしてください：',
+  'share.import_prompt': 'ファイルからレベルを読み込むか、\n共有リンクまたはコードを貼り付けます。',
+  'share.paste': '貼り付け',
+  'share.from_file': 'ファイルから',
+  'share.paste_prompt': '共有リンクまたはコードを貼り付けてください：',
+  'share.invalid': 'このレベルを読み込めませんでした：',
+  'drafts.conflict': 'この下書きは別の端末でも編集されました。\n最新の変更だけが残されています。',
+  'drafts.keep_both': '両方残す',
+  'results.new_best': '自己ベスト更新！',
+  'results.strokes': '線の数',
+  'results.ink': 'インク',
+  'results.time': 'タイム',
+  'results.retry': 'リトライ',
+  'results.watch': '再生',
+  'results.home': 'ホーム',
 };
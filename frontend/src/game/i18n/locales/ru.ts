@@ -19,12 +19,25 @@ export const ru = {
   'sort.latest': 'Новые',
   'sort.popular': 'Популярные',
   'sort.mine': 'Мои',
+  'search.placeholder': 'Поиск уровней',
+  'search.no_results': 'Уровни не найдены.',
+  'tag.easy': 'Лёгкий',
+  'tag.hard': 'Сложный',
+  'tag.puzzle': 'Головоломка',
+  'tag.timing': 'Тайминг',
+  'tag.precision': 'Точность',
+  'tag.creative': 'Творческий',
+  'info.untitled': 'Уровень без названия',
+  'info.author': 'Автор: ',
+  'info.show_hint': 'Показать подсказку',
+  'info.play': 'Играть',
   'level.published': 'Опубликовано: ',
   'level.created': 'Создано: ',
   'level.attempts': 'Попыток: ',
   'level.clears': 'Прохождений: ',
   'level.delete': 'Удалить',
   'level.delete_confirm': 'Вы уверены, что хотите удалить этот уровень?\nЭто действие нельзя отменить.',
+  'level.invalid': 'Уровень содержит некорректные данные:',
   'profile.view_levels': 'Посмотреть уровни',
   'profile.total_levels': 'Всего уровней: ',
   'status.draft': 'Черновик',
@@ -33,6 +46,48 @@ export const ru = {
   'pen.use': 'Выбрать',
   'editor.edit': 'Редактировать',
   'editor.play': 'Играть',
+  'editor.level_settings': 'Настройки уровня',
+  'editor.level_title': 'Название',
+  'editor.level_description': 'Описание',
+  'editor.level_hint': 'Подсказка',
+  'editor.tap_to_edit': 'Нажмите, чтобы изменить',
+  'editor.level_width': 'Ширина уровня',
+  'editor.level_height': 'Высота уровня',
+  'editor.max_ink': 'Лимит чернил',
+  'editor.max_strokes': 'Лимит линий',
+  'editor.unlimited': 'Без ограничений',
+  'editor.three_star_strokes': '3★ лимит линий',
+  'editor.three_star_ink': '3★ лимит чернил',
+  'editor.three_star_time': '3★ лимит времени (с)',
+  'editor.two_star_strokes': '2★ лимит линий',
+  'editor.two_star_ink': '2★ лимит чернил',
+  'editor.two_star_time': '2★ лимит времени (с)',
+  'editor.allowed_pens': 'Доступные ручки',
+  'editor.tags': 'Теги (до 3)',
+  'editor.snapping': 'Привязка',
+  'editor.snap_grid': 'Привязка к сетке',
+  'editor.snap_objects': 'Привязка к объектам',
+  'editor.snap_angle': 'Шаг поворота',
+  'editor.snap_free': 'Свободно',
+  'editor.snap_hint': 'Удерживайте Alt для свободного размещения',
+  'shortcuts.title': 'Горячие клавиши',
+  'shortcuts.delete': 'Удалить выделенное',
+  'shortcuts.copy_paste': 'Копировать / вставить',
+  'shortcuts.duplicate': 'Дублировать',
+  'shortcuts.undo': 'Отменить',
+  'shortcuts.redo': 'Повторить',
+  'shortcuts.nudge': 'Сдвинуть на 1 px',
+  'shortcuts.nudge_large': 'Сдвинуть на 10 px',
+  'shortcuts.rotate': 'Повернуть по / против часовой',
+  'shortcuts.cycle': 'Следующий / предыдущий объект',
+  'shortcuts.multi_select': 'Добавить к выделению',
+  'shortcuts.free_place': 'Перемещать без привязки',
+  'shortcuts.zoom': 'Масштаб',
+  'shortcuts.pan': 'Сдвинуть вид',
+  'shortcuts.reset_view': 'Сбросить вид',
+  'shortcuts.deselect': 'Снять выделение',
+  'shortcuts.toggle_play': 'Переключить тестовую игру',
+  'shortcuts.help': 'Показать эту справку',
   'publish.confirm_clear': 'Сначала нужно пройти уровень.',
   'publish.confirm_publish': 'Опубликовать этот уровень?',
   'publish.success': 'Опубликовано!',
@@ -47,4 +102,36 @@ export const ru = {
   'auth.signin_prompt': 'Войдите через Google, чтобы создавать уровни,\nставить лайки и синхронизировать профиль.',
   'auth.logout': 'Выйти',
   'common.unknown': 'Неизвестно',
+  'error.unauthorized': 'Войдите, чтобы выполнить это действие.',
+  'error.forbidden': 'Можно изменять только свои уровни.',
+  'error.not_found': 'Уровень не найден.',
+  'error.generic': 'Что-то пошло не так. Попробуйте ещё раз.',
+  'error.replay_missing': 'Сначала пройдите уровень, чтобы решение можно было проверить.',
+  'error.replay_invalid': 'Не удалось проверить сохранённое решение.\nПройдите уровень ещё раз.',
+  'error.replay_not_cleared': 'Сохранённое решение больше не проходит этот уровень.\nПройдите его ещё раз после последней правки.',
+  'error.verification_unavailable': 'Сейчас невозможно проверить решение.\nПопробуйте позже.',
+  'replay.none': 'Для этого уровня ещё нет повтора.\nПройдите его или импортируйте файл повтора.',
+  'replay.invalid': 'Не удалось прочитать файл повтора.',
+  'replay.wrong_level': 'Этот повтор записан на другом уровне.',
+  'replay.diverged': 'Этот повтор больше не проходит уровень.',
+  'replay.import': 'Импорт',
+  'share.export_prompt': 'Поделитесь уровнем по ссылке\nили сохраните его в файл.',
+  'share.copy_link': 'Ссылка',
+  'share.download': 'В файл',
+  'share.link_copied': 'Ссылка скопирована в буфер обмена.',
+  'share.copy_manually': 'Скопируйте эту ссылку:',
+  'share.import_prompt': 'Импортируйте уровень из файла\nили вставьте ссылку или код.',
+  'share.paste': 'Вставить',
+  'share.from_file': 'Из файла',
+  'share.paste_prompt': 'Вставьте ссылку или код:',
+  'share.invalid': 'Не удалось импортировать уровень:',
+  'drafts.conflict': 'Этот черновик изменили и на другом устройстве.\nСохранены только последние изменения.',
+  'drafts.keep_both': 'Оставить оба',
+  'results.new_best': 'Новый рекорд!',
+  'results.strokes': 'Линии',
+  'results.ink': 'Чернила',
+  'results.time': 'Время',
+  'results.retry': 'Заново',
+  'results.watch': 'Смотреть',
+  'results.home': 'Домой',
 };
@@ -19,12 +19,25 @@ export const zhTW = {
   'sort.latest': '最新',
   'sort.popular': '熱門',
   'sort.mine': '我的',
+  'search.placeholder': '搜尋關卡',
+  'search.no_results': '找不到關卡。',
+  'tag.easy': '簡單',
+  'tag.hard': '困難',
+  'tag.puzzle': '解謎',
+  'tag.timing': '時機',
+  'tag.precision': '精準',
+  'tag.creative': '創意',
+  'info.untitled': '未命名關卡',
+  'info.author': '作者：',
+  'info.show_hint': '顯示提示',
+  'info.play': '開始',
   'level.published': '發布於: ',
   'level.created': '創建於: ',
   'level.attempts': '嘗試: ',
   'level.clears': '通關: ',
   'level.delete': '刪除',
   'level.delete_confirm': '確定要刪除此關卡嗎？\n此操作無法復原。',
+  'level.invalid': '此關卡包含無效的資料：',
   'profile.view_levels': '查看關卡',
   'profile.total_levels': '總關卡數: ',
   'status.draft': '草稿',
@@ -33,6 +46,48 @@ export const zhTW = {
   'pen.use': '使用',
   'editor.edit': '編輯',
   'editor.play': '試玩',
+  'editor.level_settings': '關卡設定',
+  'editor.level_title': '標題',
+  'editor.level_description': '說明',
+  'editor.level_hint': '提示',
+  'editor.tap_to_edit': '點擊以編輯',
+  'editor.level_width': '關卡寬度',
+  'editor.level_height': '關卡高度',
+  'editor.max_ink': '墨水上限',
+  'editor.max_strokes': '筆畫上限',
+  'editor.unlimited': '無限制',
+  'editor.three_star_strokes': '3★ 筆畫上限',
+  'editor.three_star_ink': '3★ 墨水上限',
+  'editor.three_star_time': '3★ 時間上限（秒）',
+  'editor.two_star_strokes': '2★ 筆畫上限',
+  'editor.two_star_ink': '2★ 墨水上限',
+  'editor.two_star_time': '2★ 時間上限（秒）',
+  'editor.allowed_pens': '可用的筆',
+  'editor.tags': '標籤（最多 3 個）',
+  'editor.snapping': '吸附',
+  'editor.snap_grid': '吸附到格線',
+  'editor.snap_objects': '吸附到物件',
+  'editor.snap_angle': '旋轉刻度',
+  'editor.snap_free': '自由',
+  'editor.snap_hint': '按住 Alt 可自由放置',
+  'shortcuts.title': '鍵盤快捷鍵',
+  'shortcuts.delete': '刪除所選',
+  'shortcuts.copy_paste': '複製 / 貼上',
+  'shortcuts.duplicate': '再製',
+  'shortcuts.undo': '復原',
+  'shortcuts.redo': '重做',
+  'shortcuts.nudge': '微移 1 px',
+  'shortcuts.nudge_large': '微移 10 px',
+  'shortcuts.rotate': '順時針 / 逆時針旋轉',
+  'shortcuts.cycle': '選取下一個 / 上一個物件',
+  'shortcuts.multi_select': '加入選取',
+  'shortcuts.free_place': '不吸附移動',
+  'shortcuts.zoom': '縮放',
+  'shortcuts.pan': '平移視圖',
+  'shortcuts.reset_view': '重設視圖',
+  'shortcuts.deselect': '取消選取',
+  'shortcuts.toggle_play': '切換測試遊玩',
+  'shortcuts.help': '顯示此說明',
   'publish.confirm_clear': '您必須先過關才能發布。',
   'publish.confirm_publish': '發布此關卡？',
   'publish.success': '發布成功！',
@@ -47,4 +102,36 @@ export const zhTW = {
   'auth.signin_prompt': '使用 Google 登入以建立關卡、\n按讚關卡並同步您的個人資料。',
   'auth.logout': '登出',
   'common.unknown': '未知',
+  'error.unauthorized': '請先登入。',
+  'error.forbidden': '您只能修改自己的關卡。',
+  'error.not_found': '找不到關卡。',
+  'error.generic': '發生錯誤，請稍後再試。',
+  'error.replay_missing': '請先通關，以便驗證你的解法。',
+  'error.replay_invalid': '無法驗證你儲存的解法。\n請再通關一次。',
+  'error.replay_not_cleared': '你儲存的解法已無法通過此關卡。\n請在最後一次編輯後再通關一次。',
+  'error.verification_unavailable': '目前無法驗證解法。\n請稍後再試。',
+  'replay.none': '此關卡尚未儲存重播。\n請先通關一次，或匯入重播檔案。',
+  'replay.invalid': '無法讀取此重播檔案。',
+  'replay.wrong_level': '此重播是在其他關卡錄製的。',
+  'replay.diverged': '此重播已無法通過此關卡。',
+  'replay.import': '匯入',
+  'share.export_prompt': '以連結分享此關卡，\n或將其存成檔案。',
+  'share.copy_link': '複製連結',
+  'share.download': '存成檔案',
+  'share.link_copied': '分享連結已複製到剪貼簿。',
+  'share.copy_manually': '請複製此連結：',
+  'share.import_prompt': '從檔案匯入關卡，\n或貼上分享連結或代碼。',
+  'share.paste': '貼上',
+  'share.from_file': '從檔案',
+  'share.paste_prompt': '請貼上分享連結或代碼：',
+  'share.invalid': '無法匯入此關卡：',
+  'drafts.conflict': '此草稿也在其他裝置上被修改過。\n只保留了最新的變更。',
+  'drafts.keep_both': '兩者都保留',
+  'results.new_best': '新紀錄！',
+  'results.strokes': '筆畫',
+  'results.ink': '墨水',
+  'results.time': '時間',
+  'results.retry': '重試',
+  'results.watch': '觀看',
+  'results.home': '首頁',
 };
@@ -0,0 +1,179 @@
+/**
+ * Camera Controller
+ * Zoom and pan input for the camera: wheel and pinch to zoom,
+ * middle mouse, Space + drag or two fingers to pan. With zoom turned off
+ * (playing a scrolling level) the wheel scrolls and pinches only pan.
+ *
+ * Pan gestures are taken before Pixi.js sees them, so they never start
+ * a marquee, a drag or a stroke underneath.
+ */
+
+import type { Camera } from '../camera/Camera';
+
+const WHEEL_ZOOM_SPEED = 0.0015;
+const MIDDLE_BUTTON = 1;
+
+export class CameraController {
+  private camera: Camera;
+  private canvas: HTMLCanvasElement;
+  private enabled: boolean = false;
+  private zoomEnabled: boolean = true;
+
+  private isSpaceDown: boolean = false;
+  private panPointerId: number | null = null;
+  private lastPan: { x: number, y: number } = { x: 0, y: 0 };
+
+  // Touch points on the canvas; two make a pinch
+  private touches: Map<number, { x: number, y: number }> = new Map();
+  private pinchDistance: number = 0;
+
+  constructor(camera: Camera, canvas: HTMLCanvasElement) {
+    this.camera = camera;
+    this.canvas = canvas;
+
+    this.canvas.addEventListener('wheel', this.onWheel, { passive: false });
+    // Capture phase: runs before the Pixi.js listeners on the same elements
+    this.canvas.addEventListener('pointerdown', this.onPointerDown, { capture: true });
+    window.addEventListener('pointermove', this.onPointerMove, { capture: true });
+    window.addEventListener('pointerup', this.onPointerUp, { capture: true });
+    window.addEventListener('pointercancel', this.onPointerUp, { capture: true });
+    window.addEventListener('keydown', this.onKeyDown);
+    window.addEventListener('keyup', this.onKeyUp);
+  }
+
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled) {
+      this.panPointerId = null;
+      this.touches.clear();
+      this.setCursor(null);
+    }
+  }
+
+  public setZoomEnabled(enabled: boolean): void {
+    this.zoomEnabled = enabled;
+  }
+
+  public destroy(): void {
+    this.canvas.removeEventListener('wheel', this.onWheel);
+    this.canvas.removeEventListener('pointerdown', this.onPointerDown, { capture: true });
+    window.removeEventListener('pointermove', this.onPointerMove, { capture: true });
+    window.removeEventListener('pointerup', this.onPointerUp, { capture: true });
+    window.removeEventListener('pointercancel', this.onPointerUp, { capture: true });
+    window.removeEventListener('keydown', this.onKeyDown);
+    window.removeEventListener('keyup', this.onKeyUp);
+  }
+
+  /**
+   * Canvas pixel position of a DOM event
+   */
+  private toCanvas(e: { clientX: number, clientY: number }): { x: number, y: number } {
+    const rect = this.canvas.getBoundingClientRect();
+    const scaleX = rect.width > 0 ? this.canvas.clientWidth / rect.width : 1;
+    const scaleY = rect.height > 0 ? this.canvas.clientHeight / rect.height : 1;
+    return { x: (e.clientX - rect.left) * scaleX, y: (e.clientY - rect.top) * scaleY };
+  }
+
+  private onWheel = (e: WheelEvent): void => {
+    if (!this.enabled) return;
+    e.preventDefault();
+
+    if (!this.zoomEnabled) {
+      this.camera.panBy(-e.deltaX, -e.deltaY);
+      return;
+    }
+
+    const point = this.toCanvas(e);
+    this.camera.zoomAt(Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED), point.x, point.y);
+  };
+
+  private onPointerDown = (e: PointerEvent): void => {
+    if (!this.enabled) return;
+
+    if (e.pointerType === 'touch') {
+      this.touches.set(e.pointerId, this.toCanvas(e));
+      if (this.touches.size === 2) {
+        // The second finger turns the gesture into a pinch
+        this.pinchDistance = this.getPinchDistance();
+        e.stopImmediatePropagation();
+      }
+      return;
+    }
+
+    if (e.button === MIDDLE_BUTTON || (e.button === 0 && this.isSpaceDown)) {
+      e.stopImmediatePropagation();
+      e.preventDefault();
+      this.panPointerId = e.pointerId;
+      this.lastPan = this.toCanvas(e);
+      this.setCursor('grabbing');
+    }
+  };
+
+  private onPointerMove = (e: PointerEvent): void => {
+    if (!this.enabled) return;
+
+    if (this.touches.has(e.pointerId)) {
+      const previousCenter = this.getPinchCenter();
+      this.touches.set(e.pointerId, this.toCanvas(e));
+      if (this.touches.size < 2) return;
+
+      e.stopImmediatePropagation();
+      const center = this.getPinchCenter();
+      const distance = this.getPinchDistance();
+      if (this.zoomEnabled && this.pinchDistance > 0 && distance > 0) {
+        this.camera.zoomAt(distance / this.pinchDistance, center.x, center.y);
+      }
+      this.camera.panBy(center.x - previousCenter.x, center.y - previousCenter.y);
+      this.pinchDistance = distance;
+      return;
+    }
+
+    if (e.pointerId !== this.panPointerId) return;
+    e.stopImmediatePropagation();
+
+    const point = this.toCanvas(e);
+    this.camera.panBy(point.x - this.lastPan.x, point.y - this.lastPan.y);
+    this.lastPan = point;
+  };
+
+  private onPointerUp = (e: PointerEvent): void => {
+    this.touches.delete(e.pointerId);
+    if (e.pointerId === this.panPointerId) {
+      this.panPointerId = null;
+      this.setCursor(this.isSpaceDown && this.enabled ? 'grab' : null);
+    }
+  };
+
+  private onKeyDown = (e: KeyboardEvent): void => {
+    if (e.code !== 'Space' || !this.enabled) return;
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+    e.preventDefault();
+    if (!this.isSpaceDown) {
+      this.isSpaceDown = true;
+      this.setCursor('grab');
+    }
+  };
+
+  private onKeyUp = (e: KeyboardEvent): void => {
+    if (e.code !== 'Space') return;
+    this.isSpaceDown = false;
+    if (this.panPointerId === null) this.setCursor(null);
+  };
+
+  private getPinchCenter(): { x: number, y: number } {
+    const points = [...this.touches.values()];
+    if (points.length < 2) return points[0] || { x: 0, y: 0 };
+    return { x: (points[0].x + points[1].x) / 2, y: (points[0].y + points[1].y) / 2 };
+  }
+
+  private getPinchDistance(): number {
+    const points = [...this.touches.values()];
+    if (points.length < 2) return 0;
+    return Math.hypot(points[1].x - points[0].x, points[1].y - points[0].y);
+  }
+
+  // Overrides the Pixi.js cursor while panning
+  private setCursor(cursor: string | null): void {
+    this.canvas.style.cursor = cursor ?? '';
+  }
+}
@@ -7,8 +7,10 @@ import * as PIXI from 'pixi.js';
 import { distanceSampling } from '../utils/douglasPeucker';
 import type { Point } from '../utils/douglasPeucker';
 import { getScaleFactor, getCanvasWidth, getCanvasHeight } from '../config';
+import type { Camera } from '../camera/Camera';
 import { drawLineWithCornerStyle } from '../utils/lineRenderer';
 import { type Pen, DEFAULT_PEN } from '../data/PenData';
+import { strokeInk, type DrawingLimits } from '../levels/InkBudget';
 
 export interface CollisionProvider {
   isPointValid(point: Point): boolean;
@@ -17,18 +19,27 @@ export interface CollisionProvider {
 
 export class DrawingManager {
   private container: PIXI.Container;
+  private camera: Camera;
   private currentGraphics: PIXI.Graphics | null = null;
   private previewGraphics: PIXI.Graphics;
   private currentPoints: Point[] = [];
   private isDrawing = false;
   private isValidStart = false;
-  private onLineComplete: ((points: Point[]) => void) | null = null;
+  private onLineComplete: ((points: Point[]) => boolean) | null = null;
   private onDrawingEnd: (() => void) | null = null;
   private onDrawingStart: (() => void) | null = null;
   private collisionProvider: CollisionProvider | null = null;
   private currentPen: Pen = DEFAULT_PEN;
 
-  constructor(stage: PIXI.Container) {
+  // Ink budget (see InkBudget)
+  private limits: DrawingLimits = {};
+  private inkUsed: number = 0;
+  private strokesUsed: number = 0;
+  private currentLength: number = 0;
+  private isOutOfInk = false;
+
+  constructor(stage: PIXI.Container, camera: Camera) {
+    this.camera = camera;
     this.container = new PIXI.Container();
     stage.addChild(this.container);
 
@@ -45,9 +56,47 @@ export class DrawingManager {
   }
 
   /**
-   * Enable drawing on the specified container
+   * Set the level's drawing limits and reset the ink used so far
+   */
+  setLimits(limits: DrawingLimits): void {
+    this.limits = { ...limits };
+    this.inkUsed = 0;
+    this.strokesUsed = 0;
+  }
+
+  getLimits(): DrawingLimits {
+    return this.limits;
+  }
+
+  /**
+   * Ink used by finished strokes plus the stroke being drawn
+   */
+  getInkUsed(): number {
+    if (this.isDrawing && this.isValidStart) {
+      return this.inkUsed + Math.max(this.currentLength, this.currentPen.width);
+    }
+    return this.inkUsed;
+  }
+
+  getStrokesUsed(): number {
+    return this.strokesUsed;
+  }
+
+  /**
+   * Whether another stroke may be started with the current pen
    */
-  enable(interactionArea: PIXI.Container, callback: (points: Point[]) => void, onDrawingEnd?: () => void, onDrawingStart?: () => void): void {
+  canStartStroke(): boolean {
+    const { maxInk, maxStrokes } = this.limits;
+    if (maxStrokes !== undefined && this.strokesUsed >= maxStrokes) return false;
+    if (maxInk !== undefined && maxInk - this.inkUsed < this.currentPen.width) return false;
+    return true;
+  }
+
+  /**
+   * Enable drawing on the specified container.
+   * `callback` returns whether it kept the line; ink is only charged for kept lines.
+   */
+  enable(interactionArea: PIXI.Container, callback: (points: Point[]) => boolean, onDrawingEnd?: () => void, onDrawingStart?: () => void): void {
     this.onLineComplete = callback;
     this.onDrawingEnd = onDrawingEnd || null;
     this.onDrawingStart = onDrawingStart || null;
@@ -87,6 +136,8 @@ export class DrawingManager {
   cancelDrawing(): void {
     this.isDrawing = false;
     this.isValidStart = false;
+    this.isOutOfInk = false;
+    this.currentLength = 0;
 
     // Clear preview graphics
     this.previewGraphics.clear();
@@ -101,6 +152,15 @@ export class DrawingManager {
     this.currentPoints = [];
   }
 
+  /**
+   * Design space position of a pointer, clamped to the canvas
+   */
+  private toDesignPoint(event: PIXI.FederatedPointerEvent): Point {
+    const clampedGlobalX = Math.min(Math.max(event.globalX, 0), getCanvasWidth());
+    const clampedGlobalY = Math.min(Math.max(event.globalY, 0), getCanvasHeight());
+    return this.camera.screenToWorld(clampedGlobalX, clampedGlobalY);
+  }
+
   /**
    * Handle pointer down event
    */
@@ -108,18 +168,10 @@ export class DrawingManager {
     // Cancel any existing drawing first
     this.cancelDrawing();
 
-    // Clamp pointer to canvas bounds so drawing continues to the nearest edge
-    const scaleFactor = getScaleFactor();
-    const canvasW = getCanvasWidth();
-    const canvasH = getCanvasHeight();
-
-    const clampedGlobalX = Math.min(Math.max(event.globalX, 0), canvasW);
-    const clampedGlobalY = Math.min(Math.max(event.globalY, 0), canvasH);
+    if (!this.canStartStroke()) return;
 
-    const startPoint = {
-      x: clampedGlobalX / scaleFactor,
-      y: clampedGlobalY / scaleFactor
-    };
+    // Clamp pointer to canvas bounds so drawing continues to the nearest edge
+    const startPoint = this.toDesignPoint(event);
 
     // Check if starting point is valid
     this.isValidStart = this.collisionProvider ? this.collisionProvider.isPointValid(startPoint) : true;
@@ -162,17 +214,7 @@ export class DrawingManager {
     // Clamp pointer to canvas bounds so when cursor leaves the window
     // the drawing continues toward the nearest edge instead of using
     // out-of-bounds coordinates.
-    const scaleFactor = getScaleFactor();
-    const canvasW = getCanvasWidth();
-    const canvasH = getCanvasHeight();
-
-    const clampedGlobalX = Math.min(Math.max(event.globalX, 0), canvasW);
-    const clampedGlobalY = Math.min(Math.max(event.globalY, 0), canvasH);
-
-    const point = {
-      x: clampedGlobalX / scaleFactor,
-      y: clampedGlobalY / scaleFactor
-    };
+    const point = this.toDesignPoint(event);
 
     // Only add point if it's far enough from the last point
     const lastPoint = this.currentPoints[this.currentPoints.length - 1];
@@ -205,7 +247,7 @@ export class DrawingManager {
         // Note: No offset needed because shape cast (with current pen width radius) already
         // ensures the entire line segment maintains proper distance from obstacles
         if (distToIntersect >= this.currentPen.minDistance) {
-          this.currentPoints.push(intersection);
+          this.addPoint(intersection);
         }
 
         // We hit something, so we stop here. 
@@ -220,7 +262,7 @@ export class DrawingManager {
     const distance = Math.sqrt(dx * dx + dy * dy);
 
     if (distance >= this.currentPen.minDistance) {
-      this.currentPoints.push(point);
+      this.addPoint(point);
     }
 
     // Always redraw to show the ghost line to current cursor
@@ -253,8 +295,9 @@ export class DrawingManager {
       const simplifiedPoints = distanceSampling(this.currentPoints, this.currentPen.minDistance);
 
       // Need at least 1 point after simplification (single point = dot)
-      if (simplifiedPoints.length >= 1 && this.onLineComplete) {
-        this.onLineComplete(simplifiedPoints);
+      if (simplifiedPoints.length >= 1 && this.onLineComplete && this.onLineComplete(simplifiedPoints)) {
+        this.inkUsed += strokeInk(simplifiedPoints, this.currentPen.width);
+        this.strokesUsed++;
       }
     }
 
@@ -264,6 +307,37 @@ export class DrawingManager {
     }
 
     this.currentPoints = [];
+    this.currentLength = 0;
+    this.isOutOfInk = false;
+  }
+
+  /**
+   * Append a point to the current stroke, cutting the segment short
+   * if it would use more ink than the level has left
+   */
+  private addPoint(point: Point): void {
+    if (this.isOutOfInk) return;
+    const lastPoint = this.currentPoints[this.currentPoints.length - 1];
+    const dx = point.x - lastPoint.x;
+    const dy = point.y - lastPoint.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    const { maxInk } = this.limits;
+    const remaining = maxInk === undefined ? Infinity : maxInk - this.inkUsed - this.currentLength;
+
+    if (distance <= remaining) {
+      this.currentPoints.push(point);
+      this.currentLength += distance;
+      return;
+    }
+
+    // Out of ink: end the stroke exactly where the budget runs out
+    this.isOutOfInk = true;
+    if (remaining > 0) {
+      const t = remaining / distance;
+      this.currentPoints.push({ x: lastPoint.x + dx * t, y: lastPoint.y + dy * t });
+      this.currentLength += remaining;
+    }
   }
 
   /**
@@ -296,6 +370,8 @@ export class DrawingManager {
     // Draw ghost line to cursor using the separate preview graphics
     if (cursorPoint) {
       this.previewGraphics.clear();
+      // Nothing more can be drawn once the ink has run out
+      if (this.isOutOfInk) return;
 
       const lastPoint = this.currentPoints[this.currentPoints.length - 1];
       const dx = cursorPoint.x - lastPoint.x;
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { pickConflictWinner, planDraftSync, type DraftSyncState, type RemoteDraft } from './DraftSync';
+import type { LevelData } from './LevelSchema';
+import level1 from './level1.json';
+
+const draft = (id: string, updatedAt = 1000): LevelData => ({ ...(level1 as LevelData), id, updatedAt });
+const remote = (id: string, version: number, updatedAt = 1000): RemoteDraft => ({ level: draft(id, updatedAt), version });
+
+describe('planDraftSync', () => {
+  it('does nothing when both sides are in step', () => {
+    const plan = planDraftSync([draft('a')], { a: { version: 1, dirty: false } }, [remote('a', 1)]);
+    expect(plan).toEqual({ pull: [], push: [], remove: [], deleteRemote: [], conflicts: [] });
+  });
+
+  it('uploads drafts that are new or edited here', () => {
+    const states: Record<string, DraftSyncState> = {
+      edited: { version: 1, dirty: true },
+      neverUploaded: { version: null, dirty: true },
+    };
+    const plan = planDraftSync([draft('edited'), draft('neverUploaded'), draft('noState')], states, [remote('edited', 1)]);
+    expect(plan.push).toEqual(['edited', 'neverUploaded', 'noState']);
+    expect(plan.pull).toEqual([]);
+  });
+
+  it('downloads drafts changed elsewhere or only on the server', () => {
+    const changed = remote('a', 2);
+    const elsewhere = remote('b', 1);
+    const plan = planDraftSync([draft('a')], { a: { version: 1, dirty: false } }, [changed, elsewhere]);
+    expect(plan.pull).toEqual([changed, elsewhere]);
+    expect(plan.push).toEqual([]);
+  });
+
+  it('removes drafts deleted or published on another device', () => {
+    const plan = planDraftSync([draft('a')], { a: { version: 1, dirty: false } }, []);
+    expect(plan.remove).toEqual(['a']);
+  });
+
+  it('re-uploads a draft edited here after it went away on the server', () => {
+    const plan = planDraftSync([draft('a')], { a: { version: 1, dirty: true } }, []);
+    expect(plan.push).toEqual(['a']);
+    expect(plan.remove).toEqual([]);
+  });
+
+  it('deletes server drafts that were deleted here', () => {
+    const plan = planDraftSync([], { a: { version: 1, dirty: false, deleted: true } }, [remote('a', 1)]);
+    expect(plan.deleteRemote).toEqual(['a']);
+    expect(plan.pull).toEqual([]);
+  });
+
+  it('reports drafts changed on both sides as conflicts', () => {
+    const local = draft('a');
+    const server = remote('a', 2);
+    const plan = planDraftSync([local], { a: { version: 1, dirty: true } }, [server]);
+    expect(plan.conflicts).toEqual([{ local, remote: server }]);
+    expect(plan.push).toEqual([]);
+    expect(plan.pull).toEqual([]);
+  });
+
+  it('treats a draft on both sides that was never synced as a conflict', () => {
+    const plan = planDraftSync([draft('a')], {}, [remote('a', 1)]);
+    expect(plan.conflicts).toHaveLength(1);
+  });
+});
+
+describe('pickConflictWinner', () => {
+  it('keeps the copy edited last', () => {
+    expect(pickConflictWinner(draft('a', 2000), draft('a', 1000))).toBe('local');
+    expect(pickConflictWinner(draft('a', 1000), draft('a', 2000))).toBe('remote');
+  });
+
+  it('prefers the server copy on a tie or without timestamps', () => {
+    expect(pickConflictWinner(draft('a', 1000), draft('a', 1000))).toBe('remote');
+    expect(pickConflictWinner({ ...draft('a'), updatedAt: undefined }, { ...draft('a'), updatedAt: undefined })).toBe('remote');
+    expect(pickConflictWinner(draft('a', 1000), { ...draft('a'), updatedAt: undefined })).toBe('local');
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Draft Sync
+ * Decides how the drafts on this device and the signed-in user's drafts on the server
+ * are brought in step, so a level started on one device can be finished on another.
+ *
+ * The server keeps drafts as unpublished level rows, each with a version that changes
+ * on every upload. The client remembers the version its copy was last in step with:
+ * if both copies changed since, the one edited last wins (see pickConflictWinner) and
+ * the player may keep the other as a separate draft.
+ */
+
+import type { LevelData } from './LevelSchema';
+
+// A draft as stored on the server
+export interface RemoteDraft {
+  level: LevelData;
+  version: number; // Changes on every upload
+}
+
+// What this device knows about the server copy of one of its drafts
+export interface DraftSyncState {
+  version: number | null; // Server version the local copy was last in step with; null if never uploaded
+  dirty: boolean;         // Edited since then
+  deleted?: boolean;      // Deleted here, still to be deleted on the server
+}
+
+export interface DraftConflict {
+  kept: LevelData;
+  discarded: LevelData;
+}
+
+export interface DraftSyncPlan {
+  pull: RemoteDraft[];          // Server copies to store locally (new or changed elsewhere)
+  push: string[];               // Local drafts to upload
+  remove: string[];             // Local drafts deleted or published on another device
+  deleteRemote: string[];       // Server drafts deleted on this device
+  conflicts: { local: LevelData, remote: RemoteDraft }[]; // Changed on both sides
+}
+
+/**
+ * Compare the drafts on this device (with their sync states) against the server's
+ */
+export function planDraftSync(
+  local: LevelData[],
+  states: Record<string, DraftSyncState>,
+  remote: RemoteDraft[]
+): DraftSyncPlan {
+  const plan: DraftSyncPlan = { pull: [], push: [], remove: [], deleteRemote: [], conflicts: [] };
+  const remoteById = new Map(remote.map(draft => [draft.level.id, draft]));
+
+  for (const level of local) {
+    const state = states[level.id];
+    const server = remoteById.get(level.id);
+    remoteById.delete(level.id);
+
+    if (!server) {
+      if (!state || state.version === null || state.dirty) {
+        // New here, or edited here after it went away on the server
+        plan.push.push(level.id);
+      } else {
+        plan.remove.push(level.id);
+      }
+    } else if (state?.version === server.version) {
+      if (state.dirty) plan.push.push(level.id);
+    } else if (state && !state.dirty) {
+      plan.pull.push(server);
+    } else {
+      plan.conflicts.push({ local: level, remote: server });
+    }
+  }
+
+  // Only on the server
+  for (const server of remoteById.values()) {
+    if (states[server.level.id]?.deleted) {
+      plan.deleteRemote.push(server.level.id);
+    } else {
+      plan.pull.push(server);
+    }
+  }
+  return plan;
+}
+
+/**
+ * Last writer wins: the copy edited most recently (by `updatedAt`) is kept
+ */
+export function pickConflictWinner(local: LevelData, remote: LevelData): 'local' | 'remote' {
+  return (local.updatedAt || 0) > (remote.updatedAt || 0) ? 'local' : 'remote';
+}
@@ -0,0 +1,44 @@
+/**
+ * Ink Budget
+ * Measures how much ink a stroke uses, for levels that limit drawing.
+ */
+
+import type { Point } from '../utils/douglasPeucker';
+import type { LevelData } from './LevelSchema';
+
+export interface DrawingLimits {
+  maxInk?: number;      // Total stroke length (design pixels)
+  maxStrokes?: number;
+}
+
+/**
+ * Allowance for rounding when a stroke was cut off exactly at the budget
+ */
+export const INK_TOLERANCE = 0.5;
+
+/**
+ * Length of a polyline in design pixels
+ */
+export function strokeLength(points: Point[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return length;
+}
+
+/**
+ * Ink used by a stroke. Every stroke costs at least the pen width,
+ * so dots are not free.
+ */
+export function strokeInk(points: Point[], penWidth: number): number {
+  return Math.max(strokeLength(points), penWidth);
+}
+
+export function getDrawingLimits(level: LevelData): DrawingLimits {
+  return { maxInk: level.maxInk, maxStrokes: level.maxStrokes };
+}
+
+export function hasDrawingLimits(limits: DrawingLimits): boolean {
+  return limits.maxInk !== undefined || limits.maxStrokes !== undefined;
+}
@@ -0,0 +1,41 @@
+/**
+ * Level Bounds
+ * The playable area of a level and the loss boundaries derived from it.
+ * Game and LevelSimulator must agree on these, or replays stop verifying.
+ */
+
+import { LEVEL_LIMITS } from './LevelValidator';
+import type { LevelBounds, LevelData } from './LevelSchema';
+
+/**
+ * Size of a level in design pixels (one screen unless the level sets bounds)
+ */
+export function getLevelBounds(level: Pick<LevelData, 'bounds'>): LevelBounds {
+  return {
+    width: level.bounds?.width ?? LEVEL_LIMITS.CANVAS_WIDTH,
+    height: level.bounds?.height ?? LEVEL_LIMITS.CANVAS_HEIGHT,
+  };
+}
+
+/**
+ * Whether the level is larger than one screen and needs a scrolling camera
+ */
+export function isScrollingLevel(level: Pick<LevelData, 'bounds'>): boolean {
+  const { width, height } = getLevelBounds(level);
+  return width > LEVEL_LIMITS.CANVAS_WIDTH || height > LEVEL_LIMITS.CANVAS_HEIGHT;
+}
+
+/**
+ * Whether a ball at (x, y) is lost: more than `margin` past either side or the bottom.
+ * There is no ceiling, so balls may fly up out of the level and fall back in.
+ */
+export function isOutOfBounds(x: number, y: number, bounds: LevelBounds, margin: number): boolean {
+  return x < -margin || x > bounds.width + margin || y > bounds.height + margin;
+}
+
+/**
+ * Drawn lines are removed once their center of mass is half a screen below the level
+ */
+export function getDrawnLineBoundary(bounds: LevelBounds): number {
+  return bounds.height + LEVEL_LIMITS.CANVAS_HEIGHT / 2;
+}
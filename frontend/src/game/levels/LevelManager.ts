@@ -1,4 +1,6 @@
 import type { LevelData } from './LevelSchema';
+import { migrateLevelData } from './LevelMigrations';
+import { validateLevelData, type LevelValidationResult } from './LevelValidator';
 
 /**
  * Level Manager
@@ -11,11 +13,26 @@ export class LevelManager {
   }
 
   /**
-   * Load a specific level from data object
+   * Load a specific level from data object.
+   * Invalid levels are rejected (current level becomes null) so that
+   * nothing gets spawned from a half-broken document.
    */
-  async loadLevelData(data: LevelData): Promise<void> {
-    this.currentLevel = data;
-    // In future this handles validation or pre-processing
+  async loadLevelData(data: LevelData): Promise<LevelValidationResult> {
+    this.currentLevel = null;
+
+    let migrated: LevelData;
+    try {
+      // Upgrade documents saved by older builds before anything reads them
+      migrated = migrateLevelData(data);
+    } catch (e) {
+      return { valid: false, errors: [{ path: 'schemaVersion', message: (e as Error).message }] };
+    }
+
+    const result = validateLevelData(migrated);
+    if (result.valid) {
+      this.currentLevel = migrated;
+    }
+    return result;
   }
 
   getCurrentLevel(): LevelData | null {
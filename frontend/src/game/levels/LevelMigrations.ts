@@ -0,0 +1,84 @@
+import type { LevelData } from './LevelSchema';
+
+/**
+ * Level Migrations
+ * Upgrades stored level documents to the current schema version.
+ *
+ * The backend migrates uploaded levels and the rows it reads back with this too.
+ */
+
+/**
+ * Version stamped on every level written by this build.
+ * Bump this and register a step in MIGRATIONS whenever the shape of
+ * LevelData (or any object config inside it) changes.
+ */
+export const CURRENT_SCHEMA_VERSION = 1;
+
+/**
+ * Documents saved before versioning existed carry no schemaVersion field
+ */
+const LEGACY_SCHEMA_VERSION = 0;
+
+type Migration = (data: any) => any;
+
+/**
+ * Migration steps keyed by the version they upgrade FROM.
+ * Each step receives a document of version N and returns one of version N + 1.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // 0 -> 1: Optional object arrays were added over time, so older documents
+  // may be missing any of them. Default each one to an empty array.
+  0: (data) => ({
+    ...data,
+    obstacles: data.obstacles ?? [],
+    fallingObjects: data.fallingObjects ?? [],
+    nets: data.nets ?? [],
+    iceBlocks: data.iceBlocks ?? [],
+    lasers: data.lasers ?? [],
+    seesaws: data.seesaws ?? [],
+    conveyors: data.conveyors ?? [],
+    buttons: data.buttons ?? [],
+  }),
+};
+
+/**
+ * Read the schema version of a stored document
+ */
+export function getSchemaVersion(data: any): number {
+  const version = data?.schemaVersion;
+  return typeof version === 'number' && Number.isInteger(version) && version >= 0
+    ? version
+    : LEGACY_SCHEMA_VERSION;
+}
+
+/**
+ * Check whether a document needs to go through the migration pipeline
+ */
+export function needsMigration(data: any): boolean {
+  return getSchemaVersion(data) < CURRENT_SCHEMA_VERSION;
+}
+
+/**
+ * Upgrade a level document to CURRENT_SCHEMA_VERSION, one step at a time.
+ * Documents already at the current version are returned unchanged.
+ * Throws if the document was written by a newer build than this one.
+ */
+export function migrateLevelData(data: any): LevelData {
+  let version = getSchemaVersion(data);
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Unsupported level schema version ${version} (latest known: ${CURRENT_SCHEMA_VERSION})`);
+  }
+
+  let migrated = data;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      throw new Error(`Missing level migration from schema version ${version}`);
+    }
+    migrated = { ...step(migrated), schemaVersion: version + 1 };
+    version++;
+  }
+
+  return migrated as LevelData;
+}
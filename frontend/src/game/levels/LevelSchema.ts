@@ -3,6 +3,8 @@
  * Defines the structure of a level JSON file
  */
 
+import type { LevelTag } from './LevelSearch';
+
 export interface Vec2 {
   x: number;
   y: number;
@@ -28,6 +30,20 @@ export interface ObstacleConfig {
   points?: Vec2[]; // For c_shape, bezier, or triangle (3 coordinates)
   thickness?: number; // For c_shape or bezier
   cap?: 'round' | 'butt'; // Defaults to 'round' for c_shape or bezier
+  path?: ObstaclePath; // Makes the obstacle a moving platform
+}
+
+export type PathMode = 'linear' | 'loop' | 'ping_pong';
+
+/**
+ * Route of a moving obstacle (see ObstaclePath.ts). It sets off from where it is
+ * placed once play starts, keeping its angle.
+ */
+export interface ObstaclePath {
+  waypoints: Vec2[];  // Offsets from the obstacle's position, visited in order
+  mode?: PathMode;    // 'linear' stops at the last waypoint, 'loop' returns to the start, 'ping_pong' (default) turns back
+  speed?: number;     // Pixels per second (default: DEFAULT_PATH_SPEED)
+  delay?: number;     // Seconds before setting off (default: 0)
 }
 
 export interface NetConfig {
@@ -87,11 +103,61 @@ export interface ButtonConfig {
   angle?: number;    // Rotation in degrees (default: 0, sinks downward)
 }
 
+export interface PortalEndConfig {
+  x: number;         // Center X
+  y: number;         // Center Y
+  angle?: number;    // Rotation in degrees (default: 0, opening faces up)
+}
+
+/**
+ * A one-way portal: bodies entering the front of the entrance leave the front
+ * of the exit, turned by the difference between the two angles
+ */
+export interface PortalConfig {
+  entrance: PortalEndConfig;
+  exit: PortalEndConfig;
+}
+
+export interface SpringConfig {
+  x: number;         // Center X position
+  y: number;         // Center Y position
+  angle?: number;    // Rotation in degrees (default: 0, launches upward)
+  strength?: number; // Launch speed (m/s, default: SPRING_STRENGTH)
+}
+
+/**
+ * Requirements for a star tier; every limit that is set must be met
+ */
+export interface StarCriteria {
+  maxStrokes?: number;
+  maxInk?: number;     // Total stroke length (design pixels)
+  maxTime?: number;    // Seconds from the first stroke to the win
+}
+
+/**
+ * Playable area of a level, from the top left of the first screen (design pixels)
+ */
+export interface LevelBounds {
+  width: number;
+  height: number;
+}
+
+export interface StarThresholds {
+  two?: StarCriteria;
+  three?: StarCriteria;
+}
+
 export interface LevelData {
+  schemaVersion?: number; // Missing on documents saved before versioning (see LevelMigrations)
   id: string;
+  title?: string;
+  description?: string;
+  hint?: string;        // Revealed on request before playing
+  tags?: LevelTag[];    // See LevelSearch
   author?: string;
   authorId?: string;
   createdAt?: number;
+  updatedAt?: number;   // Last edit of a draft (see DraftSync)
   likes?: number;
   attempts?: number;
   clears?: number;
@@ -107,7 +173,15 @@ export interface LevelData {
   seesaws?: SeesawConfig[];
   conveyors?: ConveyorBeltConfig[];
   buttons?: ButtonConfig[];
+  portals?: PortalConfig[];
+  springs?: SpringConfig[];
+  bounds?: LevelBounds;   // Larger levels scroll (see LevelBounds); a single screen if missing
+  maxInk?: number;      // Total length of all strokes (design pixels); unlimited if missing
+  maxStrokes?: number;  // Number of strokes; unlimited if missing
+  allowedPens?: string[]; // Pen ids the player may draw with; all pens if missing, a single id forces that pen
+  starThresholds?: StarThresholds; // Any clear earns 1 star (see StarRating)
   isPublished?: boolean;
   authorPassed?: boolean;
   isLikedByCurrentUser?: boolean;
+  bestStars?: number;   // Current user's best rating on the server, if any
 }
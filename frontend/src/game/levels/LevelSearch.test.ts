@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, MAX_SEARCH_LENGTH,
+  decodeCursor, encodeCursor, getCursorValues, matchesLevelSearch, pageLevels, parseSearchParams, toSearchParams,
+  type LevelSearchQuery,
+} from './LevelSearch';
+import type { LevelData } from './LevelSchema';
+import level1 from './level1.json';
+
+const makeLevel = (changes: Partial<LevelData>): LevelData => ({ ...(level1 as LevelData), ...changes });
+
+describe('parseSearchParams', () => {
+  it('defaults to the latest levels, one default page at a time', () => {
+    expect(parseSearchParams({})).toEqual({ sort: 'latest', limit: DEFAULT_PAGE_SIZE });
+  });
+
+  it('reads every parameter', () => {
+    expect(parseSearchParams({ q: ' ball ', tag: 'hard', author: 'u1', sort: 'popular', cursor: 'c', limit: '10' }))
+      .toEqual({ text: 'ball', tag: 'hard', authorId: 'u1', sort: 'popular', cursor: 'c', limit: 10 });
+  });
+
+  it('drops unknown tags and sort orders', () => {
+    expect(parseSearchParams({ tag: 'boring', sort: 'oldest' })).toEqual({ sort: 'latest', limit: DEFAULT_PAGE_SIZE });
+  });
+
+  it('trims the text and ignores blank text', () => {
+    expect(parseSearchParams({ q: 'x'.repeat(MAX_SEARCH_LENGTH + 20) }).text).toHaveLength(MAX_SEARCH_LENGTH);
+    expect(parseSearchParams({ q: '   ' })).not.toHaveProperty('text');
+  });
+
+  it('clamps the limit', () => {
+    expect(parseSearchParams({ limit: '1000' }).limit).toBe(MAX_PAGE_SIZE);
+    expect(parseSearchParams({ limit: '7.9' }).limit).toBe(7);
+    for (const limit of ['0', '-5', 'ten', '']) {
+      expect(parseSearchParams({ limit }).limit, limit).toBe(DEFAULT_PAGE_SIZE);
+    }
+  });
+
+  it('reads back what toSearchParams writes', () => {
+    const query: LevelSearchQuery = { text: 'ball', tag: 'puzzle', authorId: 'u1', sort: 'popular', cursor: 'c', limit: 5 };
+    expect(parseSearchParams(Object.fromEntries(toSearchParams(query)))).toEqual(query);
+  });
+});
+
+describe('matchesLevelSearch', () => {
+  const level = makeLevel({ title: 'Rolling Hills', description: 'Gentle slopes', author: 'Mika', authorId: 'u1', tags: ['easy'] });
+
+  it('matches text in the title, description or author, ignoring case', () => {
+    for (const text of ['hills', 'SLOPES', 'mik']) {
+      expect(matchesLevelSearch(level, { text }), text).toBe(true);
+    }
+    expect(matchesLevelSearch(level, { text: 'laser' })).toBe(false);
+  });
+
+  it('filters by tag and author', () => {
+    expect(matchesLevelSearch(level, { tag: 'easy', authorId: 'u1' })).toBe(true);
+    expect(matchesLevelSearch(level, { tag: 'hard' })).toBe(false);
+    expect(matchesLevelSearch(level, { authorId: 'u2' })).toBe(false);
+    expect(matchesLevelSearch(makeLevel({ tags: undefined }), { tag: 'easy' })).toBe(false);
+  });
+
+  it('matches everything without criteria', () => {
+    expect(matchesLevelSearch(makeLevel({}), {})).toBe(true);
+  });
+});
+
+describe('encodeCursor / decodeCursor', () => {
+  it('round-trips the values of each sort', () => {
+    const level = makeLevel({ id: 'abc', createdAt: 1000, likes: 7 });
+    for (const sort of ['latest', 'popular'] as const) {
+      const values = getCursorValues(level, sort);
+      expect(decodeCursor(encodeCursor(values), sort), sort).toEqual(values);
+    }
+  });
+
+  it('rejects cursors made for the other sort', () => {
+    expect(decodeCursor(encodeCursor([1000, 'abc']), 'popular')).toBeNull();
+    expect(decodeCursor(encodeCursor([7, 1000, 'abc']), 'latest')).toBeNull();
+  });
+
+  it('rejects malformed cursors', () => {
+    for (const cursor of ['', 'nope', '{"a":1}', '"abc"', '[1000]', '["1000","abc"]', '[1000,5]', '[null,"abc"]', '[1e999,"abc"]']) {
+      expect(decodeCursor(cursor, 'latest'), cursor).toBeNull();
+    }
+  });
+});
+
+describe('pageLevels', () => {
+  // Created one per second; two share a timestamp so the id breaks the tie
+  const levels = ['a', 'b', 'c', 'd', 'e'].map((id, i) =>
+    makeLevel({ id, createdAt: i === 4 ? 3000 : (i + 1) * 1000, likes: 10 - i }));
+
+  const pageAll = (sort: 'latest' | 'popular', limit: number) => {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    for (;;) {
+      const page = pageLevels(levels, { sort, limit, cursor });
+      ids.push(...page.levels.map(level => level.id));
+      if (!page.nextCursor) return ids;
+      cursor = page.nextCursor;
+    }
+  };
+
+  it('lists every level once, newest first, across pages', () => {
+    expect(pageAll('latest', 2)).toEqual(['d', 'e', 'c', 'b', 'a']);
+  });
+
+  it('orders popular listings by likes', () => {
+    expect(pageAll('popular', 3)).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('has no next cursor on the last page', () => {
+    expect(pageLevels(levels, { limit: 5 }).nextCursor).toBeNull();
+    expect(pageLevels(levels, { limit: 4 }).nextCursor).not.toBeNull();
+  });
+
+  it('does not shift when a level is published between pages', () => {
+    const first = pageLevels(levels, { limit: 2 });
+    const newer = [...levels, makeLevel({ id: 'f', createdAt: 9000 })];
+    expect(pageLevels(newer, { limit: 2, cursor: first.nextCursor! }).levels.map(level => level.id)).toEqual(['c', 'b']);
+  });
+
+  it('caps the page size', () => {
+    const many = Array.from({ length: MAX_PAGE_SIZE + 10 }, (_, i) => makeLevel({ id: `l${i}`, createdAt: i }));
+    expect(pageLevels(many, { limit: 1000 }).levels).toHaveLength(MAX_PAGE_SIZE);
+    expect(pageLevels(many, {}).levels).toHaveLength(DEFAULT_PAGE_SIZE);
+  });
+
+  it('throws on a malformed cursor', () => {
+    expect(() => pageLevels(levels, { cursor: 'nope' })).toThrow('Invalid cursor');
+    expect(() => pageLevels(levels, { sort: 'popular', cursor: encodeCursor([1000, 'a']) })).toThrow('Invalid cursor');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Level Search
+ * Tags, sort orders, search queries and paging for level listings. The backend runs
+ * searches in SQL; the mock API and offline fallback use matchesLevelSearch and pageLevels.
+ *
+ * Listings are paged with a cursor: the sort values of the last level on a page.
+ * Unlike an offset, it does not shift when levels are published in the meantime.
+ */
+
+import type { LevelData } from './LevelSchema';
+
+// Tags an author can put on a level, in display order
+export const LEVEL_TAGS = ['easy', 'hard', 'puzzle', 'timing', 'precision', 'creative'] as const;
+export type LevelTag = typeof LEVEL_TAGS[number];
+
+export const LEVEL_SORT_MODES = ['latest', 'popular'] as const;
+export type LevelSortMode = typeof LEVEL_SORT_MODES[number];
+
+export const MAX_SEARCH_LENGTH = 100;
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 50;
+
+export interface LevelPageRequest {
+  cursor?: string;      // nextCursor of the previous page; the first page if missing
+  limit?: number;       // Defaults to DEFAULT_PAGE_SIZE, at most MAX_PAGE_SIZE
+  sort?: LevelSortMode; // Defaults to 'latest'
+}
+
+export interface LevelSearchQuery extends LevelPageRequest {
+  text?: string;       // Matches title, description and author name (case-insensitive)
+  tag?: LevelTag;
+  authorId?: string;
+}
+
+export interface LevelPage {
+  levels: LevelData[];
+  nextCursor: string | null; // Null on the last page
+}
+
+// Values a listing is ordered by, all descending (the id breaks ties)
+export type CursorValues = (number | string)[];
+
+export function isLevelTag(value: unknown): value is LevelTag {
+  return LEVEL_TAGS.some(tag => tag === value);
+}
+
+/**
+ * Query string for a search (see parseSearchParams)
+ */
+export function toSearchParams(query: LevelSearchQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.text) params.set('q', query.text);
+  if (query.tag) params.set('tag', query.tag);
+  if (query.authorId) params.set('author', query.authorId);
+  if (query.sort) params.set('sort', query.sort);
+  if (query.cursor) params.set('cursor', query.cursor);
+  if (query.limit) params.set('limit', String(query.limit));
+  return params;
+}
+
+/**
+ * Read a search from query string parameters. Unknown tags and sort orders are
+ * dropped, the text is trimmed to MAX_SEARCH_LENGTH and the limit is clamped,
+ * so the result is safe to run. The cursor is checked by decodeCursor.
+ */
+export function parseSearchParams(params: Record<string, string | undefined>): LevelSearchQuery {
+  const limit = Math.floor(Number(params.limit));
+  const query: LevelSearchQuery = {
+    sort: LEVEL_SORT_MODES.find(mode => mode === params.sort) ?? 'latest',
+    limit: limit > 0 ? Math.min(limit, MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE,
+  };
+  if (params.cursor) query.cursor = params.cursor;
+
+  const text = params.q?.trim().slice(0, MAX_SEARCH_LENGTH);
+  if (text) query.text = text;
+  if (isLevelTag(params.tag)) query.tag = params.tag;
+  if (params.author) query.authorId = params.author;
+  return query;
+}
+
+/**
+ * Whether a level matches the text, tag and author of a search
+ */
+export function matchesLevelSearch(level: LevelData, query: LevelSearchQuery): boolean {
+  if (query.authorId && level.authorId !== query.authorId) return false;
+  if (query.tag && !level.tags?.includes(query.tag)) return false;
+
+  if (query.text) {
+    const needle = query.text.toLowerCase();
+    const haystack = [level.title, level.description, level.author];
+    if (!haystack.some(field => field?.toLowerCase().includes(needle))) return false;
+  }
+  return true;
+}
+
+/**
+ * The values a level is ordered by in a listing (see CursorValues)
+ */
+export function getCursorValues(level: LevelData, sort: LevelSortMode = 'latest'): CursorValues {
+  const createdAt = level.createdAt || 0;
+  return sort === 'popular' ? [level.likes || 0, createdAt, level.id] : [createdAt, level.id];
+}
+
+function compareCursorValues(a: CursorValues, b: CursorValues): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] < b[i]) return -1;
+    if (a[i] > b[i]) return 1;
+  }
+  return 0;
+}
+
+/**
+ * Comparator for Array.sort that orders levels like the server does
+ */
+export function compareLevels(sort: LevelSortMode = 'latest'): (a: LevelData, b: LevelData) => number {
+  return (a, b) => compareCursorValues(getCursorValues(b, sort), getCursorValues(a, sort));
+}
+
+export function encodeCursor(values: CursorValues): string {
+  return JSON.stringify(values);
+}
+
+/**
+ * The values in a cursor for the given sort, or null if it is malformed
+ * (or was made for another sort)
+ */
+export function decodeCursor(cursor: string, sort: LevelSortMode = 'latest'): CursorValues | null {
+  let values: unknown;
+  try {
+    values = JSON.parse(cursor);
+  } catch {
+    return null;
+  }
+
+  // Numbers for every value but the trailing id
+  const length = sort === 'popular' ? 3 : 2;
+  if (!Array.isArray(values) || values.length !== length) return null;
+  const valid = values.every((value, i) =>
+    i === length - 1 ? typeof value === 'string' : typeof value === 'number' && Number.isFinite(value));
+  return valid ? values : null;
+}
+
+/**
+ * One page of a listing held in memory (the mock API's version of the SQL query).
+ * Throws on a malformed cursor, as the server answers 400.
+ */
+export function pageLevels(levels: LevelData[], request: LevelPageRequest): LevelPage {
+  const sort = request.sort ?? 'latest';
+  const limit = Math.min(request.limit || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+  let sorted = [...levels].sort(compareLevels(sort));
+  if (request.cursor) {
+    const after = decodeCursor(request.cursor, sort);
+    if (!after) throw new Error('Invalid cursor');
+    sorted = sorted.filter(level => compareCursorValues(getCursorValues(level, sort), after) < 0);
+  }
+
+  const page = sorted.slice(0, limit);
+  const hasMore = sorted.length > limit;
+  return {
+    levels: page,
+    nextCursor: hasMore ? encodeCursor(getCursorValues(page[page.length - 1], sort)) : null,
+  };
+}
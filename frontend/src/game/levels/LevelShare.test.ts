@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createShareLink, encodeLevelFile, encodeShareCode, getShareCodeFromHash, parseSharedLevel, SHARE_HASH_PREFIX,
+} from './LevelShare';
+import { migrateLevelData } from './LevelMigrations';
+import type { LevelData } from './LevelSchema';
+import level1 from './level1.json';
+
+const level: LevelData = {
+  ...migrateLevelData(level1),
+  title: 'Roll together',
+  author: 'someone',
+  authorId: 'user-1',
+  likes: 12,
+  clears: 3,
+  isPublished: true,
+  bestStars: 2,
+};
+
+const { author, authorId, likes, clears, isPublished, bestStars, ...shared } = level;
+
+describe('encodeShareCode / parseSharedLevel', () => {
+  it('round-trips a level through a share code, without its stats or author', async () => {
+    const code = await encodeShareCode(level);
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(await parseSharedLevel(code)).toEqual(shared);
+  });
+
+  it('reads a share link', async () => {
+    const link = createShareLink(await encodeShareCode(level), 'https://example.com/opendots/#/levels/abc');
+    expect(link.startsWith(`https://example.com/opendots/${SHARE_HASH_PREFIX}`)).toBe(true);
+    expect(await parseSharedLevel(`  ${link}\n`)).toEqual(shared);
+  });
+
+  it('reads a .json file', async () => {
+    expect(await parseSharedLevel(encodeLevelFile(level))).toEqual(shared);
+  });
+
+  it('migrates levels saved by older versions', async () => {
+    const { schemaVersion, ...unversioned } = migrateLevelData(level1);
+    expect(await parseSharedLevel(JSON.stringify(unversioned))).toEqual(migrateLevelData(level1));
+  });
+
+  it('rejects codes that are not base64', async () => {
+    await expect(parseSharedLevel('not a code!')).rejects.toThrow('Share code is malformed');
+  });
+
+  it('rejects codes that do not decompress', async () => {
+    const code = await encodeShareCode(level);
+    await expect(parseSharedLevel(code.slice(0, code.length / 2))).rejects.toThrow('Share code is damaged or incomplete');
+  });
+
+  it('rejects files that are not JSON objects', async () => {
+    await expect(parseSharedLevel('{ "balls": ')).rejects.toThrow('Level is not valid JSON');
+  });
+
+  it('rejects documents that are not valid levels', async () => {
+    await expect(parseSharedLevel(JSON.stringify({ ...level1, balls: {} }))).rejects.toThrow('Invalid level data');
+  });
+
+  it('rejects levels that are too large, from a file or a code', async () => {
+    const huge = { ...level, description: ' '.repeat(2 * 1024 * 1024) };
+    await expect(parseSharedLevel(JSON.stringify(huge))).rejects.toThrow('Level is too large');
+    await expect(parseSharedLevel(await encodeShareCode(huge))).rejects.toThrow('Level is too large');
+  });
+});
+
+describe('getShareCodeFromHash', () => {
+  it('returns the code of a share fragment only', () => {
+    expect(getShareCodeFromHash(`${SHARE_HASH_PREFIX}abc-_1`)).toBe('abc-_1');
+    expect(getShareCodeFromHash('#/levels/abc')).toBeNull();
+    expect(getShareCodeFromHash('')).toBeNull();
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Level Share
+ * Moves levels between browsers without publishing them: as a .json file, or as a
+ * share code (deflate-compressed JSON in URL-safe base64) short enough for a link.
+ */
+
+import type { LevelData } from './LevelSchema';
+import { migrateLevelData } from './LevelMigrations';
+import { validateLevelData, formatValidationErrors } from './LevelValidator';
+
+// Links carry the code in the fragment, so it never reaches a server log
+export const SHARE_HASH_PREFIX = '#level=';
+
+// Larger documents are rejected before they are parsed (guards against decompression bombs)
+const MAX_SHARED_LEVEL_BYTES = 1024 * 1024;
+
+// Stats and per-user state belong to a copy of the level, not to the level itself
+const NON_SHARED_FIELDS: (keyof LevelData)[] = [
+  'author', 'authorId', 'createdAt', 'updatedAt', 'likes', 'attempts', 'clears',
+  'isPublished', 'authorPassed', 'isLikedByCurrentUser', 'bestStars',
+];
+
+/**
+ * The part of a level that is shared
+ */
+function toSharedLevel(level: LevelData): LevelData {
+  const copy: LevelData = JSON.parse(JSON.stringify(level));
+  for (const field of NON_SHARED_FIELDS) {
+    delete copy[field];
+  }
+  return copy;
+}
+
+/**
+ * Serialize a level for a downloadable .json file
+ */
+export function encodeLevelFile(level: LevelData): string {
+  return JSON.stringify(toSharedLevel(level), null, 2);
+}
+
+/**
+ * Serialize a level to a URL-safe share code
+ */
+export async function encodeShareCode(level: LevelData): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(toSharedLevel(level)));
+  const compressed = await readAll(new Blob([json]).stream().pipeThrough(new CompressionStream('deflate-raw')));
+  return toBase64Url(compressed);
+}
+
+/**
+ * Link that opens the game and imports the level
+ */
+export function createShareLink(code: string, baseUrl: string): string {
+  return `${baseUrl.split('#')[0]}${SHARE_HASH_PREFIX}${code}`;
+}
+
+/**
+ * The share code in a URL fragment, if there is one
+ */
+export function getShareCodeFromHash(hash: string): string | null {
+  return hash.startsWith(SHARE_HASH_PREFIX) ? hash.slice(SHARE_HASH_PREFIX.length) : null;
+}
+
+/**
+ * Read a level from the contents of a .json file, a share code or a share link.
+ * Returns the migrated level; throws with a readable message if it is not a valid level.
+ */
+export async function parseSharedLevel(text: string): Promise<LevelData> {
+  const trimmed = text.trim();
+  let json: string;
+  if (trimmed.startsWith('{')) {
+    json = trimmed;
+  } else {
+    const hashIndex = trimmed.indexOf(SHARE_HASH_PREFIX);
+    const code = hashIndex >= 0 ? trimmed.slice(hashIndex + SHARE_HASH_PREFIX.length) : trimmed;
+    json = await decodeShareCode(code);
+  }
+
+  if (json.length > MAX_SHARED_LEVEL_BYTES) {
+    throw new Error('Level is too large');
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Level is not valid JSON');
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Level must be an object');
+  }
+
+  const level = migrateLevelData(data);
+  const validation = validateLevelData(level);
+  if (!validation.valid) {
+    throw new Error(`Invalid level data:\n${formatValidationErrors(validation.errors)}`);
+  }
+  return level;
+}
+
+async function decodeShareCode(code: string): Promise<string> {
+  let bytes: Uint8Array<ArrayBuffer>;
+  try {
+    bytes = fromBase64Url(code);
+  } catch {
+    throw new Error('Share code is malformed');
+  }
+
+  try {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new TextDecoder().decode(await readAll(stream, MAX_SHARED_LEVEL_BYTES));
+  } catch (e) {
+    throw new Error(e instanceof RangeError ? 'Level is too large' : 'Share code is damaged or incomplete');
+  }
+}
+
+/**
+ * Collect a byte stream, giving up with a RangeError past `limit` bytes
+ */
+async function readAll(stream: ReadableStream<Uint8Array>, limit: number = Infinity): Promise<Uint8Array<ArrayBuffer>> {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > limit) {
+      await reader.cancel();
+      throw new RangeError('Stream exceeds size limit');
+    }
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(code: string): Uint8Array<ArrayBuffer> {
+  const base64 = code.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
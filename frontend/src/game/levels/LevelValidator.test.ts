@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { validateLevelData } from './LevelValidator';
+import { migrateLevelData } from './LevelMigrations';
+import { getDefaultLevels } from '../services/api/DefaultLevels';
+import level1 from './level1.json';
+
+const withObstacle = (obstacle: object) => migrateLevelData({
+  ...level1,
+  obstacles: [...level1.obstacles, obstacle],
+});
+
+const errorPaths = (data: unknown) => validateLevelData(data).errors.map(e => e.path);
+
+describe('validateLevelData', () => {
+  it('accepts the built-in levels', () => {
+    for (const level of getDefaultLevels()) {
+      expect(validateLevelData(level).errors, level.id).toEqual([]);
+    }
+  });
+
+  it('accepts a square sized by width alone', () => {
+    const level = withObstacle({ type: 'square', x: 640, y: 300, width: 80 });
+    expect(validateLevelData(level).errors).toEqual([]);
+  });
+
+  it('requires a positive width for squares', () => {
+    expect(errorPaths(withObstacle({ type: 'square', x: 640, y: 300 }))).toEqual(['obstacles[1].width']);
+    expect(errorPaths(withObstacle({ type: 'square', x: 640, y: 300, width: 0 }))).toEqual(['obstacles[1].width']);
+  });
+
+  it('requires a height for rectangles', () => {
+    expect(errorPaths(withObstacle({ type: 'rectangle', x: 640, y: 300, width: 80 }))).toEqual(['obstacles[1].height']);
+  });
+
+  it('validates falling squares the same way', () => {
+    const level = migrateLevelData({
+      ...level1,
+      fallingObjects: [{ type: 'square', x: 640, y: 300, width: 40 }],
+    });
+    expect(validateLevelData(level).errors).toEqual([]);
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * Level Validator
+ * Checks a (migrated) level document before it is played or stored.
+ *
+ * The backend runs the same checks on uploaded levels.
+ */
+
+import { PENS } from '../data/PenData';
+import { LEVEL_TAGS, isLevelTag } from './LevelSearch';
+
+export interface LevelValidationError {
+  path: string;    // e.g. "obstacles[2].points"
+  message: string;
+}
+
+export interface LevelValidationResult {
+  valid: boolean;
+  errors: LevelValidationError[];
+}
+
+export const LEVEL_LIMITS = {
+  CANVAS_WIDTH: 1280,        // Must match DESIGN_WIDTH in config.ts
+  CANVAS_HEIGHT: 720,        // Must match DESIGN_HEIGHT in config.ts
+  MAX_OFFSCREEN: 1280,       // How far objects may sit outside the level bounds
+  MAX_LEVEL_WIDTH: 3840,     // Three screens
+  MAX_LEVEL_HEIGHT: 4320,    // Six screens
+  MAX_OBJECTS_PER_TYPE: 200,
+  MAX_TOTAL_OBJECTS: 500,
+  MAX_SIZE: 5000,            // Width / height / radius / thickness (pixels)
+  MAX_MELT_TIME: 600,        // Seconds
+  MAX_ACCELERATION: 1000,    // m/s²
+  MAX_SPRING_STRENGTH: 100,  // m/s
+  MAX_PATH_WAYPOINTS: 16,
+  MAX_PATH_SPEED: 5000,      // Pixels per second
+  MAX_PATH_DELAY: 600,       // Seconds
+  MAX_ID_LENGTH: 128,
+  MAX_TITLE_LENGTH: 60,
+  MAX_DESCRIPTION_LENGTH: 500,
+  MAX_HINT_LENGTH: 200,
+  MAX_TAGS: 3,
+  MAX_INK: 100000,           // Pixels of stroke length
+  MAX_STROKES: 100,
+  MAX_STAR_TIME: 600,        // Seconds
+} as const;
+
+const SHAPE_TYPES = ['rectangle', 'square', 'triangle', 'circle', 'c_shape', 'bezier'];
+const FALLING_SHAPE_TYPES = ['rectangle', 'square', 'triangle', 'circle'];
+const POINT_SHAPE_TYPES = ['triangle', 'c_shape', 'bezier'];
+const PATH_MODES = ['linear', 'loop', 'ping_pong'];
+
+const OBJECT_ARRAYS = [
+  'obstacles', 'fallingObjects', 'nets', 'iceBlocks',
+  'lasers', 'seesaws', 'conveyors', 'buttons', 'portals',
+  'springs',
+] as const;
+
+/**
+ * Collects errors while walking a level document
+ */
+class ErrorCollector {
+  public readonly errors: LevelValidationError[] = [];
+
+  // Level size that positions are checked against (see LevelBounds)
+  public levelWidth: number = LEVEL_LIMITS.CANVAS_WIDTH;
+  public levelHeight: number = LEVEL_LIMITS.CANVAS_HEIGHT;
+
+  add(path: string, message: string): void {
+    this.errors.push({ path, message });
+  }
+
+  isObject(value: any, path: string): boolean {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.add(path, 'must be an object');
+      return false;
+    }
+    return true;
+  }
+
+  number(value: any, path: string, min: number, max: number, required: boolean = true): void {
+    if (value === undefined) {
+      if (required) this.add(path, 'is required');
+      return;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.add(path, 'must be a finite number');
+      return;
+    }
+    if (value < min || value > max) {
+      this.add(path, `must be between ${min} and ${max}`);
+    }
+  }
+
+  positive(value: any, path: string, required: boolean = true): void {
+    this.number(value, path, Number.MIN_VALUE, LEVEL_LIMITS.MAX_SIZE, required);
+  }
+
+  coordinate(obj: any, xKey: string, yKey: string, path: string): void {
+    const { MAX_OFFSCREEN } = LEVEL_LIMITS;
+    this.number(obj[xKey], `${path}.${xKey}`, -MAX_OFFSCREEN, this.levelWidth + MAX_OFFSCREEN);
+    this.number(obj[yKey], `${path}.${yKey}`, -MAX_OFFSCREEN, this.levelHeight + MAX_OFFSCREEN);
+  }
+
+  text(value: any, path: string, maxLength: number): void {
+    if (value === undefined) return;
+    if (typeof value !== 'string' || value.length > maxLength) {
+      this.add(path, `must be a string of at most ${maxLength} characters`);
+    }
+  }
+
+  angle(value: any, path: string): void {
+    this.number(value, path, -36000, 36000, false);
+  }
+
+  points(value: any, path: string, min: number, max: number = min): void {
+    if (!Array.isArray(value) || value.length < min || value.length > max) {
+      this.add(path, min === max ? `must contain exactly ${min} points` : `must contain ${min} to ${max} points`);
+      return;
+    }
+    value.forEach((p, i) => {
+      const pointPath = `${path}[${i}]`;
+      if (!this.isObject(p, pointPath)) return;
+      const limit = LEVEL_LIMITS.MAX_SIZE;
+      this.number(p.x, `${pointPath}.x`, -limit, limit);
+      this.number(p.y, `${pointPath}.y`, -limit, limit);
+    });
+  }
+}
+
+function validateStarCriteria(v: ErrorCollector, criteria: any, path: string): void {
+  if (criteria === undefined || !v.isObject(criteria, path)) return;
+  v.number(criteria.maxStrokes, `${path}.maxStrokes`, 1, LEVEL_LIMITS.MAX_STROKES, false);
+  v.number(criteria.maxInk, `${path}.maxInk`, 1, LEVEL_LIMITS.MAX_INK, false);
+  v.number(criteria.maxTime, `${path}.maxTime`, 0, LEVEL_LIMITS.MAX_STAR_TIME, false);
+}
+
+function validateBall(v: ErrorCollector, ball: any, path: string): void {
+  if (!v.isObject(ball, path)) return;
+  // Balls must start inside the level, otherwise the level is lost immediately
+  v.number(ball.x, `${path}.x`, 0, v.levelWidth);
+  v.number(ball.y, `${path}.y`, 0, v.levelHeight);
+}
+
+function validateShape(v: ErrorCollector, obj: any, path: string, allowedTypes: string[]): void {
+  const type = obj.type ?? 'rectangle';
+  if (typeof type !== 'string' || !allowedTypes.includes(type)) {
+    v.add(`${path}.type`, `must be one of: ${allowedTypes.join(', ')}`);
+    return;
+  }
+
+  v.coordinate(obj, 'x', 'y', path);
+  v.angle(obj.angle, `${path}.angle`);
+
+  if (type === 'circle') {
+    // Circles fall back to width / 2 when radius is missing
+    if (obj.radius === undefined) {
+      v.positive(obj.width, `${path}.width`);
+    } else {
+      v.positive(obj.radius, `${path}.radius`);
+    }
+  } else if (POINT_SHAPE_TYPES.includes(type)) {
+    v.points(obj.points, `${path}.points`, 3);
+    if (type !== 'triangle') {
+      v.positive(obj.thickness, `${path}.thickness`);
+      if (obj.cap !== undefined && obj.cap !== 'round' && obj.cap !== 'butt') {
+        v.add(`${path}.cap`, "must be 'round' or 'butt'");
+      }
+    }
+  } else if (type === 'square') {
+    // Squares take their height from width
+    v.positive(obj.width, `${path}.width`);
+  } else {
+    v.positive(obj.width, `${path}.width`);
+    v.positive(obj.height, `${path}.height`);
+  }
+}
+
+function validateRect(v: ErrorCollector, obj: any, path: string): void {
+  v.coordinate(obj, 'x', 'y', path);
+  v.positive(obj.width, `${path}.width`);
+  v.positive(obj.height, `${path}.height`);
+  v.angle(obj.angle, `${path}.angle`);
+}
+
+function validatePath(v: ErrorCollector, path: any, at: string): void {
+  if (path === undefined || !v.isObject(path, at)) return;
+  v.points(path.waypoints, `${at}.waypoints`, 1, LEVEL_LIMITS.MAX_PATH_WAYPOINTS);
+  if (path.mode !== undefined && !PATH_MODES.includes(path.mode)) {
+    v.add(`${at}.mode`, `must be one of: ${PATH_MODES.join(', ')}`);
+  }
+  v.number(path.speed, `${at}.speed`, Number.MIN_VALUE, LEVEL_LIMITS.MAX_PATH_SPEED, false);
+  v.number(path.delay, `${at}.delay`, 0, LEVEL_LIMITS.MAX_PATH_DELAY, false);
+}
+
+const OBJECT_VALIDATORS: Record<typeof OBJECT_ARRAYS[number], (v: ErrorCollector, obj: any, path: string) => void> = {
+  obstacles: (v, obj, path) => {
+    validateShape(v, obj, path, SHAPE_TYPES);
+    validatePath(v, obj.path, `${path}.path`);
+  },
+  fallingObjects: (v, obj, path) => validateShape(v, obj, path, FALLING_SHAPE_TYPES),
+  nets: validateRect,
+  seesaws: validateRect,
+  iceBlocks: (v, obj, path) => {
+    validateRect(v, obj, path);
+    v.number(obj.meltTime, `${path}.meltTime`, 0, LEVEL_LIMITS.MAX_MELT_TIME, false);
+  },
+  lasers: (v, obj, path) => {
+    v.coordinate(obj, 'x1', 'y1', path);
+    v.coordinate(obj, 'x2', 'y2', path);
+    if (obj.x1 === obj.x2 && obj.y1 === obj.y2) {
+      v.add(path, 'start and end points must differ');
+    }
+  },
+  conveyors: (v, obj, path) => {
+    v.coordinate(obj, 'x', 'y', path);
+    v.positive(obj.width, `${path}.width`);
+    v.angle(obj.angle, `${path}.angle`);
+    const maxAccel = LEVEL_LIMITS.MAX_ACCELERATION;
+    v.number(obj.acceleration, `${path}.acceleration`, -maxAccel, maxAccel, false);
+  },
+  buttons: (v, obj, path) => {
+    v.coordinate(obj, 'x', 'y', path);
+    v.angle(obj.angle, `${path}.angle`);
+  },
+  portals: (v, obj, path) => {
+    for (const end of ['entrance', 'exit']) {
+      const endPath = `${path}.${end}`;
+      if (!v.isObject(obj[end], endPath)) continue;
+      v.coordinate(obj[end], 'x', 'y', endPath);
+      v.angle(obj[end].angle, `${endPath}.angle`);
+    }
+  },
+  springs: (v, obj, path) => {
+    v.coordinate(obj, 'x', 'y', path);
+    v.angle(obj.angle, `${path}.angle`);
+    v.number(obj.strength, `${path}.strength`, 0, LEVEL_LIMITS.MAX_SPRING_STRENGTH, false);
+  },
+};
+
+/**
+ * Validate a level document.
+ * Expects data that already went through migrateLevelData.
+ */
+export function validateLevelData(data: any): LevelValidationResult {
+  const v = new ErrorCollector();
+
+  if (!v.isObject(data, '')) {
+    return { valid: false, errors: v.errors };
+  }
+
+  if (typeof data.id !== 'string' || data.id.length === 0 || data.id.length > LEVEL_LIMITS.MAX_ID_LENGTH) {
+    v.add('id', `must be a non-empty string of at most ${LEVEL_LIMITS.MAX_ID_LENGTH} characters`);
+  }
+
+  v.text(data.title, 'title', LEVEL_LIMITS.MAX_TITLE_LENGTH);
+  v.text(data.description, 'description', LEVEL_LIMITS.MAX_DESCRIPTION_LENGTH);
+  v.text(data.hint, 'hint', LEVEL_LIMITS.MAX_HINT_LENGTH);
+
+  if (data.tags !== undefined) {
+    if (!Array.isArray(data.tags) || data.tags.length > LEVEL_LIMITS.MAX_TAGS) {
+      v.add('tags', `must be an array of at most ${LEVEL_LIMITS.MAX_TAGS} tags`);
+    } else {
+      data.tags.forEach((tag: any, i: number) => {
+        if (!isLevelTag(tag)) {
+          v.add(`tags[${i}]`, `must be one of: ${LEVEL_TAGS.join(', ')}`);
+        } else if (data.tags.indexOf(tag) !== i) {
+          v.add(`tags[${i}]`, 'is listed more than once');
+        }
+      });
+    }
+  }
+
+  // Bounds first: every position below is checked against them
+  if (data.bounds !== undefined && v.isObject(data.bounds, 'bounds')) {
+    const { CANVAS_WIDTH, CANVAS_HEIGHT, MAX_LEVEL_WIDTH, MAX_LEVEL_HEIGHT } = LEVEL_LIMITS;
+    const errorCount = v.errors.length;
+    v.number(data.bounds.width, 'bounds.width', CANVAS_WIDTH, MAX_LEVEL_WIDTH);
+    v.number(data.bounds.height, 'bounds.height', CANVAS_HEIGHT, MAX_LEVEL_HEIGHT);
+    if (v.errors.length === errorCount) {
+      v.levelWidth = data.bounds.width;
+      v.levelHeight = data.bounds.height;
+    }
+  }
+
+  if (v.isObject(data.balls, 'balls')) {
+    validateBall(v, data.balls.blue, 'balls.blue');
+    validateBall(v, data.balls.pink, 'balls.pink');
+  }
+
+  // Drawing limits (optional)
+  v.number(data.maxInk, 'maxInk', 1, LEVEL_LIMITS.MAX_INK, false);
+  v.number(data.maxStrokes, 'maxStrokes', 1, LEVEL_LIMITS.MAX_STROKES, false);
+  if (data.maxStrokes !== undefined && !Number.isInteger(data.maxStrokes)) {
+    v.add('maxStrokes', 'must be an integer');
+  }
+
+  if (data.allowedPens !== undefined) {
+    if (!Array.isArray(data.allowedPens) || data.allowedPens.length === 0) {
+      v.add('allowedPens', 'must be a non-empty array of pen ids');
+    } else {
+      data.allowedPens.forEach((penId: any, i: number) => {
+        if (!PENS.some(pen => pen.id === penId)) {
+          v.add(`allowedPens[${i}]`, `must be one of: ${PENS.map(pen => pen.id).join(', ')}`);
+        } else if (data.allowedPens.indexOf(penId) !== i) {
+          v.add(`allowedPens[${i}]`, 'is listed more than once');
+        }
+      });
+    }
+  }
+
+  if (data.starThresholds !== undefined && v.isObject(data.starThresholds, 'starThresholds')) {
+    validateStarCriteria(v, data.starThresholds.two, 'starThresholds.two');
+    validateStarCriteria(v, data.starThresholds.three, 'starThresholds.three');
+  }
+
+  if (data.obstacles === undefined) {
+    v.add('obstacles', 'is required');
+  }
+
+  let total = 0;
+  for (const key of OBJECT_ARRAYS) {
+    const list = data[key];
+    if (list === undefined) continue;
+    if (!Array.isArray(list)) {
+      v.add(key, 'must be an array');
+      continue;
+    }
+    if (list.length > LEVEL_LIMITS.MAX_OBJECTS_PER_TYPE) {
+      v.add(key, `must contain at most ${LEVEL_LIMITS.MAX_OBJECTS_PER_TYPE} items`);
+      continue;
+    }
+    total += list.length;
+    list.forEach((obj, i) => {
+      const path = `${key}[${i}]`;
+      if (v.isObject(obj, path)) {
+        OBJECT_VALIDATORS[key](v, obj, path);
+      }
+    });
+  }
+
+  if (total > LEVEL_LIMITS.MAX_TOTAL_OBJECTS) {
+    v.add('', `must contain at most ${LEVEL_LIMITS.MAX_TOTAL_OBJECTS} objects in total`);
+  }
+
+  return { valid: v.errors.length === 0, errors: v.errors };
+}
+
+/**
+ * Format validation errors as a readable multi-line string
+ */
+export function formatValidationErrors(errors: LevelValidationError[], maxLines: number = 5): string {
+  const lines = errors.slice(0, maxLines).map(e => (e.path ? `${e.path} ${e.message}` : e.message));
+  if (errors.length > maxLines) {
+    lines.push(`(+${errors.length - maxLines} more)`);
+  }
+  return lines.join('\n');
+}
+
@@ -0,0 +1,65 @@
+/**
+ * Obstacle Path
+ * Where a moving obstacle is along its waypoint path at a given time after play starts.
+ * Game and LevelSimulator both move obstacles with this, or replays stop verifying.
+ */
+
+import type { ObstaclePath, PathMode, Vec2 } from './LevelSchema';
+
+export const DEFAULT_PATH_SPEED = 100;          // Pixels per second
+export const DEFAULT_PATH_MODE: PathMode = 'ping_pong';
+
+/**
+ * Offsets the obstacle passes through, from its placed position (0, 0) to the last
+ * waypoint, and back to the start for loops
+ */
+export function getPathRoute(path: ObstaclePath): Vec2[] {
+  const route = [{ x: 0, y: 0 }, ...path.waypoints];
+  if ((path.mode ?? DEFAULT_PATH_MODE) === 'loop') {
+    route.push({ x: 0, y: 0 });
+  }
+  return route;
+}
+
+/**
+ * Offset of the obstacle from its placed position `time` seconds after play started
+ */
+export function getPathOffset(path: ObstaclePath, time: number): Vec2 {
+  const route = getPathRoute(path);
+  const lengths: number[] = [];
+  let total = 0;
+  for (let i = 1; i < route.length; i++) {
+    const length = Math.hypot(route[i].x - route[i - 1].x, route[i].y - route[i - 1].y);
+    lengths.push(length);
+    total += length;
+  }
+  if (total === 0) return { x: 0, y: 0 };
+
+  const speed = path.speed ?? DEFAULT_PATH_SPEED;
+  let distance = speed * Math.max(0, time - (path.delay ?? 0));
+  switch (path.mode ?? DEFAULT_PATH_MODE) {
+    case 'linear':
+      distance = Math.min(distance, total);
+      break;
+    case 'loop':
+      distance %= total;
+      break;
+    case 'ping_pong':
+      distance %= total * 2;
+      if (distance > total) distance = total * 2 - distance;
+      break;
+  }
+
+  // Walk the route to the segment the distance ends on
+  for (let i = 0; i < lengths.length; i++) {
+    if (distance <= lengths[i] && lengths[i] > 0) {
+      const t = distance / lengths[i];
+      return {
+        x: route[i].x + (route[i + 1].x - route[i].x) * t,
+        y: route[i].y + (route[i + 1].y - route[i].y) * t
+      };
+    }
+    distance -= lengths[i];
+  }
+  return { ...route[route.length - 1] };
+}
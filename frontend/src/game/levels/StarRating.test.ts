@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { getClearStats, isBetterResult, rateClear, type ClearStats } from './StarRating';
+import type { StarThresholds } from './LevelSchema';
+import { FIXED_TIMESTEP } from '../physics/PhysicsConfig';
+
+const stats: ClearStats = { strokes: 2, ink: 500, time: 4 };
+
+describe('rateClear', () => {
+  const thresholds: StarThresholds = {
+    two: { maxStrokes: 3, maxInk: 800 },
+    three: { maxStrokes: 1, maxTime: 5 },
+  };
+
+  it('awards a star for each tier whose criteria are all met', () => {
+    expect(rateClear(thresholds, { ...stats, strokes: 1 })).toBe(3);
+    expect(rateClear(thresholds, stats)).toBe(2);
+    expect(rateClear(thresholds, { ...stats, strokes: 4 })).toBe(1);
+    expect(rateClear(thresholds, { ...stats, ink: 801 })).toBe(1);
+  });
+
+  it('counts a stat equal to its limit as met', () => {
+    expect(rateClear(thresholds, { strokes: 1, ink: 800, time: 5 })).toBe(3);
+    expect(rateClear(thresholds, { strokes: 1, ink: 800, time: 5.01 })).toBe(2);
+  });
+
+  it('gives every clear 3 stars without thresholds', () => {
+    expect(rateClear(undefined, { strokes: 99, ink: 1e6, time: 600 })).toBe(3);
+    expect(rateClear({}, { strokes: 99, ink: 1e6, time: 600 })).toBe(3);
+  });
+
+  it('fills in a missing tier', () => {
+    // No two-star tier: every clear earns at least 2 stars
+    expect(rateClear({ three: { maxStrokes: 1 } }, stats)).toBe(2);
+    // No three-star tier: the third star only needs the two-star criteria
+    expect(rateClear({ two: { maxStrokes: 3 } }, stats)).toBe(3);
+    expect(rateClear({ two: { maxStrokes: 1 } }, stats)).toBe(1);
+  });
+});
+
+describe('getClearStats', () => {
+  it('counts strokes, ink and seconds', () => {
+    const strokes = [
+      { penId: 'pencil', frame: 0, points: [{ x: 0, y: 0 }, { x: 30, y: 40 }] },
+      { penId: 'pencil', frame: 10, points: [{ x: 0, y: 0 }, { x: 0, y: 100 }] },
+    ];
+    expect(getClearStats(strokes, Math.round(3 / FIXED_TIMESTEP))).toEqual({ strokes: 2, ink: 150, time: 3 });
+  });
+
+  it('charges a dot the width of its pen', () => {
+    const dot = { penId: 'pencil', frame: 0, points: [{ x: 5, y: 5 }] };
+    expect(getClearStats([dot], 0).ink).toBe(13);
+  });
+});
+
+describe('isBetterResult', () => {
+  it('prefers more stars, then a faster time', () => {
+    const best = { ...stats, stars: 2 };
+    expect(isBetterResult({ ...stats, stars: 3, time: 10 }, best)).toBe(true);
+    expect(isBetterResult({ ...stats, stars: 1, time: 1 }, best)).toBe(false);
+    expect(isBetterResult({ ...stats, stars: 2, time: 3 }, best)).toBe(true);
+    expect(isBetterResult({ ...stats, stars: 2, time: 4 }, best)).toBe(false);
+    expect(isBetterResult(best, null)).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Star Rating
+ * Turns the stats of a clear into a 1-3 star result using the level's thresholds.
+ *
+ * The backend rates verified clears with this, so the stars it stores match the results dialog.
+ */
+
+import { PENS } from '../data/PenData';
+import type { SimulationStroke } from '../simulation/LevelSimulator';
+import type { StarCriteria, StarThresholds } from './LevelSchema';
+import { strokeInk } from './InkBudget';
+import { FIXED_TIMESTEP } from '../physics/PhysicsConfig';
+
+const STEPS_PER_SECOND = Math.round(1 / FIXED_TIMESTEP);
+
+export const MAX_STARS = 3;
+
+export interface ClearStats {
+  strokes: number;
+  ink: number;    // Design pixels (see InkBudget)
+  time: number;   // Seconds from the first stroke to the win
+}
+
+export interface ClearResult extends ClearStats {
+  stars: number;  // 1-3
+}
+
+/**
+ * Measure a clear from the strokes drawn and the fixed step it was won on
+ */
+export function getClearStats(strokes: SimulationStroke[], frame: number): ClearStats {
+  let ink = 0;
+  for (const stroke of strokes) {
+    const pen = PENS.find(p => p.id === stroke.penId);
+    ink += strokeInk(stroke.points, pen ? pen.width : 0);
+  }
+  return { strokes: strokes.length, ink, time: frame / STEPS_PER_SECOND };
+}
+
+function meetsCriteria(criteria: StarCriteria, stats: ClearStats): boolean {
+  if (criteria.maxStrokes !== undefined && stats.strokes > criteria.maxStrokes) return false;
+  if (criteria.maxInk !== undefined && stats.ink > criteria.maxInk) return false;
+  if (criteria.maxTime !== undefined && stats.time > criteria.maxTime) return false;
+  return true;
+}
+
+/**
+ * Stars earned by a clear. Any clear earns 1 star.
+ * A missing tier has no extra requirement: without `two` every clear earns 2 stars,
+ * and without `three` the third star only needs the two-star criteria.
+ */
+export function rateClear(thresholds: StarThresholds | undefined, stats: ClearStats): number {
+  const two = thresholds?.two ? meetsCriteria(thresholds.two, stats) : true;
+  const three = thresholds?.three ? meetsCriteria(thresholds.three, stats) : two;
+  if (three) return 3;
+  if (two) return 2;
+  return 1;
+}
+
+/**
+ * Whether `result` beats `best`: more stars first, then a faster time
+ */
+export function isBetterResult(result: ClearResult, best: ClearResult | null | undefined): boolean {
+  if (!best) return true;
+  if (result.stars !== best.stars) return result.stars > best.stars;
+  return result.time < best.time;
+}
@@ -4,28 +4,19 @@
  */
 
 import * as PIXI from 'pixi.js';
-import RAPIER from '@dimforge/rapier2d-compat';
 import {
   SCALE,
   BALL_RADIUS,
-  BALL_DENSITY,
-  BALL_FRICTION,
-  BALL_RESTITUTION,
   BALL_COLORS,
-  COLLISION_GROUP,
   Z_INDEX,
 } from '../config';
 import { PhysicsWorld } from '../physics/PhysicsWorld';
+import { BallBody, type BallType } from '../physics/bodies/BallBody';
 
-export type BallType = 'blue' | 'pink';
+export type { BallType };
 
-export class Ball {
+export class Ball extends BallBody {
   public graphics: PIXI.Graphics;
-  public body: RAPIER.RigidBody;
-  public collider: RAPIER.Collider;
-  public readonly type: BallType;
-  private physicsWorld: PhysicsWorld;
-  private readonly radius: number;
 
   constructor(
     physicsWorld: PhysicsWorld,
@@ -34,49 +25,12 @@ export class Ball {
     type: BallType = 'blue',
     startActive: boolean = false
   ) {
-    this.physicsWorld = physicsWorld;
-    this.type = type;
-    this.radius = BALL_RADIUS;
+    super(physicsWorld, x, y, type, startActive);
 
     // Create Pixi.js graphics
     this.graphics = Ball.createVisual(x, y, type);
-
-    // Convert to physics coordinates
-    const physicsPos = physicsWorld.toPhysics(x, y);
-    const R = physicsWorld.getRAPIER();
-
-    // Create Rapier rigid body
-    const rigidBodyDesc = startActive
-      ? R.RigidBodyDesc.dynamic()
-      : R.RigidBodyDesc.fixed();
-
-    rigidBodyDesc
-      .setTranslation(physicsPos.x, physicsPos.y)
-      .setCcdEnabled(true) // Better collision detection for fast-moving objects
-      .setCanSleep(false);
-
-    this.body = physicsWorld.getWorld().createRigidBody(rigidBodyDesc);
-
-    // Create circular collider
-    const collisionGroup = type === 'blue'
-      ? COLLISION_GROUP.BLUE_BALL
-      : COLLISION_GROUP.PINK_BALL;
-
-    const colliderDesc = R.ColliderDesc.ball(this.radius / SCALE)
-      .setDensity(BALL_DENSITY)
-      .setFriction(BALL_FRICTION)
-      // Use Multiply combine rule for friction when this ball collides with others
-      .setFrictionCombineRule(R.CoefficientCombineRule.Multiply)
-      .setRestitution(BALL_RESTITUTION)
-      .setCollisionGroups(collisionGroup)
-      .setActiveEvents(R.ActiveEvents.COLLISION_EVENTS);
-
-    this.collider = physicsWorld.getWorld().createCollider(colliderDesc, this.body);
   }
 
-  /**
-   * Draw the ball graphics
-   */
   /**
    * Create the visual representation of the ball
    */
@@ -108,23 +62,6 @@ export class Ball {
     this.graphics.scale.set(scaleFactor);
   }
 
-  /**
-   * Activate physics for the ball (make it dynamic)
-   */
-  activate(): void {
-    const R = this.physicsWorld.getRAPIER();
-    if (this.body.bodyType() !== R.RigidBodyType.Dynamic) {
-      this.body.setBodyType(R.RigidBodyType.Dynamic, true);
-    }
-  }
-
-  /**
-   * Get the collider handle for collision detection
-   */
-  getColliderHandle(): number {
-    return this.collider.handle;
-  }
-
   /**
    * Get the global bounds of the ball
    */
@@ -137,7 +74,7 @@ export class Ball {
    * Destroy the ball
    */
   destroy(physicsWorld: PhysicsWorld): void {
-    physicsWorld.getWorld().removeRigidBody(this.body);
+    super.destroy(physicsWorld);
     this.graphics.destroy();
   }
 }
@@ -4,11 +4,10 @@
  */
 
 import * as PIXI from 'pixi.js';
-import RAPIER from '@dimforge/rapier2d-compat';
 import { PhysicsWorld } from '../physics/PhysicsWorld';
+import { ButtonBody } from '../physics/bodies/ButtonBody';
 import {
   SCALE,
-  COLLISION_GROUP,
   BUTTON_COLOR,
   BUTTON_THICKNESS,
   BUTTON_VERTICAL_BAR_HEIGHT,
@@ -19,97 +18,21 @@ import {
 } from '../config';
 import type { ButtonConfig } from '../levels/LevelSchema';
 
-// Sink animation constants
-const SINK_DURATION = 0.25;  // seconds
-
-export class Button {
+export class Button extends ButtonBody {
   public graphics: PIXI.Graphics;
-  public body: RAPIER.RigidBody;
-  public colliders: RAPIER.Collider[] = [];
-
-  private angle: number;  // radians
-  private verticalBarHeight: number;
-  private isSinking: boolean = false;
-  private sinkProgress: number = 0;
-  private sinkCallback: (() => void) | null = null;
-  private initialPhysicsPos: { x: number, y: number };
 
   constructor(physicsWorld: PhysicsWorld, config: ButtonConfig) {
-    const { x, y, angle = 0 } = config;
-    this.angle = (angle * Math.PI) / 180;
-    this.verticalBarHeight = BUTTON_VERTICAL_BAR_HEIGHT;
+    super(physicsWorld, config);
 
     // Create graphics
     this.graphics = Button.createVisual(config);
-
-    // Physics setup
-    const world = physicsWorld.getWorld();
-    const R = physicsWorld.getRAPIER();
-
-    // Create static body
-    const physicsPos = physicsWorld.toPhysics(x, y);
-    this.initialPhysicsPos = { x: physicsPos.x, y: physicsPos.y };
-
-    const rigidBodyDesc = R.RigidBodyDesc.fixed()
-      .setTranslation(physicsPos.x, physicsPos.y)
-      .setRotation(-this.angle);
-
-    this.body = world.createRigidBody(rigidBodyDesc);
-
-    // Create colliders for T-shape (two rectangles)
-    // Horizontal bar (top of T)
-    const hBarDesc = R.ColliderDesc.cuboid(
-      (BUTTON_HORIZONTAL_BAR_WIDTH / 2) / SCALE,
-      (BUTTON_THICKNESS / 2) / SCALE
-    )
-      .setTranslation(0, (BUTTON_VERTICAL_BAR_HEIGHT / 2 - BUTTON_THICKNESS / 2) / SCALE)
-      .setFriction(0)  // No friction
-      .setRestitution(0)
-      .setCollisionGroups(COLLISION_GROUP.BUTTON)
-      .setSensor(false)
-      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
-
-    this.colliders.push(world.createCollider(hBarDesc, this.body));
-
-    // Vertical bar (stem of T)
-    const vBarDesc = R.ColliderDesc.cuboid(
-      (BUTTON_THICKNESS / 2) / SCALE,
-      (BUTTON_VERTICAL_BAR_HEIGHT / 2) / SCALE
-    )
-      .setFriction(0)  // No friction
-      .setRestitution(0)
-      .setCollisionGroups(COLLISION_GROUP.BUTTON)
-      .setSensor(false)
-      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
-
-    this.colliders.push(world.createCollider(vBarDesc, this.body));
   }
 
   /**
-   * Get collider handles for collision detection
-   */
-  getColliderHandles(): number[] {
-    return this.colliders.map(c => c.handle);
-  }
-
-  /**
-   * Trigger sink animation
-   * @param onComplete Callback when animation completes
-   */
-  triggerSink(onComplete: () => void): void {
-    if (this.isSinking) return;
-    this.isSinking = true;
-    this.sinkProgress = 0;
-    this.sinkCallback = onComplete;
-  }
-
-  /**
-   * Update button state (handles sink animation and responsive scaling)
+   * Sync graphics with the body (it moves while sinking) and apply responsive scaling
    * @param scaleFactor Current canvas scale factor
-   * @param deltaTime Time since last update in seconds
    */
-  update(scaleFactor: number = 1, deltaTime: number = 0): void {
-    // 1. Sync graphics position/rotation for responsiveness
+  update(scaleFactor: number = 1): void {
     const pos = this.body.translation();
     const bodyAngle = this.body.rotation();
 
@@ -117,39 +40,13 @@ export class Button {
     this.graphics.position.y = -pos.y * SCALE * scaleFactor;
     this.graphics.rotation = -bodyAngle;
     this.graphics.scale.set(scaleFactor);
-
-    // 2. Handle sink animation logic
-    if (!this.isSinking) return;
-
-    this.sinkProgress += deltaTime / SINK_DURATION;
-
-    if (this.sinkProgress >= 1) {
-      if (this.sinkCallback) {
-        this.sinkCallback();
-      }
-      return;
-    }
-
-    // Calculate sink distance in design units
-    const sinkDistance = this.verticalBarHeight / 3;
-    const currentSink = sinkDistance * this.sinkProgress;
-
-    // Move in the direction of the initial design angle
-    const sinkX = -Math.sin(this.angle) * currentSink;
-    const sinkY = Math.cos(this.angle) * currentSink;
-
-    // Update physics body position (using design space increments)
-    this.body.setTranslation({
-      x: this.initialPhysicsPos.x + (sinkX / SCALE),
-      y: this.initialPhysicsPos.y - (sinkY / SCALE)
-    }, true);
   }
 
   /**
    * Clean up resources
    */
   destroy(physicsWorld: PhysicsWorld): void {
-    physicsWorld.getWorld().removeRigidBody(this.body);
+    super.destroy(physicsWorld);
     this.graphics.destroy();
   }
 
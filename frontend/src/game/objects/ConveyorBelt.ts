@@ -6,17 +6,13 @@
  */
 
 import * as PIXI from 'pixi.js';
-import RAPIER from '@dimforge/rapier2d-compat';
 import { PhysicsWorld } from '../physics/PhysicsWorld';
+import { ConveyorBeltBody } from '../physics/bodies/ConveyorBeltBody';
 import {
   SCALE,
   CONVEYOR_BELT_COLOR,
   CONVEYOR_BELT_HEIGHT,
-  CONVEYOR_BELT_ACCELERATION,
-  CONVEYOR_BELT_VELOCITY_FACTOR,
   CONVEYOR_BELT_GEAR_SPEED_FACTOR,
-  CONVEYOR_BELT_FRICTION,
-  COLLISION_GROUP,
   HIT_AREA_COLOR,
   HIT_AREA_ALPHA,
   Z_INDEX,
@@ -26,34 +22,17 @@ import type { ConveyorBeltConfig } from '../levels/LevelSchema';
 // Gear settings
 const BORDER_WIDTH = 9;
 
-export class ConveyorBelt {
+export class ConveyorBelt extends ConveyorBeltBody {
   public graphics: PIXI.Container;
   private leftGear: PIXI.Sprite;
   private rightGear: PIXI.Sprite;
-  public body: RAPIER.RigidBody;
-  public topCollider: RAPIER.Collider;
 
   private gearRotation: number = 0;
   private gearSpeed: number;
-  public readonly acceleration: number;  // Acceleration in physics units (m/s²)
-  public readonly maxVelocity: number;   // Max velocity cap in physics units
-  private readonly height: number;
-  private readonly radius: number;
 
   constructor(physicsWorld: PhysicsWorld, config: ConveyorBeltConfig) {
-    const {
-      x, y, width, angle = 0,
-      acceleration = CONVEYOR_BELT_ACCELERATION,
-    } = config;
-
-    this.acceleration = acceleration;
-    this.maxVelocity = Math.abs(acceleration) * CONVEYOR_BELT_VELOCITY_FACTOR;
-
-    this.height = CONVEYOR_BELT_HEIGHT;
-    this.radius = this.height / 2;
-    this.gearSpeed = Math.abs(acceleration) * CONVEYOR_BELT_GEAR_SPEED_FACTOR;
-
-    const angleRad = (angle * Math.PI) / 180;
+    super(physicsWorld, config);
+    this.gearSpeed = Math.abs(this.acceleration) * CONVEYOR_BELT_GEAR_SPEED_FACTOR;
 
     // Create visuals
     this.graphics = ConveyorBelt.createVisual(config);
@@ -61,32 +40,6 @@ export class ConveyorBelt {
     // Children order: outline (0), leftGear (1), rightGear (2)
     this.leftGear = this.graphics.children[1] as PIXI.Sprite;
     this.rightGear = this.graphics.children[2] as PIXI.Sprite;
-
-    // --- Physics Setup ---
-    const world = physicsWorld.getWorld();
-    const R = physicsWorld.getRAPIER();
-
-    const physicsPos = physicsWorld.toPhysics(x, y);
-
-    // Create Fixed Body (Immobile)
-    const rigidBodyDesc = R.RigidBodyDesc.fixed()
-      .setTranslation(physicsPos.x, physicsPos.y)
-      .setRotation(-angleRad);
-
-    this.body = world.createRigidBody(rigidBodyDesc);
-
-    // Create Capsule collider
-    const halfSegmentLen = (width / 2) / SCALE;
-    const capsuleRadius = this.radius / SCALE;
-
-    const colliderDesc = R.ColliderDesc.capsule(halfSegmentLen, capsuleRadius)
-      .setCollisionGroups(COLLISION_GROUP.CONVEYOR_BELT)
-      .setFriction(CONVEYOR_BELT_FRICTION)
-      .setRestitution(0)
-      .setRotation(Math.PI / 2) // Rotate 90 deg to align with X axis
-      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
-
-    this.topCollider = world.createCollider(colliderDesc, this.body);
   }
 
   /**
@@ -112,25 +65,11 @@ export class ConveyorBelt {
     this.rightGear.rotation = this.gearRotation;
   }
 
-  /**
-   * Get the angle of the conveyor in radians (world space)
-   */
-  getAngle(): number {
-    return -this.body.rotation(); // Invert because of Rapier coordinate system
-  }
-
-  /**
-   * Get collider handle for collision detection
-   */
-  getColliderHandle(): number {
-    return this.topCollider.handle;
-  }
-
   /**
    * Clean up resources
    */
   destroy(physicsWorld: PhysicsWorld): void {
-    physicsWorld.getWorld().removeRigidBody(this.body);
+    super.destroy(physicsWorld);
     this.graphics.destroy({ children: true });
   }
 
@@ -1,62 +1,22 @@
 import * as PIXI from 'pixi.js';
-import RAPIER from '@dimforge/rapier2d-compat';
 import { SCALE, Z_INDEX } from '../config';
 import { PhysicsWorld } from '../physics/PhysicsWorld';
+import { DrawnLineBody } from '../physics/bodies/DrawnLineBody';
 import type { Point } from '../utils/douglasPeucker';
-import { drawLineWithCornerStyle, createLinePhysicsColliders } from '../utils/lineRenderer';
+import { drawLineWithCornerStyle } from '../utils/lineRenderer';
 import type { Pen } from '../data/PenData';
 
-export class DrawnLine {
+export class DrawnLine extends DrawnLineBody {
   public graphics: PIXI.Graphics;
-  public body: RAPIER.RigidBody;
-  public colliders: RAPIER.Collider[] = [];
-  private points: Point[];
-  private physicsWorld: PhysicsWorld;
-  private pen: Pen;
 
   constructor(physicsWorld: PhysicsWorld, points: Point[], pen: Pen) {
-    this.points = points;
-    this.physicsWorld = physicsWorld;
-    this.pen = pen;
-
-    // Calculate centroid for body position
-    const centroid = this.calculateCentroid(points);
+    super(physicsWorld, points, pen);
 
     // Create Pixi.js graphics
     this.graphics = new PIXI.Graphics();
     this.graphics.zIndex = Z_INDEX.DRAWN_LINE;
-    this.drawLine(centroid);
-    this.graphics.position.set(centroid.x, centroid.y);
-
-    // Convert to physics coordinates
-    const physicsPos = physicsWorld.toPhysics(centroid.x, centroid.y);
-    const R = physicsWorld.getRAPIER();
-
-    // Create Rapier dynamic body
-    const rigidBodyDesc = R.RigidBodyDesc.dynamic()
-      .setTranslation(physicsPos.x, physicsPos.y)
-      .setCanSleep(false);
-
-    this.body = physicsWorld.getWorld().createRigidBody(rigidBodyDesc);
-
-    // Create physics colliders for each segment
-    this.createPhysicsSegments(centroid);
-  }
-
-  /**
-   * Calculate the centroid of all points
-   */
-  private calculateCentroid(points: Point[]): Point {
-    let sumX = 0;
-    let sumY = 0;
-    for (const point of points) {
-      sumX += point.x;
-      sumY += point.y;
-    }
-    return {
-      x: sumX / points.length,
-      y: sumY / points.length,
-    };
+    this.drawLine(this.centroid);
+    this.graphics.position.set(this.centroid.x, this.centroid.y);
   }
 
   /**
@@ -73,26 +33,6 @@ export class DrawnLine {
     );
   }
 
-  /**
-   * Create physics colliders for each line segment with matching corner styles
-   */
-  private createPhysicsSegments(centroid: Point): void {
-    const world = this.physicsWorld.getWorld();
-    const R = this.physicsWorld.getRAPIER();
-
-    this.colliders = createLinePhysicsColliders(
-      this.points,
-      centroid,
-      this.body,
-      world,
-      R,
-      this.pen.width,
-      this.pen.density,
-      this.pen.friction,
-      this.pen.restitution
-    );
-  }
-
   /**
    * Update graphics position from physics body
    */
@@ -113,9 +53,7 @@ export class DrawnLine {
    * Destroy the line
    */
   destroy(physicsWorld: PhysicsWorld): void {
-    if (this.body) {
-      physicsWorld.getWorld().removeRigidBody(this.body);
-    }
+    super.destroy(physicsWorld);
     this.graphics.destroy();
   }
 }
@@ -4,80 +4,31 @@
  */
 
 import * as PIXI from 'pixi.js';
-import RAPIER from '@dimforge/rapier2d-compat';
 import {
   SCALE,
   ICE_BLOCK_COLOR,
   ICE_BLOCK_ALPHA,
-  COLLISION_GROUP,
   Z_INDEX,
 } from '../config';
 import { PhysicsWorld } from '../physics/PhysicsWorld';
+import { IceBlockBody } from '../physics/bodies/IceBlockBody';
 import type { IceBlockConfig } from '../levels/LevelSchema';
 
-export class IceBlock {
+export class IceBlock extends IceBlockBody {
   public graphics: PIXI.Graphics;
-  public body: RAPIER.RigidBody;
-  public collider: RAPIER.Collider;
-
-  private meltTime: number; // Duration in seconds
-  private isMelting: boolean = false;
-  private meltProgress: number = 0; // 0 to 1
 
   constructor(physicsWorld: PhysicsWorld, config: IceBlockConfig) {
-    this.meltTime = config.meltTime || 1;
-
-    const { x, y, width, height, angle = 0 } = config;
+    super(physicsWorld, config);
 
     // Create Pixi.js graphics
     this.graphics = IceBlock.createVisual(config);
-
-    // Create physics body
-    const world = physicsWorld.getWorld();
-    const R = physicsWorld.getRAPIER();
-
-    const physicsPos = physicsWorld.toPhysics(x, y);
-    const rigidBodyDesc = R.RigidBodyDesc.fixed()
-      .setTranslation(physicsPos.x, physicsPos.y)
-      .setRotation(-(angle * Math.PI) / 180);
-
-    this.body = world.createRigidBody(rigidBodyDesc);
-
-    // Create collider
-    const colliderDesc = R.ColliderDesc.cuboid(
-      (width / 2) / SCALE,
-      (height / 2) / SCALE
-    )
-      .setCollisionGroups(COLLISION_GROUP.ICE_BLOCK)
-      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
-
-    this.collider = world.createCollider(colliderDesc, this.body);
-  }
-
-  /**
-   * Start the melting process
-   */
-  startMelting(): void {
-    if (!this.isMelting) {
-      this.isMelting = true;
-      this.meltProgress = 0;
-    }
   }
 
   /**
-   * Check if this ice block is currently melting
-   */
-  getIsMelting(): boolean {
-    return this.isMelting;
-  }
-
-  /**
-   * Update the ice block state
+   * Sync graphics with the body and fade them out as the block melts
    * @param scaleFactor Current canvas scale factor
-   * @param deltaTime Time since last update in seconds
-   * @returns true if the ice block has fully melted and should be removed
    */
-  update(scaleFactor: number = 1, deltaTime: number = 0): boolean {
+  update(scaleFactor: number = 1): void {
     // 1. Handle responsive visual alignment
     const pos = this.body.translation();
     const angle = this.body.rotation();
@@ -87,19 +38,10 @@ export class IceBlock {
     this.graphics.rotation = -angle;
     this.graphics.scale.set(scaleFactor);
 
-    // 2. Handle melting logic
-    if (!this.isMelting) return false;
-
-    // Update melt progress
-    this.meltProgress += deltaTime / this.meltTime;
-
-    if (this.meltProgress >= 1) {
-      return true; // Fully melted
+    // 2. Melt progress advances with the physics steps
+    if (this.getIsMelting()) {
+      this.graphics.alpha = 1 - this.meltProgress;
     }
-
-    this.graphics.alpha = 1 - this.meltProgress;
-
-    return false;
   }
 
   /**
@@ -110,18 +52,11 @@ export class IceBlock {
     return new PIXI.Rectangle(bounds.x, bounds.y, bounds.width, bounds.height);
   }
 
-  /**
-   * Get the collider handle for collision detection
-   */
-  getColliderHandle(): number {
-    return this.collider.handle;
-  }
-
   /**
    * Clean up resources
    */
   destroy(physicsWorld: PhysicsWorld): void {
-    physicsWorld.getWorld().removeRigidBody(this.body);
+    super.destroy(physicsWorld);
     this.graphics.destroy();
   }
 
@@ -4,70 +4,28 @@
  */
 
 import * as PIXI from 'pixi.js';
-import RAPIER from '@dimforge/rapier2d-compat';
 import { PhysicsWorld } from '../physics/PhysicsWorld';
-import { SCALE, COLLISION_GROUP, Z_INDEX } from '../config';
+import { LaserBody } from '../physics/bodies/LaserBody';
+import { SCALE, LASER_HEIGHT, Z_INDEX } from '../config';
 import type { LaserConfig } from '../levels/LevelSchema';
 
 // How often the laser flips (in seconds)
 const FLIP_INTERVAL = 0.2;
 
-export class Laser {
+export class Laser extends LaserBody {
   public graphics: PIXI.Container;
   private sprite: PIXI.TilingSprite;
-  public body: RAPIER.RigidBody;
-  public collider: RAPIER.Collider;
 
   private flipTimer: number = 0;
   private isFlipped: boolean = false;
-  private length: number;
-  private laserHeight: number;
 
   constructor(physicsWorld: PhysicsWorld, config: LaserConfig, texture: PIXI.Texture) {
-    const { x1, y1, x2, y2 } = config;
-
-    // Calculate length
-    const dx = x2 - x1;
-    const dy = y2 - y1;
-    this.length = Math.sqrt(dx * dx + dy * dy);
-    // Angle handled by createVisual
-    const angle = Math.atan2(dy, dx);
-    // Use a fixed height for consistency, or derive from texture but clamp it
-    // Defaulting to 14 which is the designed height of the SVG
-    this.laserHeight = 14;
+    super(physicsWorld, config);
 
     // Create visuals
-    this.graphics = Laser.createVisual(config, texture, this.laserHeight);
+    this.graphics = Laser.createVisual(config, texture, LASER_HEIGHT);
 
     this.sprite = this.graphics.children[0] as PIXI.TilingSprite;
-
-    // --- Physics Setup (Sensor) ---
-    const world = physicsWorld.getWorld();
-    const R = physicsWorld.getRAPIER();
-
-    // Calculate center of the segment for physics body
-    const centerX = (x1 + x2) / 2;
-    const centerY = (y1 + y2) / 2;
-    const physicsPos = physicsWorld.toPhysics(centerX, centerY);
-
-    // Create a fixed (static) rigid body at the center
-    const rigidBodyDesc = R.RigidBodyDesc.fixed()
-      .setTranslation(physicsPos.x, physicsPos.y)
-      .setRotation(-angle); // Invert for Rapier coordinate system
-
-    this.body = world.createRigidBody(rigidBodyDesc);
-
-    // Create a cuboid collider that matches the laser shape
-    // Half-extents: length/2 for width, laserHeight/2 for height
-    const colliderDesc = R.ColliderDesc.cuboid(
-      (this.length / 2) / SCALE,
-      (this.laserHeight / 2) / SCALE
-    )
-      .setSensor(true) // Sensor: detects contact but doesn't block
-      .setCollisionGroups(COLLISION_GROUP.LASER)
-      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
-
-    this.collider = world.createCollider(colliderDesc, this.body);
   }
 
   /**
@@ -100,18 +58,11 @@ export class Laser {
     }
   }
 
-  /**
-   * Get the collider handle for collision detection
-   */
-  getColliderHandle(): number {
-    return this.collider.handle;
-  }
-
   /**
    * Clean up resources
    */
   destroy(physicsWorld: PhysicsWorld): void {
-    physicsWorld.getWorld().removeRigidBody(this.body);
+    super.destroy(physicsWorld);
     this.graphics.destroy({ children: true });
   }
 
@@ -0,0 +1,124 @@
+/**
+ * Level Visuals
+ * Builds a level from the object classes with graphics, and keeps those
+ * graphics in sync with the physics each rendered frame.
+ */
+
+import * as PIXI from 'pixi.js';
+import { Ball } from './Ball';
+import { Obstacle } from './Obstacle';
+import { FallingObject } from './FallingObject';
+import { Net } from './Net';
+import { IceBlock } from './IceBlock';
+import { Laser } from './Laser';
+import { Seesaw } from './Seesaw';
+import { ConveyorBelt } from './ConveyorBelt';
+import { Button } from './Button';
+import { Portal } from './Portal';
+import { Spring } from './Spring';
+import { DrawnLine } from './DrawnLine';
+import type { LevelObjectTypes, LevelObjects, LevelObjectFactory } from '../simulation/LevelObjects';
+
+export interface VisualObjectTypes extends LevelObjectTypes {
+  ball: Ball;
+  obstacle: Obstacle;
+  fallingObject: FallingObject;
+  net: Net;
+  iceBlock: IceBlock;
+  laser: Laser;
+  seesaw: Seesaw;
+  conveyor: ConveyorBelt;
+  button: Button;
+  portal: Portal;
+  spring: Spring;
+  drawnLine: DrawnLine;
+}
+
+/**
+ * Create objects with graphics, adding each one's graphics to the container
+ */
+export function createVisualFactory(container: PIXI.Container, laserTexture: PIXI.Texture): LevelObjectFactory<VisualObjectTypes> {
+  const add = <T extends { graphics: PIXI.Container }>(obj: T): T => {
+    container.addChild(obj.graphics);
+    return obj;
+  };
+
+  return {
+    ball: (physicsWorld, x, y, type) => add(new Ball(physicsWorld, x, y, type, false)),
+    obstacle: (physicsWorld, config) => add(new Obstacle(physicsWorld, config)),
+    fallingObject: (physicsWorld, config) => add(new FallingObject(physicsWorld, config, false)),
+    net: (physicsWorld, config) => add(new Net(physicsWorld, config)),
+    iceBlock: (physicsWorld, config) => add(new IceBlock(physicsWorld, config)),
+    laser: (physicsWorld, config) => add(new Laser(physicsWorld, config, laserTexture)),
+    seesaw: (physicsWorld, config) => add(new Seesaw(physicsWorld, config)),
+    conveyor: (physicsWorld, config) => add(new ConveyorBelt(physicsWorld, config)),
+    button: (physicsWorld, config) => add(new Button(physicsWorld, config)),
+    portal: (physicsWorld, config) => add(new Portal(physicsWorld, config)),
+    spring: (physicsWorld, config) => add(new Spring(physicsWorld, config)),
+    drawnLine: (physicsWorld, points, pen) => add(new DrawnLine(physicsWorld, points, pen)),
+  };
+}
+
+/**
+ * Sync object graphics with the physics state.
+ * dt only drives cosmetic animations (laser flicker, conveyor gears, portal glow, spring compression).
+ */
+export function updateVisuals(objects: LevelObjects<VisualObjectTypes>, scaleFactor: number, dt: number = 0): void {
+  // Lasers (flip animation)
+  for (const laser of objects.lasers) {
+    laser.update(scaleFactor, dt);
+  }
+
+  // Buttons (sink progress advances with the physics step)
+  for (const button of objects.buttons) {
+    button.update(scaleFactor);
+  }
+
+  // Portals (glow animation)
+  for (const portal of objects.portals) {
+    portal.update(scaleFactor, dt);
+  }
+
+  // Springs (compression animation)
+  for (const spring of objects.springs) {
+    spring.update(scaleFactor, dt);
+  }
+
+  // Balls from physics
+  for (const ball of objects.balls) {
+    ball.update(scaleFactor);
+  }
+
+  // Falling objects from physics
+  for (const obj of objects.fallingObjects) {
+    obj.update(scaleFactor);
+  }
+
+  // Drawn lines from physics
+  for (const line of objects.drawnLines) {
+    line.update(scaleFactor);
+  }
+
+  // Ice blocks (melt progress advances with the physics step)
+  for (const iceBlock of objects.iceBlocks) {
+    iceBlock.update(scaleFactor);
+  }
+
+  // Seesaws from physics
+  for (const seesaw of objects.seesaws) {
+    seesaw.update(scaleFactor);
+  }
+
+  // Conveyor Belts (gear animation)
+  for (const conveyor of objects.conveyors) {
+    conveyor.update(scaleFactor, dt);
+  }
+
+  // Obstacles and Nets (responsive positioning)
+  for (const obstacle of objects.obstacles) {
+    obstacle.update(scaleFactor);
+  }
+  for (const net of objects.nets) {
+    net.update(scaleFactor);
+  }
+}
@@ -1,9 +1,8 @@
 import * as PIXI from 'pixi.js';
-import RAPIER from '@dimforge/rapier2d-compat';
 import { PhysicsWorld } from '../physics/PhysicsWorld';
+import { NetBody } from '../physics/bodies/NetBody';
 import {
   SCALE,
-  COLLISION_GROUP,
   NET_BORDER_COLOR,
   NET_BORDER_WIDTH,
   NET_BORDER_ALPHA,
@@ -11,35 +10,12 @@ import {
 } from '../config';
 import type { NetConfig } from '../levels/LevelSchema';
 
-export class Net {
+export class Net extends NetBody {
   public graphics: PIXI.Container;
-  public body: RAPIER.RigidBody;
-  public collider: RAPIER.Collider;
 
   constructor(physicsWorld: PhysicsWorld, config: NetConfig) {
+    super(physicsWorld, config);
     this.graphics = Net.createVisual(config);
-
-    // --- Physics Setup (Sensor) ---
-    const world = physicsWorld.getWorld();
-    const R = physicsWorld.getRAPIER();
-
-    const rad = (config.angle || 0) * (Math.PI / 180);
-    const physicsPos = physicsWorld.toPhysics(config.x, config.y);
-
-    const rigidBodyDesc = R.RigidBodyDesc.fixed()
-      .setTranslation(physicsPos.x, physicsPos.y)
-      .setRotation(-rad);
-
-    this.body = world.createRigidBody(rigidBodyDesc);
-
-    const colliderDesc = R.ColliderDesc.cuboid(
-      (config.width / 2) / SCALE,
-      (config.height / 2) / SCALE
-    )
-      .setSensor(true) // Crucial: It's a sensor!
-      .setCollisionGroups(COLLISION_GROUP.NET);
-
-    this.collider = world.createCollider(colliderDesc, this.body);
   }
 
   /**
@@ -59,7 +35,7 @@ export class Net {
    * Clean up resources
    */
   destroy(physicsWorld: PhysicsWorld): void {
-    physicsWorld.getWorld().removeRigidBody(this.body);
+    super.destroy(physicsWorld);
     this.graphics.destroy({ children: true });
   }
 
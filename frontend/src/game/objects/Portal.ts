@@ -0,0 +1,143 @@
+/**
+ * Portal Game Object
+ * A one-way pair of openings: balls, falling objects and drawn lines that enter
+ * the front of the entrance come out of the front of the exit
+ */
+
+import * as PIXI from 'pixi.js';
+import { PhysicsWorld } from '../physics/PhysicsWorld';
+import { PortalBody } from '../physics/bodies/PortalBody';
+import {
+  PORTAL_ENTRANCE_COLOR,
+  PORTAL_EXIT_COLOR,
+  PORTAL_WIDTH,
+  PORTAL_DEPTH,
+  PORTAL_LINK_ALPHA,
+  HIT_AREA_COLOR,
+  HIT_AREA_ALPHA,
+  Z_INDEX,
+} from '../config';
+import type { PortalConfig, PortalEndConfig, Vec2 } from '../levels/LevelSchema';
+
+// Glow pulse animation
+const PULSE_PERIOD = 1.2;  // seconds
+
+// Dashed line between the two ends
+const LINK_DASH = 12;
+const LINK_GAP = 10;
+
+export class Portal extends PortalBody {
+  public graphics: PIXI.Container;
+
+  private center: Vec2;       // Midpoint of the two ends (design space)
+  private glows: PIXI.Container[];
+  private pulseTime: number = 0;
+
+  constructor(physicsWorld: PhysicsWorld, config: PortalConfig) {
+    super(physicsWorld, config);
+
+    this.center = Portal.getCenter(config);
+    this.graphics = Portal.createVisual(config);
+    // Each end holds its glow first, then its rim (see createEnd)
+    this.glows = this.graphics.children.slice(1).map(end => end.children[0]);
+  }
+
+  /**
+   * Update the portal visuals (glow pulse and responsive scaling)
+   * @param scaleFactor Current canvas scale factor
+   * @param deltaTime Time since last update in seconds
+   */
+  update(scaleFactor: number = 1, deltaTime: number = 0): void {
+    this.graphics.position.set(this.center.x * scaleFactor, this.center.y * scaleFactor);
+    this.graphics.scale.set(scaleFactor);
+
+    this.pulseTime = (this.pulseTime + deltaTime) % PULSE_PERIOD;
+    const pulse = 0.75 + 0.25 * Math.sin((this.pulseTime / PULSE_PERIOD) * Math.PI * 2);
+    for (const glow of this.glows) {
+      glow.scale.set(pulse);
+    }
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(physicsWorld: PhysicsWorld): void {
+    super.destroy(physicsWorld);
+    this.graphics.destroy({ children: true });
+  }
+
+  /**
+   * Midpoint of the two ends, where the visual is positioned
+   */
+  static getCenter(config: PortalConfig): Vec2 {
+    return {
+      x: (config.entrance.x + config.exit.x) / 2,
+      y: (config.entrance.y + config.exit.y) / 2
+    };
+  }
+
+  /**
+   * Both ends and the dashed link between them, centered on the midpoint
+   */
+  static createVisual(config: PortalConfig): PIXI.Container {
+    const center = Portal.getCenter(config);
+    const { entrance, exit } = config;
+
+    const graphics = new PIXI.Container();
+    graphics.zIndex = Z_INDEX.PORTAL;
+    graphics.position.set(center.x, center.y);
+
+    // Link (entrance -> exit)
+    const link = new PIXI.Graphics();
+    const sx = entrance.x - center.x, sy = entrance.y - center.y;
+    const length = Math.hypot(exit.x - entrance.x, exit.y - entrance.y);
+    if (length > 0) {
+      const ux = (exit.x - entrance.x) / length, uy = (exit.y - entrance.y) / length;
+      for (let d = 0; d < length; d += LINK_DASH + LINK_GAP) {
+        const end = Math.min(d + LINK_DASH, length);
+        link.moveTo(sx + ux * d, sy + uy * d);
+        link.lineTo(sx + ux * end, sy + uy * end);
+      }
+      link.stroke({ width: 3, color: 0x808080, alpha: PORTAL_LINK_ALPHA });
+    }
+    graphics.addChild(link);
+
+    graphics.addChild(Portal.createEnd(entrance, center, PORTAL_ENTRANCE_COLOR, false));
+    graphics.addChild(Portal.createEnd(exit, center, PORTAL_EXIT_COLOR, true));
+
+    return graphics;
+  }
+
+  private static createEnd(config: PortalEndConfig, center: Vec2, color: number, isExit: boolean): PIXI.Container {
+    const end = new PIXI.Container();
+    end.position.set(config.x - center.x, config.y - center.y);
+    end.rotation = ((config.angle || 0) * Math.PI) / 180;
+
+    const rx = PORTAL_WIDTH / 2;
+    const ry = PORTAL_DEPTH / 2;
+
+    const glow = new PIXI.Graphics();
+    glow.ellipse(0, 0, rx * 0.8, ry * 0.6);
+    glow.fill({ color, alpha: 0.5 });
+    end.addChild(glow);
+
+    const rim = new PIXI.Graphics();
+    // Hit Area (Transparent) - covers the chevron in front
+    rim.rect(-rx, -ry - 20, PORTAL_WIDTH, PORTAL_DEPTH + 20);
+    rim.fill({ color: HIT_AREA_COLOR, alpha: HIT_AREA_ALPHA });
+
+    rim.ellipse(0, 0, rx, ry);
+    rim.stroke({ width: 4, color });
+
+    // Chevron in front of the opening: pointing in at the entrance, out at the exit
+    const tip = isExit ? -ry - 18 : -ry - 6;
+    const base = isExit ? -ry - 8 : -ry - 16;
+    rim.moveTo(-8, base);
+    rim.lineTo(0, tip);
+    rim.lineTo(8, base);
+    rim.stroke({ width: 3, color, cap: 'round', join: 'round' });
+    end.addChild(rim);
+
+    return end;
+  }
+}
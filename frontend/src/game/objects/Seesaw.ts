@@ -1,36 +1,21 @@
 import * as PIXI from 'pixi.js';
-import RAPIER from '@dimforge/rapier2d-compat';
 import {
   SCALE,
   SEESAW_COLOR,
   SEESAW_PIVOT_COLOR,
-  SEESAW_DENSITY,
-  SEESAW_FRICTION,
-  SEESAW_RESTITUTION,
-  SEESAW_ANGULAR_DAMPING,
-  SEESAW_PIVOT_STIFFNESS,
-  SEESAW_PIVOT_DAMPING,
-  COLLISION_GROUP,
   Z_INDEX,
 } from '../config';
 import { PhysicsWorld } from '../physics/PhysicsWorld';
+import { SeesawBody } from '../physics/bodies/SeesawBody';
 import type { SeesawConfig } from '../levels/LevelSchema';
 
-export class Seesaw {
+export class Seesaw extends SeesawBody {
   public graphics: PIXI.Container;
   public plankGraphics: PIXI.Graphics;
   public pivotGraphics: PIXI.Graphics;
-  public plankBody: RAPIER.RigidBody;
-  public pivotBody: RAPIER.RigidBody;
-  public anchorBody: RAPIER.RigidBody;
-  public collider: RAPIER.Collider;
-  public revoluteJoint: RAPIER.ImpulseJoint;
-  public springJoint: RAPIER.ImpulseJoint;
 
   constructor(physicsWorld: PhysicsWorld, config: SeesawConfig) {
-
-    const { x, y, width, height, angle = 0 } = config;
-    const angleRad = (angle * Math.PI) / 180;
+    super(physicsWorld, config);
 
     // Create visuals
     this.graphics = Seesaw.createVisual(config);
@@ -41,79 +26,6 @@ export class Seesaw {
     // Retrieve references so we can update them
     this.plankGraphics = this.graphics.children[0] as PIXI.Graphics;
     this.pivotGraphics = this.graphics.children[1] as PIXI.Graphics;
-
-    const world = physicsWorld.getWorld();
-    const R = physicsWorld.getRAPIER();
-
-    const physicsPos = physicsWorld.toPhysics(x, y);
-
-    // 1. Fixed anchor body (immovable reference point)
-    const anchorBodyDesc = R.RigidBodyDesc.fixed()
-      .setTranslation(physicsPos.x, physicsPos.y);
-    this.anchorBody = world.createRigidBody(anchorBodyDesc);
-
-    // 2. Dynamic pivot body (can move slightly, no gravity, very high mass)
-    const pivotBodyDesc = R.RigidBodyDesc.dynamic()
-      .setTranslation(physicsPos.x, physicsPos.y)
-      .setGravityScale(0)  // No gravity - damping controlled by spring joint
-      .setCanSleep(false); // Prevent sleeping so it doesn't stop automatically
-    this.pivotBody = world.createRigidBody(pivotBodyDesc);
-
-    // Give pivot very high mass so it strongly resists movement
-    const pivotColliderDesc = R.ColliderDesc.ball(0.01)
-      .setDensity(1000000.0)  // Extremely high density = high mass
-      .setCollisionGroups(0);
-    world.createCollider(pivotColliderDesc, this.pivotBody);
-
-    // 3. Spring joint: connects anchor to pivot (soft constraint)
-    const springJointData = R.JointData.spring(
-      0,  // rest length = 0 (want pivot at anchor position)
-      SEESAW_PIVOT_STIFFNESS,
-      SEESAW_PIVOT_DAMPING,
-      { x: 0, y: 0 },
-      { x: 0, y: 0 }
-    );
-    this.springJoint = world.createImpulseJoint(springJointData, this.anchorBody, this.pivotBody, true);
-
-    // 4. Dynamic plank body
-    const plankBodyDesc = R.RigidBodyDesc.dynamic()
-      .setTranslation(physicsPos.x, physicsPos.y)
-      .setRotation(-angleRad)
-      .setAngularDamping(SEESAW_ANGULAR_DAMPING)
-      .setCanSleep(false); // Prevent sleeping so continuous slow rotation works
-    this.plankBody = world.createRigidBody(plankBodyDesc);
-
-    // Create collider for the plank
-    const colliderDesc = R.ColliderDesc.cuboid(
-      (width / 2) / SCALE,
-      (height / 2) / SCALE
-    )
-      .setDensity(SEESAW_DENSITY)
-      .setFriction(SEESAW_FRICTION)
-      .setRestitution(SEESAW_RESTITUTION)
-      .setCollisionGroups(COLLISION_GROUP.SEESAW);
-
-    this.collider = world.createCollider(colliderDesc, this.plankBody);
-
-    // 5. Revolute joint: connects pivot to plank (allows rotation)
-    const revoluteJointData = R.JointData.revolute(
-      { x: 0, y: 0 },
-      { x: 0, y: 0 }
-    );
-    this.revoluteJoint = world.createImpulseJoint(revoluteJointData, this.pivotBody, this.plankBody, true);
-  }
-
-  /**
-   * Apply extra damping for small oscillations to help convergence
-   * Deprecated: Now handled by physics engine linear damping and joint damping
-   */
-  applyForces(): void {
-    // Logic removed to prevent conflict with physics solver at high speeds.
-    // Damping is now handled by SEESAW_PIVOT_DAMPING and rigid body linear damping.
-  }
-
-  getColliderHandle(): number {
-    return this.collider.handle;
   }
 
   /**
@@ -137,17 +49,7 @@ export class Seesaw {
   }
 
   destroy(physicsWorld: PhysicsWorld): void {
-    const world = physicsWorld.getWorld();
-
-    // Remove joints first
-    world.removeImpulseJoint(this.revoluteJoint, true);
-    world.removeImpulseJoint(this.springJoint, true);
-
-    // Remove bodies
-    world.removeRigidBody(this.plankBody);
-    world.removeRigidBody(this.pivotBody);
-    world.removeRigidBody(this.anchorBody);
-
+    super.destroy(physicsWorld);
     this.graphics.destroy({ children: true });
   }
 
@@ -0,0 +1,135 @@
+/**
+ * Spring Game Object
+ * A bounce pad that launches balls, falling objects and drawn lines landing on it
+ * along its normal
+ */
+
+import * as PIXI from 'pixi.js';
+import RAPIER from '@dimforge/rapier2d-compat';
+import { PhysicsWorld } from '../physics/PhysicsWorld';
+import { SpringBody } from '../physics/bodies/SpringBody';
+import {
+  SPRING_COLOR,
+  SPRING_PAD_COLOR,
+  SPRING_WIDTH,
+  SPRING_HEIGHT,
+  HIT_AREA_COLOR,
+  HIT_AREA_ALPHA,
+  Z_INDEX,
+} from '../config';
+import type { SpringConfig } from '../levels/LevelSchema';
+
+// Shape (design pixels)
+const BASE_THICKNESS = 6;
+const PAD_THICKNESS = 8;
+const COIL_TURNS = 3;
+
+// Compression animation constants
+const COMPRESS_DURATION = 0.3;  // seconds
+const COMPRESS_DISTANCE = 12;   // How far the pad sinks at the deepest point
+
+const COIL_LENGTH = SPRING_HEIGHT - BASE_THICKNESS - PAD_THICKNESS;
+
+export class Spring extends SpringBody {
+  public graphics: PIXI.Container;
+
+  private position: { x: number, y: number };  // Design space
+  private coil: PIXI.Graphics;
+  private pad: PIXI.Graphics;
+  private isCompressing: boolean = false;
+  private compressProgress: number = 0;
+
+  constructor(physicsWorld: PhysicsWorld, config: SpringConfig) {
+    super(physicsWorld, config);
+    this.position = { x: config.x, y: config.y };
+
+    // Create graphics (see createVisual for the child order)
+    this.graphics = Spring.createVisual(config);
+    this.coil = this.graphics.children[1] as PIXI.Graphics;
+    this.pad = this.graphics.children[2] as PIXI.Graphics;
+  }
+
+  /**
+   * Launch a body that landed on the pad and play the compression animation
+   */
+  launch(body: RAPIER.RigidBody): void {
+    super.launch(body);
+
+    this.isCompressing = true;
+    this.compressProgress = 0;
+  }
+
+  /**
+   * Update spring visuals (compression animation and responsive scaling)
+   * @param scaleFactor Current canvas scale factor
+   * @param deltaTime Time since last update in seconds
+   */
+  update(scaleFactor: number = 1, deltaTime: number = 0): void {
+    this.graphics.position.set(this.position.x * scaleFactor, this.position.y * scaleFactor);
+    this.graphics.scale.set(scaleFactor);
+
+    if (!this.isCompressing) return;
+
+    this.compressProgress = Math.min(this.compressProgress + deltaTime / COMPRESS_DURATION, 1);
+    if (this.compressProgress >= 1) {
+      this.isCompressing = false;
+    }
+
+    // Sink and spring back
+    const sink = COMPRESS_DISTANCE * Math.sin(this.compressProgress * Math.PI);
+    this.pad.position.y = sink;
+    this.coil.scale.y = (COIL_LENGTH - sink) / COIL_LENGTH;
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(physicsWorld: PhysicsWorld): void {
+    super.destroy(physicsWorld);
+    this.graphics.destroy({ children: true });
+  }
+
+  /**
+   * Base, coil and pad (in that order), with the pad facing up before rotation
+   */
+  static createVisual(config: SpringConfig): PIXI.Container {
+    const { x, y, angle = 0 } = config;
+    const hw = SPRING_WIDTH / 2;
+    const hh = SPRING_HEIGHT / 2;
+
+    const graphics = new PIXI.Container();
+    graphics.zIndex = Z_INDEX.SPRING;
+    graphics.position.set(x, y);
+    graphics.rotation = (angle * Math.PI) / 180;
+
+    const base = new PIXI.Graphics();
+    // Hit Area (Transparent) - Covers full bounds
+    base.rect(-hw, -hh, SPRING_WIDTH, SPRING_HEIGHT);
+    base.fill({ color: HIT_AREA_COLOR, alpha: HIT_AREA_ALPHA });
+
+    base.rect(-hw, hh - BASE_THICKNESS, SPRING_WIDTH, BASE_THICKNESS);
+    base.fill({ color: SPRING_COLOR });
+    graphics.addChild(base);
+
+    // Coil: zigzag from the base up to the pad, scaled from the base when compressed
+    const coil = new PIXI.Graphics();
+    coil.position.y = hh - BASE_THICKNESS;
+    const coilHalfWidth = hw * 0.7;
+    const segment = COIL_LENGTH / (COIL_TURNS * 2);
+    coil.moveTo(0, 0);
+    for (let i = 0; i < COIL_TURNS * 2; i++) {
+      const side = i % 2 === 0 ? -coilHalfWidth : coilHalfWidth;
+      coil.lineTo(side, -(i + 0.5) * segment);
+    }
+    coil.lineTo(0, -COIL_LENGTH);
+    coil.stroke({ width: 3, color: SPRING_COLOR, join: 'round' });
+    graphics.addChild(coil);
+
+    const pad = new PIXI.Graphics();
+    pad.roundRect(-hw, -hh, SPRING_WIDTH, PAD_THICKNESS, 3);
+    pad.fill({ color: SPRING_PAD_COLOR });
+    graphics.addChild(pad);
+
+    return graphics;
+  }
+}
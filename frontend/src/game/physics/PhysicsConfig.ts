@@ -0,0 +1,93 @@
+/**
+ * Physics Configuration
+ * Sizes and physics parameters of the level objects.
+ * Kept apart from config.ts so the headless simulator can run the rules without
+ * pulling in rendering or browser settings; config.ts re-exports everything here.
+ */
+
+// Physics scale factor (pixels to physics world units)
+export const SCALE = 60; // 60 pixels = 1 meter in physics world
+
+// Physics world settings
+export const GRAVITY = -10; // Gravity pointing downward (in physics coordinates)
+// Note: Rapier uses internal fixed timestep, no velocity/position iterations needed
+export const FIXED_TIMESTEP = 1 / 60;
+
+// Ball settings
+export const BALL_RADIUS = 25; // pixels
+
+// Ball physics
+export const BALL_DENSITY = 1.0;
+export const BALL_FRICTION = 0.1;
+export const BALL_RESTITUTION = 0.0;
+
+// Button settings
+export const BUTTON_THICKNESS = 5;
+export const BUTTON_VERTICAL_BAR_HEIGHT = 40;
+export const BUTTON_HORIZONTAL_BAR_WIDTH = 32;
+
+// Obstacle settings (Static)
+export const OBSTACLE_DENSITY = 50.0;
+export const OBSTACLE_FRICTION = 0.5;
+export const OBSTACLE_RESTITUTION = 0.0;
+
+// Falling Object settings (Dynamic)
+export const FALLING_OBJECT_DENSITY = 1.0;
+export const FALLING_OBJECT_FRICTION = 0.1;
+export const FALLING_OBJECT_RESTITUTION = 0.0;
+
+// Laser settings
+export const LASER_HEIGHT = 14;                 // Designed height of the laser SVG
+
+// Seesaw settings
+export const SEESAW_DENSITY = 2;
+export const SEESAW_FRICTION = 0.5;
+export const SEESAW_RESTITUTION = 0.0;
+export const SEESAW_ANGULAR_DAMPING = 0.0;
+export const SEESAW_PIVOT_STIFFNESS = 5e5;  // Spring stiffness for soft pivot (higher = stiffer)
+export const SEESAW_PIVOT_DAMPING = 0.5;       // Spring damping (higher = less oscillation)
+
+// Conveyor Belt settings
+export const CONVEYOR_BELT_HEIGHT = 60;         // Fixed height in pixels
+export const CONVEYOR_BELT_ACCELERATION = 15;   // Acceleration in physics units (m/s²) - all objects get same acceleration
+export const CONVEYOR_BELT_VELOCITY_FACTOR = 1.0; // Max velocity = |acceleration| * this factor (default)
+export const CONVEYOR_BELT_FRICTION = 0.0;      // Friction for conveyor belt
+
+// Portal settings
+export const PORTAL_WIDTH = 80;                 // Length of the opening
+export const PORTAL_DEPTH = 16;                 // Thickness of the oval, and of the entrance sensor
+
+// Spring settings
+export const SPRING_WIDTH = 60;
+export const SPRING_HEIGHT = 30;                // Base to top of the pad, uncompressed
+export const SPRING_STRENGTH = 12;              // Launch speed in physics units (m/s)
+export const SPRING_FRICTION = 0.5;
+
+/**
+ * Rapier Collision Groups
+ * Format: 0xMMMMFFFF
+ * MMMM = membership bits (what groups this belongs to)
+ * FFFF = filter bits (what groups this can collide with)
+ *
+ * Converting from old CATEGORY bits:
+ * - BLUE_BALL: 0x0002 -> membership: 0x0002, filter: 0xFFFF
+ * - PINK_BALL: 0x0004 -> membership: 0x0004, filter: 0xFFFF
+ * - etc.
+ */
+export const COLLISION_GROUP = {
+  ALL: 0xFFFF_FFFF,             // Collide with everything
+  BLUE_BALL: 0x0002_FFFF,       // Group 1, collides with all
+  PINK_BALL: 0x0004_FFFF,       // Group 2, collides with all
+  USER_LINE: 0x0008_FFFF,       // Group 3, collides with all
+  GROUND: 0x0010_FFFF,          // Group 4, collides with all
+  OBSTACLE: 0x0020_FFFF,        // Group 5, collides with all
+  FALLING_OBJECT: 0x0040_FFFF,  // Group 6, collides with all
+  NET: 0x0080_FFFF,             // Group 7, sensor that detects everything (so queries can find it)
+  ICE_BLOCK: 0x0100_FFFF,       // Group 8, collides with all (for detection)
+  LASER: 0x0200_FFFF,           // Group 9, sensor for laser hazard detection
+  SEESAW: 0x0400_FFFF,          // Group 10, collides with all (rotating plank)
+  CONVEYOR_BELT: 0x0800_FFFF,   // Group 11, sensor for conveyor belt
+  BUTTON: 0x1000_FFFF,          // Group 12, sensor for button press detection
+  PORTAL: 0x2000_FFFF,          // Group 13, sensor at portal entrances
+  SPRING: 0x4000_FFFF,          // Group 14, collides with all (sensor on the pad detects landings)
+};
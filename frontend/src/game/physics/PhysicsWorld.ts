@@ -7,7 +7,7 @@ import RAPIER from '@dimforge/rapier2d-compat';
 import {
   GRAVITY,
   SCALE,
-} from '../config';
+} from './PhysicsConfig';
 
 export class PhysicsWorld {
   public world!: RAPIER.World;
@@ -34,6 +34,18 @@ export class PhysicsWorld {
     console.log('Rapier.js initialized successfully');
   }
 
+  /**
+   * Replace the world with a fresh, empty one.
+   * Rapier is only deterministic for identical sequences of operations, so every
+   * attempt starts from a new world instead of reusing one with removal history.
+   */
+  reset(): void {
+    this.world.free();
+    this.eventQueue.free();
+    this.world = new this.RAPIER.World({ x: 0, y: GRAVITY });
+    this.eventQueue = new this.RAPIER.EventQueue(false);
+  }
+
   /**
    * Step the physics simulation
    * @param _dt - Delta time (unused, Rapier uses fixed timestep)
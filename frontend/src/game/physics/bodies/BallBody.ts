@@ -0,0 +1,93 @@
+/**
+ * Ball Body
+ * Physics of a ball (see objects/Ball for its graphics)
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+import {
+  SCALE,
+  BALL_RADIUS,
+  BALL_DENSITY,
+  BALL_FRICTION,
+  BALL_RESTITUTION,
+  COLLISION_GROUP,
+} from '../PhysicsConfig';
+import { PhysicsWorld } from '../PhysicsWorld';
+
+export type BallType = 'blue' | 'pink';
+
+export class BallBody {
+  public body: RAPIER.RigidBody;
+  public collider: RAPIER.Collider;
+  public readonly type: BallType;
+  private physicsWorld: PhysicsWorld;
+  private readonly radius: number;
+
+  constructor(
+    physicsWorld: PhysicsWorld,
+    x: number, // pixel coordinates
+    y: number,
+    type: BallType = 'blue',
+    startActive: boolean = false
+  ) {
+    this.physicsWorld = physicsWorld;
+    this.type = type;
+    this.radius = BALL_RADIUS;
+
+    // Convert to physics coordinates
+    const physicsPos = physicsWorld.toPhysics(x, y);
+    const R = physicsWorld.getRAPIER();
+
+    // Create Rapier rigid body
+    const rigidBodyDesc = startActive
+      ? R.RigidBodyDesc.dynamic()
+      : R.RigidBodyDesc.fixed();
+
+    rigidBodyDesc
+      .setTranslation(physicsPos.x, physicsPos.y)
+      .setCcdEnabled(true) // Better collision detection for fast-moving objects
+      .setCanSleep(false);
+
+    this.body = physicsWorld.getWorld().createRigidBody(rigidBodyDesc);
+
+    // Create circular collider
+    const collisionGroup = type === 'blue'
+      ? COLLISION_GROUP.BLUE_BALL
+      : COLLISION_GROUP.PINK_BALL;
+
+    const colliderDesc = R.ColliderDesc.ball(this.radius / SCALE)
+      .setDensity(BALL_DENSITY)
+      .setFriction(BALL_FRICTION)
+      // Use Multiply combine rule for friction when this ball collides with others
+      .setFrictionCombineRule(R.CoefficientCombineRule.Multiply)
+      .setRestitution(BALL_RESTITUTION)
+      .setCollisionGroups(collisionGroup)
+      .setActiveEvents(R.ActiveEvents.COLLISION_EVENTS);
+
+    this.collider = physicsWorld.getWorld().createCollider(colliderDesc, this.body);
+  }
+
+  /**
+   * Activate physics for the ball (make it dynamic)
+   */
+  activate(): void {
+    const R = this.physicsWorld.getRAPIER();
+    if (this.body.bodyType() !== R.RigidBodyType.Dynamic) {
+      this.body.setBodyType(R.RigidBodyType.Dynamic, true);
+    }
+  }
+
+  /**
+   * Get the collider handle for collision detection
+   */
+  getColliderHandle(): number {
+    return this.collider.handle;
+  }
+
+  /**
+   * Remove the ball from the world
+   */
+  destroy(physicsWorld: PhysicsWorld): void {
+    physicsWorld.getWorld().removeRigidBody(this.body);
+  }
+}
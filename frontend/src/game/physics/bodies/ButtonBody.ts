@@ -0,0 +1,134 @@
+/**
+ * Button Body
+ * Physics of a T-shaped button and its sinking once pressed (see objects/Button for its graphics)
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+import { PhysicsWorld } from '../PhysicsWorld';
+import {
+  SCALE,
+  COLLISION_GROUP,
+  BUTTON_THICKNESS,
+  BUTTON_VERTICAL_BAR_HEIGHT,
+  BUTTON_HORIZONTAL_BAR_WIDTH,
+} from '../PhysicsConfig';
+import type { ButtonConfig } from '../../levels/LevelSchema';
+
+// Sink animation constants
+const SINK_DURATION = 0.25;  // seconds
+
+export class ButtonBody {
+  public body: RAPIER.RigidBody;
+  public colliders: RAPIER.Collider[] = [];
+
+  private angle: number;  // radians
+  private verticalBarHeight: number;
+  private isSinking: boolean = false;
+  private sinkProgress: number = 0;
+  private sinkCallback: (() => void) | null = null;
+  private initialPhysicsPos: { x: number, y: number };
+
+  constructor(physicsWorld: PhysicsWorld, config: ButtonConfig) {
+    const { x, y, angle = 0 } = config;
+    this.angle = (angle * Math.PI) / 180;
+    this.verticalBarHeight = BUTTON_VERTICAL_BAR_HEIGHT;
+
+    // Physics setup
+    const world = physicsWorld.getWorld();
+    const R = physicsWorld.getRAPIER();
+
+    // Create static body
+    const physicsPos = physicsWorld.toPhysics(x, y);
+    this.initialPhysicsPos = { x: physicsPos.x, y: physicsPos.y };
+
+    const rigidBodyDesc = R.RigidBodyDesc.fixed()
+      .setTranslation(physicsPos.x, physicsPos.y)
+      .setRotation(-this.angle);
+
+    this.body = world.createRigidBody(rigidBodyDesc);
+
+    // Create colliders for T-shape (two rectangles)
+    // Horizontal bar (top of T)
+    const hBarDesc = R.ColliderDesc.cuboid(
+      (BUTTON_HORIZONTAL_BAR_WIDTH / 2) / SCALE,
+      (BUTTON_THICKNESS / 2) / SCALE
+    )
+      .setTranslation(0, (BUTTON_VERTICAL_BAR_HEIGHT / 2 - BUTTON_THICKNESS / 2) / SCALE)
+      .setFriction(0)  // No friction
+      .setRestitution(0)
+      .setCollisionGroups(COLLISION_GROUP.BUTTON)
+      .setSensor(false)
+      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
+
+    this.colliders.push(world.createCollider(hBarDesc, this.body));
+
+    // Vertical bar (stem of T)
+    const vBarDesc = R.ColliderDesc.cuboid(
+      (BUTTON_THICKNESS / 2) / SCALE,
+      (BUTTON_VERTICAL_BAR_HEIGHT / 2) / SCALE
+    )
+      .setFriction(0)  // No friction
+      .setRestitution(0)
+      .setCollisionGroups(COLLISION_GROUP.BUTTON)
+      .setSensor(false)
+      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
+
+    this.colliders.push(world.createCollider(vBarDesc, this.body));
+  }
+
+  /**
+   * Get collider handles for collision detection
+   */
+  getColliderHandles(): number[] {
+    return this.colliders.map(c => c.handle);
+  }
+
+  /**
+   * Trigger sink animation
+   * @param onComplete Callback when animation completes
+   */
+  triggerSink(onComplete: () => void): void {
+    if (this.isSinking) return;
+    this.isSinking = true;
+    this.sinkProgress = 0;
+    this.sinkCallback = onComplete;
+  }
+
+  /**
+   * Move a sinking button down by one fixed step
+   * @param deltaTime Time since last step in seconds
+   */
+  advanceSink(deltaTime: number): void {
+    if (!this.isSinking) return;
+
+    this.sinkProgress += deltaTime / SINK_DURATION;
+
+    if (this.sinkProgress >= 1) {
+      if (this.sinkCallback) {
+        this.sinkCallback();
+      }
+      return;
+    }
+
+    // Calculate sink distance in design units
+    const sinkDistance = this.verticalBarHeight / 3;
+    const currentSink = sinkDistance * this.sinkProgress;
+
+    // Move in the direction of the initial design angle
+    const sinkX = -Math.sin(this.angle) * currentSink;
+    const sinkY = Math.cos(this.angle) * currentSink;
+
+    // Update physics body position (using design space increments)
+    this.body.setTranslation({
+      x: this.initialPhysicsPos.x + (sinkX / SCALE),
+      y: this.initialPhysicsPos.y - (sinkY / SCALE)
+    }, true);
+  }
+
+  /**
+   * Remove the button from the world
+   */
+  destroy(physicsWorld: PhysicsWorld): void {
+    physicsWorld.getWorld().removeRigidBody(this.body);
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Conveyor Belt Body
+ * Physics of a conveyor belt: accelerates the bodies touching it along its surface
+ * (see objects/ConveyorBelt for its graphics)
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+import { PhysicsWorld } from '../PhysicsWorld';
+import {
+  SCALE,
+  CONVEYOR_BELT_HEIGHT,
+  CONVEYOR_BELT_ACCELERATION,
+  CONVEYOR_BELT_VELOCITY_FACTOR,
+  CONVEYOR_BELT_FRICTION,
+  COLLISION_GROUP,
+} from '../PhysicsConfig';
+import type { ConveyorBeltConfig } from '../../levels/LevelSchema';
+
+export class ConveyorBeltBody {
+  public body: RAPIER.RigidBody;
+  public topCollider: RAPIER.Collider;
+
+  public readonly acceleration: number;  // Acceleration in physics units (m/s²)
+  public readonly maxVelocity: number;   // Max velocity cap in physics units
+  private readonly height: number;
+  private readonly radius: number;
+
+  constructor(physicsWorld: PhysicsWorld, config: ConveyorBeltConfig) {
+    const {
+      x, y, width, angle = 0,
+      acceleration = CONVEYOR_BELT_ACCELERATION,
+    } = config;
+
+    this.acceleration = acceleration;
+    this.maxVelocity = Math.abs(acceleration) * CONVEYOR_BELT_VELOCITY_FACTOR;
+
+    this.height = CONVEYOR_BELT_HEIGHT;
+    this.radius = this.height / 2;
+
+    const angleRad = (angle * Math.PI) / 180;
+
+    // --- Physics Setup ---
+    const world = physicsWorld.getWorld();
+    const R = physicsWorld.getRAPIER();
+
+    const physicsPos = physicsWorld.toPhysics(x, y);
+
+    // Create Fixed Body (Immobile)
+    const rigidBodyDesc = R.RigidBodyDesc.fixed()
+      .setTranslation(physicsPos.x, physicsPos.y)
+      .setRotation(-angleRad);
+
+    this.body = world.createRigidBody(rigidBodyDesc);
+
+    // Create Capsule collider
+    const halfSegmentLen = (width / 2) / SCALE;
+    const capsuleRadius = this.radius / SCALE;
+
+    const colliderDesc = R.ColliderDesc.capsule(halfSegmentLen, capsuleRadius)
+      .setCollisionGroups(COLLISION_GROUP.CONVEYOR_BELT)
+      .setFriction(CONVEYOR_BELT_FRICTION)
+      .setRestitution(0)
+      .setRotation(Math.PI / 2) // Rotate 90 deg to align with X axis
+      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
+
+    this.topCollider = world.createCollider(colliderDesc, this.body);
+  }
+
+  /**
+   * Apply acceleration to a rigid body touching this belt using accurate Contact Manifolds
+   * This ensures forces are applied at the exact contact points, producing correct torque and linear motion.
+   */
+  applyAcceleration(physicsWorld: PhysicsWorld, body: RAPIER.RigidBody, objectColliderHandle: number, dt: number): void {
+    const world = physicsWorld.getWorld();
+
+    // Retrieve the specific collider for the object that is touching the conveyor
+    let objectCollider: RAPIER.Collider;
+    try {
+      objectCollider = world.getCollider(objectColliderHandle);
+    } catch (e) {
+      // Collider might have been removed
+      return;
+    }
+
+    if (!objectCollider || !objectCollider.isValid()) return;
+
+    const conveyorCollider = this.topCollider;
+
+    // Use Rapier's contactPair to access the manifold
+    world.contactPair(conveyorCollider, objectCollider, (manifold, flipped) => {
+      const numPoints = manifold.numContacts();
+      if (numPoints === 0) return;
+
+      const maxVelocity = this.maxVelocity;
+      // Distribute force: F = m * a. We divide by numPoints to not overpower multiple contacts.
+      const forcePerPoint = (Math.abs(this.acceleration) * body.mass()) / numPoints;
+
+      const dirSign = Math.sign(this.acceleration) || 1;
+
+      // 2. Iterate all contact points
+      for (let i = 0; i < numPoints; i++) {
+        // Get local contact point
+        // If flipped=false: localPoint1 is on conveyor, localPoint2 on object
+        // If flipped=true: localPoint1 is on object, localPoint2 on conveyor
+        let localPt, refBody;
+
+        let normalX = 0;
+        let normalY = 0;
+
+        // Rapier manifold.normal() returns world space normal from Shape 1 to Shape 2
+        // We want the normal POINTING OUT of the Conveyor Surface.
+        const worldNormal = manifold.normal();
+
+        if (flipped) {
+          // Shape 1 = Object, Shape 2 = Conveyor. Normal: Object -> Conveyor (Into Conveyor)
+          // We want normal Out of Conveyor. So we invert it.
+          normalX = -worldNormal.x;
+          normalY = -worldNormal.y;
+
+          localPt = manifold.localContactPoint2(i);
+          refBody = this.body;
+        } else {
+          // Shape 1 = Conveyor, Shape 2 = Object. Normal: Conveyor -> Object (Out of Conveyor)
+          // This is correct.
+          normalX = worldNormal.x;
+          normalY = worldNormal.y;
+
+          localPt = manifold.localContactPoint1(i);
+          refBody = this.body;
+        }
+
+        if (!localPt) continue;
+
+        // Calculate Tangent Direction from Normal
+        // Rotate -90 degrees (Clockwise): (x, y) -> (y, -x)
+        let tangentX = normalY;
+        let tangentY = -normalX;
+
+        // Apply direction sign
+        tangentX *= dirSign;
+        tangentY *= dirSign;
+
+        // Transform local point to World Space manually
+        const refPos = refBody.translation();
+        const refRot = refBody.rotation();
+        const sin = Math.sin(refRot);
+        const cos = Math.cos(refRot);
+
+        const worldX = (localPt.x * cos - localPt.y * sin) + refPos.x;
+        const worldY = (localPt.x * sin + localPt.y * cos) + refPos.y;
+
+        // 3. Check Velocity at this Contact Point (Manual Calculation)
+        // v_point = v_com + w x r
+        // r = point - com
+        const bodyLinVel = body.linvel();
+        const bodyAngVel = body.angvel();
+        const bodyPos = body.translation();
+
+        // r vector from COM to contact point
+        const rx = worldX - bodyPos.x;
+        const ry = worldY - bodyPos.y;
+
+        // w x r = (-w * ry, w * rx) in 2D
+        const pointVelX = bodyLinVel.x - bodyAngVel * ry;
+        const pointVelY = bodyLinVel.y + bodyAngVel * rx;
+
+        // Project velocity onto the desired tangent direction
+        const currentTanVel = pointVelX * tangentX + pointVelY * tangentY;
+
+        // 4. Apply Force if below max velocity
+        if (currentTanVel < maxVelocity) {
+          // Apply impulse at center of mass (no torque)
+          const fx = tangentX * forcePerPoint * dt;
+          const fy = tangentY * forcePerPoint * dt;
+
+          body.applyImpulse({ x: fx, y: fy }, true);
+        }
+      }
+    });
+  }
+
+  /**
+   * Get the angle of the conveyor in radians (world space)
+   */
+  getAngle(): number {
+    return -this.body.rotation(); // Invert because of Rapier coordinate system
+  }
+
+  /**
+   * Get collider handle for collision detection
+   */
+  getColliderHandle(): number {
+    return this.topCollider.handle;
+  }
+
+  /**
+   * Remove the belt from the world
+   */
+  destroy(physicsWorld: PhysicsWorld): void {
+    physicsWorld.getWorld().removeRigidBody(this.body);
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Drawn Line Body
+ * Physics of a line drawn by the player (see objects/DrawnLine for its graphics)
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+import { PhysicsWorld } from '../PhysicsWorld';
+import type { Point } from '../../utils/douglasPeucker';
+import { createLinePhysicsColliders } from '../lineColliders';
+import type { Pen } from '../../data/PenData';
+
+export class DrawnLineBody {
+  public body: RAPIER.RigidBody;
+  public colliders: RAPIER.Collider[] = [];
+  protected points: Point[];
+  protected centroid: Point;
+  protected pen: Pen;
+  private physicsWorld: PhysicsWorld;
+
+  constructor(physicsWorld: PhysicsWorld, points: Point[], pen: Pen) {
+    this.points = points;
+    this.physicsWorld = physicsWorld;
+    this.pen = pen;
+
+    // Calculate centroid for body position
+    this.centroid = this.calculateCentroid(points);
+
+    // Convert to physics coordinates
+    const physicsPos = physicsWorld.toPhysics(this.centroid.x, this.centroid.y);
+    const R = physicsWorld.getRAPIER();
+
+    // Create Rapier dynamic body
+    const rigidBodyDesc = R.RigidBodyDesc.dynamic()
+      .setTranslation(physicsPos.x, physicsPos.y)
+      .setCanSleep(false);
+
+    this.body = physicsWorld.getWorld().createRigidBody(rigidBodyDesc);
+
+    // Create physics colliders for each segment
+    this.createPhysicsSegments(this.centroid);
+  }
+
+  /**
+   * Calculate the centroid of all points
+   */
+  private calculateCentroid(points: Point[]): Point {
+    let sumX = 0;
+    let sumY = 0;
+    for (const point of points) {
+      sumX += point.x;
+      sumY += point.y;
+    }
+    return {
+      x: sumX / points.length,
+      y: sumY / points.length,
+    };
+  }
+
+  /**
+   * Create physics colliders for each line segment with matching corner styles
+   */
+  private createPhysicsSegments(centroid: Point): void {
+    const world = this.physicsWorld.getWorld();
+    const R = this.physicsWorld.getRAPIER();
+
+    this.colliders = createLinePhysicsColliders(
+      this.points,
+      centroid,
+      this.body,
+      world,
+      R,
+      this.pen.width,
+      this.pen.density,
+      this.pen.friction,
+      this.pen.restitution
+    );
+  }
+
+  /**
+   * Remove the line from the world
+   */
+  destroy(physicsWorld: PhysicsWorld): void {
+    if (this.body) {
+      physicsWorld.getWorld().removeRigidBody(this.body);
+    }
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Falling Object Body
+ * Physics of an object that stays put until play starts, then falls
+ * (see objects/FallingObject for its graphics)
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+import {
+  SCALE,
+  FALLING_OBJECT_FRICTION,
+  FALLING_OBJECT_RESTITUTION,
+  FALLING_OBJECT_DENSITY,
+  COLLISION_GROUP,
+} from '../PhysicsConfig';
+import { PhysicsWorld } from '../PhysicsWorld';
+import type { FallingObjectConfig } from '../../levels/LevelSchema';
+
+export class FallingObjectBody {
+  public body: RAPIER.RigidBody;
+  public colliders: RAPIER.Collider[] = [];
+  private physicsWorld: PhysicsWorld;
+
+  constructor(
+    physicsWorld: PhysicsWorld,
+    config: FallingObjectConfig,
+    startActive: boolean = false
+  ) {
+    this.physicsWorld = physicsWorld;
+
+    const {
+      type = 'rectangle',
+      x,
+      y,
+      width = 0,
+      height = 0,
+      angle = 0,
+      radius,
+      points
+    } = config;
+
+    // Ignore angle for circles
+    const effectiveAngle = type === 'circle' ? 0 : angle;
+
+    const world = physicsWorld.getWorld();
+    const R = physicsWorld.getRAPIER();
+
+    // Create Rapier rigid body (fixed initially, can be activated later)
+    const physicsPos = physicsWorld.toPhysics(x, y);
+    const rigidBodyDesc = startActive
+      ? R.RigidBodyDesc.dynamic()
+      : R.RigidBodyDesc.fixed();
+
+    rigidBodyDesc
+      .setTranslation(physicsPos.x, physicsPos.y)
+      .setRotation(-(effectiveAngle * Math.PI) / 180)
+      .setCanSleep(false);
+
+    this.body = world.createRigidBody(rigidBodyDesc);
+
+    switch (type) {
+      case 'circle': {
+        const r = radius || width / 2;
+        const colliderDesc = R.ColliderDesc.ball(r / SCALE)
+          .setDensity(FALLING_OBJECT_DENSITY)
+          .setFriction(FALLING_OBJECT_FRICTION)
+          .setRestitution(FALLING_OBJECT_RESTITUTION)
+          .setCollisionGroups(COLLISION_GROUP.FALLING_OBJECT);
+
+        this.colliders.push(world.createCollider(colliderDesc, this.body));
+        break;
+      }
+
+      case 'triangle': {
+        if (!points || points.length !== 3) {
+          console.error('Triangle falling object requires 3 points');
+          return;
+        }
+        const [v1, v2, v3] = points;
+
+        const vertices = new Float32Array([
+          v1.x / SCALE, -v1.y / SCALE,
+          v2.x / SCALE, -v2.y / SCALE,
+          v3.x / SCALE, -v3.y / SCALE,
+        ]);
+
+        const colliderDesc = R.ColliderDesc.convexHull(vertices);
+        if (colliderDesc) {
+          colliderDesc
+            .setDensity(FALLING_OBJECT_DENSITY)
+            .setFriction(FALLING_OBJECT_FRICTION)
+            .setRestitution(FALLING_OBJECT_RESTITUTION)
+            .setCollisionGroups(COLLISION_GROUP.FALLING_OBJECT);
+
+          this.colliders.push(world.createCollider(colliderDesc, this.body));
+        }
+        break;
+      }
+
+      case 'square':
+      case 'rectangle':
+      default: {
+        const w = (type === 'square' && width) ? width : (width || 0);
+        const h = (type === 'square' && width) ? width : (height || 0);
+
+        const colliderDesc = R.ColliderDesc.cuboid(
+          (w / 2) / SCALE,
+          (h / 2) / SCALE
+        )
+          .setDensity(FALLING_OBJECT_DENSITY)
+          .setFriction(FALLING_OBJECT_FRICTION)
+          .setRestitution(FALLING_OBJECT_RESTITUTION)
+          .setCollisionGroups(COLLISION_GROUP.FALLING_OBJECT);
+
+        this.colliders.push(world.createCollider(colliderDesc, this.body));
+        break;
+      }
+    }
+  }
+
+  activate(): void {
+    const R = this.physicsWorld.getRAPIER();
+    if (this.body.bodyType() !== R.RigidBodyType.Dynamic) {
+      this.body.setBodyType(R.RigidBodyType.Dynamic, true);
+    }
+  }
+
+  getColliderHandle(): number {
+    return this.colliders[0].handle;
+  }
+
+  destroy(physicsWorld: PhysicsWorld): void {
+    physicsWorld.getWorld().removeRigidBody(this.body);
+  }
+}
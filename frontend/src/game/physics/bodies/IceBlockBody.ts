@@ -0,0 +1,93 @@
+/**
+ * Ice Block Body
+ * Physics of an ice block and its melting once touched (see objects/IceBlock for its graphics)
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+import {
+  SCALE,
+  COLLISION_GROUP,
+} from '../PhysicsConfig';
+import { PhysicsWorld } from '../PhysicsWorld';
+import type { IceBlockConfig } from '../../levels/LevelSchema';
+
+export class IceBlockBody {
+  public body: RAPIER.RigidBody;
+  public collider: RAPIER.Collider;
+
+  private meltTime: number; // Duration in seconds
+  private isMelting: boolean = false;
+  protected meltProgress: number = 0; // 0 to 1
+
+  constructor(physicsWorld: PhysicsWorld, config: IceBlockConfig) {
+    this.meltTime = config.meltTime || 1;
+
+    const { x, y, width, height, angle = 0 } = config;
+
+    // Create physics body
+    const world = physicsWorld.getWorld();
+    const R = physicsWorld.getRAPIER();
+
+    const physicsPos = physicsWorld.toPhysics(x, y);
+    const rigidBodyDesc = R.RigidBodyDesc.fixed()
+      .setTranslation(physicsPos.x, physicsPos.y)
+      .setRotation(-(angle * Math.PI) / 180);
+
+    this.body = world.createRigidBody(rigidBodyDesc);
+
+    // Create collider
+    const colliderDesc = R.ColliderDesc.cuboid(
+      (width / 2) / SCALE,
+      (height / 2) / SCALE
+    )
+      .setCollisionGroups(COLLISION_GROUP.ICE_BLOCK)
+      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
+
+    this.collider = world.createCollider(colliderDesc, this.body);
+  }
+
+  /**
+   * Start the melting process
+   */
+  startMelting(): void {
+    if (!this.isMelting) {
+      this.isMelting = true;
+      this.meltProgress = 0;
+    }
+  }
+
+  /**
+   * Check if this ice block is currently melting
+   */
+  getIsMelting(): boolean {
+    return this.isMelting;
+  }
+
+  /**
+   * Advance melting by one fixed step
+   * @param deltaTime Time since last step in seconds
+   * @returns true if the ice block has fully melted and should be removed
+   */
+  advanceMelt(deltaTime: number): boolean {
+    if (!this.isMelting) return false;
+
+    // Update melt progress
+    this.meltProgress += deltaTime / this.meltTime;
+
+    return this.meltProgress >= 1; // Fully melted
+  }
+
+  /**
+   * Get the collider handle for collision detection
+   */
+  getColliderHandle(): number {
+    return this.collider.handle;
+  }
+
+  /**
+   * Remove the ice block from the world
+   */
+  destroy(physicsWorld: PhysicsWorld): void {
+    physicsWorld.getWorld().removeRigidBody(this.body);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Laser Body
+ * Physics of a laser: a sensor that ends the run when a ball touches it
+ * (see objects/Laser for its graphics)
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+import { PhysicsWorld } from '../PhysicsWorld';
+import { SCALE, COLLISION_GROUP, LASER_HEIGHT } from '../PhysicsConfig';
+import type { LaserConfig } from '../../levels/LevelSchema';
+
+export class LaserBody {
+  public body: RAPIER.RigidBody;
+  public collider: RAPIER.Collider;
+
+  constructor(physicsWorld: PhysicsWorld, config: LaserConfig) {
+    const { x1, y1, x2, y2 } = config;
+
+    // Calculate length
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    const angle = Math.atan2(dy, dx);
+
+    // --- Physics Setup (Sensor) ---
+    const world = physicsWorld.getWorld();
+    const R = physicsWorld.getRAPIER();
+
+    // Calculate center of the segment for physics body
+    const centerX = (x1 + x2) / 2;
+    const centerY = (y1 + y2) / 2;
+    const physicsPos = physicsWorld.toPhysics(centerX, centerY);
+
+    // Create a fixed (static) rigid body at the center
+    const rigidBodyDesc = R.RigidBodyDesc.fixed()
+      .setTranslation(physicsPos.x, physicsPos.y)
+      .setRotation(-angle); // Invert for Rapier coordinate system
+
+    this.body = world.createRigidBody(rigidBodyDesc);
+
+    // Create a cuboid collider that matches the laser shape
+    // Half-extents: length/2 for width, LASER_HEIGHT/2 for height
+    const colliderDesc = R.ColliderDesc.cuboid(
+      (length / 2) / SCALE,
+      (LASER_HEIGHT / 2) / SCALE
+    )
+      .setSensor(true) // Sensor: detects contact but doesn't block
+      .setCollisionGroups(COLLISION_GROUP.LASER)
+      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
+
+    this.collider = world.createCollider(colliderDesc, this.body);
+  }
+
+  /**
+   * Get the collider handle for collision detection
+   */
+  getColliderHandle(): number {
+    return this.collider.handle;
+  }
+
+  /**
+   * Remove the laser from the world
+   */
+  destroy(physicsWorld: PhysicsWorld): void {
+    physicsWorld.getWorld().removeRigidBody(this.body);
+  }
+}
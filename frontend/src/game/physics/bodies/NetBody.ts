@@ -0,0 +1,45 @@
+/**
+ * Net Body
+ * Physics of a net: a sensor that only blocks drawing (see objects/Net for its graphics)
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+import { PhysicsWorld } from '../PhysicsWorld';
+import { SCALE, COLLISION_GROUP } from '../PhysicsConfig';
+import type { NetConfig } from '../../levels/LevelSchema';
+
+export class NetBody {
+  public body: RAPIER.RigidBody;
+  public collider: RAPIER.Collider;
+
+  constructor(physicsWorld: PhysicsWorld, config: NetConfig) {
+    // --- Physics Setup (Sensor) ---
+    const world = physicsWorld.getWorld();
+    const R = physicsWorld.getRAPIER();
+
+    const rad = (config.angle || 0) * (Math.PI / 180);
+    const physicsPos = physicsWorld.toPhysics(config.x, config.y);
+
+    const rigidBodyDesc = R.RigidBodyDesc.fixed()
+      .setTranslation(physicsPos.x, physicsPos.y)
+      .setRotation(-rad);
+
+    this.body = world.createRigidBody(rigidBodyDesc);
+
+    const colliderDesc = R.ColliderDesc.cuboid(
+      (config.width / 2) / SCALE,
+      (config.height / 2) / SCALE
+    )
+      .setSensor(true) // Crucial: It's a sensor!
+      .setCollisionGroups(COLLISION_GROUP.NET);
+
+    this.collider = world.createCollider(colliderDesc, this.body);
+  }
+
+  /**
+   * Remove the net from the world
+   */
+  destroy(physicsWorld: PhysicsWorld): void {
+    physicsWorld.getWorld().removeRigidBody(this.body);
+  }
+}
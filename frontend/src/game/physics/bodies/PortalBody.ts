@@ -0,0 +1,107 @@
+/**
+ * Portal Body
+ * Physics of a one-way portal: a sensor at the entrance that moves bodies to the exit
+ * (see objects/Portal for its graphics)
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+import { PhysicsWorld } from '../PhysicsWorld';
+import {
+  SCALE,
+  COLLISION_GROUP,
+  PORTAL_WIDTH,
+  PORTAL_DEPTH,
+} from '../PhysicsConfig';
+import type { PortalConfig } from '../../levels/LevelSchema';
+
+export class PortalBody {
+  public body: RAPIER.RigidBody;
+  public collider: RAPIER.Collider;
+
+  // Physics space (y up, angles counter-clockwise)
+  private exitPos: { x: number, y: number };
+  private entranceNormal: { x: number, y: number };
+  private entranceTangent: { x: number, y: number };
+  private exitNormal: { x: number, y: number };
+  private exitTangent: { x: number, y: number };
+  private turn: number;       // Added to the rotation of a body passing through
+
+  constructor(physicsWorld: PhysicsWorld, config: PortalConfig) {
+    const { entrance, exit } = config;
+    const entranceAngle = ((entrance.angle || 0) * Math.PI) / 180;
+    const exitAngle = ((exit.angle || 0) * Math.PI) / 180;
+
+    // A body turns around in the portal: what moved into the entrance moves out of the exit
+    this.turn = -(exitAngle - entranceAngle + Math.PI);
+    this.entranceNormal = { x: Math.sin(entranceAngle), y: Math.cos(entranceAngle) };
+    this.entranceTangent = { x: Math.cos(entranceAngle), y: -Math.sin(entranceAngle) };
+    this.exitNormal = { x: Math.sin(exitAngle), y: Math.cos(exitAngle) };
+    this.exitTangent = { x: Math.cos(exitAngle), y: -Math.sin(exitAngle) };
+    this.exitPos = physicsWorld.toPhysics(exit.x, exit.y);
+
+    // --- Physics Setup (Sensor at the entrance only) ---
+    const world = physicsWorld.getWorld();
+    const R = physicsWorld.getRAPIER();
+
+    const physicsPos = physicsWorld.toPhysics(entrance.x, entrance.y);
+    const rigidBodyDesc = R.RigidBodyDesc.fixed()
+      .setTranslation(physicsPos.x, physicsPos.y)
+      .setRotation(-entranceAngle);
+
+    this.body = world.createRigidBody(rigidBodyDesc);
+
+    const colliderDesc = R.ColliderDesc.cuboid(
+      (PORTAL_WIDTH / 2) / SCALE,
+      (PORTAL_DEPTH / 2) / SCALE
+    )
+      .setSensor(true)
+      .setCollisionGroups(COLLISION_GROUP.PORTAL)
+      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
+
+    this.collider = world.createCollider(colliderDesc, this.body);
+  }
+
+  /**
+   * Move a body that touched the entrance to the exit.
+   * It leaves as far in front of the exit as it was in front of the entrance, turned
+   * (with its velocity) so it keeps moving the way it went in. Bodies touching the
+   * back of the entrance are left alone.
+   * @returns Whether the body was moved
+   */
+  teleport(body: RAPIER.RigidBody): boolean {
+    const entrance = this.body.translation();
+    const pos = body.translation();
+    const rx = pos.x - entrance.x;
+    const ry = pos.y - entrance.y;
+
+    const depth = rx * this.entranceNormal.x + ry * this.entranceNormal.y;
+    if (depth <= 0) return false;
+    const side = rx * this.entranceTangent.x + ry * this.entranceTangent.y;
+
+    // Turning around swaps the sides of the opening
+    body.setTranslation({
+      x: this.exitPos.x + this.exitNormal.x * depth - this.exitTangent.x * side,
+      y: this.exitPos.y + this.exitNormal.y * depth - this.exitTangent.y * side
+    }, true);
+    body.setRotation(body.rotation() + this.turn, true);
+
+    const vel = body.linvel();
+    const cos = Math.cos(this.turn), sin = Math.sin(this.turn);
+    body.setLinvel({ x: vel.x * cos - vel.y * sin, y: vel.x * sin + vel.y * cos }, true);
+    return true;
+  }
+
+  /**
+   * Get the collider handle for collision detection
+   */
+  getColliderHandle(): number {
+    return this.collider.handle;
+  }
+
+  /**
+   * Remove the portal from the world
+   */
+  destroy(physicsWorld: PhysicsWorld): void {
+    physicsWorld.getWorld().removeRigidBody(this.body);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Spring Body
+ * Physics of a bounce pad that launches bodies landing on it along its normal
+ * (see objects/Spring for its graphics)
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+import { PhysicsWorld } from '../PhysicsWorld';
+import {
+  SCALE,
+  COLLISION_GROUP,
+  SPRING_WIDTH,
+  SPRING_HEIGHT,
+  SPRING_STRENGTH,
+  SPRING_FRICTION,
+} from '../PhysicsConfig';
+import type { SpringConfig } from '../../levels/LevelSchema';
+
+const SENSOR_DEPTH = 6;     // How far above the pad a landing is detected
+
+export class SpringBody {
+  public body: RAPIER.RigidBody;
+  public colliders: RAPIER.Collider[] = [];
+
+  private strength: number;
+  private normal: { x: number, y: number };    // Physics space (y up)
+
+  constructor(physicsWorld: PhysicsWorld, config: SpringConfig) {
+    const { x, y, angle = 0, strength = SPRING_STRENGTH } = config;
+    const rad = (angle * Math.PI) / 180;
+    this.strength = strength;
+    this.normal = { x: Math.sin(rad), y: Math.cos(rad) };
+
+    // Physics setup
+    const world = physicsWorld.getWorld();
+    const R = physicsWorld.getRAPIER();
+
+    const physicsPos = physicsWorld.toPhysics(x, y);
+    const rigidBodyDesc = R.RigidBodyDesc.fixed()
+      .setTranslation(physicsPos.x, physicsPos.y)
+      .setRotation(-rad);
+
+    this.body = world.createRigidBody(rigidBodyDesc);
+
+    // Solid block so bodies land on the pad
+    const blockDesc = R.ColliderDesc.cuboid(
+      (SPRING_WIDTH / 2) / SCALE,
+      (SPRING_HEIGHT / 2) / SCALE
+    )
+      .setFriction(SPRING_FRICTION)
+      .setRestitution(0)
+      .setCollisionGroups(COLLISION_GROUP.SPRING);
+
+    this.colliders.push(world.createCollider(blockDesc, this.body));
+
+    // Sensor just above the pad
+    const sensorDesc = R.ColliderDesc.cuboid(
+      (SPRING_WIDTH / 2) / SCALE,
+      (SENSOR_DEPTH / 2) / SCALE
+    )
+      .setTranslation(0, (SPRING_HEIGHT / 2 + SENSOR_DEPTH / 2) / SCALE)
+      .setSensor(true)
+      .setCollisionGroups(COLLISION_GROUP.SPRING)
+      .setActiveEvents(RAPIER.ActiveEvents.COLLISION_EVENTS);
+
+    this.colliders.push(world.createCollider(sensorDesc, this.body));
+  }
+
+  /**
+   * Launch a body that landed on the pad: its speed along the normal becomes the
+   * spring's strength, its speed along the pad is kept. Bodies already leaving
+   * faster than that are left alone.
+   */
+  launch(body: RAPIER.RigidBody): void {
+    const vel = body.linvel();
+    const along = vel.x * this.normal.x + vel.y * this.normal.y;
+    if (along < this.strength) {
+      const change = this.strength - along;
+      body.setLinvel({
+        x: vel.x + this.normal.x * change,
+        y: vel.y + this.normal.y * change
+      }, true);
+    }
+  }
+
+  /**
+   * Get the sensor collider handle for collision detection
+   */
+  getColliderHandle(): number {
+    return this.colliders[1].handle;
+  }
+
+  /**
+   * Remove the spring from the world
+   */
+  destroy(physicsWorld: PhysicsWorld): void {
+    physicsWorld.getWorld().removeRigidBody(this.body);
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Line Colliders
+ * Builds the colliders of a drawn line with the same corner styles as its graphics
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+import { SCALE, COLLISION_GROUP } from './PhysicsConfig';
+import type { Point } from '../utils/douglasPeucker';
+import {
+  MITER_ANGLE_THRESHOLD,
+  MAX_MITER_RATIO,
+  calculateSegmentInfo,
+  calculateTurnAngle,
+  isRightTurn,
+  lineIntersection,
+  type SegmentInfo,
+} from '../utils/lineGeometry';
+
+/**
+ * Create Physics Colliders
+ */
+export function createLinePhysicsColliders(
+  points: Point[],
+  centroid: Point,
+  body: RAPIER.RigidBody,
+  world: RAPIER.World,
+  R: typeof RAPIER,
+  width: number,
+  density: number,
+  friction: number,
+  restitution: number
+): RAPIER.Collider[] {
+  const colliders: RAPIER.Collider[] = [];
+  const halfWidth = (width / 2) / SCALE;
+
+  if (points.length === 1) {
+    const x = (points[0].x - centroid.x) / SCALE;
+    const y = -(points[0].y - centroid.y) / SCALE;
+    const desc = R.ColliderDesc.ball(halfWidth)
+      .setTranslation(x, y)
+      .setDensity(density)
+      .setCollisionGroups(COLLISION_GROUP.USER_LINE);
+    colliders.push(world.createCollider(desc, body));
+    return colliders;
+  }
+
+  const segments: SegmentInfo[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    segments.push(calculateSegmentInfo(points[i], points[i + 1]));
+  }
+
+  // Segment Colliders (Cuboids)
+  for (const seg of segments) {
+    const x1 = (seg.p1.x - centroid.x) / SCALE;
+    const y1 = -(seg.p1.y - centroid.y) / SCALE;
+    const x2 = (seg.p2.x - centroid.x) / SCALE;
+    const y2 = -(seg.p2.y - centroid.y) / SCALE;
+
+    const length = seg.length / SCALE;
+    if (length < 0.001) continue;
+
+    const centerX = (x1 + x2) / 2;
+    const centerY = (y1 + y2) / 2;
+    // Rapier angle: Standard math angle from X axis.
+    // Screen angle (seg.angle) is in Y-Down.
+    // Physics is Y-Up (flipped).
+    // dx is same. dy_phys = -dy_screen.
+    // angle_phys = atan2(-dy, dx) = -angle_screen.
+    const anglePhys = -seg.angle;
+
+    const desc = R.ColliderDesc.cuboid(length / 2, halfWidth)
+      .setTranslation(centerX, centerY)
+      .setRotation(anglePhys)
+      .setRotation(anglePhys)
+      .setDensity(density)
+      .setFriction(friction)
+      .setRestitution(restitution)
+      .setCollisionGroups(COLLISION_GROUP.USER_LINE);
+
+    colliders.push(world.createCollider(desc, body));
+  }
+
+  // Vertex Balls (Start and End ONLY)
+  // We only want rounded caps at the very ends of the line.
+  // Intermediate vertices should NOT have balls, as they would fill the concave gaps
+  // that are required for sharp turns (< 30 degrees).
+  const endPoints = [points[0], points[points.length - 1]];
+  for (const p of endPoints) {
+    const x = (p.x - centroid.x) / SCALE;
+    const y = -(p.y - centroid.y) / SCALE;
+    const desc = R.ColliderDesc.ball(halfWidth)
+      .setTranslation(x, y)
+      .setDensity(density)
+      .setFriction(friction)
+      .setRestitution(restitution)
+      .setCollisionGroups(COLLISION_GROUP.USER_LINE);
+    colliders.push(world.createCollider(desc, body));
+  }
+
+  // Miter Colliders (Kite)
+  for (let i = 0; i < segments.length - 1; i++) {
+    const seg1 = segments[i];
+    const seg2 = segments[i + 1];
+
+    if (calculateTurnAngle(seg1, seg2) >= MITER_ANGLE_THRESHOLD) {
+      const centerVertex = seg1.p2;
+      const rightTurn = isRightTurn(seg1, seg2);
+      const isOuterLeft = rightTurn; // Left is Outer for Right(CW) Turn
+
+      const nx1 = isOuterLeft ? seg1.leftX : seg1.rightX;
+      const ny1 = isOuterLeft ? seg1.leftY : seg1.rightY;
+
+      const nx2 = isOuterLeft ? seg2.leftX : seg2.rightX;
+      const ny2 = isOuterLeft ? seg2.leftY : seg2.rightY;
+
+      // Calculate in Screen Pixels first
+      const outer1 = {
+        x: centerVertex.x + nx1 * (width / 2),
+        y: centerVertex.y + ny1 * (width / 2)
+      };
+
+      const outer2 = {
+        x: centerVertex.x + nx2 * (width / 2),
+        y: centerVertex.y + ny2 * (width / 2)
+      };
+
+      const dir1 = { x: seg1.dirX, y: seg1.dirY };
+      const dir2 = { x: seg2.dirX, y: seg2.dirY };
+
+      const miterPoint = lineIntersection(outer1, dir1, outer2, dir2);
+
+      if (miterPoint) {
+        const dist = Math.sqrt(Math.pow(miterPoint.x - centerVertex.x, 2) + Math.pow(miterPoint.y - centerVertex.y, 2));
+
+        if (dist <= (width / 2) * MAX_MITER_RATIO) {
+          // Convert 4 points to Physics Coords
+          // outer1, miterPoint, outer2, centerVertex
+          const scaleAndFlip = (px: number, py: number) => {
+            return [(px - centroid.x) / SCALE, -(py - centroid.y) / SCALE];
+          };
+
+          const p1 = scaleAndFlip(outer1.x, outer1.y);
+          const p2 = scaleAndFlip(miterPoint.x, miterPoint.y);
+          const p3 = scaleAndFlip(outer2.x, outer2.y);
+          const p4 = scaleAndFlip(centerVertex.x, centerVertex.y);
+
+          // Check for NaN
+          if (
+            isNaN(p1[0]) || isNaN(p1[1]) ||
+            isNaN(p2[0]) || isNaN(p2[1]) ||
+            isNaN(p3[0]) || isNaN(p3[1]) ||
+            isNaN(p4[0]) || isNaN(p4[1])
+          ) {
+            continue;
+          }
+
+          const vertices = new Float32Array([
+            p1[0], p1[1],
+            p2[0], p2[1],
+            p3[0], p3[1],
+            p4[0], p4[1]
+          ]);
+
+          // Use convexHull to create the shape
+          const desc = R.ColliderDesc.convexHull(vertices);
+
+          if (desc) {
+            desc.setDensity(density)
+              .setFriction(friction)
+              .setRestitution(restitution)
+              .setCollisionGroups(COLLISION_GROUP.USER_LINE);
+
+            try {
+              colliders.push(world.createCollider(desc, body));
+            } catch {
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return colliders;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { formatRoute, parseRoute, type Route } from './Router';
+
+describe('parseRoute', () => {
+  it('shows the menu for an empty fragment', () => {
+    for (const hash of ['', '#', '#/']) {
+      expect(parseRoute(hash), hash).toEqual({ name: 'menu' });
+    }
+  });
+
+  it('reads level, editor and user routes', () => {
+    expect(parseRoute('#/level/abc')).toEqual({ name: 'level', id: 'abc' });
+    expect(parseRoute('#/editor/draft-1')).toEqual({ name: 'editor', id: 'draft-1' });
+    expect(parseRoute('#/user/u_42')).toEqual({ name: 'user', id: 'u_42' });
+  });
+
+  it('decodes escaped ids', () => {
+    expect(parseRoute('#/level/a%2Fb%20c')).toEqual({ name: 'level', id: 'a/b c' });
+  });
+
+  it('leaves share links and other fragments alone', () => {
+    expect(parseRoute('#level=abc')).toBeNull();
+    expect(parseRoute('#top')).toBeNull();
+  });
+
+  it('rejects unknown routes, missing ids and extra segments', () => {
+    for (const hash of ['#/settings/1', '#/level', '#/level/', '#/level/abc/extra', '#/menu/x']) {
+      expect(parseRoute(hash), hash).toBeNull();
+    }
+  });
+
+  it('rejects malformed escapes', () => {
+    expect(parseRoute('#/level/%E0%A4%A')).toBeNull();
+  });
+});
+
+describe('formatRoute', () => {
+  it('round-trips through parseRoute', () => {
+    const routes: Route[] = [
+      { name: 'menu' },
+      { name: 'level', id: 'level-01' },
+      { name: 'editor', id: 'a/b c#d' },
+      { name: 'user', id: 'ユーザー' },
+    ];
+    for (const route of routes) {
+      expect(parseRoute(formatRoute(route))).toEqual(route);
+    }
+  });
+
+  it('formats the menu as the root fragment', () => {
+    expect(formatRoute({ name: 'menu' })).toBe('#/');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Router
+ * Keeps the URL fragment in step with the screen being shown, so levels can be linked to
+ * and the browser's back and forward buttons move between screens.
+ *
+ *   #/                 level selection
+ *   #/level/:id        play a level
+ *   #/editor/:id       edit one of your drafts
+ *   #/user/:id         level selection filtered by author
+ */
+
+export type Route =
+  | { name: 'menu' }
+  | { name: 'level', id: string }
+  | { name: 'editor', id: string }
+  | { name: 'user', id: string };
+
+const ID_ROUTES = ['level', 'editor', 'user'] as const;
+
+/**
+ * The route for a URL fragment. Null for fragments that are not routes
+ * (such as a `#level=` share link), which are left to their own handlers.
+ */
+export function parseRoute(hash: string): Route | null {
+  if (hash === '' || hash === '#' || hash === '#/') return { name: 'menu' };
+  if (!hash.startsWith('#/')) return null;
+
+  const [name, id, ...rest] = hash.slice(2).split('/');
+  if (rest.length > 0 || !id) return null;
+
+  const routeName = ID_ROUTES.find(routeName => routeName === name);
+  if (!routeName) return null;
+
+  try {
+    return { name: routeName, id: decodeURIComponent(id) };
+  } catch {
+    return null; // Malformed escape sequence
+  }
+}
+
+export function formatRoute(route: Route): string {
+  return route.name === 'menu' ? '#/' : `#/${route.name}/${encodeURIComponent(route.id)}`;
+}
+
+export class Router {
+  private onRoute: (route: Route) => Promise<void>;
+  private started: boolean = false;
+
+  /**
+   * @param onRoute Called when the user moves through history or opens a link,
+   *                not for routes the game sets itself
+   */
+  constructor(onRoute: (route: Route) => Promise<void>) {
+    this.onRoute = onRoute;
+  }
+
+  /**
+   * Start following history and handle the URL the game was opened with
+   */
+  public start(): void {
+    this.started = true;
+    window.addEventListener('popstate', this.handlePopState);
+    this.handlePopState();
+  }
+
+  public destroy(): void {
+    this.started = false;
+    window.removeEventListener('popstate', this.handlePopState);
+  }
+
+  /**
+   * The route in the address bar, if it holds one
+   */
+  public getRoute(): Route | null {
+    return parseRoute(window.location.hash);
+  }
+
+  /**
+   * Show `route` in the address bar. Adds a history entry unless `replace` is set
+   * or the route is already showing. Ignored before start(), so the screens shown
+   * while booting do not overwrite the link the game was opened with.
+   */
+  public navigate(route: Route, replace: boolean = false): void {
+    if (!this.started) return;
+
+    const hash = formatRoute(route);
+    const current = this.getRoute();
+    if (current && formatRoute(current) === hash) return;
+
+    const url = `${window.location.pathname}${window.location.search}${hash}`;
+    if (replace) {
+      history.replaceState(null, '', url);
+    } else {
+      history.pushState(null, '', url);
+    }
+  }
+
+  private handlePopState = (): void => {
+    const route = parseRoute(window.location.hash);
+    if (route) {
+      this.onRoute(route).catch(e => console.error('Failed to show route', e));
+    }
+  };
+}
@@ -1,7 +1,17 @@
 import type { LevelData } from '../levels/LevelSchema';
+import { migrateLevelData, needsMigration } from '../levels/LevelMigrations';
+import { validateLevelData, formatValidationErrors } from '../levels/LevelValidator';
+import { encodeReplay, decodeReplay, type Replay } from '../simulation/Replay';
+import { isBetterResult, type ClearResult } from '../levels/StarRating';
+import { MAX_PAGE_SIZE, type LevelPage, type LevelSearchQuery } from '../levels/LevelSearch';
 import type { IApiClient } from './api/IApiClient';
 import { RestApiClient } from './api/RestApiClient';
 import { MockApiClient } from './api/MockApiClient';
+import { ApiError, DraftConflictError } from './api/ApiError';
+import {
+  planDraftSync, pickConflictWinner,
+  type DraftConflict, type DraftSyncState, type RemoteDraft,
+} from '../levels/DraftSync';
 
 import { authClient, signInWithGoogle, signOut } from './auth-client';
 
@@ -9,9 +19,14 @@ export const CURRENT_USER_ID = localStorage.getItem('opendots_user_id') || 'gues
 // STORAGE KEYS for legacy or caching - better-auth handles token storage (cookies usually or local)
 // We will still cache profile for immediate display if needed, but better-auth has its own session management.
 const STORAGE_KEY_DRAFTS = 'opendots_draft_levels';
-const STORAGE_KEY_LIKES = 'opendots_user_likes';
+const STORAGE_KEY_DRAFT_SYNC = 'opendots_draft_sync';
+const STORAGE_KEY_REPLAYS = 'opendots_replays';
+const STORAGE_KEY_RESULTS = 'opendots_results';
 
 
+// Edits saved in quick succession are uploaded together
+const DRAFT_SYNC_DELAY = 2000;
+
 // Set to true to use MockApiClient (localStorage), false for RestApiClient (real backend)
 const USE_MOCK_API = import.meta.env.VITE_USE_MOCK_API === 'true';
 
@@ -27,8 +42,16 @@ export class LevelService {
   private static instance: LevelService;
   private api: IApiClient;
   private drafts: LevelData[] = [];
+  private draftSync: Record<string, DraftSyncState> = {}; // By draft ID (see DraftSync)
+  private draftSyncTimeout: ReturnType<typeof setTimeout> | null = null;
+  private draftSyncPass: Promise<void> | null = null;
+  private draftSyncRequested: boolean = false;
+
+  // Called when a draft was changed on two devices and one version was dropped
+  public onDraftConflict: ((conflict: DraftConflict) => void) | null = null;
+  // Called when a background sync changed the local drafts
+  public onDraftsChanged: (() => void) | null = null;
   private profile: UserProfile | null = null;
-  private likedLevelIds: Set<string> = new Set();
 
   private _isLoggedIn: boolean = false;
 
@@ -45,7 +68,6 @@ export class LevelService {
 
     this.checkLoginStatus();
     this.loadDrafts();
-    this.loadLikes();
   }
 
   private async checkLoginStatus(): Promise<void> {
@@ -63,6 +85,7 @@ export class LevelService {
         };
         // Legacy ID support
         localStorage.setItem('opendots_user_id', session.user.id);
+        this.syncDrafts();
       } else {
         this._isLoggedIn = false;
         this.profile = null;
@@ -94,33 +117,51 @@ export class LevelService {
   private loadDrafts(): void {
     try {
       const item = localStorage.getItem(STORAGE_KEY_DRAFTS);
-      this.drafts = item ? JSON.parse(item) : [];
+      const stored: LevelData[] = item ? JSON.parse(item) : [];
+
+      // Upgrade drafts written by older builds and persist the result
+      const outdated = stored.some(needsMigration);
+      this.drafts = this.migrateLevels(stored);
+      if (outdated) {
+        this.saveDrafts();
+      }
     } catch (e) {
       console.error('Failed to load drafts', e);
       this.drafts = [];
     }
+
+    try {
+      const item = localStorage.getItem(STORAGE_KEY_DRAFT_SYNC);
+      this.draftSync = item ? JSON.parse(item) : {};
+    } catch (e) {
+      console.error('Failed to load draft sync state', e);
+      this.draftSync = {};
+    }
+  }
+
+  /**
+   * Run the schema migration pipeline over a list of levels.
+   * Levels that cannot be upgraded (e.g. written by a newer build) are skipped.
+   */
+  private migrateLevels(levels: LevelData[]): LevelData[] {
+    const result: LevelData[] = [];
+    for (const level of levels) {
+      try {
+        result.push(migrateLevelData(level));
+      } catch (e) {
+        console.warn(`Skipping level ${level?.id}`, e);
+      }
+    }
+    return result;
   }
 
   private saveDrafts(): void {
     localStorage.setItem(STORAGE_KEY_DRAFTS, JSON.stringify(this.drafts));
+    localStorage.setItem(STORAGE_KEY_DRAFT_SYNC, JSON.stringify(this.draftSync));
   }
 
 
 
-  private loadLikes(): void {
-    try {
-      const item = localStorage.getItem(STORAGE_KEY_LIKES);
-      if (item) {
-        const ids = JSON.parse(item);
-        if (Array.isArray(ids)) {
-          this.likedLevelIds = new Set(ids);
-        }
-      }
-    } catch (e) {
-      console.error('Failed to load likes', e);
-    }
-  }
-
   public async getLevelList(forceRefresh: boolean = false): Promise<LevelData[]> {
     // 1. Fetch Remote Levels via API
     let remoteLevels: LevelData[] = [];
@@ -131,7 +172,10 @@ export class LevelService {
       remoteLevels = this.remoteLevelsCache;
     } else {
       try {
-        remoteLevels = await this.api.getLevels();
+        // The latest page; LevelSelectionUI fetches older levels with searchLevels as needed.
+        // Drafts edited on other devices are fetched alongside.
+        const [page] = await Promise.all([this.api.getLevels({ limit: MAX_PAGE_SIZE }), this.syncDrafts()]);
+        remoteLevels = this.migrateLevels(page.levels);
         this.remoteLevelsCache = remoteLevels;
         this.remoteCacheTime = now;
       } catch (error) {
@@ -140,12 +184,20 @@ export class LevelService {
     }
 
     // 2. Combine with Drafts
-    const processedRemote = remoteLevels.map(l => ({
-      ...l,
-      isLikedByCurrentUser: this.likedLevelIds.has(l.id)
-    }));
+    return [...this.drafts, ...remoteLevels];
+  }
 
-    return [...this.drafts, ...processedRemote];
+  /**
+   * One page of the published levels matching a search (pass the previous page's
+   * nextCursor in the query for the next one). Unlike getLevelList this reaches
+   * levels older than the latest page, so it is not cached.
+   */
+  public async searchLevels(query: LevelSearchQuery): Promise<LevelPage> {
+    const page = await this.api.searchLevels(query);
+    return {
+      levels: this.migrateLevels(page.levels),
+      nextCursor: page.nextCursor,
+    };
   }
 
   public async getLevelData(levelId: string): Promise<LevelData | null> {
@@ -162,10 +214,7 @@ export class LevelService {
 
       const level = await this.api.getLevel(levelId);
       if (level) {
-        return {
-          ...level,
-          isLikedByCurrentUser: this.likedLevelIds.has(level.id)
-        };
+        return migrateLevelData(level);
       }
     } catch (error) {
       console.error('Failed to fetch level data', error);
@@ -179,13 +228,34 @@ export class LevelService {
       // Or allow local drafts for guests. Let's allow local drafts for guests.
       // But they can't publish.
     }
+    level.updatedAt = Date.now();
     const index = this.drafts.findIndex(l => l.id === level.id);
     if (index >= 0) {
       this.drafts[index] = level;
     } else {
       this.drafts.push(level);
     }
+    this.draftSync[level.id] = { version: this.draftSync[level.id]?.version ?? null, dirty: true };
     this.saveDrafts();
+    this.scheduleDraftSync();
+  }
+
+  /**
+   * Add a shared level (see LevelShare) as a new draft of the current user
+   */
+  public async importLevel(level: LevelData): Promise<LevelData> {
+    const draft: LevelData = {
+      ...level,
+      id: `custom_${Date.now()}`,
+      author: 'Me',
+      authorId: CURRENT_USER_ID,
+      createdAt: Date.now(),
+      likes: 0,
+      isPublished: false,
+      authorPassed: false,
+    };
+    await this.saveLocalDraft(draft);
+    return draft;
   }
 
   public async loginWithGoogle(_credential: string): Promise<void> {
@@ -219,14 +289,27 @@ export class LevelService {
       throw new Error('Level not found in drafts');
     }
 
+    // Catch malformed levels before the server rejects them
+    const validation = validateLevelData(draft);
+    if (!validation.valid) {
+      throw new Error(`Invalid level data:\n${formatValidationErrors(validation.errors)}`);
+    }
+
+    // The server re-simulates this replay as proof that the level can be cleared
+    const replay = this.getReplay(levelId);
+    if (!replay) {
+      throw new ApiError(422, 'No solution replay saved for this level', 'missing_replay');
+    }
+
     try {
       // Publish level (uploads data together with publish request)
-      await this.api.publishLevel(draft);
+      await this.api.publishLevel(draft, replay);
 
       // Remove from local drafts since it's now on server
       const index = this.drafts.findIndex(l => l.id === levelId);
       if (index >= 0) {
         this.drafts.splice(index, 1);
+        delete this.draftSync[levelId];
         this.saveDrafts();
       }
 
@@ -253,6 +336,13 @@ export class LevelService {
     const draftIndex = this.drafts.findIndex(l => l.id === levelId);
     if (draftIndex >= 0) {
       this.drafts.splice(draftIndex, 1);
+      // A copy on the server is deleted by the next sync
+      if (this.draftSync[levelId]?.version != null) {
+        this.draftSync[levelId] = { ...this.draftSync[levelId], deleted: true };
+        this.scheduleDraftSync();
+      } else {
+        delete this.draftSync[levelId];
+      }
       this.saveDrafts();
       return;
     }
@@ -262,36 +352,215 @@ export class LevelService {
       await this.api.deleteLevel(levelId);
       this.remoteLevelsCache = null;
     } catch (error) {
-      console.warn('Failed to delete remote level', error);
+      console.error('Delete failed', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Like or unlike a level. `level` is updated right away and takes the count
+   * from the server once it answers; on failure it is restored and the error rethrown.
+   */
+  public async setLike(level: LevelData, liked: boolean): Promise<void> {
+    const previous = { liked: !!level.isLikedByCurrentUser, likes: level.likes || 0 };
+    const apply = (state: { liked: boolean, likes: number }) => {
+      // The cached listing may hold its own copy of the level
+      const cached = this.remoteLevelsCache?.find(l => l.id === level.id);
+      for (const target of cached && cached !== level ? [level, cached] : [level]) {
+        target.isLikedByCurrentUser = state.liked;
+        target.likes = state.likes;
+      }
+    };
+
+    if (previous.liked !== liked) {
+      apply({ liked, likes: Math.max(0, previous.likes + (liked ? 1 : -1)) });
+    }
+
+    try {
+      apply({ liked, likes: await this.api.setLike(level.id, liked) });
+    } catch (e) {
+      apply(previous);
+      throw e;
     }
   }
 
-  public async toggleLike(levelId: string): Promise<boolean> {
-    const isLiked = this.likedLevelIds.has(levelId);
-    const newStatus = !isLiked;
+  // ==================== Draft Sync ====================
 
-    // Optimistic update
-    if (newStatus) {
-      this.likedLevelIds.add(levelId);
-    } else {
-      this.likedLevelIds.delete(levelId);
+  /**
+   * Bring the drafts on this device and on the server in step (see DraftSync).
+   * Only drafts of the signed-in user are synced; guests' drafts stay on the device.
+   * Resolves once done; failures are logged and retried on the next sync.
+   */
+  public syncDrafts(): Promise<void> {
+    if (this.draftSyncPass) {
+      // Changes made during a pass are picked up by another one
+      this.draftSyncRequested = true;
+      return this.draftSyncPass;
     }
-    localStorage.setItem(STORAGE_KEY_LIKES, JSON.stringify(Array.from(this.likedLevelIds)));
 
-    // Sync with backend (fire and forget)
+    this.draftSyncPass = this.runDraftSync().finally(() => {
+      this.draftSyncPass = null;
+      if (this.draftSyncRequested) {
+        this.draftSyncRequested = false;
+        this.syncDrafts();
+      }
+    });
+    return this.draftSyncPass;
+  }
+
+  /**
+   * Add the version of a conflicting draft that was dropped back as a separate draft
+   */
+  public async keepBothDrafts(conflict: DraftConflict): Promise<LevelData> {
+    const copy: LevelData = {
+      ...JSON.parse(JSON.stringify(conflict.discarded)),
+      id: `custom_${Date.now()}`,
+      isPublished: false,
+    };
+    await this.saveLocalDraft(copy);
+    this.onDraftsChanged?.();
+    return copy;
+  }
+
+  private scheduleDraftSync(): void {
+    if (!this._isLoggedIn) return;
+    if (this.draftSyncTimeout) clearTimeout(this.draftSyncTimeout);
+    this.draftSyncTimeout = setTimeout(() => {
+      this.draftSyncTimeout = null;
+      this.syncDrafts();
+    }, DRAFT_SYNC_DELAY);
+  }
+
+  private async runDraftSync(): Promise<void> {
+    const userId = this.profile?.id;
+    if (!this._isLoggedIn || !userId) return;
+
+    let remote: RemoteDraft[];
     try {
-      await this.api.toggleLike(levelId);
+      remote = await this.api.getDrafts();
     } catch (e) {
-      // Revert on failure
-      if (newStatus) {
-        this.likedLevelIds.delete(levelId);
+      console.warn('Failed to fetch drafts', e);
+      return;
+    }
+
+    const local = this.drafts.filter(l => l.authorId === userId);
+    const plan = planDraftSync(local, this.draftSync, remote);
+    let changed = plan.pull.length > 0 || plan.remove.length > 0;
+
+    for (const draft of plan.pull) {
+      // Saved here while fetching: compared again on the next pass
+      if (this.draftSync[draft.level.id]?.dirty) continue;
+      this.storeRemoteDraft(draft);
+    }
+
+    for (const id of plan.remove) {
+      this.drafts = this.drafts.filter(l => l.id !== id);
+      delete this.draftSync[id];
+    }
+
+    for (const { local: level, remote: server } of plan.conflicts) {
+      if (this.resolveDraftConflict(level, server) === 'local') {
+        plan.push.push(level.id);
       } else {
-        this.likedLevelIds.add(levelId);
+        changed = true;
+      }
+    }
+
+    for (const id of plan.deleteRemote) {
+      try {
+        await this.api.deleteLevel(id);
+        delete this.draftSync[id];
+      } catch (e) {
+        console.warn(`Failed to delete draft ${id} on the server`, e);
+      }
+    }
+
+    // Forget deletions that already reached the server some other way
+    const remoteIds = new Set(remote.map(draft => draft.level.id));
+    for (const [id, state] of Object.entries(this.draftSync)) {
+      if (state.deleted && !remoteIds.has(id)) delete this.draftSync[id];
+    }
+    this.saveDrafts();
+
+    for (const id of plan.push) {
+      if (await this.pushDraft(id)) changed = true;
+    }
+
+    if (changed) this.onDraftsChanged?.();
+  }
+
+  /**
+   * Upload a draft. Returns true if the local drafts changed (a conflict was
+   * resolved in favour of the server, or the level was published elsewhere).
+   */
+  private async pushDraft(id: string, retry: boolean = true): Promise<boolean> {
+    const level = this.drafts.find(l => l.id === id);
+    const state = this.draftSync[id];
+    if (!level || (state && !state.dirty)) return false;
+
+    const editedAt = level.updatedAt;
+    try {
+      const version = await this.api.saveDraft(level, state?.version ?? null);
+      // Saved again while uploading: still to be uploaded
+      this.draftSync[id] = { version, dirty: level.updatedAt !== editedAt };
+      this.saveDrafts();
+      return false;
+    } catch (e) {
+      if (e instanceof DraftConflictError) {
+        // Changed on another device between fetching and uploading
+        if (this.resolveDraftConflict(level, e.remote) === 'remote') return true;
+        return retry ? this.pushDraft(id, false) : false;
       }
-      localStorage.setItem(STORAGE_KEY_LIKES, JSON.stringify(Array.from(this.likedLevelIds)));
+      if (e instanceof ApiError && e.reason === 'published') {
+        // Published from another device: keep the edits made here as a new draft
+        this.drafts = this.drafts.filter(l => l !== level);
+        delete this.draftSync[id];
+        this.saveDrafts();
+        await this.saveLocalDraft({ ...level, id: `custom_${Date.now()}` });
+        return true;
+      }
+      console.warn(`Failed to upload draft ${id}`, e);
+      return false;
+    }
+  }
+
+  /**
+   * Keep the copy edited last and report the conflict. The local copy, when
+   * it wins, is marked to be uploaded over the server's version.
+   */
+  private resolveDraftConflict(level: LevelData, server: RemoteDraft): 'local' | 'remote' {
+    const winner = pickConflictWinner(level, server.level);
+    if (winner === 'local') {
+      this.draftSync[level.id] = { version: server.version, dirty: true };
+      this.saveDrafts();
+      this.onDraftConflict?.({ kept: level, discarded: server.level });
+    } else {
+      this.storeRemoteDraft(server);
+      this.onDraftConflict?.({ kept: server.level, discarded: level });
     }
+    return winner;
+  }
 
-    return newStatus;
+  /**
+   * Store the server's copy of a draft in place of the local one
+   */
+  private storeRemoteDraft(draft: RemoteDraft): void {
+    let level: LevelData;
+    try {
+      level = migrateLevelData(draft.level);
+    } catch (e) {
+      console.warn(`Skipping draft ${draft.level.id}`, e);
+      return;
+    }
+
+    const index = this.drafts.findIndex(l => l.id === level.id);
+    if (index >= 0) {
+      this.drafts[index] = level;
+    } else {
+      this.drafts.push(level);
+    }
+    this.draftSync[level.id] = { version: draft.version, dirty: false };
+    this.saveDrafts();
   }
 
   // ==================== User Profile ====================
@@ -324,14 +593,94 @@ export class LevelService {
     }
   }
 
-  public async recordClear(levelId: string): Promise<void> {
+  public async recordClear(levelId: string, replay: Replay): Promise<void> {
+    // Clears are counted once per signed-in player
+    if (!this._isLoggedIn && !USE_MOCK_API) return;
     try {
-      await this.api.recordClear(levelId);
+      await this.api.recordClear(levelId, replay);
     } catch (e) {
       console.warn('Failed to record clear', e);
     }
   }
 
+  // ==================== Replays ====================
+
+  /**
+   * Store the latest winning replay for a level (one per level, newest wins)
+   */
+  public saveReplay(replay: Replay): void {
+    try {
+      const replays = this.loadReplays();
+      replays[replay.levelId] = encodeReplay(replay);
+      localStorage.setItem(STORAGE_KEY_REPLAYS, JSON.stringify(replays));
+    } catch (e) {
+      console.warn('Failed to save replay', e);
+    }
+  }
+
+  public getReplay(levelId: string): Replay | null {
+    const encoded = this.loadReplays()[levelId];
+    if (!encoded) return null;
+    try {
+      return decodeReplay(encoded);
+    } catch (e) {
+      console.warn(`Discarding unreadable replay for ${levelId}`, e);
+      return null;
+    }
+  }
+
+  private loadReplays(): Record<string, string> {
+    try {
+      const item = localStorage.getItem(STORAGE_KEY_REPLAYS);
+      return item ? JSON.parse(item) : {};
+    } catch (e) {
+      console.error('Failed to load replays', e);
+      return {};
+    }
+  }
+
+  // ==================== Results ====================
+
+  /**
+   * Keep a clear result if it beats the best one stored for the level.
+   * Returns true if it is a new best.
+   */
+  public saveClearResult(levelId: string, result: ClearResult): boolean {
+    const results = this.loadResults();
+    if (!isBetterResult(result, results[levelId])) return false;
+
+    results[levelId] = result;
+    try {
+      localStorage.setItem(STORAGE_KEY_RESULTS, JSON.stringify(results));
+    } catch (e) {
+      console.warn('Failed to save result', e);
+    }
+    return true;
+  }
+
+  public getBestResult(levelId: string): ClearResult | null {
+    return this.loadResults()[levelId] || null;
+  }
+
+  /**
+   * Best stars earned on a level, on this device or (when logged in) on the server.
+   * Returns 0 if the level has not been cleared.
+   */
+  public getBestStars(level: LevelData): number {
+    const local = this.getBestResult(level.id)?.stars || 0;
+    return Math.max(local, level.bestStars || 0);
+  }
+
+  private loadResults(): Record<string, ClearResult> {
+    try {
+      const item = localStorage.getItem(STORAGE_KEY_RESULTS);
+      return item ? JSON.parse(item) : {};
+    } catch (e) {
+      console.error('Failed to load results', e);
+      return {};
+    }
+  }
+
   // ==================== Events ====================
   private listeners: (() => void)[] = [];
 
@@ -0,0 +1,53 @@
+import type { TranslationKey } from '../../i18n/LanguageManager';
+import type { RemoteDraft } from '../../levels/DraftSync';
+
+/**
+ * Error thrown by API clients when the server rejects a request.
+ * Keeps the HTTP status so the UI can tell auth failures apart.
+ */
+export class ApiError extends Error {
+  public readonly status: number;
+  public readonly reason?: string;   // Machine-readable cause sent by the server, if any
+  public readonly body?: any;        // Parsed JSON error body, if any
+
+  constructor(status: number, message: string, reason?: string, body?: any) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.reason = reason;
+    this.body = body;
+  }
+}
+
+/**
+ * A draft upload based on an outdated copy (409): the draft was changed on
+ * another device since. Carries the server's copy to resolve the conflict with.
+ */
+export class DraftConflictError extends ApiError {
+  public readonly remote: RemoteDraft;
+
+  constructor(remote: RemoteDraft) {
+    super(409, 'API Error 409: Draft was changed on another device', 'draft_conflict');
+    this.name = 'DraftConflictError';
+    this.remote = remote;
+  }
+}
+
+/**
+ * Map any error from an API call to a user-facing translation key
+ */
+export function getApiErrorKey(error: unknown): TranslationKey {
+  if (error instanceof ApiError) {
+    if (error.status === 401) return 'error.unauthorized';
+    if (error.status === 403) return 'error.forbidden';
+    if (error.status === 404) return 'error.not_found';
+    if (error.status === 422) {
+      // Replay verification failed (see ReplayVerifier)
+      if (error.reason === 'missing_replay') return 'error.replay_missing';
+      if (error.reason === 'not_cleared') return 'error.replay_not_cleared';
+      return 'error.replay_invalid';
+    }
+    if (error.status === 503) return 'error.verification_unavailable';
+  }
+  return 'error.generic';
+}
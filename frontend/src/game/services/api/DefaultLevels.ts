@@ -1,4 +1,5 @@
 import type { LevelData } from '../../levels/LevelSchema';
+import { migrateLevelData } from '../../levels/LevelMigrations';
 import level1 from '../../levels/level1.json';
 import level2 from '../../levels/level2.json';
 import level3 from '../../levels/level3.json';
@@ -19,7 +20,7 @@ export function getDefaultLevels(): LevelData[] {
   const now = Date.now();
 
   const addMetadata = (level: any, index: number): LevelData => ({
-    ...level,
+    ...migrateLevelData(level),
     author: OFFICIAL_USER_NAME,
     authorId: OFFICIAL_USER_ID,
     createdAt: now - (7 - index) * 86400000, // Stagger creation dates
@@ -1,5 +1,8 @@
 import type { LevelData } from '../../levels/LevelSchema';
 import type { UserProfile } from '../LevelService';
+import type { Replay } from '../../simulation/Replay';
+import type { LevelPage, LevelPageRequest, LevelSearchQuery } from '../../levels/LevelSearch';
+import type { RemoteDraft } from '../../levels/DraftSync';
 
 /**
  * Unified API Interface
@@ -10,9 +13,15 @@ export interface IApiClient {
   // ==================== Levels ====================
 
   /**
-   * Get all public levels from the server.
+   * Get one page of public levels from the server.
+   * Pass the previous page's nextCursor to get the next page.
    */
-  getLevels(): Promise<LevelData[]>;
+  getLevels(request?: LevelPageRequest): Promise<LevelPage>;
+
+  /**
+   * Get one page of the published levels matching a search, paged like getLevels.
+   */
+  searchLevels(query: LevelSearchQuery): Promise<LevelPage>;
 
   /**
    * Get a specific level by ID.
@@ -21,31 +30,52 @@ export interface IApiClient {
 
   /**
    * Publish a level (upload and make it public).
-   * The level data is sent along with the publish request.
+   * The level data and a replay proving it can be cleared are sent along with the request.
+   * Rejects with an ApiError (401/403) if the user may not publish this id,
+   * or 422 if the replay does not clear the level.
    */
-  publishLevel(level: LevelData): Promise<void>;
+  publishLevel(level: LevelData, replay: Replay): Promise<void>;
 
   /**
    * Unpublish / take down a level.
+   * Rejects with an ApiError (401/403) if the user is not the author.
    */
   unpublishLevel(levelId: string): Promise<void>;
 
   /**
    * Delete a level permanently.
+   * Rejects with an ApiError (401/403) if the user is not the author.
    */
   deleteLevel(levelId: string): Promise<void>;
 
   /**
-   * Toggle like status for a level.
-   * Returns the new like status (true = liked).
+   * Like or unlike a level as the current user. Setting the state it already
+   * has changes nothing. Returns the level's new like count.
+   * Rejects with an ApiError (401) if not signed in.
    */
-  toggleLike(levelId: string): Promise<boolean>;
+  setLike(levelId: string, liked: boolean): Promise<number>;
 
   /**
    * Get like count for a level.
    */
   getLikeCount(levelId: string): Promise<number>;
 
+  // ==================== Drafts ====================
+
+  /**
+   * Get the current user's drafts stored on the server.
+   * Rejects with an ApiError (401) if not signed in.
+   */
+  getDrafts(): Promise<RemoteDraft[]>;
+
+  /**
+   * Store a draft on the server and return its new version.
+   * `baseVersion` is the version the draft was last in step with (null for a new draft);
+   * rejects with a DraftConflictError if the server copy changed since, and with an
+   * ApiError (409, reason 'published') if the level has been published.
+   */
+  saveDraft(level: LevelData, baseVersion: number | null): Promise<number>;
+
   // ==================== Users ====================
 
   /**
@@ -74,9 +104,9 @@ export interface IApiClient {
   getUser(userId: string): Promise<UserProfile | null>;
 
   /**
-   * Get levels created by a specific user.
+   * Get one page of the levels published by a specific user, paged like getLevels.
    */
-  getUserLevels(userId: string): Promise<LevelData[]>;
+  getUserLevels(userId: string, request?: LevelPageRequest): Promise<LevelPage>;
 
   // ==================== Stats ====================
 
@@ -87,6 +117,9 @@ export interface IApiClient {
 
   /**
    * Record a level clear.
+   * Only counted if the replay clears the level (422 otherwise).
+   * The server rates the replay and keeps the current user's best stars,
+   * returned as `bestStars` on levels.
    */
-  recordClear(levelId: string): Promise<void>;
+  recordClear(levelId: string, replay: Replay): Promise<void>;
 }
@@ -3,12 +3,24 @@ import type { LevelData } from '../../levels/LevelSchema';
 import type { UserProfile } from '../LevelService';
 import { CURRENT_USER_ID } from '../LevelService';
 import { getDefaultLevels, OFFICIAL_USER_ID, OFFICIAL_USER_NAME } from './DefaultLevels';
+import { ApiError, DraftConflictError } from './ApiError';
+import { migrateLevelData } from '../../levels/LevelMigrations';
+import { encodeReplay, type Replay } from '../../simulation/Replay';
+import { getClearStats, rateClear } from '../../levels/StarRating';
+import { verifyReplay } from '../../simulation/ReplayVerifier';
+import {
+  matchesLevelSearch, pageLevels,
+  type LevelPage, type LevelPageRequest, type LevelSearchQuery,
+} from '../../levels/LevelSearch';
+import type { RemoteDraft } from '../../levels/DraftSync';
 
 const STORAGE_KEY_LEVELS = 'opendots_mock_levels';
 const STORAGE_KEY_USERS = 'opendots_mock_users';
 const STORAGE_KEY_LIKES = 'opendots_mock_user_likes';
 const STORAGE_KEY_STATS = 'opendots_mock_stats';
 const STORAGE_KEY_SEEDED = 'opendots_mock_seeded';
+const STORAGE_KEY_BEST_STARS = 'opendots_mock_best_stars';
+const STORAGE_KEY_DRAFT_VERSIONS = 'opendots_mock_draft_versions';
 
 /**
  * Mock API Client Implementation
@@ -19,6 +31,8 @@ export class MockApiClient implements IApiClient {
   private users: Map<string, UserProfile> = new Map();
   private userLikes: Set<string> = new Set(); // levelIds liked by current user
   private stats: Map<string, { attempts: number; clears: number }> = new Map();
+  private bestStars: Map<string, number> = new Map(); // levelId -> current user's best stars
+  private draftVersions: Map<string, number> = new Map(); // levelId -> version of an unpublished level
 
   constructor() {
     this.loadFromStorage();
@@ -50,6 +64,18 @@ export class MockApiClient implements IApiClient {
         const obj = JSON.parse(statsData);
         Object.entries(obj).forEach(([k, v]) => this.stats.set(k, v as any));
       }
+
+      const bestStarsData = localStorage.getItem(STORAGE_KEY_BEST_STARS);
+      if (bestStarsData) {
+        const obj = JSON.parse(bestStarsData);
+        Object.entries(obj).forEach(([k, v]) => this.bestStars.set(k, v as number));
+      }
+
+      const draftVersionsData = localStorage.getItem(STORAGE_KEY_DRAFT_VERSIONS);
+      if (draftVersionsData) {
+        const obj = JSON.parse(draftVersionsData);
+        Object.entries(obj).forEach(([k, v]) => this.draftVersions.set(k, v as number));
+      }
     } catch (e) {
       console.error('MockApiClient: Failed to load from storage', e);
     }
@@ -93,25 +119,70 @@ export class MockApiClient implements IApiClient {
     localStorage.setItem(STORAGE_KEY_USERS, JSON.stringify(Array.from(this.users.values())));
     localStorage.setItem(STORAGE_KEY_LIKES, JSON.stringify(Array.from(this.userLikes)));
     localStorage.setItem(STORAGE_KEY_STATS, JSON.stringify(Object.fromEntries(this.stats)));
+    localStorage.setItem(STORAGE_KEY_BEST_STARS, JSON.stringify(Object.fromEntries(this.bestStars)));
+    localStorage.setItem(STORAGE_KEY_DRAFT_VERSIONS, JSON.stringify(Object.fromEntries(this.draftVersions)));
   }
 
   private delay(ms: number = 100): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
-  // ==================== Levels ====================
+  /**
+   * Mirror the backend ownership check: only the author may modify a level
+   */
+  private assertOwner(level: LevelData | undefined): void {
+    if (level && level.authorId && level.authorId !== CURRENT_USER_ID) {
+      throw new ApiError(403, 'API Error 403: Forbidden: Not the level author');
+    }
+  }
 
-  async getLevels(): Promise<LevelData[]> {
-    await this.delay();
+  /**
+   * Mirror the backend proof of clear: re-simulate the replay and reject it if it does not win
+   */
+  private async assertReplayClears(level: LevelData, replay: Replay): Promise<void> {
+    const verification = await verifyReplay(migrateLevelData(level), encodeReplay(replay));
+    if (!verification.verified) {
+      throw new ApiError(422, `API Error 422: ${verification.message}`, verification.reason);
+    }
+  }
+
+  /**
+   * Published levels with the current user's state, as the backend lists them
+   */
+  private getPublishedLevels(): LevelData[] {
     return Array.from(this.levels.values())
       .filter(l => l.isPublished)
       .map(l => ({
         ...l,
         isLikedByCurrentUser: this.userLikes.has(l.id),
+        bestStars: this.bestStars.get(l.id),
         ...this.stats.get(l.id),
       }));
   }
 
+  /**
+   * Mirror the backend paging, including its 400 for a malformed cursor
+   */
+  private page(levels: LevelData[], request: LevelPageRequest): LevelPage {
+    try {
+      return pageLevels(levels, request);
+    } catch (e: any) {
+      throw new ApiError(400, `API Error 400: ${e.message}`);
+    }
+  }
+
+  // ==================== Levels ====================
+
+  async getLevels(request: LevelPageRequest = {}): Promise<LevelPage> {
+    await this.delay();
+    return this.page(this.getPublishedLevels(), request);
+  }
+
+  async searchLevels(query: LevelSearchQuery): Promise<LevelPage> {
+    await this.delay();
+    return this.page(this.getPublishedLevels().filter(l => matchesLevelSearch(l, query)), query);
+  }
+
   async getLevel(levelId: string): Promise<LevelData | null> {
     await this.delay();
     const level = this.levels.get(levelId);
@@ -119,52 +190,65 @@ export class MockApiClient implements IApiClient {
     return {
       ...level,
       isLikedByCurrentUser: this.userLikes.has(levelId),
+      bestStars: this.bestStars.get(levelId),
       ...this.stats.get(levelId),
     };
   }
 
-  async publishLevel(level: LevelData): Promise<void> {
+  async publishLevel(level: LevelData, replay: Replay): Promise<void> {
     await this.delay();
+    this.assertOwner(this.levels.get(level.id));
+    await this.assertReplayClears(level, replay);
     const toSave = {
       ...level,
+      authorPassed: true,
       isPublished: true,
       createdAt: level.createdAt || Date.now(),
     };
     this.levels.set(level.id, toSave);
+    this.draftVersions.delete(level.id);
     this.saveToStorage();
   }
 
   async unpublishLevel(levelId: string): Promise<void> {
     await this.delay();
     const level = this.levels.get(levelId);
+    this.assertOwner(level);
     if (level) {
       level.isPublished = false;
+      this.draftVersions.set(levelId, Date.now()); // Back among the author's drafts
       this.saveToStorage();
     }
   }
 
   async deleteLevel(levelId: string): Promise<void> {
     await this.delay();
+    this.assertOwner(this.levels.get(levelId));
     this.levels.delete(levelId);
     this.stats.delete(levelId);
+    this.draftVersions.delete(levelId);
     this.saveToStorage();
   }
 
-  async toggleLike(levelId: string): Promise<boolean> {
+  async setLike(levelId: string, liked: boolean): Promise<number> {
     await this.delay();
-    const isLiked = this.userLikes.has(levelId);
     const level = this.levels.get(levelId);
-
-    if (isLiked) {
-      this.userLikes.delete(levelId);
-      if (level) level.likes = Math.max(0, (level.likes || 0) - 1);
-    } else {
-      this.userLikes.add(levelId);
-      if (level) level.likes = (level.likes || 0) + 1;
+    if (!level?.isPublished) {
+      throw new ApiError(404, 'API Error 404: Level not found');
     }
 
-    this.saveToStorage();
-    return !isLiked;
+    // Mirror the backend: setting the current state changes nothing
+    if (liked !== this.userLikes.has(levelId)) {
+      if (liked) {
+        this.userLikes.add(levelId);
+        level.likes = (level.likes || 0) + 1;
+      } else {
+        this.userLikes.delete(levelId);
+        level.likes = Math.max(0, (level.likes || 0) - 1);
+      }
+      this.saveToStorage();
+    }
+    return level.likes || 0;
   }
 
   async getLikeCount(levelId: string): Promise<number> {
@@ -172,6 +256,36 @@ export class MockApiClient implements IApiClient {
     return this.levels.get(levelId)?.likes || 0;
   }
 
+  // ==================== Drafts ====================
+
+  async getDrafts(): Promise<RemoteDraft[]> {
+    await this.delay();
+    return Array.from(this.levels.values())
+      .filter(l => !l.isPublished && l.authorId === CURRENT_USER_ID)
+      .map(l => ({ level: l, version: this.draftVersions.get(l.id) ?? 0 }));
+  }
+
+  async saveDraft(level: LevelData, baseVersion: number | null): Promise<number> {
+    await this.delay();
+    const existing = this.levels.get(level.id);
+    this.assertOwner(existing);
+
+    // Mirror the backend: never overwrite a published level or a newer copy
+    if (existing?.isPublished) {
+      throw new ApiError(409, 'API Error 409: Level is published', 'published');
+    }
+    const current = this.draftVersions.get(level.id) ?? 0;
+    if (existing && current !== baseVersion) {
+      throw new DraftConflictError({ level: existing, version: current });
+    }
+
+    const version = Math.max(Date.now(), current + 1);
+    this.levels.set(level.id, { ...level, authorId: CURRENT_USER_ID, isPublished: false });
+    this.draftVersions.set(level.id, version);
+    this.saveToStorage();
+    return version;
+  }
+
   // ==================== Users ====================
 
   async getCurrentUser(): Promise<UserProfile> {
@@ -193,14 +307,9 @@ export class MockApiClient implements IApiClient {
     return this.users.get(userId) || null;
   }
 
-  async getUserLevels(userId: string): Promise<LevelData[]> {
+  async getUserLevels(userId: string, request: LevelPageRequest = {}): Promise<LevelPage> {
     await this.delay();
-    return Array.from(this.levels.values())
-      .filter(l => l.authorId === userId && l.isPublished)
-      .map(l => ({
-        ...l,
-        isLikedByCurrentUser: this.userLikes.has(l.id),
-      }));
+    return this.page(this.getPublishedLevels().filter(l => l.authorId === userId), request);
   }
 
   // ==================== Stats ====================
@@ -213,11 +322,23 @@ export class MockApiClient implements IApiClient {
     this.saveToStorage();
   }
 
-  async recordClear(levelId: string): Promise<void> {
+  async recordClear(levelId: string, replay: Replay): Promise<void> {
     await this.delay();
-    const current = this.stats.get(levelId) || { attempts: 0, clears: 0 };
-    current.clears++;
-    this.stats.set(levelId, current);
+    const level = this.levels.get(levelId);
+    if (!level) {
+      throw new ApiError(404, 'API Error 404: Level not found');
+    }
+    await this.assertReplayClears(level, replay);
+
+    // Mirror the backend: the player's first clear counts, then the verified replay
+    // is rated and the best stars kept
+    if (!this.bestStars.has(levelId)) {
+      const current = this.stats.get(levelId) || { attempts: 0, clears: 0 };
+      current.clears++;
+      this.stats.set(levelId, current);
+    }
+    const stars = rateClear(level.starThresholds, getClearStats(replay.strokes, replay.frame));
+    this.bestStars.set(levelId, Math.max(stars, this.bestStars.get(levelId) || 0));
     this.saveToStorage();
   }
 
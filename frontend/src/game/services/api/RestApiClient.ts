@@ -2,6 +2,10 @@ import type { IApiClient } from './IApiClient';
 import type { LevelData } from '../../levels/LevelSchema';
 import type { UserProfile } from '../LevelService';
 import { API_BASE_URL } from '../../config';
+import { ApiError, DraftConflictError } from './ApiError';
+import { encodeReplay, type Replay } from '../../simulation/Replay';
+import { toSearchParams, type LevelPage, type LevelPageRequest, type LevelSearchQuery } from '../../levels/LevelSearch';
+import type { RemoteDraft } from '../../levels/DraftSync';
 
 /**
  * REST API Client Implementation
@@ -46,7 +50,9 @@ export class RestApiClient implements IApiClient {
 
     if (!response.ok) {
       const error = await response.text().catch(() => response.statusText);
-      throw new Error(`API Error ${response.status}: ${error}`);
+      const body = this.parseErrorBody(error);
+      const reason = typeof body?.reason === 'string' ? body.reason : undefined;
+      throw new ApiError(response.status, `API Error ${response.status}: ${error}`, reason, body);
     }
 
     // Handle empty responses
@@ -54,10 +60,25 @@ export class RestApiClient implements IApiClient {
     return text ? JSON.parse(text) : (undefined as unknown as T);
   }
 
+  /**
+   * Parse a JSON error body (with its machine-readable `reason`), if it is one
+   */
+  private parseErrorBody(body: string): any {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return undefined;
+    }
+  }
+
   // ==================== Levels ====================
 
-  async getLevels(): Promise<LevelData[]> {
-    return this.request<LevelData[]>('/levels');
+  async getLevels(request: LevelPageRequest = {}): Promise<LevelPage> {
+    return this.request<LevelPage>(`/levels?${toSearchParams(request)}`);
+  }
+
+  async searchLevels(query: LevelSearchQuery): Promise<LevelPage> {
+    return this.request<LevelPage>(`/levels/search?${toSearchParams(query)}`);
   }
 
   async getLevel(levelId: string): Promise<LevelData | null> {
@@ -69,10 +90,10 @@ export class RestApiClient implements IApiClient {
     }
   }
 
-  async publishLevel(level: LevelData): Promise<void> {
+  async publishLevel(level: LevelData, replay: Replay): Promise<void> {
     await this.request<void>(`/levels/${level.id}/publish`, {
       method: 'POST',
-      body: JSON.stringify(level),
+      body: JSON.stringify({ level, replay: encodeReplay(replay) }),
     });
   }
 
@@ -88,11 +109,12 @@ export class RestApiClient implements IApiClient {
     });
   }
 
-  async toggleLike(levelId: string): Promise<boolean> {
-    const result = await this.request<{ liked: boolean }>(`/levels/${levelId}/like`, {
+  async setLike(levelId: string, liked: boolean): Promise<number> {
+    const result = await this.request<{ liked: boolean; likes: number }>(`/levels/${levelId}/like`, {
       method: 'POST',
+      body: JSON.stringify({ liked }),
     });
-    return result.liked;
+    return result.likes;
   }
 
   async getLikeCount(levelId: string): Promise<number> {
@@ -100,6 +122,28 @@ export class RestApiClient implements IApiClient {
     return result.count;
   }
 
+  // ==================== Drafts ====================
+
+  async getDrafts(): Promise<RemoteDraft[]> {
+    const result = await this.request<{ drafts: RemoteDraft[] }>('/users/me/drafts');
+    return result.drafts;
+  }
+
+  async saveDraft(level: LevelData, baseVersion: number | null): Promise<number> {
+    try {
+      const result = await this.request<{ version: number }>(`/users/me/drafts/${level.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ level, baseVersion }),
+      });
+      return result.version;
+    } catch (e) {
+      if (e instanceof ApiError && e.reason === 'draft_conflict' && e.body?.draft) {
+        throw new DraftConflictError(e.body.draft);
+      }
+      throw e;
+    }
+  }
+
   // ==================== Users ====================
 
   async getCurrentUser(): Promise<UserProfile> {
@@ -122,8 +166,8 @@ export class RestApiClient implements IApiClient {
     }
   }
 
-  async getUserLevels(userId: string): Promise<LevelData[]> {
-    return this.request<LevelData[]>(`/users/${userId}/levels`);
+  async getUserLevels(userId: string, request: LevelPageRequest = {}): Promise<LevelPage> {
+    return this.request<LevelPage>(`/users/${userId}/levels?${toSearchParams(request)}`);
   }
 
   // ==================== Auth ====================
@@ -151,9 +195,10 @@ export class RestApiClient implements IApiClient {
     });
   }
 
-  async recordClear(levelId: string): Promise<void> {
+  async recordClear(levelId: string, replay: Replay): Promise<void> {
     await this.request<void>(`/levels/${levelId}/clear`, {
       method: 'POST',
+      body: JSON.stringify({ replay: encodeReplay(replay) }),
     });
   }
 }
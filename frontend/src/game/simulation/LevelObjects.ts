@@ -0,0 +1,106 @@
+/**
+ * Level Objects
+ * How a level's objects get built. The rules only need the physics bodies
+ * (physics/bodies); the game and replay playback pass a factory that builds
+ * the object classes with graphics instead (objects/LevelVisuals).
+ */
+
+import { PhysicsWorld } from '../physics/PhysicsWorld';
+import { BallBody, type BallType } from '../physics/bodies/BallBody';
+import { ObstacleBody } from '../physics/bodies/ObstacleBody';
+import { FallingObjectBody } from '../physics/bodies/FallingObjectBody';
+import { NetBody } from '../physics/bodies/NetBody';
+import { IceBlockBody } from '../physics/bodies/IceBlockBody';
+import { LaserBody } from '../physics/bodies/LaserBody';
+import { SeesawBody } from '../physics/bodies/SeesawBody';
+import { ConveyorBeltBody } from '../physics/bodies/ConveyorBeltBody';
+import { ButtonBody } from '../physics/bodies/ButtonBody';
+import { PortalBody } from '../physics/bodies/PortalBody';
+import { SpringBody } from '../physics/bodies/SpringBody';
+import { DrawnLineBody } from '../physics/bodies/DrawnLineBody';
+import type { Pen } from '../data/PenData';
+import type { Point } from '../utils/douglasPeucker';
+import type {
+  ObstacleConfig,
+  FallingObjectConfig,
+  NetConfig,
+  IceBlockConfig,
+  LaserConfig,
+  SeesawConfig,
+  ConveyorBeltConfig,
+  ButtonConfig,
+  PortalConfig,
+  SpringConfig,
+} from '../levels/LevelSchema';
+
+/**
+ * The class used for each kind of object
+ */
+export interface LevelObjectTypes {
+  ball: BallBody;
+  obstacle: ObstacleBody;
+  fallingObject: FallingObjectBody;
+  net: NetBody;
+  iceBlock: IceBlockBody;
+  laser: LaserBody;
+  seesaw: SeesawBody;
+  conveyor: ConveyorBeltBody;
+  button: ButtonBody;
+  portal: PortalBody;
+  spring: SpringBody;
+  drawnLine: DrawnLineBody;
+}
+
+/**
+ * The objects of a running level, one list per kind
+ */
+export interface LevelObjects<T extends LevelObjectTypes = LevelObjectTypes> {
+  balls: T['ball'][];
+  obstacles: T['obstacle'][];
+  fallingObjects: T['fallingObject'][];
+  nets: T['net'][];
+  iceBlocks: T['iceBlock'][];
+  lasers: T['laser'][];
+  seesaws: T['seesaw'][];
+  conveyors: T['conveyor'][];
+  buttons: T['button'][];
+  portals: T['portal'][];
+  springs: T['spring'][];
+  drawnLines: T['drawnLine'][];
+}
+
+/**
+ * Creates each kind of object. Balls and falling objects start fixed and are activated when play starts.
+ */
+export interface LevelObjectFactory<T extends LevelObjectTypes = LevelObjectTypes> {
+  ball(physicsWorld: PhysicsWorld, x: number, y: number, type: BallType): T['ball'];
+  obstacle(physicsWorld: PhysicsWorld, config: ObstacleConfig): T['obstacle'];
+  fallingObject(physicsWorld: PhysicsWorld, config: FallingObjectConfig): T['fallingObject'];
+  net(physicsWorld: PhysicsWorld, config: NetConfig): T['net'];
+  iceBlock(physicsWorld: PhysicsWorld, config: IceBlockConfig): T['iceBlock'];
+  laser(physicsWorld: PhysicsWorld, config: LaserConfig): T['laser'];
+  seesaw(physicsWorld: PhysicsWorld, config: SeesawConfig): T['seesaw'];
+  conveyor(physicsWorld: PhysicsWorld, config: ConveyorBeltConfig): T['conveyor'];
+  button(physicsWorld: PhysicsWorld, config: ButtonConfig): T['button'];
+  portal(physicsWorld: PhysicsWorld, config: PortalConfig): T['portal'];
+  spring(physicsWorld: PhysicsWorld, config: SpringConfig): T['spring'];
+  drawnLine(physicsWorld: PhysicsWorld, points: Point[], pen: Pen): T['drawnLine'];
+}
+
+/**
+ * Physics bodies only, for headless runs
+ */
+export const bodyFactory: LevelObjectFactory = {
+  ball: (physicsWorld, x, y, type) => new BallBody(physicsWorld, x, y, type, false),
+  obstacle: (physicsWorld, config) => new ObstacleBody(physicsWorld, config),
+  fallingObject: (physicsWorld, config) => new FallingObjectBody(physicsWorld, config, false),
+  net: (physicsWorld, config) => new NetBody(physicsWorld, config),
+  iceBlock: (physicsWorld, config) => new IceBlockBody(physicsWorld, config),
+  laser: (physicsWorld, config) => new LaserBody(physicsWorld, config),
+  seesaw: (physicsWorld, config) => new SeesawBody(physicsWorld, config),
+  conveyor: (physicsWorld, config) => new ConveyorBeltBody(physicsWorld, config),
+  button: (physicsWorld, config) => new ButtonBody(physicsWorld, config),
+  portal: (physicsWorld, config) => new PortalBody(physicsWorld, config),
+  spring: (physicsWorld, config) => new SpringBody(physicsWorld, config),
+  drawnLine: (physicsWorld, points, pen) => new DrawnLineBody(physicsWorld, points, pen),
+};
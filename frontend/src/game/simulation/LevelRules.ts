@@ -0,0 +1,450 @@
+/**
+ * Level Rules
+ * What happens on each fixed step of a level: moving obstacles, conveyor
+ * pushes, the physics step, collisions (the win, lasers, buttons, ice,
+ * portals, springs), balls leaving the level, and timed object state
+ * (sinking buttons, melting ice, fallen lines).
+ *
+ * Game and LevelSimulator both play levels through this class, which is what
+ * lets the server re-simulate a replay recorded in the game.
+ */
+
+import RAPIER from '@dimforge/rapier2d-compat';
+import { PhysicsWorld } from '../physics/PhysicsWorld';
+import type { BallType } from '../physics/bodies/BallBody';
+import { bodyFactory, type LevelObjectTypes, type LevelObjects, type LevelObjectFactory } from './LevelObjects';
+import type { LevelBounds, LevelData } from '../levels/LevelSchema';
+import type { Pen } from '../data/PenData';
+import type { Point } from '../utils/douglasPeucker';
+import { getLevelBounds, isOutOfBounds, getDrawnLineBoundary } from '../levels/LevelBounds';
+import { BALL_RADIUS } from '../physics/PhysicsConfig';
+
+export interface LevelOutcome {
+  outcome: 'win' | 'loss';
+  cause: 'ball_collision' | 'laser' | 'out_of_bounds';
+  ball?: BallType;    // The ball that was lost (loss only)
+  position: Point;    // Where it happened in design coordinates: between the balls, or the lost ball
+}
+
+export class LevelRules<T extends LevelObjectTypes = LevelObjectTypes> implements LevelObjects<T> {
+  private physicsWorld: PhysicsWorld;
+  private level: LevelData;
+  private objects: LevelObjectFactory<T>;
+  private bounds: LevelBounds;
+
+  public balls: T['ball'][] = [];
+  public obstacles: T['obstacle'][] = [];
+  public fallingObjects: T['fallingObject'][] = [];
+  public nets: T['net'][] = [];
+  public iceBlocks: T['iceBlock'][] = [];
+  public lasers: T['laser'][] = [];
+  public seesaws: T['seesaw'][] = [];
+  public conveyors: T['conveyor'][] = [];
+  public buttons: T['button'][] = [];
+  public portals: T['portal'][] = [];
+  public springs: T['spring'][] = [];
+  public drawnLines: T['drawnLine'][] = [];
+
+  // Collision handle mapping
+  private ballColliderHandles: Map<number, T['ball']> = new Map();
+  private iceBlockColliderHandles: Map<number, T['iceBlock']> = new Map();
+  private laserColliderHandles: Map<number, T['laser']> = new Map();
+  private conveyorHandles: Map<number, T['conveyor']> = new Map();
+  private drawnLineColliderHandles: Map<number, T['drawnLine']> = new Map();
+  private fallingObjectColliderHandles: Map<number, T['fallingObject']> = new Map();
+  private seesawColliderHandles: Map<number, T['seesaw']> = new Map();
+  private buttonColliderHandles: Map<number, T['button']> = new Map();
+  private portalColliderHandles: Map<number, T['portal']> = new Map();
+  private springColliderHandles: Map<number, T['spring']> = new Map();
+  private activeConveyorContacts: { body: RAPIER.RigidBody, objectColliderHandle: number, conveyor: T['conveyor'] }[] = [];
+
+  private outcome: LevelOutcome | null = null;
+
+  /**
+   * @param level Migrated and valid level data
+   * @param objects How objects are built (default: physics bodies only)
+   */
+  constructor(physicsWorld: PhysicsWorld, level: LevelData, objects?: LevelObjectFactory<T>) {
+    this.physicsWorld = physicsWorld;
+    this.level = level;
+    this.objects = (objects ?? bodyFactory) as LevelObjectFactory<T>;
+    this.bounds = getLevelBounds(level);
+  }
+
+  /**
+   * Create all level objects. Balls and falling objects stay fixed until start().
+   */
+  spawn(): void {
+    const data = this.level;
+
+    const { blue, pink } = data.balls;
+    const blueBall = this.objects.ball(this.physicsWorld, blue.x, blue.y, 'blue');
+    const pinkBall = this.objects.ball(this.physicsWorld, pink.x, pink.y, 'pink');
+    this.balls.push(blueBall, pinkBall);
+    this.ballColliderHandles.set(blueBall.getColliderHandle(), blueBall);
+    this.ballColliderHandles.set(pinkBall.getColliderHandle(), pinkBall);
+
+    for (const config of data.obstacles) {
+      this.obstacles.push(this.objects.obstacle(this.physicsWorld, config));
+    }
+
+    for (const config of data.fallingObjects || []) {
+      const obj = this.objects.fallingObject(this.physicsWorld, config);
+      this.fallingObjects.push(obj);
+      this.fallingObjectColliderHandles.set(obj.getColliderHandle(), obj);
+    }
+
+    for (const config of data.nets || []) {
+      this.nets.push(this.objects.net(this.physicsWorld, config));
+    }
+
+    for (const config of data.iceBlocks || []) {
+      const iceBlock = this.objects.iceBlock(this.physicsWorld, config);
+      this.iceBlocks.push(iceBlock);
+      this.iceBlockColliderHandles.set(iceBlock.getColliderHandle(), iceBlock);
+    }
+
+    for (const config of data.lasers || []) {
+      const laser = this.objects.laser(this.physicsWorld, config);
+      this.lasers.push(laser);
+      this.laserColliderHandles.set(laser.getColliderHandle(), laser);
+    }
+
+    for (const config of data.seesaws || []) {
+      const seesaw = this.objects.seesaw(this.physicsWorld, config);
+      this.seesaws.push(seesaw);
+      this.seesawColliderHandles.set(seesaw.getColliderHandle(), seesaw);
+    }
+
+    for (const config of data.conveyors || []) {
+      const conveyor = this.objects.conveyor(this.physicsWorld, config);
+      this.conveyors.push(conveyor);
+      this.conveyorHandles.set(conveyor.getColliderHandle(), conveyor);
+    }
+
+    for (const config of data.buttons || []) {
+      const button = this.objects.button(this.physicsWorld, config);
+      this.buttons.push(button);
+      for (const handle of button.getColliderHandles()) {
+        this.buttonColliderHandles.set(handle, button);
+      }
+    }
+
+    for (const config of data.portals || []) {
+      const portal = this.objects.portal(this.physicsWorld, config);
+      this.portals.push(portal);
+      this.portalColliderHandles.set(portal.getColliderHandle(), portal);
+    }
+
+    for (const config of data.springs || []) {
+      const spring = this.objects.spring(this.physicsWorld, config);
+      this.springs.push(spring);
+      this.springColliderHandles.set(spring.getColliderHandle(), spring);
+    }
+
+    // Force update of physics query acceleration structures
+    // (drawing checks run against them before the first step)
+    this.physicsWorld.getWorld().updateSceneQueries();
+  }
+
+  /**
+   * Add a line the player drew
+   */
+  addLine(points: Point[], pen: Pen): T['drawnLine'] {
+    const line = this.objects.drawnLine(this.physicsWorld, points, pen);
+    this.drawnLines.push(line);
+    // Register all colliders for conveyor, portal and spring detection
+    for (const collider of line.colliders) {
+      this.drawnLineColliderHandles.set(collider.handle, line);
+    }
+    return line;
+  }
+
+  /**
+   * Let the balls and falling objects move (once the first line is drawn)
+   */
+  start(): void {
+    this.balls.forEach(ball => ball.activate());
+    this.fallingObjects.forEach(obj => obj.activate());
+  }
+
+  /**
+   * Advance the level by one fixed step.
+   * Returns the outcome once the level is won or lost, null while it is still in play.
+   */
+  step(dt: number): LevelOutcome | null {
+    if (this.outcome) return this.outcome;
+
+    // Move obstacles along their paths (the step carries them there)
+    for (const obstacle of this.obstacles) {
+      obstacle.advancePath(dt);
+    }
+
+    // Apply seesaw spring forces BEFORE physics step
+    for (const seesaw of this.seesaws) {
+      seesaw.applyForces();
+    }
+
+    // Apply continuous conveyor forces
+    for (const contact of this.activeConveyorContacts) {
+      contact.conveyor.applyAcceleration(this.physicsWorld, contact.body, contact.objectColliderHandle, dt);
+    }
+
+    this.physicsWorld.step(dt);
+
+    this.processCollisions();
+    if (!this.outcome) this.checkBoundaries();
+    if (!this.outcome) this.updateTimedObjects(dt);
+
+    return this.outcome;
+  }
+
+  getOutcome(): LevelOutcome | null {
+    return this.outcome;
+  }
+
+  /**
+   * Remove all objects from the physics world (and their graphics, if they have any)
+   */
+  destroy(): void {
+    const destroyAll = (objects: { destroy(physicsWorld: PhysicsWorld): void }[]) => {
+      objects.forEach(obj => obj.destroy(this.physicsWorld));
+    };
+    destroyAll(this.balls);
+    destroyAll(this.obstacles);
+    destroyAll(this.fallingObjects);
+    destroyAll(this.nets);
+    destroyAll(this.iceBlocks);
+    destroyAll(this.lasers);
+    destroyAll(this.seesaws);
+    destroyAll(this.conveyors);
+    destroyAll(this.buttons);
+    destroyAll(this.portals);
+    destroyAll(this.springs);
+    destroyAll(this.drawnLines);
+    this.balls = [];
+    this.obstacles = [];
+    this.fallingObjects = [];
+    this.nets = [];
+    this.iceBlocks = [];
+    this.lasers = [];
+    this.seesaws = [];
+    this.conveyors = [];
+    this.buttons = [];
+    this.portals = [];
+    this.springs = [];
+    this.drawnLines = [];
+    this.ballColliderHandles.clear();
+    this.iceBlockColliderHandles.clear();
+    this.laserColliderHandles.clear();
+    this.conveyorHandles.clear();
+    this.drawnLineColliderHandles.clear();
+    this.fallingObjectColliderHandles.clear();
+    this.seesawColliderHandles.clear();
+    this.buttonColliderHandles.clear();
+    this.portalColliderHandles.clear();
+    this.springColliderHandles.clear();
+    this.activeConveyorContacts = [];
+  }
+
+  private win(ball1: T['ball'], ball2: T['ball']): void {
+    const pos1 = ball1.body.translation();
+    const pos2 = ball2.body.translation();
+    const position = this.physicsWorld.toPixels((pos1.x + pos2.x) / 2, (pos1.y + pos2.y) / 2);
+    this.outcome = { outcome: 'win', cause: 'ball_collision', position };
+  }
+
+  /**
+   * End the level with a lost ball, which leaves the world
+   */
+  private lose(ball: T['ball'], cause: LevelOutcome['cause']): void {
+    const pos = ball.body.translation();
+    const position = this.physicsWorld.toPixels(pos.x, pos.y);
+    this.outcome = { outcome: 'loss', cause, ball: ball.type, position };
+
+    ball.destroy(this.physicsWorld);
+    this.balls.splice(this.balls.indexOf(ball), 1);
+    this.ballColliderHandles.delete(ball.getColliderHandle());
+    this.activeConveyorContacts = this.activeConveyorContacts.filter(c => c.body !== ball.body);
+  }
+
+  /**
+   * Process collision events from Rapier
+   */
+  private processCollisions(): void {
+    const eventQueue = this.physicsWorld.getEventQueue();
+    // A body touching an entrance with several colliders only goes through once
+    const teleported = new Set<RAPIER.RigidBody>();
+
+    eventQueue.drainCollisionEvents((handle1, handle2, started) => {
+      // Nothing changes once the level is decided
+      if (this.outcome) return;
+
+      if (started) {
+        const ball1 = this.ballColliderHandles.get(handle1);
+        const ball2 = this.ballColliderHandles.get(handle2);
+
+        // Both colliders are balls (blue and pink)
+        if (ball1 && ball2) {
+          this.win(ball1, ball2);
+          return;
+        }
+
+        // Anything touching an ice block starts melting it
+        const iceBlock1 = this.iceBlockColliderHandles.get(handle1);
+        const iceBlock2 = this.iceBlockColliderHandles.get(handle2);
+        if (iceBlock1 && !iceBlock1.getIsMelting()) iceBlock1.startMelting();
+        if (iceBlock2 && !iceBlock2.getIsMelting()) iceBlock2.startMelting();
+
+        // Lasers destroy balls
+        const laser1 = this.laserColliderHandles.get(handle1);
+        const laser2 = this.laserColliderHandles.get(handle2);
+        if ((laser1 && ball2) || (laser2 && ball1)) {
+          this.lose((ball1 || ball2)!, 'laser');
+          return;
+        }
+
+        // Balls press buttons
+        const button1 = this.buttonColliderHandles.get(handle1);
+        const button2 = this.buttonColliderHandles.get(handle2);
+        if ((button1 && ball2) || (button2 && ball1)) {
+          this.triggerButtonPress();
+        }
+
+        // Portal entrances touched by balls, falling objects or drawn lines
+        const portal1 = this.portalColliderHandles.get(handle1);
+        const portal2 = this.portalColliderHandles.get(handle2);
+        const portal = portal1 || portal2;
+        if (portal && !(portal1 && portal2)) {
+          const body = this.getMovableBody(portal1 ? handle2 : handle1);
+          if (body && !teleported.has(body) && portal.teleport(body)) {
+            teleported.add(body);
+          }
+        }
+
+        // Springs landed on by balls, falling objects or drawn lines
+        const spring1 = this.springColliderHandles.get(handle1);
+        const spring2 = this.springColliderHandles.get(handle2);
+        const spring = spring1 || spring2;
+        if (spring && !(spring1 && spring2)) {
+          const body = this.getMovableBody(spring1 ? handle2 : handle1);
+          if (body) spring.launch(body);
+        }
+      }
+
+      // Conveyor contacts with balls, drawn lines, falling objects and seesaws
+      const conv1 = this.conveyorHandles.get(handle1);
+      const conv2 = this.conveyorHandles.get(handle2);
+      const conveyor = conv1 || conv2;
+      if (!conveyor || (conv1 && conv2)) return;
+
+      const otherHandle = conv1 ? handle2 : handle1;
+      const body = this.ballColliderHandles.get(otherHandle)?.body
+        || this.drawnLineColliderHandles.get(otherHandle)?.body
+        || this.fallingObjectColliderHandles.get(otherHandle)?.body
+        || this.seesawColliderHandles.get(otherHandle)?.plankBody;
+      if (!body) return;
+
+      if (started) {
+        // Avoid duplicates for exactly the same pair
+        const exists = this.activeConveyorContacts.some(
+          c => c.objectColliderHandle === otherHandle && c.conveyor === conveyor
+        );
+        if (!exists) {
+          this.activeConveyorContacts.push({ body, conveyor, objectColliderHandle: otherHandle });
+        }
+      } else {
+        this.activeConveyorContacts = this.activeConveyorContacts.filter(
+          c => c.objectColliderHandle !== otherHandle || c.conveyor !== conveyor
+        );
+      }
+    });
+  }
+
+  /**
+   * The ball, falling object or drawn line a collider belongs to (what portals and springs move)
+   */
+  private getMovableBody(handle: number): RAPIER.RigidBody | undefined {
+    return this.ballColliderHandles.get(handle)?.body
+      || this.fallingObjectColliderHandles.get(handle)?.body
+      || this.drawnLineColliderHandles.get(handle)?.body;
+  }
+
+  /**
+   * Lose a ball that left the level (in design coordinates)
+   */
+  private checkBoundaries(): void {
+    const margin = BALL_RADIUS * 2;
+
+    for (const ball of this.balls) {
+      const pos = ball.body.translation();
+      const { x, y } = this.physicsWorld.toPixels(pos.x, pos.y);
+
+      if (isOutOfBounds(x, y, this.bounds, margin)) {
+        this.lose(ball, 'out_of_bounds');
+        return;
+      }
+    }
+  }
+
+  /**
+   * Advance button sinking, ice melting and fallen line cleanup by one fixed step
+   */
+  private updateTimedObjects(dt: number): void {
+    // Buttons (sink animation)
+    for (const button of [...this.buttons]) {
+      button.advanceSink(dt);
+    }
+
+    // Drawn lines: remove once the center of mass is half a screen below the bottom
+    const drawnLineBoundary = getDrawnLineBoundary(this.bounds);
+    for (let i = this.drawnLines.length - 1; i >= 0; i--) {
+      const line = this.drawnLines[i];
+      const pos = line.body.translation();
+      if (this.physicsWorld.toPixels(pos.x, pos.y).y > drawnLineBoundary) {
+        for (const collider of line.colliders) {
+          this.drawnLineColliderHandles.delete(collider.handle);
+        }
+        this.activeConveyorContacts = this.activeConveyorContacts.filter(c => c.body !== line.body);
+        line.destroy(this.physicsWorld);
+        this.drawnLines.splice(i, 1);
+      }
+    }
+
+    // Ice blocks (melting and removal)
+    for (let i = this.iceBlocks.length - 1; i >= 0; i--) {
+      const iceBlock = this.iceBlocks[i];
+      if (iceBlock.advanceMelt(dt)) {
+        this.iceBlockColliderHandles.delete(iceBlock.getColliderHandle());
+        iceBlock.destroy(this.physicsWorld);
+        this.iceBlocks.splice(i, 1);
+      }
+    }
+  }
+
+  /**
+   * Remove all lasers and sink all buttons
+   */
+  private triggerButtonPress(): void {
+    // Immediately destroy all lasers
+    for (const laser of this.lasers) {
+      laser.destroy(this.physicsWorld);
+    }
+    this.lasers = [];
+    this.laserColliderHandles.clear();
+
+    for (const button of this.buttons) {
+      button.triggerSink(() => {
+        // Remove button after sink animation completes
+        button.destroy(this.physicsWorld);
+        const index = this.buttons.indexOf(button);
+        if (index > -1) {
+          this.buttons.splice(index, 1);
+        }
+        for (const handle of button.getColliderHandles()) {
+          this.buttonColliderHandles.delete(handle);
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { LevelSimulator, type SimulationStroke } from './LevelSimulator';
+import { getDefaultLevels } from '../services/api/DefaultLevels';
+import type { Point } from '../utils/douglasPeucker';
+
+type Vertex = [number, number];
+
+// A pencil stroke through the given corners, with points about as far apart as DrawingManager keeps them
+const stroke = (...corners: Vertex[]): SimulationStroke => {
+  const points: Point[] = [{ x: corners[0][0], y: corners[0][1] }];
+  for (let i = 1; i < corners.length; i++) {
+    const [x1, y1] = corners[i - 1];
+    const [x2, y2] = corners[i];
+    const steps = Math.max(1, Math.floor(Math.hypot(x2 - x1, y2 - y1) / 18));
+    for (let j = 1; j <= steps; j++) {
+      points.push({ x: x1 + (x2 - x1) * j / steps, y: y1 + (y2 - y1) * j / steps });
+    }
+  }
+  return { penId: 'pencil', points, frame: 0 };
+};
+
+// A known solution for each built-in level. These replay the same rules as the game, so a change that
+// breaks one of them changes how levels play (or how recorded replays verify).
+const SOLUTIONS: Record<string, SimulationStroke[]> = {
+  'level-01': [stroke([300, 290], [500, 350])],
+  'level-02': [stroke([480, 520], [680, 560])],
+  'level-03': [stroke([750, 83], [710, 439])],
+  'level-04': [stroke([528, 585], [810, 591])],
+  'level-05': [
+    // A stand that rolls blue onto the first ice block, and a shelf that tips pink off the diamond once the middle block melts
+    stroke([611, 645], [453, 594], [185, 645], [185, 318], [300, 332], [405, 340]),
+    stroke([1040, 314], [1010, 334], [950, 334], [828, 327], [648, 342], [607, 342], [626, 150]),
+  ],
+  'level-06': [
+    stroke([160, 645], [160, 380], [360, 645]),
+    stroke([1140, 645], [1140, 450], [950, 645]),
+  ],
+  'level-07': [
+    stroke([160, 673], [160, 400], [360, 673]),
+    stroke([1120, 673], [1120, 400], [920, 673]),
+  ],
+};
+
+describe('LevelSimulator', () => {
+  for (const level of getDefaultLevels()) {
+    it(`wins ${level.id} with a known solution`, async () => {
+      const strokes = SOLUTIONS[level.id];
+      expect(strokes, `no solution for ${level.id}`).toBeDefined();
+
+      const result = await LevelSimulator.run(level, strokes, { maxFrames: 1200 });
+      expect(result).toMatchObject({ outcome: 'win', cause: 'ball_collision' });
+    });
+  }
+});
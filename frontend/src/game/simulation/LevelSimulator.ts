@@ -0,0 +1,206 @@
+/**
+ * Level Simulator
+ * Runs a level headlessly (no canvas, no ticker) at a fixed timestep.
+ *
+ * Given a level and the strokes a player drew, the simulator plays the level
+ * through the same LevelRules as Game.fixedUpdate, frame by frame, and
+ * reports how the attempt ended. By default it only builds physics bodies;
+ * pass options.objects to build objects with graphics (see ReplayPlayer).
+ */
+
+import { PhysicsWorld } from '../physics/PhysicsWorld';
+import type { BallType } from '../physics/bodies/BallBody';
+import type { LevelObjectTypes, LevelObjects, LevelObjectFactory } from './LevelObjects';
+import { LevelRules } from './LevelRules';
+import { PENS, isPenAllowed } from '../data/PenData';
+import type { LevelData } from '../levels/LevelSchema';
+import type { Point } from '../utils/douglasPeucker';
+import { migrateLevelData } from '../levels/LevelMigrations';
+import { validateLevelData, formatValidationErrors } from '../levels/LevelValidator';
+import { strokeInk, INK_TOLERANCE } from '../levels/InkBudget';
+import { FIXED_TIMESTEP } from '../physics/PhysicsConfig';
+
+/**
+ * A line drawn by the player
+ */
+export interface SimulationStroke {
+  penId: string;
+  points: Point[];  // Design coordinates, as produced by DrawingManager
+  frame: number;    // Fixed steps since the game started when the stroke was completed
+}
+
+export type SimulationOutcome = 'win' | 'loss' | 'timeout';
+export type SimulationCause = 'ball_collision' | 'laser' | 'out_of_bounds' | 'timeout' | 'over_budget' | 'pen_not_allowed';
+
+export interface SimulationResult {
+  outcome: SimulationOutcome;
+  cause: SimulationCause;
+  frame: number;      // Fixed step on which the outcome was decided
+  ball?: BallType;    // The ball that was lost (loss only)
+}
+
+export interface SimulationOptions<T extends LevelObjectTypes = LevelObjectTypes> {
+  maxFrames?: number;                 // Give up after this many steps (default: 60 seconds)
+  objects?: LevelObjectFactory<T>;    // How level objects are built (default: physics bodies only)
+}
+
+const DEFAULT_MAX_FRAMES = Math.round(60 / FIXED_TIMESTEP);
+
+export class LevelSimulator<T extends LevelObjectTypes = LevelObjectTypes> {
+  private physicsWorld: PhysicsWorld;
+  private level: LevelData;
+  private options: SimulationOptions<T>;
+  private rules: LevelRules<T>;
+
+  private pendingStrokes: SimulationStroke[] = [];
+  private inkUsed: number = 0;
+  private strokesUsed: number = 0;
+  private frame: number = 0;
+  private hasStarted: boolean = false;
+  private result: SimulationResult | null = null;
+
+  constructor(level: LevelData, options: SimulationOptions<T> = {}) {
+    const migrated = migrateLevelData(level);
+    const validation = validateLevelData(migrated);
+    if (!validation.valid) {
+      throw new Error(`Invalid level data:\n${formatValidationErrors(validation.errors)}`);
+    }
+
+    this.level = migrated;
+    this.options = options;
+    this.physicsWorld = new PhysicsWorld();
+    this.rules = new LevelRules(this.physicsWorld, migrated, options.objects);
+  }
+
+  /**
+   * Run a level to completion with the given strokes
+   */
+  static async run(level: LevelData, strokes: SimulationStroke[], options: SimulationOptions = {}): Promise<SimulationResult> {
+    const simulator = new LevelSimulator(level, options);
+    await simulator.init();
+    try {
+      strokes.forEach(stroke => simulator.addStroke(stroke));
+      let result = simulator.getResult();
+      while (!result) {
+        result = simulator.step();
+      }
+      return result;
+    } finally {
+      simulator.destroy();
+    }
+  }
+
+  /**
+   * Create the physics world and spawn all level objects
+   */
+  async init(): Promise<void> {
+    await this.physicsWorld.init();
+    this.rules.spawn();
+  }
+
+  /**
+   * Queue a stroke. It is added to the world right before its frame is stepped.
+   */
+  addStroke(stroke: SimulationStroke): void {
+    if (!PENS.some(p => p.id === stroke.penId)) {
+      throw new Error(`Unknown pen: ${stroke.penId}`);
+    }
+    if (stroke.points.length < 1) {
+      throw new Error('A stroke needs at least 1 point');
+    }
+    this.pendingStrokes.push(stroke);
+    this.pendingStrokes.sort((a, b) => a.frame - b.frame);
+  }
+
+  /**
+   * Advance the simulation by one fixed step.
+   * Returns the result once the attempt is decided, null otherwise.
+   */
+  step(): SimulationResult | null {
+    if (this.result) return this.result;
+
+    // Spawn strokes completed on this frame (or earlier, if added late)
+    while (!this.result && this.pendingStrokes.length > 0 && this.pendingStrokes[0].frame <= this.frame) {
+      this.spawnStroke(this.pendingStrokes.shift()!);
+    }
+    if (this.result) return this.result;
+
+    // Mirrors Game.startGame, which runs right after the first stroke is added
+    if (!this.hasStarted) {
+      this.hasStarted = true;
+      this.rules.start();
+    }
+
+    const outcome = this.rules.step(FIXED_TIMESTEP);
+    if (outcome) {
+      this.finish(outcome.outcome, outcome.cause, outcome.ball);
+    } else {
+      this.frame++;
+      if (this.frame >= (this.options.maxFrames ?? DEFAULT_MAX_FRAMES)) {
+        this.finish('timeout', 'timeout');
+      }
+    }
+
+    return this.result;
+  }
+
+  /**
+   * Design positions of the balls still in play (for a camera following the run)
+   */
+  getBallPositions(): Point[] {
+    return this.rules.balls.map(ball => {
+      const pos = ball.body.translation();
+      return this.physicsWorld.toPixels(pos.x, pos.y);
+    });
+  }
+
+  /**
+   * The level's objects as of the current step (e.g. to draw them)
+   */
+  getObjects(): LevelObjects<T> {
+    return this.rules;
+  }
+
+  getFrame(): number {
+    return this.frame;
+  }
+
+  getResult(): SimulationResult | null {
+    return this.result;
+  }
+
+  /**
+   * Release all physics resources (and graphics, if the objects have any)
+   */
+  destroy(): void {
+    this.rules.destroy();
+    this.physicsWorld.getWorld().free();
+    this.physicsWorld.getEventQueue().free();
+  }
+
+  private spawnStroke(stroke: SimulationStroke): void {
+    const pen = PENS.find(p => p.id === stroke.penId)!;
+
+    // PenSelectionUI only offers the level's allowed pens
+    if (!isPenAllowed(pen.id, this.level.allowedPens)) {
+      this.finish('loss', 'pen_not_allowed');
+      return;
+    }
+
+    // DrawingManager never lets a player exceed the level's limits, so a stroke that does was not drawn in the game
+    this.inkUsed += strokeInk(stroke.points, pen.width);
+    this.strokesUsed++;
+    const { maxInk, maxStrokes } = this.level;
+    if ((maxInk !== undefined && this.inkUsed > maxInk + INK_TOLERANCE) ||
+      (maxStrokes !== undefined && this.strokesUsed > maxStrokes)) {
+      this.finish('loss', 'over_budget');
+      return;
+    }
+
+    this.rules.addLine(stroke.points, pen);
+  }
+
+  private finish(outcome: SimulationOutcome, cause: SimulationCause, ball?: BallType): void {
+    this.result = { outcome, cause, frame: this.frame, ball };
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { REPLAY_LIMITS, REPLAY_VERSION, decodeReplay, encodeReplay, type Replay } from './Replay';
+
+const replay: Replay = {
+  version: REPLAY_VERSION,
+  levelId: 'level-01',
+  strokes: [
+    { penId: 'pencil', frame: 0, points: [{ x: 300, y: 290 }, { x: 318.5, y: 295.25 }] },
+    { penId: 'crayon', frame: 42, points: [{ x: 10, y: 20 }, { x: 30, y: 40 }, { x: 50, y: 60 }] },
+  ],
+  frame: 536,
+  createdAt: 1700000000000,
+};
+
+// An encoded replay with some fields replaced
+const encodeWith = (changes: Record<string, unknown>) => JSON.stringify({ ...JSON.parse(encodeReplay(replay)), ...changes });
+const strokeWith = (changes: Record<string, unknown>) => encodeWith({ strokes: [{ pen: 'pencil', f: 0, p: [0, 0, 10, 10], ...changes }] });
+
+describe('encodeReplay / decodeReplay', () => {
+  it('round-trips a replay', () => {
+    expect(decodeReplay(encodeReplay(replay))).toEqual(replay);
+  });
+
+  it('round-trips a replay without strokes', () => {
+    const empty = { ...replay, strokes: [] };
+    expect(decodeReplay(encodeReplay(empty))).toEqual(empty);
+  });
+
+  it('defaults a missing creation time to 0', () => {
+    expect(decodeReplay(encodeWith({ at: undefined })).createdAt).toBe(0);
+  });
+
+  it('rejects text that is not a replay object', () => {
+    expect(() => decodeReplay('not json')).toThrow('Replay is not valid JSON');
+    expect(() => decodeReplay('null')).toThrow('Replay must be an object');
+    expect(() => decodeReplay('42')).toThrow('Replay must be an object');
+  });
+
+  it('rejects other versions', () => {
+    expect(() => decodeReplay(encodeWith({ v: REPLAY_VERSION + 1 }))).toThrow('Unsupported replay version');
+    expect(() => decodeReplay(encodeWith({ v: undefined }))).toThrow('Unsupported replay version');
+  });
+
+  it('requires a level id', () => {
+    expect(() => decodeReplay(encodeWith({ level: '' }))).toThrow('Replay is missing its level id');
+    expect(() => decodeReplay(encodeWith({ level: 7 }))).toThrow('Replay is missing its level id');
+  });
+
+  it('rejects frames that are negative, fractional or past the limit', () => {
+    for (const frame of [-1, 1.5, REPLAY_LIMITS.MAX_FRAME + 1, '10', null]) {
+      expect(() => decodeReplay(encodeWith({ frame })), String(frame)).toThrow('Replay frame is invalid');
+    }
+    expect(decodeReplay(encodeWith({ frame: REPLAY_LIMITS.MAX_FRAME })).frame).toBe(REPLAY_LIMITS.MAX_FRAME);
+  });
+
+  it('limits the number of strokes', () => {
+    const strokes = Array.from({ length: REPLAY_LIMITS.MAX_STROKES + 1 }, () => ({ pen: 'pencil', f: 0, p: [0, 0, 1, 1] }));
+    expect(() => decodeReplay(encodeWith({ strokes }))).toThrow(`at most ${REPLAY_LIMITS.MAX_STROKES} strokes`);
+    expect(() => decodeReplay(encodeWith({ strokes: {} }))).toThrow(`at most ${REPLAY_LIMITS.MAX_STROKES} strokes`);
+  });
+
+  it('rejects malformed strokes', () => {
+    expect(() => decodeReplay(encodeWith({ strokes: [null] }))).toThrow('Replay stroke 0 is invalid');
+    expect(() => decodeReplay(strokeWith({ pen: 3 }))).toThrow('Replay stroke 0 is invalid');
+    expect(() => decodeReplay(strokeWith({ f: -5 }))).toThrow('Replay stroke 0 has an invalid frame');
+  });
+
+  it('rejects stroke points that are odd, missing, too many or not numbers', () => {
+    const tooMany = Array.from({ length: (REPLAY_LIMITS.MAX_POINTS_PER_STROKE + 1) * 2 }, (_, i) => i);
+    for (const p of [[0, 0, 10], [0], [], tooMany, [0, 0, 10, '10'], [0, 0, 10, null], 'points']) {
+      expect(() => decodeReplay(strokeWith({ p })), JSON.stringify(p).slice(0, 40)).toThrow('Replay stroke 0 has invalid points');
+    }
+  });
+
+  it('accepts a single-point stroke', () => {
+    expect(decodeReplay(strokeWith({ p: [5, 6] })).strokes[0].points).toEqual([{ x: 5, y: 6 }]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Replay
+ * A recorded solution: the strokes a player drew and when they drew them.
+ *
+ * Because the game steps physics at a fixed rate from a fresh world, the
+ * strokes alone are enough to reproduce a run with LevelSimulator.
+ */
+
+import type { Point } from '../utils/douglasPeucker';
+import type { SimulationStroke } from './LevelSimulator';
+
+export const REPLAY_VERSION = 1;
+
+export const REPLAY_LIMITS = {
+  MAX_STROKES: 200,
+  MAX_POINTS_PER_STROKE: 2000,
+  MAX_FRAME: 60 * 60 * 10,   // 10 minutes of fixed steps
+} as const;
+
+export interface Replay {
+  version: number;
+  levelId: string;
+  strokes: SimulationStroke[];
+  frame: number;       // Fixed step on which the recorded run was won
+  createdAt: number;   // Timestamp (ms)
+}
+
+/**
+ * On-disk shape. Keys are short and points are flattened to keep files small.
+ */
+interface EncodedReplay {
+  v: number;
+  level: string;
+  frame: number;
+  at: number;
+  strokes: { pen: string; f: number; p: number[] }[];
+}
+
+/**
+ * Serialize a replay to a compact JSON string
+ */
+export function encodeReplay(replay: Replay): string {
+  const encoded: EncodedReplay = {
+    v: replay.version,
+    level: replay.levelId,
+    frame: replay.frame,
+    at: replay.createdAt,
+    strokes: replay.strokes.map(stroke => ({
+      pen: stroke.penId,
+      f: stroke.frame,
+      p: stroke.points.flatMap(point => [point.x, point.y]),
+    })),
+  };
+  return JSON.stringify(encoded);
+}
+
+/**
+ * Parse a replay produced by encodeReplay.
+ * Throws if the text is not a valid replay.
+ */
+export function decodeReplay(text: string): Replay {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Replay is not valid JSON');
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Replay must be an object');
+  }
+  if (data.v !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${data.v}`);
+  }
+  if (typeof data.level !== 'string' || data.level.length === 0) {
+    throw new Error('Replay is missing its level id');
+  }
+  if (!isFrame(data.frame)) {
+    throw new Error('Replay frame is invalid');
+  }
+  if (!Array.isArray(data.strokes) || data.strokes.length > REPLAY_LIMITS.MAX_STROKES) {
+    throw new Error(`Replay must contain at most ${REPLAY_LIMITS.MAX_STROKES} strokes`);
+  }
+
+  const strokes: SimulationStroke[] = data.strokes.map((stroke: any, i: number) => {
+    if (typeof stroke !== 'object' || stroke === null || typeof stroke.pen !== 'string') {
+      throw new Error(`Replay stroke ${i} is invalid`);
+    }
+    if (!isFrame(stroke.f)) {
+      throw new Error(`Replay stroke ${i} has an invalid frame`);
+    }
+    const flat = stroke.p;
+    if (!Array.isArray(flat) || flat.length < 2 || flat.length % 2 !== 0 ||
+      flat.length / 2 > REPLAY_LIMITS.MAX_POINTS_PER_STROKE ||
+      !flat.every((n: unknown) => typeof n === 'number' && Number.isFinite(n))) {
+      throw new Error(`Replay stroke ${i} has invalid points`);
+    }
+    const points: Point[] = [];
+    for (let j = 0; j < flat.length; j += 2) {
+      points.push({ x: flat[j], y: flat[j + 1] });
+    }
+    return { penId: stroke.pen, frame: stroke.f, points };
+  });
+
+  return {
+    version: data.v,
+    levelId: data.level,
+    strokes,
+    frame: data.frame,
+    createdAt: typeof data.at === 'number' ? data.at : 0,
+  };
+}
+
+function isFrame(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) &&
+    value >= 0 && value <= REPLAY_LIMITS.MAX_FRAME;
+}
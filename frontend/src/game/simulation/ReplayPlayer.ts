@@ -0,0 +1,168 @@
+/**
+ * Replay Player
+ * Plays a recorded replay back in the game view, frame by frame.
+ *
+ * Playback runs the level through LevelSimulator with objects that have
+ * graphics, attached to a container. Seeking forward steps the simulation; seeking backward
+ * rebuilds it from frame 0, since physics state cannot be rewound.
+ */
+
+import * as PIXI from 'pixi.js';
+import { LevelSimulator, type SimulationResult } from './LevelSimulator';
+import type { Replay } from './Replay';
+import type { LevelData } from '../levels/LevelSchema';
+import type { Point } from '../utils/douglasPeucker';
+import { createVisualFactory, updateVisuals, type VisualObjectTypes } from '../objects/LevelVisuals';
+import { FIXED_TIMESTEP } from '../config';
+
+export class ReplayPlayer {
+  private level: LevelData;
+  private replay: Replay;
+  private container: PIXI.Container;
+  private laserTexture?: PIXI.Texture;
+
+  private simulator: LevelSimulator<VisualObjectTypes> | null = null;
+  private frame: number = 0;   // Steps taken by the current simulator
+  private accumulator: number = 0;
+  private playing: boolean = false;
+  private seekToken: number = 0;
+
+  public onFinish: ((result: SimulationResult | null) => void) | null = null;
+
+  constructor(level: LevelData, replay: Replay, container: PIXI.Container, laserTexture?: PIXI.Texture) {
+    this.level = level;
+    this.replay = replay;
+    this.container = container;
+    this.laserTexture = laserTexture;
+  }
+
+  /**
+   * Build the simulation at frame 0
+   */
+  async load(): Promise<void> {
+    await this.rebuild(this.seekToken);
+  }
+
+  /**
+   * Number of steps in the recorded run (the winning step included)
+   */
+  getTotalFrames(): number {
+    return this.replay.frame + 1;
+  }
+
+  getFrame(): number {
+    return this.frame;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  play(): void {
+    if (this.isAtEnd()) {
+      // Restart from the beginning when playing a finished replay
+      this.seek(0).then(() => { this.playing = true; });
+      return;
+    }
+    this.playing = true;
+  }
+
+  pause(): void {
+    this.playing = false;
+    this.accumulator = 0;
+  }
+
+  /**
+   * Advance playback by real time
+   */
+  update(dt: number): void {
+    if (!this.playing || !this.simulator) return;
+
+    this.accumulator += dt;
+    while (this.accumulator >= FIXED_TIMESTEP) {
+      this.accumulator -= FIXED_TIMESTEP;
+      this.stepOnce();
+      if (this.isAtEnd()) {
+        this.pause();
+        if (this.onFinish) this.onFinish(this.simulator.getResult());
+        break;
+      }
+    }
+  }
+
+  /**
+   * Jump to the given frame
+   */
+  async seek(target: number): Promise<void> {
+    const token = ++this.seekToken;
+    const frame = Math.max(0, Math.min(Math.round(target), this.getTotalFrames()));
+
+    if (frame < this.frame || !this.simulator) {
+      const rebuilt = await this.rebuild(token);
+      if (!rebuilt) return;
+    }
+
+    while (this.frame < frame && !this.isAtEnd()) {
+      this.stepOnce();
+    }
+    this.accumulator = 0;
+  }
+
+  render(scaleFactor: number, dt: number = 0): void {
+    if (this.simulator) {
+      updateVisuals(this.simulator.getObjects(), scaleFactor, this.playing ? dt : 0);
+    }
+  }
+
+  getBallPositions(): Point[] {
+    return this.simulator ? this.simulator.getBallPositions() : [];
+  }
+
+  destroy(): void {
+    this.playing = false;
+    this.seekToken++;
+    if (this.simulator) {
+      this.simulator.destroy();
+      this.simulator = null;
+    }
+  }
+
+  private isAtEnd(): boolean {
+    return this.frame >= this.getTotalFrames() || this.simulator?.getResult() != null;
+  }
+
+  private stepOnce(): void {
+    if (!this.simulator) return;
+    this.simulator.step();
+    this.frame++;
+  }
+
+  /**
+   * Replace the simulation with a fresh one at frame 0.
+   * Returns false if a newer seek (or destroy) superseded this one while it was loading.
+   */
+  private async rebuild(token: number): Promise<boolean> {
+    if (this.simulator) {
+      this.simulator.destroy();
+      this.simulator = null;
+    }
+
+    const simulator = new LevelSimulator(this.level, {
+      objects: createVisualFactory(this.container, this.laserTexture ?? PIXI.Texture.EMPTY),
+      // A run that diverged from the recording (e.g. the level was edited) ends as a timeout
+      maxFrames: this.getTotalFrames(),
+    });
+    await simulator.init();
+
+    if (token !== this.seekToken) {
+      simulator.destroy();
+      return false;
+    }
+
+    this.replay.strokes.forEach(stroke => simulator.addStroke(stroke));
+    this.simulator = simulator;
+    this.frame = 0;
+    this.accumulator = 0;
+    return true;
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Replay Verifier
+ * Proves that a level can be cleared by re-simulating a submitted replay.
+ *
+ * Used by the backend Worker when publishing a level or recording a clear,
+ * and by MockApiClient as its local stand-in. Both run the same
+ * LevelSimulator and Rapier build as the game itself.
+ */
+
+import { LevelSimulator, type SimulationResult } from './LevelSimulator';
+import { decodeReplay, type Replay } from './Replay';
+import type { LevelData } from '../levels/LevelSchema';
+
+export const ReplayRejection = {
+  MISSING: 'missing_replay',
+  INVALID: 'invalid_replay',
+  WRONG_LEVEL: 'wrong_level',
+  TOO_LONG: 'replay_too_long',
+  NOT_CLEARED: 'not_cleared',
+} as const;
+export type ReplayRejection = typeof ReplayRejection[keyof typeof ReplayRejection];
+
+export interface ReplayVerification {
+  verified: boolean;
+  reason?: ReplayRejection;
+  message?: string;             // Human-readable explanation (English)
+  result?: SimulationResult;
+}
+
+export interface ReplayVerifyOptions {
+  maxFrame?: number;    // Reject replays won later than this without simulating them
+}
+
+function reject(reason: ReplayRejection, message: string, result?: SimulationResult): ReplayVerification {
+  return { verified: false, reason, message, result };
+}
+
+/**
+ * Re-simulate an encoded replay against a level.
+ * The level must already be migrated and valid; the run must be won no later
+ * than the frame the replay claims.
+ * Throws if the simulator cannot run the level (e.g. Rapier failed to load, or the level is invalid).
+ */
+export async function verifyReplay(
+  level: LevelData,
+  encodedReplay: unknown,
+  options: ReplayVerifyOptions = {}
+): Promise<ReplayVerification> {
+  if (typeof encodedReplay !== 'string' || encodedReplay.length === 0) {
+    return reject(ReplayRejection.MISSING, 'A solution replay is required');
+  }
+
+  let replay: Replay;
+  try {
+    replay = decodeReplay(encodedReplay);
+  } catch (e: any) {
+    return reject(ReplayRejection.INVALID, e.message);
+  }
+
+  if (replay.levelId !== level.id) {
+    return reject(ReplayRejection.WRONG_LEVEL, 'The replay was recorded on a different level');
+  }
+
+  if (options.maxFrame !== undefined && replay.frame > options.maxFrame) {
+    return reject(ReplayRejection.TOO_LONG, `The replay is too long to verify (won after frame ${options.maxFrame})`);
+  }
+
+  const simulator = new LevelSimulator(level, { maxFrames: replay.frame + 1 });
+  await simulator.init();
+  try {
+    try {
+      replay.strokes.forEach(stroke => simulator.addStroke(stroke));
+    } catch (e: any) {
+      return reject(ReplayRejection.INVALID, e.message);
+    }
+
+    let result = simulator.getResult();
+    while (!result) {
+      result = simulator.step();
+    }
+
+    if (result.outcome !== 'win') {
+      return reject(
+        ReplayRejection.NOT_CLEARED,
+        `The replay does not clear the level (${result.outcome}: ${result.cause} on frame ${result.frame})`,
+        result
+      );
+    }
+    return { verified: true, result };
+  } finally {
+    simulator.destroy();
+  }
+}
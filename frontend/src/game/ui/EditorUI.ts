@@ -3,11 +3,18 @@ import {
   getCanvasWidth,
   getCanvasHeight,
   scale,
+  PORTAL_ENTRANCE_COLOR,
+  PORTAL_EXIT_COLOR,
+  SPRING_PAD_COLOR,
 } from '../config';
 import { UIFactory } from './UIFactory';
 import { LanguageManager, type TranslationKey } from '../i18n/LanguageManager';
 import { ObjectSelector, type EditorObject } from './editor/ObjectSelector';
 import { PropertyInspector } from './editor/PropertyInspector';
+import { LevelSettingsPanel } from './editor/LevelSettingsPanel';
+import { SnapSettingsPanel } from './editor/SnapSettingsPanel';
+import type { LevelData } from '../levels/LevelSchema';
+import { AlignMode } from '../editor/SelectionGeometry';
 
 // Local visual constants matches object definitions
 const LASER_COLOR = 0x00FF00; // Green for laser
@@ -18,9 +25,22 @@ const EDITOR_LAYOUT = {
   BUTTON_SPACING: 20,
   MARGIN: 20,
   BAR_HEIGHT: 140,
-  TAB_HEIGHT: 40
+  TAB_HEIGHT: 40,
+  ALIGN_BUTTON_SPACING: 12
 };
 
+// Align bar buttons, shown while several objects are selected
+const ALIGN_BUTTONS: { mode: AlignMode, icon: string }[] = [
+  { mode: AlignMode.LEFT, icon: '\uF107' },
+  { mode: AlignMode.CENTER, icon: '\uF104' },
+  { mode: AlignMode.RIGHT, icon: '\uF105' },
+  { mode: AlignMode.TOP, icon: '\uF108' },
+  { mode: AlignMode.MIDDLE, icon: '\uF106' },
+  { mode: AlignMode.BOTTOM, icon: '\uF103' },
+  { mode: AlignMode.DISTRIBUTE_X, icon: '\uF303' },
+  { mode: AlignMode.DISTRIBUTE_Y, icon: '\uF304' },
+];
+
 export class EditorUI extends PIXI.Container {
   private currentMode: 'edit' | 'play' = 'edit';
   private toggleContainer: PIXI.Container | null = null;
@@ -33,6 +53,9 @@ export class EditorUI extends PIXI.Container {
   private bottomBar: PIXI.Graphics | null = null;
   private copyBtn: PIXI.Container | null = null;
   private deleteBtn: PIXI.Container | null = null;
+  private undoBtn: PIXI.Container | null = null;
+  private redoBtn: PIXI.Container | null = null;
+  private alignContainer: PIXI.Container | null = null;
 
   // Callbacks
   private onClose: () => void;
@@ -45,8 +68,19 @@ export class EditorUI extends PIXI.Container {
   private onRequestSelect: (obj: EditorObject) => void;
   private getObjects: () => EditorObject[];
   private onObjectModified: (obj: EditorObject) => void;
+  private getLevel: () => LevelData | null;
+  private onLevelSettingsChanged: () => void;
+  private onUndo: () => void;
+  private onRedo: () => void;
+  private onAdjustStateChange: (active: boolean) => void;
+  private onAlign: (mode: AlignMode) => void;
+  private onShowShortcuts: () => void;
+  private onShare: () => void;
 
   private objectListBtn: PIXI.Container | null = null;
+  private levelSettingsPanel: LevelSettingsPanel | null = null;
+  private snapSettingsPanel: SnapSettingsPanel | null = null;
+  private snapSettingsX: number = 0;
 
   private objectSelector: ObjectSelector | null = null;
   private propertyInspector: PropertyInspector | null = null;
@@ -59,6 +93,9 @@ export class EditorUI extends PIXI.Container {
   // State tracking for layout restoration
   private lastHasSelection: boolean = false;
   private lastIsBall: boolean = false;
+  private canUndo: boolean = false;
+  private canRedo: boolean = false;
+  private multiSelectionCount: number = 0;
   private savedSelection: EditorObject | null = null;
 
   constructor(
@@ -71,7 +108,15 @@ export class EditorUI extends PIXI.Container {
     onPen: () => void,
     onRequestSelect: (obj: EditorObject) => void,
     getObjects: () => EditorObject[],
-    onObjectModified: (obj: EditorObject) => void
+    onObjectModified: (obj: EditorObject) => void,
+    getLevel: () => LevelData | null,
+    onLevelSettingsChanged: () => void,
+    onUndo: () => void,
+    onRedo: () => void,
+    onAdjustStateChange: (active: boolean) => void,
+    onAlign: (mode: AlignMode) => void,
+    onShowShortcuts: () => void,
+    onShare: () => void
   ) {
     super();
     // Set to passive so pointer events pass through to game container for drawing
@@ -86,6 +131,14 @@ export class EditorUI extends PIXI.Container {
     this.onRequestSelect = onRequestSelect;
     this.getObjects = getObjects;
     this.onObjectModified = onObjectModified;
+    this.getLevel = getLevel;
+    this.onLevelSettingsChanged = onLevelSettingsChanged;
+    this.onUndo = onUndo;
+    this.onRedo = onRedo;
+    this.onAdjustStateChange = onAdjustStateChange;
+    this.onAlign = onAlign;
+    this.onShowShortcuts = onShowShortcuts;
+    this.onShare = onShare;
 
     this.updateLayout();
   }
@@ -131,12 +184,61 @@ export class EditorUI extends PIXI.Container {
     this.objectListBtn.position.set(toolsX, btnY);
     this.toolsContainer.addChild(this.objectListBtn);
 
+    // Level Settings Button (Left of Advanced Tools)
+    const settingsX = toolsX - btnSpacing - btnSize;
+    const levelSettingsBtn = UIFactory.createTopBarButton('\uF56B', () => this.toggleLevelSettings());
+    levelSettingsBtn.position.set(settingsX, btnY);
+    this.toolsContainer.addChild(levelSettingsBtn);
+
+    // Snap Settings Button (Left of Level Settings)
+    const snapX = settingsX - btnSpacing - btnSize;
+    const snapSettingsBtn = UIFactory.createTopBarButton('\uF779', () => this.toggleSnapSettings());
+    snapSettingsBtn.position.set(snapX, btnY);
+    this.toolsContainer.addChild(snapSettingsBtn);
+    this.snapSettingsX = snapX + btnSize;
+
+    // Keyboard Shortcuts Button (Left of Snap Settings)
+    const shortcutsX = snapX - btnSpacing - btnSize;
+    const shortcutsBtn = UIFactory.createTopBarButton('\uF451', this.onShowShortcuts);
+    shortcutsBtn.position.set(shortcutsX, btnY);
+    this.toolsContainer.addChild(shortcutsBtn);
+
+    // Undo / Redo (Right of Back)
+    const undoX = margin + btnSize + btnSpacing;
+    this.undoBtn = UIFactory.createTopBarButton('\uF117', this.onUndo);
+    this.undoBtn.position.set(undoX, btnY);
+    this.toolsContainer.addChild(this.undoBtn);
+
+    const redoX = undoX + btnSize + btnSpacing;
+    this.redoBtn = UIFactory.createTopBarButton('\uF116', this.onRedo);
+    this.redoBtn.position.set(redoX, btnY);
+    this.toolsContainer.addChild(this.redoBtn);
+
+    // Share Button (Right of Redo)
+    const shareX = redoX + btnSize + btnSpacing;
+    const shareBtn = UIFactory.createTopBarButton('\uF52E', this.onShare);
+    shareBtn.position.set(shareX, btnY);
+    this.toolsContainer.addChild(shareBtn);
+
+    this.setHistoryState(this.canUndo, this.canRedo);
+
+    // Rebuild the settings panels for the new size if they were open
+    this.refreshLevelSettings();
+    if (this.snapSettingsPanel) {
+      this.snapSettingsPanel.destroy({ children: true });
+      this.snapSettingsPanel = null;
+      this.toggleSnapSettings();
+    }
+
     // Restore tool state
     this.updateTools(this.lastHasSelection, this.lastIsBall);
 
     // Bottom Bar (Tools)
     this.createBottomBar();
 
+    // Align Bar (Bottom Center, replaces the bottom bar while several objects are selected)
+    this.createAlignBar();
+
     // Play Mode Buttons (Mimic Game.ts UI)
     // Home Button (Top Left) - Returns to Edit Mode
     this.playHomeBtn = UIFactory.createTopBarButton('\uF284', () => {
@@ -164,6 +266,26 @@ export class EditorUI extends PIXI.Container {
     this.updateTools(this.lastHasSelection, this.lastIsBall);
   }
 
+  private createAlignBar(): void {
+    const btnSize = scale(EDITOR_LAYOUT.BUTTON_SIZE);
+    const spacing = scale(EDITOR_LAYOUT.ALIGN_BUTTON_SPACING);
+
+    this.alignContainer = new PIXI.Container();
+    ALIGN_BUTTONS.forEach(({ mode, icon }, i) => {
+      const btn = UIFactory.createTopBarButton(icon, () => this.onAlign(mode));
+      btn.position.set(i * (btnSize + spacing), 0);
+      this.alignContainer!.addChild(btn);
+    });
+
+    const totalWidth = ALIGN_BUTTONS.length * btnSize + (ALIGN_BUTTONS.length - 1) * spacing;
+    this.alignContainer.position.set(
+      (getCanvasWidth() - totalWidth) / 2,
+      getCanvasHeight() - scale(EDITOR_LAYOUT.MARGIN) - btnSize
+    );
+    this.alignContainer.visible = this.currentMode === 'edit' && this.multiSelectionCount >= 2;
+    this.addChild(this.alignContainer);
+  }
+
   private createToggle(x: number, y: number): void {
     this.toggleContainer = new PIXI.Container();
     this.toggleContainer.position.set(x, y);
@@ -296,6 +418,9 @@ export class EditorUI extends PIXI.Container {
         this.objectSelector.updateObjects(this.getObjects());
       }
       if (this.propertyInspector) this.propertyInspector.visible = true;
+      if (this.levelSettingsPanel) this.levelSettingsPanel.visible = true;
+      if (this.snapSettingsPanel) this.snapSettingsPanel.visible = true;
+      if (this.alignContainer) this.alignContainer.visible = this.multiSelectionCount >= 2;
 
       // Restore Bottom Bar / Tabs / Items depending on state
       this.updateTools(this.lastHasSelection, this.lastIsBall);
@@ -314,6 +439,9 @@ export class EditorUI extends PIXI.Container {
       // Hide Advanced Tools
       if (this.objectSelector) this.objectSelector.visible = false;
       if (this.propertyInspector) this.propertyInspector.visible = false;
+      if (this.levelSettingsPanel) this.levelSettingsPanel.visible = false;
+      if (this.snapSettingsPanel) this.snapSettingsPanel.visible = false;
+      if (this.alignContainer) this.alignContainer.visible = false;
 
       // Show Play Mode Buttons
       if (this.playHomeBtn) this.playHomeBtn.visible = true;
@@ -355,6 +483,9 @@ export class EditorUI extends PIXI.Container {
       this.tabsContainer,
       this.itemsContainer,
       this.objectSelector,
+      this.levelSettingsPanel,
+      this.snapSettingsPanel,
+      this.alignContainer,
       this.playHomeBtn,
       this.playRestartBtn,
       this.playPenBtn
@@ -544,6 +675,8 @@ export class EditorUI extends PIXI.Container {
       items.push({ type: 'special', subType: 'button' });
       items.push({ type: 'special', subType: 'seesaw' });
       items.push({ type: 'special', subType: 'ice' });
+      items.push({ type: 'special', subType: 'portal' });
+      items.push({ type: 'special', subType: 'spring' });
     }
 
     // Render Grid
@@ -556,7 +689,7 @@ export class EditorUI extends PIXI.Container {
       const x = startX + (index * (itemSize + gap));
       // Simple horizontal scroll or wrap? 
       // For now, simple row. If too many, maybe wrap?
-      // Special has 6 items. 6 * 80 = 480. Fits on most screens.
+      // Special has 8 items. 8 * 80 = 640. Fits on most screens.
       // If screen is small, might need logic.
 
       this.createItemButton(item, x, startY, itemSize);
@@ -730,6 +863,31 @@ export class EditorUI extends PIXI.Container {
         const iceBlue = 0x83B0C9;
         g.rect(-r, -r, size, size);
         g.fill({ color: iceBlue, alpha: 1.0 });
+      } else if (subType === 'portal') {
+        // Entrance and exit side by side
+        const rx = size * 0.2;
+        const ry = size * 0.4;
+        g.ellipse(-size * 0.25, 0, rx, ry);
+        g.stroke({ color: PORTAL_ENTRANCE_COLOR, width: scale(3) });
+        g.ellipse(size * 0.25, 0, rx, ry);
+        g.stroke({ color: PORTAL_EXIT_COLOR, width: scale(3) });
+      } else if (subType === 'spring') {
+        // Base, coil and pad
+        const w = size * 0.8;
+        const h = size * 0.6;
+        const bar = scale(4);
+        g.rect(-w / 2, h / 2 - bar, w, bar);
+        g.fill(white);
+
+        g.moveTo(0, h / 2 - bar);
+        g.lineTo(-w * 0.3, h * 0.25);
+        g.lineTo(w * 0.3, 0);
+        g.lineTo(-w * 0.3, -h * 0.25);
+        g.lineTo(0, -h / 2 + bar);
+        g.stroke({ color: white, width: scale(2) });
+
+        g.rect(-w / 2, -h / 2, w, bar);
+        g.fill(SPRING_PAD_COLOR);
       }
     }
   }
@@ -747,6 +905,8 @@ export class EditorUI extends PIXI.Container {
     }
 
     this.objectListBtn = null;
+    this.levelSettingsPanel = null;
+    this.snapSettingsPanel = null;
     this.objectSelector = null;
     this.propertyInspector = null;
 
@@ -787,6 +947,90 @@ export class EditorUI extends PIXI.Container {
     this.updateTools(this.lastHasSelection, this.lastIsBall);
   }
 
+  /**
+   * Show the align bar while two or more objects are selected.
+   * A multi-selection has no property inspector.
+   */
+  public setMultiSelection(count: number): void {
+    this.multiSelectionCount = count;
+
+    if (count >= 2) {
+      this.currentSelection = null;
+      if (this.objectSelector) {
+        this.objectSelector.setSelection(null);
+      }
+      if (this.propertyInspector) {
+        this.removeChild(this.propertyInspector);
+        this.propertyInspector.destroy();
+        this.propertyInspector = null;
+      }
+    }
+
+    if (this.alignContainer) {
+      this.alignContainer.visible = this.currentMode === 'edit' && count >= 2;
+    }
+  }
+
+  /**
+   * Enable or disable the undo / redo buttons
+   */
+  public setHistoryState(canUndo: boolean, canRedo: boolean): void {
+    this.canUndo = canUndo;
+    this.canRedo = canRedo;
+
+    if (this.undoBtn) {
+      this.undoBtn.alpha = canUndo ? 0.9 : 0.4;
+      this.undoBtn.eventMode = canUndo ? 'static' : 'none';
+    }
+    if (this.redoBtn) {
+      this.redoBtn.alpha = canRedo ? 0.9 : 0.4;
+      this.redoBtn.eventMode = canRedo ? 'static' : 'none';
+    }
+  }
+
+  /**
+   * Rebuild the level settings panel, if open, to show the level's current values
+   */
+  public refreshLevelSettings(): void {
+    if (!this.levelSettingsPanel) return;
+    this.removeChild(this.levelSettingsPanel);
+    this.levelSettingsPanel.destroy({ children: true });
+    this.levelSettingsPanel = null;
+    this.toggleLevelSettings();
+  }
+
+  private toggleLevelSettings() {
+    if (this.levelSettingsPanel) {
+      this.removeChild(this.levelSettingsPanel);
+      this.levelSettingsPanel.destroy({ children: true });
+      this.levelSettingsPanel = null;
+      return;
+    }
+
+    const level = this.getLevel();
+    if (!level) return;
+
+    // Top left, below the back button (the object list and inspector use the right side)
+    this.levelSettingsPanel = new LevelSettingsPanel(scale(360), level, this.onLevelSettingsChanged);
+    this.levelSettingsPanel.position.set(scale(EDITOR_LAYOUT.MARGIN), scale(100));
+    this.addChild(this.levelSettingsPanel);
+  }
+
+  private toggleSnapSettings() {
+    if (this.snapSettingsPanel) {
+      this.removeChild(this.snapSettingsPanel);
+      this.snapSettingsPanel.destroy({ children: true });
+      this.snapSettingsPanel = null;
+      return;
+    }
+
+    // Below its button, right-aligned with it
+    const panelWidth = scale(200);
+    this.snapSettingsPanel = new SnapSettingsPanel(panelWidth);
+    this.snapSettingsPanel.position.set(this.snapSettingsX - panelWidth, scale(100));
+    this.addChild(this.snapSettingsPanel);
+  }
+
   private showPropertyInspector(obj: EditorObject) {
     if (this.propertyInspector) {
       this.removeChild(this.propertyInspector);
@@ -803,7 +1047,10 @@ export class EditorUI extends PIXI.Container {
 
     this.propertyInspector = new PropertyInspector(inspectorWidth, h, obj, () => {
       this.onObjectModified(obj);
-    }, (active) => this.setGlassMode(active));
+    }, (active) => {
+      this.setGlassMode(active);
+      this.onAdjustStateChange(active);
+    });
     this.propertyInspector.position.set(inspectorX, scale(100));
     this.addChild(this.propertyInspector);
   }
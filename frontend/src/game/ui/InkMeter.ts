@@ -0,0 +1,135 @@
+import * as PIXI from 'pixi.js';
+import { getCanvasWidth, scale } from '../config';
+import { UIFactory } from './UIFactory';
+import type { DrawingLimits } from '../levels/InkBudget';
+
+/**
+ * HUD pill shown below the top bar on levels with drawing limits:
+ * the ink left as a bar and the strokes left as a count.
+ */
+export class InkMeter extends PIXI.Container {
+  private limits: DrawingLimits = {};
+  private inkUsed: number = 0;
+  private strokesUsed: number = 0;
+
+  private barFill: PIXI.Graphics | null = null;
+  private barWidth: number = 0;
+  private strokesText: PIXI.Text | null = null;
+
+  constructor() {
+    super();
+    this.zIndex = 900;
+    // Drawing must keep working underneath the meter
+    this.eventMode = 'none';
+    this.refreshUI();
+  }
+
+  /**
+   * Change the limits shown (rebuilds the layout)
+   */
+  setLimits(limits: DrawingLimits): void {
+    this.limits = { ...limits };
+    this.inkUsed = 0;
+    this.strokesUsed = 0;
+    this.refreshUI();
+  }
+
+  /**
+   * Update the amount of ink and strokes used so far
+   */
+  setUsage(inkUsed: number, strokesUsed: number): void {
+    if (inkUsed === this.inkUsed && strokesUsed === this.strokesUsed) return;
+    this.inkUsed = inkUsed;
+    this.strokesUsed = strokesUsed;
+    this.updateValues();
+  }
+
+  /**
+   * Rebuild the meter for the current canvas size
+   */
+  refreshUI(): void {
+    this.removeChildren().forEach(child => child.destroy({ children: true }));
+    this.barFill = null;
+    this.strokesText = null;
+
+    const { maxInk, maxStrokes } = this.limits;
+    if (maxInk === undefined && maxStrokes === undefined) return;
+
+    const height = scale(40);
+    const padding = scale(14);
+    const iconSize = scale(22);
+    const gap = scale(8);
+    const inkWidth = maxInk !== undefined ? iconSize + gap + scale(160) : 0;
+    const strokesWidth = maxStrokes !== undefined ? iconSize + gap + scale(56) : 0;
+    const sectionGap = inkWidth > 0 && strokesWidth > 0 ? scale(16) : 0;
+    const width = padding * 2 + inkWidth + sectionGap + strokesWidth;
+
+    const card = UIFactory.createCard(width, height, 0xFFFFFF, height / 2);
+    this.addChild(card);
+
+    const centerY = height / 2;
+    let x = padding;
+
+    if (maxInk !== undefined) {
+      const icon = UIFactory.createIcon('\uF30B', iconSize, '#555555');
+      icon.position.set(x + iconSize / 2, centerY);
+      card.addChild(icon);
+      x += iconSize + gap;
+
+      this.barWidth = scale(160);
+      const barHeight = scale(10);
+      const barBg = UIFactory.createPill(this.barWidth, barHeight, 0xDDDDDD);
+      barBg.position.set(x, centerY - barHeight / 2);
+      card.addChild(barBg);
+
+      this.barFill = new PIXI.Graphics();
+      this.barFill.position.set(x, centerY - barHeight / 2);
+      card.addChild(this.barFill);
+      x += this.barWidth + sectionGap;
+    }
+
+    if (maxStrokes !== undefined) {
+      const icon = UIFactory.createIcon('\uF4C9', iconSize, '#555555');
+      icon.position.set(x + iconSize / 2, centerY);
+      card.addChild(icon);
+      x += iconSize + gap;
+
+      this.strokesText = new PIXI.Text({
+        text: '',
+        style: {
+          fontFamily: 'Arial',
+          fontSize: scale(18),
+          fill: 0x555555,
+          fontWeight: 'bold',
+        }
+      });
+      this.strokesText.anchor.set(0, 0.5);
+      this.strokesText.position.set(x, centerY);
+      card.addChild(this.strokesText);
+    }
+
+    // Centered below the top bar buttons
+    this.position.set((getCanvasWidth() - width) / 2, scale(36) + scale(52) + scale(12));
+    this.updateValues();
+  }
+
+  private updateValues(): void {
+    const { maxInk, maxStrokes } = this.limits;
+
+    if (this.barFill && maxInk !== undefined) {
+      const remaining = Math.max(0, Math.min(1, 1 - this.inkUsed / maxInk));
+      const barHeight = scale(10);
+      const fillWidth = this.barWidth * remaining;
+      this.barFill.clear();
+      if (fillWidth > 0) {
+        this.barFill.roundRect(0, 0, Math.max(fillWidth, barHeight), barHeight, barHeight / 2);
+        // Turns red when the ink is nearly gone
+        this.barFill.fill(remaining > 0.2 ? 0x555555 : 0xE05555);
+      }
+    }
+
+    if (this.strokesText && maxStrokes !== undefined) {
+      this.strokesText.text = `${Math.max(0, maxStrokes - this.strokesUsed)}/${maxStrokes}`;
+    }
+  }
+}
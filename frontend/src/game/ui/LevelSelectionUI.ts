@@ -11,12 +11,22 @@ import { Laser } from '../objects/Laser';
 import { Seesaw } from '../objects/Seesaw';
 import { ConveyorBelt } from '../objects/ConveyorBelt';
 import { Button } from '../objects/Button';
+import { Portal } from '../objects/Portal';
+import { Spring } from '../objects/Spring';
 import { PenSelectionUI } from './PenSelectionUI';
 import { SettingsUI } from './SettingsUI';
 import { type Pen } from '../data/PenData';
 import { UserProfileCard } from './modals/UserProfileCard';
+import { ConfirmDialog } from './modals/ConfirmDialog';
 import { LevelService } from '../services/LevelService';
+import { MAX_STARS } from '../levels/StarRating';
+import { getApiErrorKey } from '../services/api/ApiError';
 import { UIFactory } from './UIFactory';
+import { openTextInput } from './TextInput';
+import {
+  LEVEL_TAGS, MAX_SEARCH_LENGTH, matchesLevelSearch, compareLevels,
+  type LevelTag, type LevelSortMode, type LevelSearchQuery,
+} from '../levels/LevelSearch';
 import { LanguageManager, type TranslationKey } from '../i18n/LanguageManager';
 
 export class LevelSelectionUI extends PIXI.Container {
@@ -38,15 +48,27 @@ export class LevelSelectionUI extends PIXI.Container {
   private settingsUI: SettingsUI | null = null;
   private userProfileCard: UserProfileCard | null = null;
   private onPenSelect?: (pen: Pen) => void;
+  private onImport?: () => void;
   private currentPenId: string = 'pen_default';
 
   // Sorting and Filtering
   // Sorting and Filtering
-  private sortMode: 'latest' | 'popular' = 'latest';
+  private sortMode: LevelSortMode = 'latest';
   private filterAuthorId: string | null = null;
+  public onAuthorFilterChange: ((authorId: string | null) => void) | null = null;
   private visibleLevels: LevelData[] = [];
   private filterAuthorName: string | null = null;
   private filterAuthorColor: number = 0x888888;
+  private searchText: string = '';
+  private filterTag: LevelTag | null = null;
+
+  // The grid shows a server listing, fetched a page at a time as the user swipes
+  private listingQuery: LevelSearchQuery = {};
+  private pinnedLevels: LevelData[] = []; // Shown ahead of the listing (drafts in "Mine")
+  private nextCursor: string | null = null;
+  private hasFirstPage: boolean = false;
+  private isLoadingPage: boolean = false;
+  private listingRequestId: number = 0; // Drops pages of an outdated listing
 
   // UI Elements
   private latestBtnText?: PIXI.Text;
@@ -54,6 +76,8 @@ export class LevelSelectionUI extends PIXI.Container {
   private mineBtnText?: PIXI.Text;
 
   private filterFilterTagContainer?: PIXI.Container;
+  private searchRowContainer?: PIXI.Container;
+  private appTitleText?: PIXI.Text;
   private createLevelBtn?: PIXI.Container;
 
   // Constants for Layout (as ratios of canvas height)
@@ -62,6 +86,7 @@ export class LevelSelectionUI extends PIXI.Container {
   private readonly ROWS = 2;
   private readonly ITEMS_PER_PAGE = 6;
   private readonly CARD_ASPECT_RATIO = 16 / 9;
+  private readonly PREFETCH_PAGES = 1; // Fetch more levels this many pages before the end
 
   // Cached layout values
   private backgroundHitArea: PIXI.Graphics | null = null;
@@ -72,7 +97,8 @@ export class LevelSelectionUI extends PIXI.Container {
     onCreate: () => void,
     laserTexture?: PIXI.Texture,
     onPenSelect?: (pen: Pen) => void,
-    initialPenId?: string
+    initialPenId?: string,
+    onImport?: () => void
   ) {
     super();
     this.levels = levels;
@@ -81,6 +107,7 @@ export class LevelSelectionUI extends PIXI.Container {
     this.laserTexture = laserTexture;
     this.onPenSelect = onPenSelect;
     if (initialPenId) this.currentPenId = initialPenId;
+    this.onImport = onImport;
     this.totalPages = Math.ceil(levels.length / this.ITEMS_PER_PAGE);
 
     // Create Main Containers
@@ -131,6 +158,7 @@ export class LevelSelectionUI extends PIXI.Container {
     const title = new PIXI.Text({ text: t('app.title'), style: titleStyle });
     title.position.set(scale(60), (headerHeight - title.height) / 2);
     this.headerContainer.addChild(title);
+    this.appTitleText = title;
 
     // 2.5 Sorting / Filtering UI (Center-Right)
     const sortY = (headerHeight + scale(10)) / 2;
@@ -174,6 +202,11 @@ export class LevelSelectionUI extends PIXI.Container {
     this.headerContainer.addChild(this.filterFilterTagContainer);
     this.updateFilterTag();
 
+    // Search box and tag chips (below the sort buttons)
+    this.searchRowContainer = new PIXI.Container();
+    this.headerContainer.addChild(this.searchRowContainer);
+    this.updateSearchRow();
+
 
 
     // 3. Action Area (Right)
@@ -195,6 +228,12 @@ export class LevelSelectionUI extends PIXI.Container {
     penBtn.on('pointertap', () => this.showPenSelection());
     this.headerContainer.addChild(penBtn);
 
+    // Import Icon (Left of Pen)
+    const importBtn = this.createHeaderButton('\uF1BC');
+    importBtn.position.set(penX - btnSpacing - btnSize, btnY);
+    importBtn.on('pointertap', () => this.onImport?.());
+    this.headerContainer.addChild(importBtn);
+
     // 4. Floating Action Button (Create Level) - Bottom Right
     this.createLevelBtn = this.createFloatingActionButton();
     this.createLevelBtn.visible = false;
@@ -248,7 +287,7 @@ export class LevelSelectionUI extends PIXI.Container {
     return container;
   }
 
-  private createSortButton(text: string, x: number, y: number, mode: 'latest' | 'popular'): PIXI.Text {
+  private createSortButton(text: string, x: number, y: number, mode: LevelSortMode): PIXI.Text {
     return this.createHeaderInteractiveText(text, x, y, () => {
       this.setSortMode(mode);
     });
@@ -344,6 +383,16 @@ export class LevelSelectionUI extends PIXI.Container {
 
       this.renderPage(pageContainer, startIndex, endIndex);
     }
+
+    if (this.visibleLevels.length === 0 && !this.isLoadingPage && (this.searchText || this.filterTag)) {
+      const emptyText = new PIXI.Text({
+        text: LanguageManager.getInstance().t('search.no_results'),
+        style: { fontFamily: 'Arial', fontSize: scale(24), fill: '#AAAAAA' }
+      });
+      emptyText.anchor.set(0.5);
+      emptyText.position.set(canvasWidth / 2, (this.getHeaderHeight() + getCanvasHeight()) / 2);
+      this.gridContainer.addChild(emptyText);
+    }
   }
 
   private renderPage(container: PIXI.Container, startIndex: number, endIndex: number): void {
@@ -500,6 +549,56 @@ export class LevelSelectionUI extends PIXI.Container {
       container.addChild(likesContainer);
     }
 
+    // Best Stars (Top Right) - only once the player has cleared the level
+    const bestStars = LevelService.getInstance().getBestStars(levelData);
+    if (bestStars > 0) {
+      const starsContainer = new PIXI.Container();
+      const padding = scale(8);
+      const iconSize = scale(14);
+      const gap = scale(2);
+      const totalWidth = padding * 2 + MAX_STARS * iconSize + (MAX_STARS - 1) * gap;
+      const pillHeight = scale(24);
+
+      const starsBg = new PIXI.Graphics();
+      starsBg.roundRect(0, 0, totalWidth, pillHeight, pillHeight / 2);
+      starsBg.fill({ color: 0x000000, alpha: 0.4 });
+      starsContainer.addChild(starsBg);
+
+      for (let i = 0; i < MAX_STARS; i++) {
+        const earned = i < bestStars;
+        const star = UIFactory.createIcon(earned ? '\uF586' : '\uF588', iconSize, earned ? '#FFC107' : '#FFFFFF');
+        star.alpha = earned ? 1 : 0.5;
+        star.position.set(padding + i * (iconSize + gap) + iconSize / 2, pillHeight / 2 + scale(1));
+        starsContainer.addChild(star);
+      }
+
+      starsContainer.position.set(width - totalWidth - scale(12), scale(12));
+      container.addChild(starsContainer);
+    }
+
+    // Title (Bottom Strip) - kept clear of the avatar
+    if (levelData.title) {
+      const stripHeight = scale(30);
+      const titleBg = new PIXI.Graphics();
+      titleBg.rect(0, height - stripHeight, width, stripHeight);
+      titleBg.fill({ color: 0x000000, alpha: 0.4 });
+      container.addChild(titleBg);
+
+      const titleText = new PIXI.Text({
+        text: levelData.title,
+        style: {
+          fontFamily: 'Arial',
+          fontSize: scale(14),
+          fill: '#FFFFFF',
+          fontWeight: 'bold'
+        }
+      });
+      titleText.anchor.set(0, 0.5);
+      titleText.position.set(scale(12), height - stripHeight / 2);
+      UIFactory.fitText(titleText, width - scale(12) - scale(36));
+      container.addChild(titleText);
+    }
+
     // Designer Avatar (Bottom Right)
     // Always show an avatar to allow access to User Profile Card (Delete/Like)
     // Placed HERE (end of function) to ensure it is above the dark overlay for unpublished levels
@@ -608,7 +707,17 @@ export class LevelSelectionUI extends PIXI.Container {
       levelData.buttons.forEach(config => container.addChild(Button.createVisual(config)));
     }
 
-    // 9. Balls
+    // 9. Portals
+    if (levelData.portals) {
+      levelData.portals.forEach(config => container.addChild(Portal.createVisual(config)));
+    }
+
+    // 10. Springs
+    if (levelData.springs) {
+      levelData.springs.forEach(config => container.addChild(Spring.createVisual(config)));
+    }
+
+    // 11. Balls
     if (levelData.balls) {
       const blue = Ball.createVisual(levelData.balls.blue.x, levelData.balls.blue.y, 'blue');
       const pink = Ball.createVisual(levelData.balls.pink.x, levelData.balls.pink.y, 'pink');
@@ -677,6 +786,7 @@ export class LevelSelectionUI extends PIXI.Container {
 
     // Snap to page
     this.scrollToPage(this.currentPage);
+    this.loadMoreIfNeeded();
   }
 
   private scrollToPage(pageIndex: number): void {
@@ -788,13 +898,24 @@ export class LevelSelectionUI extends PIXI.Container {
         this.closeUserProfile();
         this.setFilterAuthor(id, levelData.author || '', color);
       },
-      () => {
-        LevelService.getInstance().toggleLike(levelData.id);
+      async (liked) => {
+        const request = LevelService.getInstance().setLike(levelData, liked);
+        this.setupGrid();
+        try {
+          await request;
+        } catch (error) {
+          this.showErrorDialog(getApiErrorKey(error));
+        }
         this.setupGrid();
       },
-      (levelId) => {
-        LevelService.getInstance().deleteLevel(levelId);
+      async (levelId) => {
         this.closeUserProfile();
+        try {
+          await LevelService.getInstance().deleteLevel(levelId);
+        } catch (error) {
+          this.showErrorDialog(getApiErrorKey(error));
+          return;
+        }
         // Remove locally to update UI immediately without re-fetching
         this.levels = this.levels.filter(l => l.id !== levelId);
         this.refreshVisibleLevels();
@@ -805,6 +926,22 @@ export class LevelSelectionUI extends PIXI.Container {
     this.addChild(this.userProfileCard);
   }
 
+  private showErrorDialog(messageKey: TranslationKey): void {
+    const dialog = new ConfirmDialog(
+      LanguageManager.getInstance().t(messageKey),
+      () => {
+        this.removeChild(dialog);
+        dialog.destroy();
+      },
+      () => {
+        this.removeChild(dialog);
+        dialog.destroy();
+      },
+      { showCancel: false, confirmKey: 'common.ok' }
+    );
+    this.addChild(dialog);
+  }
+
   private closeUserProfile(): void {
     if (this.userProfileCard) {
       this.removeChild(this.userProfileCard);
@@ -819,7 +956,7 @@ export class LevelSelectionUI extends PIXI.Container {
 
   // --- Logic for Sorting and Filtering ---
 
-  private setSortMode(mode: 'latest' | 'popular'): void {
+  private setSortMode(mode: LevelSortMode): void {
     const currentUserId = LevelService.getInstance().getUserProfile()?.id;
     // If currently in "Mine" mode, clicking a sort button should exit "Mine" mode (Tab switching behavior)
     if (this.filterAuthorId && this.filterAuthorId === currentUserId) {
@@ -860,6 +997,19 @@ export class LevelSelectionUI extends PIXI.Container {
     this.updateSortButtons(); // To update 'Mine' button state
     this.updateFilterTag();
     this.refreshVisibleLevels();
+    this.onAuthorFilterChange?.(authorId);
+  }
+
+  public getFilterAuthorId(): string | null {
+    return this.filterAuthorId;
+  }
+
+  /**
+   * Filter by author (or clear the filter), e.g. when opened from a link
+   */
+  public showAuthor(authorId: string | null): void {
+    const authorName = authorId ? this.levels.find(level => level.authorId === authorId)?.author : undefined;
+    this.setFilterAuthor(authorId, authorName);
   }
 
   private updateFilterTag(): void {
@@ -995,16 +1145,158 @@ export class LevelSelectionUI extends PIXI.Container {
     });
   }
 
+  // --- Search and Tags ---
+
+  private updateSearchRow(): void {
+    if (!this.searchRowContainer) return;
+    this.searchRowContainer.removeChildren().forEach(child => child.destroy({ children: true }));
+
+    const rowHeight = scale(36);
+    const gap = scale(10);
+
+    const searchBox = this.createSearchBox(scale(220), rowHeight);
+    this.searchRowContainer.addChild(searchBox);
+
+    let x = searchBox.width + gap * 2;
+    for (const tag of LEVEL_TAGS) {
+      const chip = this.createTagChip(tag, rowHeight);
+      chip.x = x;
+      this.searchRowContainer.addChild(chip);
+      x += chip.width + gap;
+    }
+
+    // Centered under the sort buttons, but clear of the title on narrow screens
+    const rowWidth = x - gap;
+    const minX = this.appTitleText ? this.appTitleText.x + this.appTitleText.width + scale(30) : 0;
+    this.searchRowContainer.x = Math.max(minX, (getCanvasWidth() - rowWidth) / 2);
+    this.searchRowContainer.y = this.getHeaderHeight() - rowHeight - scale(6);
+  }
+
+  private createSearchBox(width: number, height: number): PIXI.Container {
+    const t = (key: TranslationKey) => LanguageManager.getInstance().t(key);
+    const container = new PIXI.Container();
+
+    const bg = new PIXI.Graphics();
+    bg.roundRect(0, 0, width, height, height / 2);
+    bg.fill(0xFFFFFF);
+    bg.stroke({ width: 1, color: 0xE0E0E0 });
+    container.addChild(bg);
+
+    const icon = UIFactory.createIcon('\uF52A', scale(16), '#999999');
+    icon.position.set(height / 2, height / 2);
+    container.addChild(icon);
+
+    const label = new PIXI.Text({
+      text: this.searchText || t('search.placeholder'),
+      style: {
+        fontFamily: 'Arial',
+        fontSize: scale(16),
+        fill: this.searchText ? '#333333' : '#AAAAAA',
+      }
+    });
+    label.anchor.set(0, 0.5);
+    label.position.set(height, height / 2);
+    container.addChild(label);
+
+    // Long queries are cut off before the clear button
+    const labelMask = new PIXI.Graphics();
+    labelMask.rect(height, 0, width - height * 2, height);
+    labelMask.fill(0xFFFFFF);
+    label.mask = labelMask;
+    container.addChild(labelMask);
+
+    if (this.searchText) {
+      const clearBtn = UIFactory.createIcon('\uF659', scale(14), '#999999');
+      clearBtn.position.set(width - height / 2, height / 2);
+      clearBtn.eventMode = 'static';
+      clearBtn.cursor = 'pointer';
+      clearBtn.on('pointertap', (e) => {
+        e.stopPropagation(); // Do not open the text input underneath
+        this.setSearchText('');
+      });
+      container.addChild(clearBtn);
+    }
+
+    container.eventMode = 'static';
+    container.cursor = 'text';
+    container.on('pointertap', async (e) => {
+      const text = await openTextInput(e, container.getBounds().rectangle, {
+        value: this.searchText,
+        placeholder: t('search.placeholder'),
+        maxLength: MAX_SEARCH_LENGTH,
+        fontSize: scale(16),
+      });
+      if (text !== null && !this.destroyed) this.setSearchText(text);
+    });
+
+    return container;
+  }
+
+  private createTagChip(tag: LevelTag, height: number): PIXI.Container {
+    const isSelected = this.filterTag === tag;
+    const container = new PIXI.Container();
+
+    const label = new PIXI.Text({
+      text: LanguageManager.getInstance().t(`tag.${tag}` as TranslationKey),
+      style: {
+        fontFamily: 'Arial',
+        fontSize: scale(16),
+        fill: isSelected ? '#FFFFFF' : '#555555',
+        fontWeight: isSelected ? 'bold' : 'normal',
+      }
+    });
+    const width = label.width + scale(28);
+
+    const bg = new PIXI.Graphics();
+    bg.roundRect(0, 0, width, height, height / 2);
+    bg.fill(isSelected ? 0x555555 : 0xFFFFFF);
+    bg.stroke({ width: 1, color: isSelected ? 0x555555 : 0xE0E0E0 });
+    container.addChild(bg);
+
+    label.anchor.set(0.5);
+    label.position.set(width / 2, height / 2);
+    container.addChild(label);
+
+    container.eventMode = 'static';
+    container.cursor = 'pointer';
+    container.on('pointertap', () => this.setFilterTag(isSelected ? null : tag));
+
+    return container;
+  }
+
+  private setSearchText(text: string): void {
+    const trimmed = text.trim();
+    if (trimmed === this.searchText) return;
+    this.searchText = trimmed;
+    this.updateSearchRow();
+    this.refreshVisibleLevels();
+  }
+
+  private setFilterTag(tag: LevelTag | null): void {
+    if (this.filterTag === tag) return;
+    this.filterTag = tag;
+    this.updateSearchRow();
+    this.refreshVisibleLevels();
+  }
+
+  private getSearchQuery(): LevelSearchQuery {
+    return {
+      text: this.searchText || undefined,
+      tag: this.filterTag ?? undefined,
+    };
+  }
+
   private refreshVisibleLevels(): void {
     // 1. Filter
     let list = this.levels;
     const filterId = this.filterAuthorId;
 
     const currentUserId = LevelService.getInstance().getUserProfile()?.id;
+    const isMine = !!currentUserId && filterId === currentUserId;
 
     // Default: Filter out unpublished levels (Drafts)
     // Only show drafts if we are explicitly filtering by CURRENT_USER_ID ("Mine")
-    if (currentUserId && filterId === currentUserId) {
+    if (isMine) {
       list = list.filter(l => l.authorId === filterId);
     } else if (filterId) {
       // Filtering by another user -> Match author AND must be published
@@ -1017,25 +1309,87 @@ export class LevelSelectionUI extends PIXI.Container {
       list = list.filter(l => l.isPublished !== false);
     }
 
-    // 2. Sort
-    // Create a shallow copy to sort
-    list = [...list];
-    if (this.sortMode === 'popular') {
-      list.sort((a, b) => (b.likes || 0) - (a.likes || 0));
-    } else {
-      // Latest (default sort by date)
-      list.sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0));
+    const query = this.getSearchQuery();
+    list = list.filter(l => matchesLevelSearch(l, query));
+
+    // 2. Sort (on a shallow copy)
+    list = [...list].sort(compareLevels(this.sortMode));
+
+    // 3. Show what is loaded, then replace it with the server listing, which also
+    // reaches older levels. Drafts exist only here, so "Mine" keeps them in front.
+    this.listingRequestId++;
+    this.listingQuery = { ...query, authorId: filterId ?? undefined, sort: this.sortMode };
+    this.pinnedLevels = isMine ? list.filter(l => !l.isPublished) : [];
+    this.nextCursor = null;
+    this.hasFirstPage = false;
+    this.isLoadingPage = false;
+
+    this.showLevels(list);
+    this.loadNextPage();
+  }
+
+  /**
+   * Fetch the next page of the server listing. The first page replaces the levels
+   * filtered locally; later ones are appended.
+   */
+  private loadNextPage(): void {
+    if (this.isLoadingPage || (this.hasFirstPage && !this.nextCursor)) return;
+
+    const requestId = this.listingRequestId;
+    this.isLoadingPage = true;
+
+    LevelService.getInstance().searchLevels({ ...this.listingQuery, cursor: this.nextCursor ?? undefined })
+      .then(page => {
+        if (requestId !== this.listingRequestId || this.destroyed) return;
+        this.isLoadingPage = false;
+        this.nextCursor = page.nextCursor;
+
+        if (this.hasFirstPage) {
+          this.appendLevels(page.levels);
+        } else {
+          this.hasFirstPage = true;
+          this.showLevels([...this.pinnedLevels, ...page.levels]);
+        }
+        this.loadMoreIfNeeded();
+      })
+      .catch(e => {
+        if (requestId !== this.listingRequestId || this.destroyed) return;
+        console.warn('Failed to load levels, showing loaded levels only', e);
+        // Stop paging; the next refresh tries again
+        this.isLoadingPage = false;
+        this.hasFirstPage = true;
+        this.nextCursor = null;
+        this.setupGrid();
+      });
+  }
+
+  /**
+   * Fetch more levels once the user swipes close to the last page
+   */
+  private loadMoreIfNeeded(): void {
+    if (this.currentPage >= this.totalPages - 1 - this.PREFETCH_PAGES) {
+      this.loadNextPage();
     }
+  }
+
+  private appendLevels(levels: LevelData[]): void {
+    // Likes can move a level onto the next page of the popular listing
+    const shownIds = new Set(this.visibleLevels.map(l => l.id));
+    this.visibleLevels.push(...levels.filter(l => !shownIds.has(l.id)));
+    this.totalPages = Math.max(1, Math.ceil(this.visibleLevels.length / this.ITEMS_PER_PAGE));
+    this.setupGrid();
+  }
 
-    this.visibleLevels = list;
+  private showLevels(levels: LevelData[]): void {
+    this.visibleLevels = levels;
 
-    // 3. Reset Pagination
+    // Reset Pagination
     this.scrollTweenId++; // 取消任何進行中的動畫
     this.currentPage = 0;
     this.totalPages = Math.ceil(this.visibleLevels.length / this.ITEMS_PER_PAGE);
     if (this.totalPages === 0) this.totalPages = 1; // Show at least one empty page if no results
 
-    // 4. Re-render
+    // Re-render
     this.gridContainer.x = 0;
     this.setupGrid();
   }
@@ -1,7 +1,7 @@
 
 import * as PIXI from 'pixi.js';
 import { getCanvasWidth, getCanvasHeight, scale } from '../config';
-import { PENS } from '../data/PenData';
+import { PENS, isPenAllowed } from '../data/PenData';
 import type { Pen } from '../data/PenData';
 import { UIFactory } from './UIFactory';
 import { LanguageManager, type TranslationKey } from '../i18n/LanguageManager';
@@ -17,6 +17,8 @@ export class PenSelectionUI extends PIXI.Container {
   private dragStartX: number = 0;
   private dragStartScrollX: number = 0;
   private selectedPenIndex: number = 0;
+  private allowedPenIds?: string[]; // Level restriction; all pens if undefined
+  private useBtn!: PIXI.Container;
   private onSelectCallback: (pen: Pen) => void;
   private onCloseCallback: () => void;
 
@@ -31,10 +33,11 @@ export class PenSelectionUI extends PIXI.Container {
   private itemSpacing = 0;
   private centerX = 0;
 
-  constructor(onSelect: (pen: Pen) => void, onClose: () => void, initialPenId?: string) {
+  constructor(onSelect: (pen: Pen) => void, onClose: () => void, initialPenId?: string, allowedPenIds?: string[]) {
     super();
     this.onSelectCallback = onSelect;
     this.onCloseCallback = onClose;
+    this.allowedPenIds = allowedPenIds;
 
     this.updateLayoutValues();
 
@@ -46,7 +49,9 @@ export class PenSelectionUI extends PIXI.Container {
     let initialIndex = 0;
     if (initialPenId) {
       initialIndex = PENS.findIndex(p => p.id === initialPenId);
-      if (initialIndex === -1) initialIndex = 0;
+    }
+    if (initialIndex === -1 || !isPenAllowed(PENS[initialIndex].id, this.allowedPenIds)) {
+      initialIndex = Math.max(0, PENS.findIndex(p => isPenAllowed(p.id, this.allowedPenIds)));
     }
     this.centerOnIndex(initialIndex);
     this.scrollX = this.targetScrollX;
@@ -120,7 +125,8 @@ export class PenSelectionUI extends PIXI.Container {
     penIcon.position.set(scale(35), scale(36));
     badge.addChild(penIcon);
 
-    const countText = new PIXI.Text({ text: `${PENS.length} / ${PENS.length}`, style: { fontFamily: 'Arial', fontSize: scale(28), fill: 0x555555 } });
+    const allowedCount = PENS.filter(p => isPenAllowed(p.id, this.allowedPenIds)).length;
+    const countText = new PIXI.Text({ text: `${allowedCount} / ${PENS.length}`, style: { fontFamily: 'Arial', fontSize: scale(28), fill: 0x555555 } });
     countText.position.set(scale(60), scale(14));
     badge.addChild(countText);
 
@@ -174,19 +180,20 @@ export class PenSelectionUI extends PIXI.Container {
 
   private createPenItem(pen: Pen): PIXI.Container {
     const item = new PIXI.Container();
+    const allowed = isPenAllowed(pen.id, this.allowedPenIds);
 
     // Visual representation of the pen
     const gfx = new PIXI.Graphics();
 
     // Pen body
     gfx.rect(scale(-10), scale(-60), scale(20), scale(120));
-    gfx.fill(pen.color);
+    gfx.fill(allowed ? pen.color : 0xCCCCCC);
 
     // Pen tip
     gfx.moveTo(scale(-10), scale(60));
     gfx.lineTo(0, scale(80));
     gfx.lineTo(scale(10), scale(60));
-    gfx.fill(0x333333);
+    gfx.fill(allowed ? 0x333333 : 0xAAAAAA);
 
     // Apply scaling and rotation
     gfx.scale.set(1.4);
@@ -194,13 +201,19 @@ export class PenSelectionUI extends PIXI.Container {
 
     // Label
     const penName = LanguageManager.getInstance().t(`pen.names.${pen.id}` as TranslationKey);
-    const text = new PIXI.Text({ text: penName, style: { fontFamily: 'Arial', fontSize: scale(20), fill: 0x333333 } });
+    const text = new PIXI.Text({ text: penName, style: { fontFamily: 'Arial', fontSize: scale(20), fill: allowed ? 0x333333 : 0xAAAAAA } });
     text.anchor.set(0.5);
     text.y = scale(130);
 
     item.addChild(gfx);
     item.addChild(text);
 
+    // Pens the level does not allow are shown locked
+    if (!allowed) {
+      const lock = UIFactory.createIcon('\uF47A', scale(36), 0x888888);
+      item.addChild(lock);
+    }
+
     return item;
   }
 
@@ -222,9 +235,11 @@ export class PenSelectionUI extends PIXI.Container {
     btn.cursor = 'pointer';
     btn.on('pointertap', () => {
       const selectedPen = PENS[this.selectedPenIndex];
+      if (!isPenAllowed(selectedPen.id, this.allowedPenIds)) return;
       this.onSelectCallback(selectedPen);
     });
 
+    this.useBtn = btn;
     this.card.addChild(btn);
   }
 
@@ -307,6 +322,11 @@ export class PenSelectionUI extends PIXI.Container {
       item.scale.set(scaleValue);
       item.alpha = Math.max(0.5, scaleValue);
     });
+
+    // Disabled while a locked pen is centered
+    const selectable = isPenAllowed(PENS[this.selectedPenIndex].id, this.allowedPenIds);
+    this.useBtn.alpha = selectable ? 1 : 0.4;
+    this.useBtn.cursor = selectable ? 'pointer' : 'default';
   }
 
   destroy(options?: any): void {
@@ -0,0 +1,213 @@
+import * as PIXI from 'pixi.js';
+import { getCanvasWidth, getCanvasHeight, scale, FIXED_TIMESTEP } from '../config';
+import { UIFactory } from './UIFactory';
+
+export interface ReplayControlsCallbacks {
+  onPlayPause: () => void;
+  onSeek: (frame: number) => void;
+  onExport: () => void;
+  onImport: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Bottom bar shown while a replay is playing: play / pause, a scrub bar,
+ * the current time and export / import / close buttons.
+ */
+export class ReplayControls extends PIXI.Container {
+  private callbacks: ReplayControlsCallbacks;
+  private frame: number = 0;
+  private totalFrames: number = 1;
+  private playing: boolean = false;
+
+  private playIcon: PIXI.Text | null = null;
+  private timeText: PIXI.Text | null = null;
+  private track: PIXI.Container | null = null;
+  private trackFill: PIXI.Graphics | null = null;
+  private trackKnob: PIXI.Graphics | null = null;
+  private trackWidth: number = 0;
+  private isScrubbing: boolean = false;
+
+  constructor(callbacks: ReplayControlsCallbacks) {
+    super();
+    this.callbacks = callbacks;
+    this.zIndex = 1000;
+    this.refreshUI();
+  }
+
+  /**
+   * Update the displayed playback position
+   */
+  setState(frame: number, totalFrames: number, playing: boolean): void {
+    const playingChanged = playing !== this.playing;
+    this.frame = frame;
+    this.totalFrames = Math.max(1, totalFrames);
+    this.playing = playing;
+
+    if (playingChanged && this.playIcon) {
+      this.playIcon.text = playing ? '\uF4C3' : '\uF4F4';
+    }
+    this.updateProgress();
+  }
+
+  /**
+   * Rebuild the bar for the current canvas size
+   */
+  refreshUI(): void {
+    this.removeChildren().forEach(child => child.destroy({ children: true }));
+
+    const canvasWidth = getCanvasWidth();
+    const canvasHeight = getCanvasHeight();
+    const barHeight = scale(64);
+    const barWidth = Math.min(canvasWidth - scale(40), scale(900));
+    const barX = (canvasWidth - barWidth) / 2;
+    const barY = canvasHeight - barHeight - scale(20);
+    const padding = scale(12);
+    const btnSize = scale(40);
+
+    const card = UIFactory.createCard(barWidth, barHeight, 0xFFFFFF, barHeight / 2);
+    card.position.set(barX, barY);
+    card.eventMode = 'static'; // Keep clicks from reaching the game below
+    this.addChild(card);
+
+    const centerY = barHeight / 2;
+    let x = padding + scale(8);
+
+    // Play / Pause
+    const playBtn = this.createIconButton(this.playing ? '\uF4C3' : '\uF4F4', btnSize, this.callbacks.onPlayPause);
+    playBtn.position.set(x, centerY - btnSize / 2);
+    card.addChild(playBtn);
+    this.playIcon = playBtn.children[1] as PIXI.Text;
+    x += btnSize + padding;
+
+    // Right side buttons (laid out right to left)
+    let rightX = barWidth - padding - scale(8) - btnSize;
+    const closeBtn = this.createIconButton('\uF659', btnSize, this.callbacks.onClose);
+    closeBtn.position.set(rightX, centerY - btnSize / 2);
+    card.addChild(closeBtn);
+    rightX -= btnSize + scale(4);
+
+    const importBtn = this.createIconButton('\uF603', btnSize, this.callbacks.onImport);
+    importBtn.position.set(rightX, centerY - btnSize / 2);
+    card.addChild(importBtn);
+    rightX -= btnSize + scale(4);
+
+    const exportBtn = this.createIconButton('\uF30A', btnSize, this.callbacks.onExport);
+    exportBtn.position.set(rightX, centerY - btnSize / 2);
+    card.addChild(exportBtn);
+
+    // Time label
+    const timeWidth = scale(110);
+    this.timeText = new PIXI.Text({
+      text: '',
+      style: {
+        fontFamily: 'Arial',
+        fontSize: scale(16),
+        fill: 0x555555,
+        fontWeight: 'bold',
+      }
+    });
+    this.timeText.anchor.set(1, 0.5);
+    this.timeText.position.set(rightX - padding, centerY);
+    card.addChild(this.timeText);
+
+    // Scrub track fills the remaining space
+    this.trackWidth = Math.max(scale(40), rightX - padding - timeWidth - x);
+    const trackHeight = scale(6);
+    this.track = new PIXI.Container();
+    this.track.position.set(x, centerY);
+
+    const hitArea = new PIXI.Graphics();
+    hitArea.rect(0, -btnSize / 2, this.trackWidth, btnSize);
+    hitArea.fill({ color: 0xFFFFFF, alpha: 0.001 });
+    this.track.addChild(hitArea);
+
+    const trackBg = UIFactory.createPill(this.trackWidth, trackHeight, 0xDDDDDD);
+    trackBg.position.set(0, -trackHeight / 2);
+    this.track.addChild(trackBg);
+
+    this.trackFill = new PIXI.Graphics();
+    this.track.addChild(this.trackFill);
+
+    this.trackKnob = new PIXI.Graphics();
+    this.trackKnob.circle(0, 0, scale(10));
+    this.trackKnob.fill(0x555555);
+    this.track.addChild(this.trackKnob);
+
+    this.track.eventMode = 'static';
+    this.track.cursor = 'pointer';
+    this.track.on('pointerdown', this.onScrubStart, this);
+    card.addChild(this.track);
+
+    this.updateProgress();
+  }
+
+  destroy(options?: PIXI.DestroyOptions): void {
+    this.onScrubEnd();
+    super.destroy(options);
+  }
+
+  private createIconButton(iconChar: string, size: number, onClick: () => void): PIXI.Container {
+    const btn = new PIXI.Container();
+
+    const hitArea = new PIXI.Graphics();
+    hitArea.rect(0, 0, size, size);
+    hitArea.fill({ color: 0xFFFFFF, alpha: 0.001 });
+    btn.addChild(hitArea);
+
+    const icon = UIFactory.createIcon(iconChar, scale(28), '#555555');
+    icon.position.set(size / 2, size / 2);
+    btn.addChild(icon);
+
+    btn.eventMode = 'static';
+    btn.cursor = 'pointer';
+    btn.on('pointertap', onClick);
+    return btn;
+  }
+
+  private updateProgress(): void {
+    if (!this.trackFill || !this.trackKnob || !this.timeText) return;
+
+    const progress = Math.min(1, this.frame / this.totalFrames);
+    const fillWidth = this.trackWidth * progress;
+    const trackHeight = scale(6);
+
+    this.trackFill.clear();
+    if (fillWidth > 0) {
+      this.trackFill.roundRect(0, -trackHeight / 2, fillWidth, trackHeight, trackHeight / 2);
+      this.trackFill.fill(0x555555);
+    }
+    this.trackKnob.position.set(fillWidth, 0);
+
+    this.timeText.text = `${formatTime(this.frame)} / ${formatTime(this.totalFrames)}`;
+  }
+
+  private onScrubStart(e: PIXI.FederatedPointerEvent): void {
+    this.isScrubbing = true;
+    this.track?.on('globalpointermove', this.onScrubMove, this);
+    this.track?.on('pointerup', this.onScrubEnd, this);
+    this.track?.on('pointerupoutside', this.onScrubEnd, this);
+    this.onScrubMove(e);
+  }
+
+  private onScrubMove(e: PIXI.FederatedPointerEvent): void {
+    if (!this.isScrubbing || !this.track) return;
+    const local = this.track.toLocal(e.global);
+    const progress = Math.max(0, Math.min(1, local.x / this.trackWidth));
+    this.callbacks.onSeek(Math.round(progress * this.totalFrames));
+  }
+
+  private onScrubEnd(): void {
+    this.isScrubbing = false;
+    this.track?.off('globalpointermove', this.onScrubMove, this);
+    this.track?.off('pointerup', this.onScrubEnd, this);
+    this.track?.off('pointerupoutside', this.onScrubEnd, this);
+  }
+}
+
+/**
+ * Format a frame count as seconds with hundredths (e.g. "3.25s")
+ */
+function formatTime(frames: number): string {
+  return `${(frames * FIXED_TIMESTEP).toFixed(2)}s`;
+}
@@ -0,0 +1,80 @@
+import * as PIXI from 'pixi.js';
+
+export interface TextInputOptions {
+  value: string;
+  placeholder?: string;
+  maxLength?: number;
+  fontSize?: number;
+  multiline?: boolean; // Enter adds a line; Ctrl+Enter or leaving the field commits
+}
+
+/**
+ * Edit text in an HTML input laid over a Pixi.js element, since the canvas cannot take
+ * keyboard input (or show the on-screen keyboard) itself.
+ *
+ * Call from the pointertap that opens the editor: the event locates the canvas on the page.
+ * Resolves with the new text on Enter (Ctrl+Enter when multi-line) or when focus leaves,
+ * or null on Escape.
+ */
+export function openTextInput(
+  e: PIXI.FederatedPointerEvent,
+  bounds: PIXI.Rectangle,
+  options: TextInputOptions
+): Promise<string | null> {
+  // Canvas origin on the page (global coordinates are canvas CSS pixels)
+  const originX = e.client.x - e.global.x;
+  const originY = e.client.y - e.global.y;
+
+  const input = options.multiline ? document.createElement('textarea') : document.createElement('input');
+  input.value = options.value;
+  input.placeholder = options.placeholder ?? '';
+  if (options.maxLength !== undefined) input.maxLength = options.maxLength;
+
+  Object.assign(input.style, {
+    position: 'fixed',
+    left: `${originX + bounds.x}px`,
+    top: `${originY + bounds.y}px`,
+    width: `${bounds.width}px`,
+    height: `${bounds.height}px`,
+    padding: options.multiline ? '8px' : `0 ${bounds.height / 2}px`,
+    border: '2px solid #37A4E9',
+    borderRadius: options.multiline ? '8px' : `${bounds.height / 2}px`,
+    resize: 'none',
+    outline: 'none',
+    background: '#FFFFFF',
+    color: '#333333',
+    fontFamily: 'Arial',
+    fontSize: `${options.fontSize ?? bounds.height / 2}px`,
+    zIndex: '1000',
+  });
+
+  return new Promise(resolve => {
+    let done = false;
+    const finish = (result: string | null) => {
+      if (done) return;
+      done = true;
+      window.removeEventListener('resize', commit);
+      input.remove();
+      resolve(result);
+    };
+    const commit = () => finish(input.value);
+
+    input.addEventListener('keydown', (event) => {
+      // Keep editor and camera shortcuts from firing while typing
+      event.stopPropagation();
+      const { key, ctrlKey, metaKey } = event as KeyboardEvent;
+      if (key === 'Enter' && (!options.multiline || ctrlKey || metaKey)) commit();
+      if (key === 'Escape') finish(null);
+    });
+    input.addEventListener('blur', commit);
+    // The element underneath moves on resize
+    window.addEventListener('resize', commit);
+
+    document.body.appendChild(input);
+    // After the tap that opened it, or the tap's focus handling would blur it again
+    requestAnimationFrame(() => {
+      input.focus();
+      input.select();
+    });
+  });
+}
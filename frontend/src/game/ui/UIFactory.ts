@@ -156,6 +156,19 @@ export class UIFactory {
   }
 
 
+  /**
+   * Shorten a single-line text with an ellipsis until it fits `maxWidth`
+   */
+  public static fitText(text: PIXI.Text, maxWidth: number): void {
+    if (text.width <= maxWidth) return;
+    const full = text.text;
+    let length = full.length;
+    do {
+      length--;
+      text.text = `${full.slice(0, length).trimEnd()}\u2026`;
+    } while (length > 0 && text.width > maxWidth);
+  }
+
   /**
    * Creates a standardized card container with Shadow and Background pre-added.
    * @param width Width of the card
@@ -0,0 +1,440 @@
+import * as PIXI from 'pixi.js';
+import { scale } from '../../config';
+import { UIFactory } from '../UIFactory';
+import { LanguageManager, type TranslationKey } from '../../i18n/LanguageManager';
+import { LEVEL_LIMITS } from '../../levels/LevelValidator';
+import { getLevelBounds } from '../../levels/LevelBounds';
+import type { LevelBounds, LevelData, StarCriteria } from '../../levels/LevelSchema';
+import { PENS, isPenAllowed } from '../../data/PenData';
+import { LEVEL_TAGS, type LevelTag } from '../../levels/LevelSearch';
+import { openTextInput } from '../TextInput';
+
+/**
+ * A free-text level setting; clearing the text removes the field
+ */
+type TextFieldDef = {
+  key: 'title' | 'description' | 'hint';
+  label: TranslationKey;
+  maxLength: number;
+  multiline: boolean;
+};
+
+const TEXT_FIELDS: TextFieldDef[] = [
+  { key: 'title', label: 'editor.level_title', maxLength: LEVEL_LIMITS.MAX_TITLE_LENGTH, multiline: false },
+  { key: 'description', label: 'editor.level_description', maxLength: LEVEL_LIMITS.MAX_DESCRIPTION_LENGTH, multiline: true },
+  { key: 'hint', label: 'editor.level_hint', maxLength: LEVEL_LIMITS.MAX_HINT_LENGTH, multiline: true },
+];
+
+/**
+ * An optional numeric level setting. Stepping below `min` clears it (unlimited);
+ * stepping from unlimited starts at `initial`.
+ */
+type LimitDef = {
+  label: TranslationKey;
+  min: number;
+  max: number;
+  step: number;
+  initial: number;
+  getValue: (level: LevelData) => number | undefined;
+  setValue: (level: LevelData, value: number | undefined) => void;
+};
+
+type LimitRange = Pick<LimitDef, 'min' | 'max' | 'step' | 'initial'>;
+
+const INK_RANGE: LimitRange = { min: 100, max: LEVEL_LIMITS.MAX_INK, step: 100, initial: 1000 };
+const STROKES_RANGE: LimitRange = { min: 1, max: LEVEL_LIMITS.MAX_STROKES, step: 1, initial: 3 };
+const TIME_RANGE: LimitRange = { min: 1, max: LEVEL_LIMITS.MAX_STAR_TIME, step: 1, initial: 10 };
+
+/**
+ * Setting for one criterion of a star tier; empty tiers are removed
+ */
+function starLimit(
+  tier: 'two' | 'three',
+  key: keyof StarCriteria,
+  label: TranslationKey,
+  range: LimitRange
+): LimitDef {
+  return {
+    label,
+    ...range,
+    getValue: (level) => level.starThresholds?.[tier]?.[key],
+    setValue: (level, value) => {
+      const thresholds = level.starThresholds || {};
+      const criteria: StarCriteria = { ...thresholds[tier] };
+      if (value === undefined) {
+        delete criteria[key];
+      } else {
+        criteria[key] = value;
+      }
+
+      if (Object.keys(criteria).length > 0) {
+        thresholds[tier] = criteria;
+      } else {
+        delete thresholds[tier];
+      }
+
+      if (Object.keys(thresholds).length > 0) {
+        level.starThresholds = thresholds;
+      } else {
+        delete level.starThresholds;
+      }
+    },
+  };
+}
+
+/**
+ * Setting for one side of the level bounds. Never unlimited: stepping below
+ * one screen keeps one screen, and a single-screen level drops `bounds`.
+ */
+function boundsLimit(key: keyof LevelBounds, label: TranslationKey, min: number, max: number, step: number): LimitDef {
+  return {
+    label,
+    min,
+    max,
+    step,
+    initial: min,
+    getValue: (level) => getLevelBounds(level)[key],
+    setValue: (level, value) => {
+      const bounds = { ...getLevelBounds(level), [key]: value ?? min };
+      if (bounds.width === LEVEL_LIMITS.CANVAS_WIDTH && bounds.height === LEVEL_LIMITS.CANVAS_HEIGHT) {
+        delete level.bounds;
+      } else {
+        level.bounds = bounds;
+      }
+    },
+  };
+}
+
+const LIMIT_DEFS: LimitDef[] = [
+  boundsLimit('width', 'editor.level_width', LEVEL_LIMITS.CANVAS_WIDTH, LEVEL_LIMITS.MAX_LEVEL_WIDTH, LEVEL_LIMITS.CANVAS_WIDTH / 4),
+  boundsLimit('height', 'editor.level_height', LEVEL_LIMITS.CANVAS_HEIGHT, LEVEL_LIMITS.MAX_LEVEL_HEIGHT, LEVEL_LIMITS.CANVAS_HEIGHT / 2),
+  {
+    label: 'editor.max_ink',
+    ...INK_RANGE,
+    getValue: (level) => level.maxInk,
+    setValue: (level, value) => {
+      if (value === undefined) delete level.maxInk; else level.maxInk = value;
+    },
+  },
+  {
+    label: 'editor.max_strokes',
+    ...STROKES_RANGE,
+    getValue: (level) => level.maxStrokes,
+    setValue: (level, value) => {
+      if (value === undefined) delete level.maxStrokes; else level.maxStrokes = value;
+    },
+  },
+  starLimit('three', 'maxStrokes', 'editor.three_star_strokes', STROKES_RANGE),
+  starLimit('two', 'maxStrokes', 'editor.two_star_strokes', STROKES_RANGE),
+  starLimit('three', 'maxInk', 'editor.three_star_ink', INK_RANGE),
+  starLimit('two', 'maxInk', 'editor.two_star_ink', INK_RANGE),
+  starLimit('three', 'maxTime', 'editor.three_star_time', TIME_RANGE),
+  starLimit('two', 'maxTime', 'editor.two_star_time', TIME_RANGE),
+];
+
+// Limits are laid out in pairs (width / height, ink / strokes, 3★ / 2★)
+const COLUMNS = 2;
+const ROW_HEIGHT = 48;
+const TEXT_ROW_HEIGHT = 32;
+const TEXT_LABEL_WIDTH = 90;
+const PEN_ROW_HEIGHT = 24;
+const PEN_COLUMNS = 2;
+const PEN_ROWS = Math.ceil(PENS.length / PEN_COLUMNS);
+const TAG_COLUMNS = 3;
+const TAG_ROWS = Math.ceil(LEVEL_TAGS.length / TAG_COLUMNS);
+
+/**
+ * Panel for settings that belong to the level as a whole rather than to an object
+ */
+export class LevelSettingsPanel extends PIXI.Container {
+  private panelWidth: number;
+  private level: LevelData;
+  private onUpdate: () => void; // Call when a setting changes so Game can mark the level as edited
+
+  private rowsContainer: PIXI.Container;
+
+  constructor(width: number, level: LevelData, onUpdate: () => void) {
+    super();
+    this.panelWidth = width;
+    this.level = level;
+    this.onUpdate = onUpdate;
+
+    const t = (key: TranslationKey) => LanguageManager.getInstance().t(key);
+    const limitRows = Math.ceil(LIMIT_DEFS.length / COLUMNS);
+    const height = scale(50) + TEXT_FIELDS.length * scale(TEXT_ROW_HEIGHT) + limitRows * scale(ROW_HEIGHT)
+      + (PEN_ROWS + 1 + TAG_ROWS + 1) * scale(PEN_ROW_HEIGHT) + scale(10);
+
+    // Background
+    const bg = UIFactory.createCardBackground(width, height, 0x333333, scale(12));
+    bg.alpha = 0.8;
+    this.addChild(bg);
+
+    // Title
+    const title = new PIXI.Text({
+      text: t('editor.level_settings'),
+      style: {
+        fontFamily: 'Arial',
+        fontSize: scale(18),
+        fill: 0xFFFFFF,
+        fontWeight: 'bold'
+      }
+    });
+    title.position.set(scale(20), scale(15));
+    this.addChild(title);
+
+    this.rowsContainer = new PIXI.Container();
+    this.rowsContainer.position.set(scale(10), scale(50));
+    this.addChild(this.rowsContainer);
+
+    this.refreshRows();
+  }
+
+  private refreshRows(): void {
+    this.rowsContainer.removeChildren().forEach(child => child.destroy({ children: true }));
+
+    const t = (key: TranslationKey) => LanguageManager.getInstance().t(key);
+    const rowWidth = this.panelWidth - scale(20);
+    const columnWidth = rowWidth / COLUMNS;
+    const rowHeight = scale(ROW_HEIGHT);
+    const btnSize = scale(30);
+
+    TEXT_FIELDS.forEach((def, i) => {
+      this.rowsContainer.addChild(this.createTextRow(def, i * scale(TEXT_ROW_HEIGHT), rowWidth));
+    });
+
+    const limitsY = TEXT_FIELDS.length * scale(TEXT_ROW_HEIGHT);
+    LIMIT_DEFS.forEach((def, i) => {
+      const row = new PIXI.Container();
+      row.position.set((i % COLUMNS) * columnWidth, limitsY + Math.floor(i / COLUMNS) * rowHeight);
+      this.rowsContainer.addChild(row);
+
+      const label = new PIXI.Text({
+        text: t(def.label),
+        style: { fontFamily: 'Arial', fontSize: 14, fill: 0xFFFFFF }
+      });
+      label.position.set(scale(10), 0);
+      row.addChild(label);
+
+      const value = def.getValue(this.level);
+      const valueText = new PIXI.Text({
+        text: value === undefined ? t('editor.unlimited') : String(value),
+        style: { fontFamily: 'Arial', fontSize: 16, fill: 0xFFFFFF, fontWeight: 'bold' }
+      });
+      valueText.anchor.set(0.5);
+      valueText.position.set(columnWidth / 2, scale(16) + btnSize / 2);
+      row.addChild(valueText);
+
+      const minusBtn = UIFactory.createButton('-', btnSize, btnSize, 0x555555, 0xFFFFFF, () => this.stepLimit(def, -1), 16);
+      minusBtn.position.set(scale(10), scale(16));
+      row.addChild(minusBtn);
+
+      const plusBtn = UIFactory.createButton('+', btnSize, btnSize, 0x555555, 0xFFFFFF, () => this.stepLimit(def, 1), 16);
+      plusBtn.position.set(columnWidth - scale(10) - btnSize, scale(16));
+      row.addChild(plusBtn);
+    });
+
+    // Allowed pens
+    const pensY = limitsY + Math.ceil(LIMIT_DEFS.length / COLUMNS) * rowHeight;
+    const pensLabel = new PIXI.Text({
+      text: t('editor.allowed_pens'),
+      style: { fontFamily: 'Arial', fontSize: 14, fill: 0xFFFFFF }
+    });
+    pensLabel.position.set(scale(10), pensY);
+    this.rowsContainer.addChild(pensLabel);
+
+    const penWidth = rowWidth / PEN_COLUMNS;
+    PENS.forEach((pen, i) => {
+      const row = new PIXI.Container();
+      row.position.set((i % PEN_COLUMNS) * penWidth, pensY + (Math.floor(i / PEN_COLUMNS) + 1) * scale(PEN_ROW_HEIGHT));
+      row.eventMode = 'static';
+      row.cursor = 'pointer';
+      row.hitArea = new PIXI.Rectangle(0, 0, penWidth, scale(PEN_ROW_HEIGHT));
+      row.on('pointertap', () => this.togglePen(pen.id));
+      this.rowsContainer.addChild(row);
+
+      const allowed = isPenAllowed(pen.id, this.level.allowedPens);
+      const check = UIFactory.createIcon(allowed ? '\uF26C' : '\uF584', scale(16), allowed ? 0x37A4E9 : 0xAAAAAA);
+      check.position.set(scale(20), scale(PEN_ROW_HEIGHT) / 2);
+      row.addChild(check);
+
+      const swatch = new PIXI.Graphics();
+      swatch.circle(scale(42), scale(PEN_ROW_HEIGHT) / 2, scale(6));
+      swatch.fill(pen.color);
+      row.addChild(swatch);
+
+      const name = new PIXI.Text({
+        text: t(`pen.names.${pen.id}` as TranslationKey),
+        style: { fontFamily: 'Arial', fontSize: 13, fill: allowed ? 0xFFFFFF : 0xAAAAAA }
+      });
+      name.anchor.set(0, 0.5);
+      name.position.set(scale(56), scale(PEN_ROW_HEIGHT) / 2);
+      row.addChild(name);
+    });
+
+    // Tags (used by level search)
+    const tagsY = pensY + (PEN_ROWS + 1) * scale(PEN_ROW_HEIGHT);
+    const tagsLabel = new PIXI.Text({
+      text: t('editor.tags'),
+      style: { fontFamily: 'Arial', fontSize: 14, fill: 0xFFFFFF }
+    });
+    tagsLabel.position.set(scale(10), tagsY);
+    this.rowsContainer.addChild(tagsLabel);
+
+    const tagWidth = rowWidth / TAG_COLUMNS;
+    LEVEL_TAGS.forEach((tag, i) => {
+      const cell = new PIXI.Container();
+      cell.position.set((i % TAG_COLUMNS) * tagWidth, tagsY + (Math.floor(i / TAG_COLUMNS) + 1) * scale(PEN_ROW_HEIGHT));
+      cell.eventMode = 'static';
+      cell.cursor = 'pointer';
+      cell.hitArea = new PIXI.Rectangle(0, 0, tagWidth, scale(PEN_ROW_HEIGHT));
+      cell.on('pointertap', () => this.toggleTag(tag));
+      this.rowsContainer.addChild(cell);
+
+      const selected = !!this.level.tags?.includes(tag);
+      const check = UIFactory.createIcon(selected ? '\uF26C' : '\uF584', scale(16), selected ? 0x37A4E9 : 0xAAAAAA);
+      check.position.set(scale(20), scale(PEN_ROW_HEIGHT) / 2);
+      cell.addChild(check);
+
+      const name = new PIXI.Text({
+        text: t(`tag.${tag}` as TranslationKey),
+        style: { fontFamily: 'Arial', fontSize: 13, fill: selected ? 0xFFFFFF : 0xAAAAAA }
+      });
+      name.anchor.set(0, 0.5);
+      name.position.set(scale(36), scale(PEN_ROW_HEIGHT) / 2);
+      cell.addChild(name);
+    });
+  }
+
+  /**
+   * A label and a one-line preview of a text field; tapping the preview edits it
+   */
+  private createTextRow(def: TextFieldDef, y: number, rowWidth: number): PIXI.Container {
+    const t = (key: TranslationKey) => LanguageManager.getInstance().t(key);
+    const row = new PIXI.Container();
+    row.position.set(0, y);
+
+    const fieldHeight = scale(TEXT_ROW_HEIGHT - 6);
+    const label = new PIXI.Text({
+      text: t(def.label),
+      style: { fontFamily: 'Arial', fontSize: 14, fill: 0xFFFFFF }
+    });
+    label.anchor.set(0, 0.5);
+    label.position.set(scale(10), fieldHeight / 2);
+    row.addChild(label);
+
+    const fieldX = scale(TEXT_LABEL_WIDTH);
+    const fieldWidth = rowWidth - fieldX - scale(10);
+    const field = new PIXI.Container();
+    field.position.set(fieldX, 0);
+    field.eventMode = 'static';
+    field.cursor = 'text';
+    row.addChild(field);
+
+    const fieldBg = new PIXI.Graphics();
+    fieldBg.roundRect(0, 0, fieldWidth, fieldHeight, scale(6));
+    fieldBg.fill(0x555555);
+    field.addChild(fieldBg);
+
+    // Line breaks are kept in the level but previewed as spaces
+    const value = this.level[def.key];
+    const preview = new PIXI.Text({
+      text: value ? value.replace(/\s+/g, ' ') : t('editor.tap_to_edit'),
+      style: { fontFamily: 'Arial', fontSize: 13, fill: value ? 0xFFFFFF : 0xAAAAAA }
+    });
+    preview.anchor.set(0, 0.5);
+    preview.position.set(scale(8), fieldHeight / 2);
+    UIFactory.fitText(preview, fieldWidth - scale(16));
+    field.addChild(preview);
+
+    field.on('pointertap', async (e) => {
+      // Multi-line fields open taller than their preview
+      const topLeft = field.getGlobalPosition();
+      const inputHeight = def.multiline ? fieldHeight * 4 : fieldHeight;
+      const text = await openTextInput(e, new PIXI.Rectangle(topLeft.x, topLeft.y, fieldWidth, inputHeight), {
+        value: this.level[def.key] ?? '',
+        maxLength: def.maxLength,
+        fontSize: 14,
+        multiline: def.multiline,
+      });
+      if (text === null || this.destroyed) return;
+      this.setText(def, text);
+    });
+
+    return row;
+  }
+
+  private setText(def: TextFieldDef, text: string): void {
+    const trimmed = text.trim();
+    if ((this.level[def.key] ?? '') === trimmed) return;
+
+    if (trimmed) {
+      this.level[def.key] = trimmed;
+    } else {
+      delete this.level[def.key];
+    }
+    this.onUpdate();
+    this.refreshRows();
+  }
+
+  /**
+   * Add or remove a tag. Adding is ignored once the level has MAX_TAGS,
+   * and removing the last tag drops `tags`.
+   */
+  private toggleTag(tag: LevelTag): void {
+    const tags = this.level.tags || [];
+    if (tags.includes(tag)) {
+      const remaining = tags.filter(other => other !== tag);
+      if (remaining.length > 0) this.level.tags = remaining; else delete this.level.tags;
+    } else if (tags.length < LEVEL_LIMITS.MAX_TAGS) {
+      // Keep LEVEL_TAGS order so the document does not depend on click order
+      this.level.tags = LEVEL_TAGS.filter(other => other === tag || tags.includes(other));
+    } else {
+      return;
+    }
+    this.onUpdate();
+    this.refreshRows();
+  }
+
+  /**
+   * Allow or disallow a pen. The last allowed pen cannot be removed,
+   * and allowing every pen clears the restriction.
+   */
+  private togglePen(penId: string): void {
+    const allowed = PENS.map(pen => pen.id).filter(id => isPenAllowed(id, this.level.allowedPens));
+    const index = allowed.indexOf(penId);
+
+    if (index === -1) {
+      allowed.push(penId);
+    } else if (allowed.length > 1) {
+      allowed.splice(index, 1);
+    } else {
+      return;
+    }
+
+    if (allowed.length === PENS.length) {
+      delete this.level.allowedPens;
+    } else {
+      // Keep PENS order so the document does not depend on click order
+      this.level.allowedPens = PENS.map(pen => pen.id).filter(id => allowed.includes(id));
+    }
+    this.onUpdate();
+    this.refreshRows();
+  }
+
+  private stepLimit(def: LimitDef, direction: number): void {
+    const current = def.getValue(this.level);
+    let next: number | undefined;
+
+    if (current === undefined) {
+      next = def.initial;
+    } else if (direction < 0 && current <= def.min) {
+      next = undefined;
+    } else {
+      next = Math.max(def.min, Math.min(def.max, current + direction * def.step));
+    }
+
+    def.setValue(this.level, next);
+    this.onUpdate();
+    this.refreshRows();
+  }
+}
@@ -133,7 +133,7 @@ export class ObjectSelector extends PIXI.Container {
         // Does it handle balls?
         // If not, we might need a fallback or update drawObjectIcon.
         // Let's assume balls are special or just draw a circle.
-      } else if (type === 'conveyor' || type === 'net' || type === 'ice' || type === 'laser' || type === 'seesaw' || type === 'button') {
+      } else if (type === 'conveyor' || type === 'net' || type === 'ice' || type === 'laser' || type === 'seesaw' || type === 'button' || type === 'portal' || type === 'spring') {
         subType = type;
         type = 'special';
       }
@@ -1,10 +1,12 @@
 
 import * as PIXI from 'pixi.js';
-import { scale } from '../../config';
+import { scale, SPRING_STRENGTH } from '../../config';
 import { UIFactory } from '../UIFactory';
 import type { EditorObject } from './ObjectSelector';
 import { DialControl } from './DialControl';
 import { LinearControl } from './LinearControl';
+import { DEFAULT_PATH_MODE, DEFAULT_PATH_SPEED } from '../../levels/ObstaclePath';
+import type { PathMode } from '../../levels/LevelSchema';
 
 type PropDef = {
   key: string,
@@ -18,6 +20,15 @@ type PropDef = {
   setValue?: (data: any, val: any) => void;
 };
 
+// Path modes as listed under 'Path'
+const PATH_MODE_LABELS: Record<PathMode, string> = {
+  linear: 'Linear',
+  loop: 'Loop',
+  ping_pong: 'Ping-pong',
+};
+// First waypoint of an obstacle that starts moving (the gizmo places the rest)
+const NEW_PATH_WAYPOINT = { x: 200, y: 0 };
+
 export class PropertyInspector extends PIXI.Container {
   private panelWidth: number;
   private panelHeight: number;
@@ -81,6 +92,21 @@ export class PropertyInspector extends PIXI.Container {
     const data = this.target.data;
     const type = this.target.type; // internal type string e.g. 'obstacle', 'falling'
 
+    if (type === 'portal') {
+      // The ends are placed with the gizmo handles; only the way they face is set here
+      const endAngle = (key: 'entrance' | 'exit', label: string): PropDef => ({
+        key: `${key}Angle`,
+        label,
+        type: 'number',
+        controlType: 'linear',
+        step: 360,
+        tickCount: 24,
+        getValue: (d) => d[key].angle || 0,
+        setValue: (d, v) => { d[key].angle = v; }
+      });
+      return [endAngle('entrance', 'In Angle'), endAngle('exit', 'Out Angle')];
+    }
+
     const props: PropDef[] = [
       { key: 'x', label: 'X', type: 'number', controlType: 'linear', step: 100 },
       { key: 'y', label: 'Y', type: 'number', controlType: 'linear', step: 100 }
@@ -137,6 +163,56 @@ export class PropertyInspector extends PIXI.Container {
       });
     }
 
+    if (type === 'spring') {
+      props.push({
+        key: 'strength',
+        label: 'Strength',
+        type: 'number',
+        controlType: 'dial',
+        getValue: (d) => d.strength ?? SPRING_STRENGTH,
+      });
+    }
+
+    // Moving obstacles
+    if (type === 'obstacle') {
+      props.push({
+        key: 'pathMode',
+        label: 'Path',
+        type: 'enum',
+        options: ['None', ...Object.values(PATH_MODE_LABELS)],
+        getValue: (d) => d.path ? PATH_MODE_LABELS[(d.path.mode ?? DEFAULT_PATH_MODE) as PathMode] : 'None',
+        setValue: (d, v) => {
+          const mode = (Object.keys(PATH_MODE_LABELS) as PathMode[]).find(m => PATH_MODE_LABELS[m] === v);
+          if (!mode) {
+            delete d.path;
+            return;
+          }
+          d.path = d.path ?? { waypoints: [{ ...NEW_PATH_WAYPOINT }] };
+          d.path.mode = mode;
+        }
+      });
+    }
+
+    if (data.path) {
+      props.push({
+        key: 'pathSpeed',
+        label: 'Speed',
+        type: 'number',
+        controlType: 'dial',
+        // The path may be gone by the next refresh (the gizmo removes it with its last waypoint)
+        getValue: (d) => d.path?.speed ?? DEFAULT_PATH_SPEED,
+        setValue: (d, v) => { if (d.path) d.path.speed = v; }
+      });
+      props.push({
+        key: 'pathDelay',
+        label: 'Delay',
+        type: 'number',
+        controlType: 'dial',
+        getValue: (d) => d.path?.delay ?? 0,
+        setValue: (d, v) => { if (d.path) d.path.delay = v; }
+      });
+    }
+
     // Enums
     if (type === 'obstacle' && (data.type === 'c_shape' || data.type === 'bezier')) {
       props.push({ key: 'cap', label: 'Cap', type: 'enum', options: ['round', 'butt'] });
@@ -282,7 +358,7 @@ export class PropertyInspector extends PIXI.Container {
             this.target.data[this.activeProp!.key] = opt;
           }
           this.onUpdate();
-          this.renderAdjuster(); // Re-render to update highlight
+          this.refreshParams(); // Re-render to update highlight (and the props that depend on the choice)
         }, 14);
         btn.position.set(-width / 2, y); // Centered
         this.adjusterContainer.addChild(btn);
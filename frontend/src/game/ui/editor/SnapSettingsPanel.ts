@@ -0,0 +1,132 @@
+import * as PIXI from 'pixi.js';
+import { scale } from '../../config';
+import { UIFactory } from '../UIFactory';
+import { LanguageManager, type TranslationKey } from '../../i18n/LanguageManager';
+import { SnapSettings, ANGLE_STEPS, type SnapOptions } from '../../editor/Snapping';
+
+const TOGGLE_ROW_HEIGHT = 28;
+const ROW_HEIGHT = 48;
+
+const TOGGLES: { key: 'grid' | 'objects', label: TranslationKey }[] = [
+  { key: 'grid', label: 'editor.snap_grid' },
+  { key: 'objects', label: 'editor.snap_objects' },
+];
+
+/**
+ * Panel for the editor's snapping preferences (stored per browser, not in the level)
+ */
+export class SnapSettingsPanel extends PIXI.Container {
+  private panelWidth: number;
+  private rowsContainer: PIXI.Container;
+
+  constructor(width: number) {
+    super();
+    this.panelWidth = width;
+
+    const t = (key: TranslationKey) => LanguageManager.getInstance().t(key);
+    const height = scale(50) + TOGGLES.length * scale(TOGGLE_ROW_HEIGHT) + scale(ROW_HEIGHT) + scale(40);
+
+    // Background
+    const bg = UIFactory.createCardBackground(width, height, 0x333333, scale(12));
+    bg.alpha = 0.8;
+    this.addChild(bg);
+
+    // Title
+    const title = new PIXI.Text({
+      text: t('editor.snapping'),
+      style: {
+        fontFamily: 'Arial',
+        fontSize: scale(18),
+        fill: 0xFFFFFF,
+        fontWeight: 'bold'
+      }
+    });
+    title.position.set(scale(20), scale(15));
+    this.addChild(title);
+
+    this.rowsContainer = new PIXI.Container();
+    this.rowsContainer.position.set(scale(10), scale(50));
+    this.addChild(this.rowsContainer);
+
+    this.refreshRows();
+  }
+
+  private refreshRows(): void {
+    this.rowsContainer.removeChildren().forEach(child => child.destroy({ children: true }));
+
+    const t = (key: TranslationKey) => LanguageManager.getInstance().t(key);
+    const options = SnapSettings.getInstance().get();
+    const rowWidth = this.panelWidth - scale(20);
+    const rowHeight = scale(TOGGLE_ROW_HEIGHT);
+    const btnSize = scale(30);
+
+    TOGGLES.forEach(({ key, label }, i) => {
+      const row = new PIXI.Container();
+      row.position.set(0, i * rowHeight);
+      row.eventMode = 'static';
+      row.cursor = 'pointer';
+      row.hitArea = new PIXI.Rectangle(0, 0, rowWidth, rowHeight);
+      row.on('pointertap', () => this.update({ [key]: !options[key] }));
+      this.rowsContainer.addChild(row);
+
+      const enabled = options[key];
+      const check = UIFactory.createIcon(enabled ? '\uF26C' : '\uF584', scale(16), enabled ? 0x37A4E9 : 0xAAAAAA);
+      check.position.set(scale(20), rowHeight / 2);
+      row.addChild(check);
+
+      const name = new PIXI.Text({
+        text: t(label),
+        style: { fontFamily: 'Arial', fontSize: 13, fill: enabled ? 0xFFFFFF : 0xAAAAAA }
+      });
+      name.anchor.set(0, 0.5);
+      name.position.set(scale(38), rowHeight / 2);
+      row.addChild(name);
+    });
+
+    // Rotation step
+    const angleRow = new PIXI.Container();
+    angleRow.position.set(0, TOGGLES.length * rowHeight + scale(6));
+    this.rowsContainer.addChild(angleRow);
+
+    const angleLabel = new PIXI.Text({
+      text: t('editor.snap_angle'),
+      style: { fontFamily: 'Arial', fontSize: 14, fill: 0xFFFFFF }
+    });
+    angleLabel.position.set(scale(10), 0);
+    angleRow.addChild(angleLabel);
+
+    const valueText = new PIXI.Text({
+      text: options.angleStep > 0 ? `${options.angleStep}°` : t('editor.snap_free'),
+      style: { fontFamily: 'Arial', fontSize: 16, fill: 0xFFFFFF, fontWeight: 'bold' }
+    });
+    valueText.anchor.set(0.5);
+    valueText.position.set(rowWidth / 2, scale(16) + btnSize / 2);
+    angleRow.addChild(valueText);
+
+    const minusBtn = UIFactory.createButton('-', btnSize, btnSize, 0x555555, 0xFFFFFF, () => this.stepAngle(-1), 16);
+    minusBtn.position.set(scale(10), scale(16));
+    angleRow.addChild(minusBtn);
+
+    const plusBtn = UIFactory.createButton('+', btnSize, btnSize, 0x555555, 0xFFFFFF, () => this.stepAngle(1), 16);
+    plusBtn.position.set(rowWidth - scale(10) - btnSize, scale(16));
+    angleRow.addChild(plusBtn);
+
+    const hint = new PIXI.Text({
+      text: t('editor.snap_hint'),
+      style: { fontFamily: 'Arial', fontSize: 11, fill: 0xAAAAAA, wordWrap: true, wordWrapWidth: rowWidth - scale(20) }
+    });
+    hint.position.set(scale(10), TOGGLES.length * rowHeight + scale(ROW_HEIGHT) + scale(12));
+    this.rowsContainer.addChild(hint);
+  }
+
+  private stepAngle(direction: number): void {
+    const current = ANGLE_STEPS.indexOf(SnapSettings.getInstance().get().angleStep);
+    const next = Math.max(0, Math.min(ANGLE_STEPS.length - 1, current + direction));
+    this.update({ angleStep: ANGLE_STEPS[next] });
+  }
+
+  private update(changes: Partial<SnapOptions>): void {
+    SnapSettings.getInstance().update(changes);
+    this.refreshRows();
+  }
+}
@@ -0,0 +1,161 @@
+import * as PIXI from 'pixi.js';
+import { getCanvasWidth, getCanvasHeight, scale } from '../../config';
+import { UIFactory } from '../UIFactory';
+import { LanguageManager, type TranslationKey } from '../../i18n/LanguageManager';
+import type { LevelData } from '../../levels/LevelSchema';
+
+const HINT_COLOR = 0xE0A800;
+
+/**
+ * Shown before playing a level that has a title, description or hint.
+ * The hint stays covered until the player asks for it.
+ */
+export class LevelInfoDialog extends PIXI.Container {
+  private level: LevelData;
+  private onPlay: () => void;
+  private isHintShown: boolean = false;
+
+  constructor(level: LevelData, onPlay: () => void) {
+    super();
+    this.level = level;
+    this.onPlay = onPlay;
+
+    this.refreshUI();
+
+    // Listen for resize
+    window.addEventListener('resize', this.handleResize);
+  }
+
+  /**
+   * Whether a level has anything for this dialog to show
+   */
+  public static hasInfo(level: LevelData): boolean {
+    return !!(level.title || level.description || level.hint);
+  }
+
+  private handleResize = (): void => {
+    this.refreshUI();
+  };
+
+  private refreshUI(): void {
+    this.removeChildren().forEach(child => child.destroy({ children: true }));
+
+    const t = (key: TranslationKey) => LanguageManager.getInstance().t(key);
+    const canvasWidth = getCanvasWidth();
+    const canvasHeight = getCanvasHeight();
+
+    this.zIndex = 2000;
+
+    // 1. Dimmed Background (Overlay) - blocks the game below
+    const overlay = UIFactory.createOverlay(canvasWidth, canvasHeight, 0.3);
+    overlay.eventMode = 'static';
+    this.addChild(overlay);
+
+    // 2. Content, laid out top-down so the dialog fits its text
+    const dialogWidth = scale(420);
+    const padding = scale(30);
+    const textWidth = dialogWidth - padding * 2;
+    const content = new PIXI.Container();
+    let y = padding;
+
+    const title = new PIXI.Text({
+      text: this.level.title || t('info.untitled'),
+      style: {
+        fontFamily: 'Arial',
+        fontSize: scale(22),
+        fill: '#555555',
+        fontWeight: 'bold',
+        align: 'center',
+        wordWrap: true,
+        breakWords: true,
+        wordWrapWidth: textWidth
+      }
+    });
+    title.anchor.set(0.5, 0);
+    title.position.set(dialogWidth / 2, y);
+    content.addChild(title);
+    y += title.height + scale(6);
+
+    const author = new PIXI.Text({
+      text: t('info.author') + (this.level.author || t('common.unknown')),
+      style: { fontFamily: 'Arial', fontSize: scale(14), fill: '#888888' }
+    });
+    author.anchor.set(0.5, 0);
+    author.position.set(dialogWidth / 2, y);
+    UIFactory.fitText(author, textWidth);
+    content.addChild(author);
+    y += author.height + scale(16);
+
+    if (this.level.description) {
+      const description = new PIXI.Text({
+        text: this.level.description,
+        style: {
+          fontFamily: 'Arial',
+          fontSize: scale(15),
+          fill: '#555555',
+          lineHeight: scale(21),
+          wordWrap: true,
+          breakWords: true,
+          wordWrapWidth: textWidth
+        }
+      });
+      description.position.set(padding, y);
+      content.addChild(description);
+      y += description.height + scale(16);
+    }
+
+    // 3. Hint - a button until revealed
+    if (this.level.hint) {
+      if (this.isHintShown) {
+        const icon = UIFactory.createIcon('\uF468', scale(18), HINT_COLOR);
+        icon.position.set(padding + scale(9), y + scale(11));
+        content.addChild(icon);
+
+        const hint = new PIXI.Text({
+          text: this.level.hint,
+          style: {
+            fontFamily: 'Arial',
+            fontSize: scale(15),
+            fill: '#555555',
+            fontStyle: 'italic',
+            lineHeight: scale(21),
+            wordWrap: true,
+            breakWords: true,
+            wordWrapWidth: textWidth - scale(28)
+          }
+        });
+        hint.position.set(padding + scale(28), y);
+        content.addChild(hint);
+        y += Math.max(hint.height, scale(22)) + scale(16);
+      } else {
+        const hintBtn = UIFactory.createButton(t('info.show_hint'), scale(160), scale(36), 0xFFF3CD, '#8A6D00', () => {
+          this.isHintShown = true;
+          this.refreshUI();
+        }, 14);
+        hintBtn.position.set((dialogWidth - scale(160)) / 2, y);
+        content.addChild(hintBtn);
+        y += scale(36) + scale(16);
+      }
+    }
+
+    // 4. Play Button
+    const btnWidth = scale(160);
+    const btnHeight = scale(44);
+    const playBtn = UIFactory.createButton(t('info.play'), btnWidth, btnHeight, 0x555555, '#FFFFFF', () => this.onPlay());
+    playBtn.position.set((dialogWidth - btnWidth) / 2, y + scale(4));
+    content.addChild(playBtn);
+    y += scale(4) + btnHeight + padding;
+
+    // 5. Dialog Container
+    const dialog = UIFactory.createCard(dialogWidth, y, 0xFFFFFF, 0);
+    dialog.position.set((canvasWidth - dialogWidth) / 2, Math.max(0, (canvasHeight - y) / 2));
+    dialog.eventMode = 'static';
+    dialog.addChild(content);
+    this.addChild(dialog);
+  }
+
+  destroy(options?: any): void {
+    window.removeEventListener('resize', this.handleResize);
+    super.destroy(options);
+  }
+}
@@ -0,0 +1,142 @@
+import * as PIXI from 'pixi.js';
+import { getCanvasWidth, getCanvasHeight, scale } from '../../config';
+import { UIFactory } from '../UIFactory';
+import { LanguageManager, type TranslationKey } from '../../i18n/LanguageManager';
+import { MAX_STARS, type ClearResult } from '../../levels/StarRating';
+
+export interface ResultsDialogCallbacks {
+  onRetry: () => void;
+  onWatch: () => void;
+  onHome: () => void;
+}
+
+const STAR_COLOR = 0xFFC107;
+const STAR_EMPTY_COLOR = 0xDDDDDD;
+
+/**
+ * Shown after a clear: the stars earned, the stats they were rated on
+ * and what to do next.
+ */
+export class ResultsDialog extends PIXI.Container {
+  private result: ClearResult;
+  private isNewBest: boolean;
+  private callbacks: ResultsDialogCallbacks;
+
+  constructor(result: ClearResult, isNewBest: boolean, callbacks: ResultsDialogCallbacks) {
+    super();
+    this.result = result;
+    this.isNewBest = isNewBest;
+    this.callbacks = callbacks;
+
+    this.refreshUI();
+
+    // Listen for resize
+    window.addEventListener('resize', this.handleResize);
+  }
+
+  private handleResize = (): void => {
+    this.refreshUI();
+  };
+
+  private refreshUI(): void {
+    this.removeChildren().forEach(child => child.destroy({ children: true }));
+
+    const t = (key: TranslationKey) => LanguageManager.getInstance().t(key);
+    const canvasWidth = getCanvasWidth();
+    const canvasHeight = getCanvasHeight();
+
+    this.zIndex = 2000;
+
+    // 1. Dimmed Background (Overlay) - blocks the game below
+    const overlay = UIFactory.createOverlay(canvasWidth, canvasHeight, 0.3);
+    overlay.eventMode = 'static';
+    this.addChild(overlay);
+
+    // 2. Dialog Container
+    const dialogWidth = scale(420);
+    const dialogHeight = scale(320);
+    const dialog = UIFactory.createCard(dialogWidth, dialogHeight, 0xFFFFFF, 0);
+    dialog.position.set((canvasWidth - dialogWidth) / 2, (canvasHeight - dialogHeight) / 2);
+    dialog.eventMode = 'static';
+    this.addChild(dialog);
+
+    // 3. Stars
+    const starSize = scale(56);
+    const starGap = scale(12);
+    const starsWidth = MAX_STARS * starSize + (MAX_STARS - 1) * starGap;
+    for (let i = 0; i < MAX_STARS; i++) {
+      const earned = i < this.result.stars;
+      const star = UIFactory.createIcon(earned ? '\uF586' : '\uF588', starSize, earned ? STAR_COLOR : STAR_EMPTY_COLOR);
+      star.position.set((dialogWidth - starsWidth) / 2 + i * (starSize + starGap) + starSize / 2, scale(60));
+      dialog.addChild(star);
+    }
+
+    // 4. New Best Label
+    if (this.isNewBest) {
+      const bestText = new PIXI.Text({
+        text: t('results.new_best'),
+        style: {
+          fontFamily: 'Arial',
+          fontSize: scale(16),
+          fill: '#E0A800',
+          fontWeight: 'bold'
+        }
+      });
+      bestText.anchor.set(0.5);
+      bestText.position.set(dialogWidth / 2, scale(112));
+      dialog.addChild(bestText);
+    }
+
+    // 5. Stats (Strokes / Ink / Time)
+    const stats = [
+      { icon: '\uF4C9', label: t('results.strokes'), value: String(this.result.strokes) },
+      { icon: '\uF30B', label: t('results.ink'), value: String(Math.round(this.result.ink)) },
+      { icon: '\uF597', label: t('results.time'), value: `${this.result.time.toFixed(2)}s` },
+    ];
+    const columnWidth = (dialogWidth - scale(40)) / stats.length;
+    stats.forEach((stat, i) => {
+      const centerX = scale(20) + columnWidth * (i + 0.5);
+
+      const icon = UIFactory.createIcon(stat.icon, scale(20), '#888888');
+      icon.position.set(centerX, scale(150));
+      dialog.addChild(icon);
+
+      const valueText = new PIXI.Text({
+        text: stat.value,
+        style: { fontFamily: 'Arial', fontSize: scale(22), fill: '#555555', fontWeight: 'bold' }
+      });
+      valueText.anchor.set(0.5);
+      valueText.position.set(centerX, scale(182));
+      dialog.addChild(valueText);
+
+      const labelText = new PIXI.Text({
+        text: stat.label,
+        style: { fontFamily: 'Arial', fontSize: scale(13), fill: '#888888' }
+      });
+      labelText.anchor.set(0.5);
+      labelText.position.set(centerX, scale(208));
+      dialog.addChild(labelText);
+    });
+
+    // 6. Buttons
+    const buttons = [
+      { text: t('results.home'), color: 0xDDDDDD, textColor: '#555555', onClick: this.callbacks.onHome },
+      { text: t('results.watch'), color: 0xDDDDDD, textColor: '#555555', onClick: this.callbacks.onWatch },
+      { text: t('results.retry'), color: 0x555555, textColor: '#FFFFFF', onClick: this.callbacks.onRetry },
+    ];
+    const btnWidth = scale(116);
+    const btnHeight = scale(44);
+    const btnGap = scale(12);
+    const buttonsWidth = buttons.length * btnWidth + (buttons.length - 1) * btnGap;
+    buttons.forEach((b, i) => {
+      const btn = UIFactory.createButton(b.text, btnWidth, btnHeight, b.color, b.textColor, () => b.onClick());
+      btn.position.set((dialogWidth - buttonsWidth) / 2 + i * (btnWidth + btnGap), scale(250));
+      dialog.addChild(btn);
+    });
+  }
+
+  destroy(options?: any): void {
+    window.removeEventListener('resize', this.handleResize);
+    super.destroy(options);
+  }
+}
@@ -0,0 +1,111 @@
+import * as PIXI from 'pixi.js';
+import { getCanvasWidth, getCanvasHeight, scale } from '../../config';
+import { UIFactory } from '../UIFactory';
+import { LanguageManager, type TranslationKey } from '../../i18n/LanguageManager';
+import { SHORTCUT_HELP } from '../../editor/EditorShortcuts';
+
+const ROW_HEIGHT = 30;
+
+/**
+ * Lists the editor's keyboard shortcuts. Closed by tapping outside, the close button, Esc or ?.
+ */
+export class ShortcutsDialog extends PIXI.Container {
+  private onClose: () => void;
+
+  constructor(onClose: () => void) {
+    super();
+    this.onClose = onClose;
+
+    this.refreshUI();
+
+    // Listen for resize
+    window.addEventListener('resize', this.handleResize);
+  }
+
+  private handleResize = (): void => {
+    this.refreshUI();
+  };
+
+  private refreshUI(): void {
+    this.removeChildren().forEach(child => child.destroy({ children: true }));
+
+    const t = (key: TranslationKey) => LanguageManager.getInstance().t(key);
+    const canvasWidth = getCanvasWidth();
+    const canvasHeight = getCanvasHeight();
+
+    this.zIndex = 2000;
+
+    // 1. Dimmed Background (Overlay)
+    const overlay = UIFactory.createOverlay(canvasWidth, canvasHeight, 0.3);
+    overlay.eventMode = 'static';
+    overlay.cursor = 'pointer';
+    overlay.on('pointertap', () => this.onClose());
+    this.addChild(overlay);
+
+    // 2. Dialog Container
+    const dialogWidth = scale(520);
+    const dialogHeight = scale(80) + SHORTCUT_HELP.length * scale(ROW_HEIGHT);
+    const dialog = UIFactory.createCard(dialogWidth, dialogHeight, 0xFFFFFF, 0);
+    dialog.position.set((canvasWidth - dialogWidth) / 2, (canvasHeight - dialogHeight) / 2);
+    // Prevent clicks on dialog from triggering overlay dismissal
+    dialog.eventMode = 'static';
+    dialog.on('pointertap', (e) => e.stopPropagation());
+    this.addChild(dialog);
+
+    // 3. Title
+    const title = new PIXI.Text({
+      text: t('shortcuts.title'),
+      style: {
+        fontFamily: 'Arial',
+        fontSize: scale(22),
+        fill: '#555555',
+        fontWeight: 'bold'
+      }
+    });
+    title.position.set(scale(30), scale(24));
+    dialog.addChild(title);
+
+    // 4. Shortcut Rows (keys on the left, action on the right)
+    const keysX = scale(30);
+    const labelX = scale(230);
+    SHORTCUT_HELP.forEach(({ keys, label }, i) => {
+      const y = scale(70) + i * scale(ROW_HEIGHT);
+
+      const keysText = new PIXI.Text({
+        text: keys,
+        style: { fontFamily: 'Arial', fontSize: scale(15), fill: '#37A4E9', fontWeight: 'bold' }
+      });
+      keysText.position.set(keysX, y);
+      dialog.addChild(keysText);
+
+      const labelText = new PIXI.Text({
+        text: t(label),
+        style: { fontFamily: 'Arial', fontSize: scale(15), fill: '#555555' }
+      });
+      labelText.position.set(labelX, y);
+      dialog.addChild(labelText);
+    });
+
+    // 5. Close Button (X) - Top Right
+    const closeBtnSize = scale(30);
+    const closeBtn = new PIXI.Container();
+    closeBtn.position.set(dialogWidth - closeBtnSize - scale(10), scale(10));
+    dialog.addChild(closeBtn);
+
+    const closeIcon = UIFactory.createIcon('\uF622', scale(24), '#888888');
+    closeIcon.position.set(closeBtnSize / 2, closeBtnSize / 2 + scale(2)); // Nudge
+    closeBtn.addChild(closeIcon);
+
+    closeBtn.eventMode = 'static';
+    closeBtn.cursor = 'pointer';
+    closeBtn.on('pointertap', (e) => {
+      e.stopPropagation();
+      this.onClose();
+    });
+  }
+
+  destroy(options?: any): void {
+    window.removeEventListener('resize', this.handleResize);
+    super.destroy(options);
+  }
+}
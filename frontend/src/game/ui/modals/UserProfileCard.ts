@@ -10,7 +10,7 @@ import { LanguageManager, type TranslationKey } from '../../i18n/LanguageManager
 export class UserProfileCard extends PIXI.Container {
   private onCloseCallback: () => void;
   private onViewLevelsCallback: (userId: string) => void;
-  private onLikeToggleCallback?: () => void;
+  private onLikeToggleCallback?: (liked: boolean) => Promise<void>;
   private onDeleteCallback?: (levelId: string) => void;
   private allowDelete: boolean;
   private levelData: LevelData;
@@ -24,7 +24,7 @@ export class UserProfileCard extends PIXI.Container {
     getThumbnail: (width: number, height: number) => PIXI.Container,
     onClose: () => void,
     onViewLevels: (userId: string) => void,
-    onLikeToggle?: () => void,
+    onLikeToggle?: (liked: boolean) => Promise<void>,
     onDelete?: (levelId: string) => void,
     allowDelete: boolean = false,
     authorLevelCount: number = 0
@@ -318,12 +318,11 @@ export class UserProfileCard extends PIXI.Container {
     container.eventMode = 'static';
     container.cursor = 'pointer';
 
-    let liked = !!this.levelData.isLikedByCurrentUser;
-    const baseCount = liked ? (initialLikes - 1) : initialLikes;
-
+    // Drawn from levelData, which LevelService updates when the like is sent
+    // and again once the server answers (or restores if the request fails)
     const updateVisuals = () => {
-      const currentCount = baseCount + (liked ? 1 : 0);
-      countText.text = currentCount.toString();
+      const liked = !!this.levelData.isLikedByCurrentUser;
+      countText.text = (this.levelData.likes || 0).toString();
       updateLayout();
 
       if (liked) {
@@ -344,12 +343,13 @@ export class UserProfileCard extends PIXI.Container {
 
     updateVisuals();
 
-    container.on('pointertap', () => {
-      liked = !liked;
-      this.levelData.isLikedByCurrentUser = liked;
-      this.levelData.likes = baseCount + (liked ? 1 : 0);
-      if (this.onLikeToggleCallback) this.onLikeToggleCallback();
+    container.on('pointertap', async () => {
+      if (!this.onLikeToggleCallback) return;
+      const request = this.onLikeToggleCallback(!this.levelData.isLikedByCurrentUser);
       updateVisuals();
+      await request;
+      // The card may have been closed or redrawn meanwhile
+      if (!container.destroyed) updateVisuals();
     });
 
     return container;
@@ -0,0 +1,41 @@
+/**
+ * File IO Helpers
+ * Download text as a file and read a text file picked by the user
+ */
+
+/**
+ * Trigger a browser download of the given text
+ */
+export function downloadTextFile(filename: string, text: string, mimeType: string = 'application/json'): void {
+  const blob = new Blob([text], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Let the user pick a file and resolve with its text content.
+ * Resolves with null if the picker is closed without a selection.
+ */
+export function pickTextFile(accept: string = '.json,application/json'): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.text().then(resolve, reject);
+    });
+    input.addEventListener('cancel', () => resolve(null));
+    input.click();
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * Line Geometry
+ * Segment and corner math shared by the drawn line's graphics and its colliders,
+ * so both get the same corner styles
+ */
+
+import type { Point } from './douglasPeucker';
+
+/** Threshold angle in radians (30 degrees) */
+export const MITER_ANGLE_THRESHOLD = Math.PI / 6; // 30 degrees
+
+/** Maximum miter extension to prevent extremely long spikes */
+export const MAX_MITER_RATIO = 3.0;
+
+export interface SegmentInfo {
+  p1: Point;
+  p2: Point;
+  dx: number;
+  dy: number;
+  length: number;
+  angle: number;
+  // Normalized vectors
+  dirX: number;
+  dirY: number;
+  // Left normal vector (relative to direction in screen coords)
+  leftX: number;
+  leftY: number;
+  // Right normal vector
+  rightX: number;
+  rightY: number;
+}
+
+/**
+ * Calculate segment info for line segments
+ */
+export function calculateSegmentInfo(p1: Point, p2: Point): SegmentInfo {
+  const dx = p2.x - p1.x;
+  const dy = p2.y - p1.y;
+  const length = Math.sqrt(dx * dx + dy * dy);
+  const angle = Math.atan2(dy, dx);
+
+  const ndx = length > 0 ? dx / length : 0;
+  const ndy = length > 0 ? dy / length : 0;
+
+  // In Screen Coords (Y Down):
+  // Dir = (dx, dy)
+  // Left Normal = (dy, -dx)  <-- Rotate -90 deg
+  // Right Normal = (-dy, dx) <-- Rotate +90 deg
+
+  const leftX = ndy;
+  const leftY = -ndx;
+
+  const rightX = -ndy;
+  const rightY = ndx;
+
+  return { p1, p2, dx, dy, length, angle, dirX: ndx, dirY: ndy, leftX, leftY, rightX, rightY };
+}
+
+/**
+ * Calculate the turn angle at a junction
+ * Returns radians [0, PI]. 0 = Straight, PI = U-turn.
+ */
+export function calculateTurnAngle(seg1: SegmentInfo, seg2: SegmentInfo): number {
+  const dot = seg1.dirX * seg2.dirX + seg1.dirY * seg2.dirY;
+  const clampedDot = Math.max(-1, Math.min(1, dot));
+  return Math.PI - Math.acos(clampedDot);
+}
+
+/**
+ * Determine if the turn is to the Right (Clockwise)
+ * Screen Coords (Y Down):
+ * Cross Product (z) = x1*y2 - y1*x2
+ * Positive = Right Turn (CW)
+ * Negative = Left Turn (CCW)
+ */
+export function isRightTurn(seg1: SegmentInfo, seg2: SegmentInfo): boolean {
+  const cross = seg1.dirX * seg2.dirY - seg1.dirY * seg2.dirX;
+  return cross > 0;
+}
+
+/**
+ * Find intersection of two lines defined by point and direction
+ */
+export function lineIntersection(
+  p1: Point, dir1: { x: number; y: number },
+  p2: Point, dir2: { x: number; y: number }
+): Point | null {
+  const cross = dir1.x * dir2.y - dir1.y * dir2.x;
+  if (Math.abs(cross) < 1e-10) return null;
+
+  const dx = p2.x - p1.x;
+  const dy = p2.y - p1.y;
+  const t = (dx * dir2.y - dy * dir2.x) / cross;
+
+  return {
+    x: p1.x + t * dir1.x,
+    y: p1.y + t * dir1.y
+  };
+}